@@ -0,0 +1,50 @@
+// Ejecutor local del programador de vencimientos de propuestas, para entornos sin cron.
+// Llama a /api/cron/proposal-expiry de la aplicación en marcha cada PROPOSAL_EXPIRY_INTERVAL_MINUTES minutos,
+// con el CRON_SECRET del entorno (el mismo que usa la aplicación).
+//
+//   node scripts/proposal-expiry.mjs            pasadas periódicas hasta detenerlo (Ctrl+C)
+//   node scripts/proposal-expiry.mjs --once     una sola pasada
+//   node scripts/proposal-expiry.mjs --dry-run  informa qué haría sin cambiar nada
+
+const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+const intervalMinutes = parseInt(process.env.PROPOSAL_EXPIRY_INTERVAL_MINUTES || '60')
+const once = process.argv.includes('--once')
+const dryRun = process.argv.includes('--dry-run')
+
+if (!process.env.CRON_SECRET) {
+  console.error('Defina CRON_SECRET: la aplicación rechaza las pasadas sin él')
+  process.exit(1)
+}
+
+async function runPass() {
+  const url = `${baseUrl}/api/cron/proposal-expiry${dryRun ? '?dryRun=true' : ''}`
+  const headers = { Authorization: `Bearer ${process.env.CRON_SECRET}` }
+
+  try {
+    const response = await fetch(url, { method: 'POST', headers })
+    const summary = await response.json()
+    if (!response.ok && response.status !== 207) {
+      console.error(`[${new Date().toISOString()}] Error ${response.status}:`, summary.error || summary)
+      return false
+    }
+
+    console.log(
+      `[${summary.ran_at}] ${summary.checked} análisis revisados · ${summary.expired.length} vencidos · ` +
+      `${summary.reminded.length} recordatorios${summary.dry_run ? ' (simulación)' : ''}`
+    )
+    for (const failure of summary.failed) {
+      console.warn(`  ${failure.id}: ${failure.error}`)
+    }
+    return summary.failed.length === 0
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] No se pudo contactar ${url}:`, error.message)
+    return false
+  }
+}
+
+if (once || dryRun) {
+  process.exitCode = (await runPass()) ? 0 : 1
+} else {
+  await runPass()
+  setInterval(runPass, intervalMinutes * 60 * 1000)
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { SavedAnalysis, AnalysisFilters, AnalysisListResponse } from '@/types/saved-analysis';
 import Link from 'next/link';
+import { importLocalAnalysesOnce } from '@/lib/analysisApi';
+import AnalysisHistoryPanel from '@/components/AnalysisHistoryPanel';
 
 export default function AnalysesPage() {
   const [analyses, setAnalyses] = useState<SavedAnalysis[]>([]);
@@ -17,6 +19,7 @@ export default function AnalysesPage() {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [showFilters, setShowFilters] = useState(false);
+  const [historyAnalysis, setHistoryAnalysis] = useState<SavedAnalysis | null>(null);
 
   const statusOptions = [
     { value: '', label: 'Todos los estados' },
@@ -24,6 +27,7 @@ export default function AnalysesPage() {
     { value: 'sent_to_client', label: 'Enviado al cliente' },
     { value: 'client_responded', label: 'Cliente respondió' },
     { value: 'published', label: 'Publicado' },
+    { value: 'expired', label: 'Vencido' },
     { value: 'archived', label: 'Archivado' },
   ];
 
@@ -32,6 +36,7 @@ export default function AnalysesPage() {
     sent_to_client: 'bg-blue-100 text-blue-800',
     client_responded: 'bg-yellow-100 text-yellow-800',
     published: 'bg-green-100 text-green-800',
+    expired: 'bg-orange-100 text-orange-800',
     archived: 'bg-red-100 text-red-800',
   };
 
@@ -40,6 +45,7 @@ export default function AnalysesPage() {
     sent_to_client: 'Enviado',
     client_responded: 'Respondido',
     published: 'Publicado',
+    expired: 'Vencido',
     archived: 'Archivado',
   };
 
@@ -47,6 +53,11 @@ export default function AnalysesPage() {
   const loadAnalyses = async () => {
     setLoading(true);
     try {
+      // Los análisis que quedaron en este navegador se suben antes de la primera consulta
+      await importLocalAnalysesOnce().catch(importError => {
+        console.warn('No se pudieron subir los análisis locales:', importError);
+      });
+
       const queryParams = new URLSearchParams();
       
       if (filters.search) queryParams.set('search', filters.search);
@@ -101,14 +112,19 @@ export default function AnalysesPage() {
   };
 
   // Función para cambiar el estado de un análisis
-  const updateAnalysisStatus = async (id: string, newStatus: SavedAnalysis['metadata']['status']) => {
+  // extraFields: datos del cliente que exige la transición (p. ej. el correo para enviar)
+  const updateAnalysisStatus = async (
+    id: string,
+    newStatus: SavedAnalysis['metadata']['status'],
+    extraFields: Partial<Pick<SavedAnalysis['metadata'], 'client_email' | 'client_name'>> = {}
+  ) => {
     try {
       const response = await fetch(`/api/analyses/${id}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ ...extraFields, status: newStatus }),
       });
 
       if (response.ok) {
@@ -122,6 +138,13 @@ export default function AnalysesPage() {
     }
   };
 
+  // Enviar al cliente requiere su correo
+  const sendToClient = (analysis: SavedAnalysis) => {
+    const clientEmail = prompt('Correo del cliente:', analysis.metadata.client_email || '');
+    if (!clientEmail) return;
+    updateAnalysisStatus(analysis.id, 'sent_to_client', { client_email: clientEmail.trim() });
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('es-CL', {
       style: 'currency',
@@ -406,16 +429,24 @@ export default function AnalysesPage() {
                       </Link>
                       
                       <div className="flex items-center space-x-1">
-                        {analysis.metadata.status === 'draft' && (
+                        {(analysis.metadata.status === 'draft' || analysis.metadata.status === 'expired') && (
                           <button
-                            onClick={() => updateAnalysisStatus(analysis.id, 'sent_to_client')}
+                            onClick={() => sendToClient(analysis)}
                             className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                            title="Enviar al cliente"
+                            title={analysis.metadata.status === 'expired' ? 'Reenviar al cliente con un plazo nuevo' : 'Enviar al cliente'}
                           >
                             📨
                           </button>
                         )}
                         
+                        <button
+                          onClick={() => setHistoryAnalysis(analysis)}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Historial de cambios"
+                        >
+                          🕘
+                        </button>
+
                         <button
                           onClick={() => deleteAnalysis(analysis.id)}
                           className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -457,6 +488,36 @@ export default function AnalysesPage() {
           </>
         )}
       </div>
+
+      {/* Historial de cambios */}
+      {historyAnalysis && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-2xl p-6 w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-xl font-bold text-gray-900">🕘 Historial de cambios</h3>
+                <p className="text-sm text-gray-600">{historyAnalysis.title}</p>
+              </div>
+              <button
+                onClick={() => setHistoryAnalysis(null)}
+                className="text-gray-500 hover:text-gray-800 text-xl"
+                title="Cerrar"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="overflow-y-auto">
+              <AnalysisHistoryPanel
+                analysisId={historyAnalysis.id}
+                onRestored={(restored) => {
+                  setHistoryAnalysis(restored);
+                  loadAnalyses();
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
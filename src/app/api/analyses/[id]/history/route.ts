@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisHistoryResponse } from '@/types/saved-analysis';
+import { getAnalysisById, getAnalysisHistory } from '@/lib/analysisStore';
+import { validateId } from '@/lib/validation';
+import { handleApiError } from '@/lib/errorHandler';
+
+// GET - Historial de revisiones de un análisis (la más reciente primero)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const idValidation = validateId(id);
+    if (!idValidation.isValid) {
+      return NextResponse.json(
+        { error: 'ID inválido', details: idValidation.errors },
+        { status: 400 }
+      );
+    }
+
+    // Un análisis eliminado sigue teniendo historial
+    const revisions = await getAnalysisHistory(id);
+    if (revisions.length === 0 && !(await getAnalysisById(id))) {
+      return NextResponse.json(
+        { error: 'Análisis no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const response: AnalysisHistoryResponse = {
+      analysis_id: id,
+      revisions: revisions
+        .reverse()
+        .map(({ snapshot, ...revision }) => ({ ...revision, restorable: Boolean(snapshot) })),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    return handleApiError(error, `GET /api/analyses/${params?.id}/history`, 'Error al obtener el historial del análisis');
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisById, restoreAnalysisRevision } from '@/lib/analysisStore';
+import { validateId } from '@/lib/validation';
+import { handleApiError } from '@/lib/errorHandler';
+import { resolveAuthor } from '@/lib/analysisHistory';
+
+// POST - Restaurar el análisis al estado de una revisión ({ revision: número })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const idValidation = validateId(id);
+    if (!idValidation.isValid) {
+      return NextResponse.json(
+        { error: 'ID inválido', details: idValidation.errors },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const revision = Number(body?.revision);
+    if (!Number.isInteger(revision) || revision < 1) {
+      return NextResponse.json(
+        { error: 'Debe indicar el número de revisión a restaurar' },
+        { status: 400 }
+      );
+    }
+
+    const current = await getAnalysisById(id);
+    const restored = await restoreAnalysisRevision(id, revision, resolveAuthor(request, current?.metadata.broker_email));
+
+    if (!restored) {
+      return NextResponse.json(
+        { error: 'Revisión no encontrada o sin copia para restaurar' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      analysis: restored,
+      message: `Análisis restaurado a la revisión ${revision}`
+    });
+  } catch (error) {
+    return handleApiError(error, `POST /api/analyses/${params?.id}/restore`, 'Error al restaurar el análisis');
+  }
+}
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SavedAnalysis, SavedAnalysisFormData, formDataToSavedAnalysis } from '@/types/saved-analysis';
-import { getAnalysisById, saveAnalysis, deleteAnalysis, updateAnalysis } from '@/lib/analysisStore';
-import { validateId, validateRentalAnalysis } from '@/lib/validation';
+import { getAllAnalyses, getAnalysisById, modifyAnalysis, deleteAnalysis } from '@/lib/analysisStore';
+import { validateId, validateOfficeId, validateProposalClientFields, validateRentalAnalysis } from '@/lib/validation';
 import { handleApiError } from '@/lib/errorHandler';
+import { getCurrentPlanCatalog } from '@/lib/planCatalogStore';
+import { getSimilarityWeightsForOffice } from '@/lib/similarityWeightsStore';
+import { withoutLegacyComparableFields } from '@/lib/comparables';
+import { calculateRentalProfitability, formToAnalysisInput } from '@/lib/profitability';
+import { locateForStorage } from '@/lib/geocodingService';
+import { resolveAuthor } from '@/lib/analysisHistory';
+import { PROPOSAL_TRANSITIONS, transitionProposal, type TransitionResult } from '@/lib/proposalLifecycle';
+import type { ProposalStatus } from '@/types/rental';
+import { buildMarketRentIndex, marketBenchmarkFor } from '@/lib/marketRentIndex';
 
 // GET - Obtener un análisis específico por ID
 export async function GET(
@@ -21,7 +30,7 @@ export async function GET(
       );
     }
 
-    const analysis = getAnalysisById(id);
+    const analysis = await getAnalysisById(id);
 
     if (!analysis) {
       return NextResponse.json(
@@ -63,7 +72,19 @@ export async function PUT(
       );
     }
 
-    const formData: SavedAnalysisFormData = body;
+    // El catálogo de planes y los comparables se guardan ya validados
+    // (los cuerpos con campos comparable_N_* llegan convertidos a la lista); sin catálogo ni pesos de
+    // similitud se usan los de la oficina
+    const planDefinitions = validation.data!.plan_definitions;
+    const formData: SavedAnalysisFormData = {
+      ...withoutLegacyComparableFields(body),
+      comparables: validation.data!.comparables,
+      similarity_weights: validation.data!.similarity_weights
+        || await getSimilarityWeightsForOffice(validateOfficeId(body.office_id).data),
+      plan_catalog: body.plan_catalog && planDefinitions
+        ? { ...body.plan_catalog, plans: planDefinitions }
+        : await getCurrentPlanCatalog()
+    };
 
     // Validaciones adicionales
     if (!formData.title || formData.title.trim().length < 3) {
@@ -73,7 +94,7 @@ export async function PUT(
       );
     }
 
-    const existingAnalysis = getAnalysisById(id);
+    const existingAnalysis = await getAnalysisById(id);
 
     if (!existingAnalysis) {
       return NextResponse.json(
@@ -82,24 +103,45 @@ export async function PUT(
       );
     }
 
+    // La ubicación (comuna, región y precisión) la resuelve el servicio de geocodificación, no el cliente
+    formData.property_location = await locateForStorage(formData.property_address);
+
+    // La referencia de mercado la calcula el servidor con los demás análisis guardados; la del cuerpo se ignora
+    formData.market_benchmark = marketBenchmarkFor(
+      buildMarketRentIndex(await getAllAnalyses(), new Date(), { excludeId: existingAnalysis.id }),
+      formData.property_address,
+      parseInt(formData.bedrooms) || undefined,
+      formData.property_location
+    );
+
+    // Recalcular indicadores con los datos actualizados
+    const { analysis, calculations } = calculateRentalProfitability(
+      formToAnalysisInput(formData, formData.plan_catalog, formData.similarity_weights, formData.market_benchmark)
+    );
+
     // Convertir datos del formulario a análisis guardado
-    const updatedAnalysisData = formDataToSavedAnalysis(formData, existingAnalysis.calculations);
+    const updatedAnalysisData = formDataToSavedAnalysis(formData, calculations, analysis.market_study.comparable_properties);
 
-    // Actualizar análisis manteniendo algunos metadatos
-    const updatedAnalysis: SavedAnalysis = {
-      id: existingAnalysis.id,
+    // Actualizar análisis manteniendo algunos metadatos. Los metadatos se toman de la versión guardada en el
+    // mismo paso de escritura: un cambio de estado simultáneo no se pierde
+    const updatedAnalysis = await modifyAnalysis(id, current => ({
+      id: current.id,
       ...updatedAnalysisData,
       metadata: {
-        ...existingAnalysis.metadata,
+        ...current.metadata,
         updated_at: new Date().toISOString(),
-        broker_email: formData.broker_email || existingAnalysis.metadata.broker_email,
-        tags: formData.tags || existingAnalysis.metadata.tags,
-        notes: formData.notes !== undefined ? formData.notes : existingAnalysis.metadata.notes,
+        broker_email: formData.broker_email || current.metadata.broker_email,
+        tags: formData.tags || current.metadata.tags,
+        notes: formData.notes !== undefined ? formData.notes : current.metadata.notes,
       },
-    };
+    }), resolveAuthor(request, formData.broker_email, existingAnalysis.metadata.broker_email));
 
-    // Guardar la actualización
-    saveAnalysis(updatedAnalysis);
+    if (!updatedAnalysis) {
+      return NextResponse.json(
+        { error: 'Análisis no encontrado' },
+        { status: 404 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
@@ -128,7 +170,7 @@ export async function DELETE(
       );
     }
 
-    const analysis = getAnalysisById(id);
+    const analysis = await getAnalysisById(id);
 
     if (!analysis) {
       return NextResponse.json(
@@ -147,7 +189,7 @@ export async function DELETE(
     }
 
     // Eliminar análisis
-    const deleted = deleteAnalysis(id);
+    const deleted = await deleteAnalysis(id, resolveAuthor(request, analysis.metadata.broker_email));
     
     if (!deleted) {
       return NextResponse.json(
@@ -190,7 +232,7 @@ export async function PATCH(
       );
     }
 
-    const existingAnalysis = getAnalysisById(id);
+    const existingAnalysis = await getAnalysisById(id);
 
     if (!existingAnalysis) {
       return NextResponse.json(
@@ -200,35 +242,73 @@ export async function PATCH(
     }
 
     // Permitir actualización de campos específicos
-    const allowedUpdates = ['status', 'tags', 'notes', 'title'];
+    const allowedUpdates = ['tags', 'notes', 'title'];
     const updates: Partial<SavedAnalysis> = {};
+    const metadataUpdates: Partial<SavedAnalysis['metadata']> = {};
 
     for (const [key, value] of Object.entries(body)) {
       if (allowedUpdates.includes(key)) {
-        if (key === 'status' || key === 'tags' || key === 'notes') {
-          updates.metadata = {
-            ...existingAnalysis.metadata,
-            [key]: value,
-            updated_at: new Date().toISOString(),
-          };
+        if (key === 'tags' || key === 'notes') {
+          metadataUpdates[key] = value as any;
         } else if (key === 'title') {
           updates.title = value as string;
         }
       }
     }
 
-    // Actualizar análisis
-    const updatedAnalysis: SavedAnalysis = {
-      ...existingAnalysis,
-      ...updates,
-      metadata: {
-        ...existingAnalysis.metadata,
-        ...updates.metadata,
+    // Datos del cliente: se aplican antes del estado porque las condiciones de la transición los revisan
+    const clientValidation = validateProposalClientFields(body);
+    if (!clientValidation.isValid) {
+      return NextResponse.json(
+        { error: 'Datos del cliente inválidos', details: clientValidation.errors },
+        { status: 400 }
+      );
+    }
+
+    // La transición se revisa y se guarda en el mismo paso de escritura, contra el estado guardado en ese momento:
+    // dos cambios de estado simultáneos no pueden saltarse el ciclo de vida
+    let rejection = null as { transition: TransitionResult; from: ProposalStatus } | null;
+    const updatedAnalysis = await modifyAnalysis(id, current => {
+      let metadata: SavedAnalysis['metadata'] = {
+        ...current.metadata,
+        ...metadataUpdates,
+        ...clientValidation.data,
         updated_at: new Date().toISOString(),
-      },
-    };
+      };
+
+      // El estado solo cambia por una transición permitida del ciclo de vida de la propuesta
+      if (body.status !== undefined && body.status !== current.metadata.status) {
+        const transition = transitionProposal(metadata, body.status);
+        if (!transition.allowed) {
+          rejection = { transition, from: current.metadata.status };
+          return undefined;
+        }
+        metadata = transition.metadata!;
+      }
+
+      return { ...current, ...updates, metadata };
+    }, resolveAuthor(request, existingAnalysis.metadata.broker_email));
 
-    saveAnalysis(updatedAnalysis);
+    if (rejection) {
+      const { transition, from } = rejection;
+      return NextResponse.json(
+        {
+          error: transition.reason,
+          code: transition.code,
+          from,
+          to: body.status,
+          allowedTransitions: PROPOSAL_TRANSITIONS[from] || [],
+        },
+        { status: transition.code === 'unknown_status' ? 400 : 409 }
+      );
+    }
+
+    if (!updatedAnalysis) {
+      return NextResponse.json(
+        { error: 'Análisis no encontrado' },
+        { status: 404 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAnalysisIfAbsent } from '@/lib/analysisStore';
+import { MAX_IMPORTED_ANALYSES } from '@/lib/validation';
+import { migrateSavedAnalysis } from '@/lib/analysisMigrations';
+import { resolveAuthor } from '@/lib/analysisHistory';
+import { handleApiError } from '@/lib/errorHandler';
+import { draftProposalLifecycle } from '@/lib/proposalLifecycle';
+
+// POST - Importar análisis ya calculados (los guardados en el navegador antes de existir el almacenamiento
+// del servidor y los del análisis rápido). Los ids que ya existen no se sobrescriben. Entran como borrador: el
+// estado de la propuesta solo avanza con transiciones permitidas, no desde un archivo
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body?.analyses) || body.analyses.length === 0) {
+      return NextResponse.json(
+        { error: 'Debe enviar una lista de análisis en "analyses"' },
+        { status: 400 }
+      );
+    }
+
+    if (body.analyses.length > MAX_IMPORTED_ANALYSES) {
+      return NextResponse.json(
+        { error: `No se pueden importar más de ${MAX_IMPORTED_ANALYSES} análisis por solicitud` },
+        { status: 400 }
+      );
+    }
+
+    const imported: string[] = [];
+    const skipped: string[] = [];
+    const rejected: Array<{ index: number; errors: string[] }> = [];
+
+    for (let index = 0; index < body.analyses.length; index++) {
+      // Las copias de versiones anteriores se migran antes de validarlas
+      const migration = migrateSavedAnalysis(body.analyses[index]);
+      if (!migration.analysis) {
+        rejected.push({ index, errors: migration.errors });
+        continue;
+      }
+
+      // Revisar y crear en un solo paso: dos importaciones simultáneas del mismo id no se sobrescriben
+      const analysis = {
+        ...migration.analysis,
+        metadata: { ...migration.analysis.metadata, ...draftProposalLifecycle() }
+      };
+      if (await createAnalysisIfAbsent(analysis, resolveAuthor(request, analysis.metadata.broker_email))) {
+        imported.push(analysis.id);
+      } else {
+        skipped.push(analysis.id);
+      }
+    }
+
+    return NextResponse.json(
+      { success: rejected.length === 0, imported, skipped, rejected },
+      { status: imported.length > 0 ? 201 : 200 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'POST /api/analyses/import', 'Error al importar análisis');
+  }
+}
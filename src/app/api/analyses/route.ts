@@ -1,9 +1,17 @@
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { SavedAnalysis, AnalysisFilters, AnalysisListResponse, SavedAnalysisFormData, formDataToSavedAnalysis } from '@/types/saved-analysis';
 import { getAllAnalyses, saveAnalysis } from '@/lib/analysisStore';
-import { AnalysisStorage } from '@/lib/localStorage';
-import { validatePagination, validateRentalAnalysis, ValidationResult } from '@/lib/validation';
+import { validateOfficeId, validatePagination, validateRentalAnalysis, ValidationResult } from '@/lib/validation';
 import { handleApiError } from '@/lib/errorHandler';
+import { getCurrentPlanCatalog } from '@/lib/planCatalogStore';
+import { getSimilarityWeightsForOffice } from '@/lib/similarityWeightsStore';
+import { withoutLegacyComparableFields } from '@/lib/comparables';
+import { calculateRentalProfitability, formToAnalysisInput } from '@/lib/profitability';
+import { locateForStorage } from '@/lib/geocodingService';
+import { resolveAuthor } from '@/lib/analysisHistory';
+import { initialProposalStatus } from '@/lib/proposalLifecycle';
+import { buildMarketRentIndex, marketBenchmarkFor } from '@/lib/marketRentIndex';
 
 // GET - Obtener análisis con filtros opcionales
 export async function GET(request: NextRequest) {
@@ -44,7 +52,7 @@ export async function GET(request: NextRequest) {
     };
 
     // Obtener todos los análisis del store
-    let analyses = getAllAnalyses();
+    const analyses = await getAllAnalyses();
 
     // Aplicar filtros
     let filteredAnalyses = analyses;
@@ -172,7 +180,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const formData: SavedAnalysisFormData = body;
+    // El catálogo de planes y los comparables se guardan ya validados
+    // (los cuerpos con campos comparable_N_* llegan convertidos a la lista); sin catálogo ni pesos de
+    // similitud se usan los de la oficina
+    const planDefinitions = validation.data!.plan_definitions;
+    const formData: SavedAnalysisFormData = {
+      ...withoutLegacyComparableFields(body),
+      comparables: validation.data!.comparables,
+      similarity_weights: validation.data!.similarity_weights
+        || await getSimilarityWeightsForOffice(validateOfficeId(body.office_id).data),
+      plan_catalog: body.plan_catalog && planDefinitions
+        ? { ...body.plan_catalog, plans: planDefinitions }
+        : await getCurrentPlanCatalog()
+    };
 
     // Validaciones adicionales de campos requeridos para guardado
     if (!formData.title || formData.title.trim().length < 3) {
@@ -189,25 +209,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // La ubicación (comuna, región y precisión) la resuelve el servicio de geocodificación, no el cliente
+    formData.property_location = await locateForStorage(formData.property_address);
+
+    // La referencia de mercado la calcula el servidor con los demás análisis guardados; la del cuerpo se ignora
+    formData.market_benchmark = marketBenchmarkFor(
+      buildMarketRentIndex(await getAllAnalyses()),
+      formData.property_address,
+      parseInt(formData.bedrooms) || undefined,
+      formData.property_location
+    );
+
+    // Calcular indicadores con el mismo módulo que usa la interfaz
+    const { analysis, calculations } = calculateRentalProfitability(
+      formToAnalysisInput(formData, formData.plan_catalog, formData.similarity_weights, formData.market_benchmark)
+    );
+
     // Convertir datos del formulario a análisis guardado
-    const analysisData = formDataToSavedAnalysis(formData);
+    const analysisData = formDataToSavedAnalysis(formData, calculations, analysis.market_study.comparable_properties);
 
     // Crear nuevo análisis con metadatos
     const newAnalysis: SavedAnalysis = {
-      id: Date.now().toString(), // En producción usar UUID
+      id: randomUUID(),
       ...analysisData,
       metadata: {
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         broker_email: formData.broker_email,
-        status: 'draft',
+        ...initialProposalStatus(),
         tags: formData.tags || [],
         notes: formData.notes,
       },
     };
 
     // Guardar en el store
-    saveAnalysis(newAnalysis);
+    await saveAnalysis(newAnalysis, resolveAuthor(request, formData.broker_email));
 
     return NextResponse.json(
       { 
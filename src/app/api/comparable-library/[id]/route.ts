@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/errorHandler';
+import { validateId } from '@/lib/validation';
+import { deleteLibraryComparable } from '@/lib/comparableLibraryStore';
+
+// DELETE - Eliminar un comparable de la biblioteca
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const idValidation = validateId(params.id);
+    if (!idValidation.isValid) {
+      return NextResponse.json(
+        { error: 'ID inválido', details: idValidation.errors },
+        { status: 400 }
+      );
+    }
+
+    if (!(await deleteLibraryComparable(idValidation.data!))) {
+      return NextResponse.json(
+        { error: 'Comparable no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Comparable eliminado de la biblioteca' });
+  } catch (error) {
+    return handleApiError(error, 'DELETE /api/comparable-library/[id]', 'Error al eliminar el comparable');
+  }
+}
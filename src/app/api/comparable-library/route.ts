@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/errorHandler';
+import { validateLibraryComparables } from '@/lib/validation';
+import { addLibraryComparables, getLibraryComparables } from '@/lib/comparableLibraryStore';
+
+// GET - Biblioteca de comparables de la oficina
+export async function GET() {
+  try {
+    return NextResponse.json({ items: await getLibraryComparables() });
+  } catch (error) {
+    return handleApiError(error, 'GET /api/comparable-library', 'Error al obtener la biblioteca de comparables');
+  }
+}
+
+// POST - Agregar comparables ({ items: [{ entry, captured_at?, captured_by?, source_analysis_id? }] });
+// una publicación que ya está en la biblioteca queda con la captura más reciente
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = validateLibraryComparables(body?.items);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Comparables inválidos', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await addLibraryComparables(validation.data!);
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleApiError(error, 'POST /api/comparable-library', 'Error al guardar en la biblioteca de comparables');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/errorHandler';
+import { PROPOSAL_EXPIRY_CONFIG } from '@/lib/config';
+import { runProposalExpiry } from '@/lib/proposalScheduler';
+
+// Solo el cron (o scripts/proposal-expiry.mjs) con CRON_SECRET puede usar la ruta; sin secreto configurado
+// queda cerrada
+function authorizationError(request: NextRequest): NextResponse | null {
+  if (!PROPOSAL_EXPIRY_CONFIG.CRON_SECRET) {
+    return NextResponse.json(
+      { error: 'Configure CRON_SECRET para habilitar el programador de vencimientos' },
+      { status: 503 }
+    );
+  }
+  if (request.headers.get('authorization') !== `Bearer ${PROPOSAL_EXPIRY_CONFIG.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+  }
+  return null;
+}
+
+// Vence las propuestas fuera de plazo y envía los recordatorios pendientes (?dryRun=true solo informa)
+async function runExpiry(request: NextRequest, context: string) {
+  try {
+    const unauthorized = authorizationError(request);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true';
+    const summary = await runProposalExpiry({ dryRun });
+
+    return NextResponse.json(summary, { status: summary.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    return handleApiError(error, context, 'Error al procesar vencimientos de propuestas');
+  }
+}
+
+// GET - Para crons que solo hacen GET (p. ej. Vercel Cron)
+export async function GET(request: NextRequest) {
+  return runExpiry(request, 'GET /api/cron/proposal-expiry');
+}
+
+// POST - Ejecutar una pasada del programador de vencimientos
+export async function POST(request: NextRequest) {
+  return runExpiry(request, 'POST /api/cron/proposal-expiry');
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateGeocodeAddress } from '@/lib/validation';
+import { handleApiError } from '@/lib/errorHandler';
+import { createRateLimiter, getGeocodingService } from '@/lib/geocodingService';
+
+// Consultas por cliente; las respuestas en caché también cuentan
+const allowRequest = createRateLimiter({ limit: 30, windowMs: 60 * 1000 });
+
+function clientKey(request: NextRequest): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || 'local';
+}
+
+// GET - Geocodificar una dirección (?address=...)
+export async function GET(request: NextRequest) {
+  try {
+    const validation = validateGeocodeAddress(new URL(request.url).searchParams.get('address'));
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Dirección inválida', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    if (!allowRequest(clientKey(request))) {
+      return NextResponse.json(
+        { error: 'Demasiadas consultas de ubicación; espere un minuto e intente nuevamente' },
+        { status: 429, headers: { 'Retry-After': '60' } }
+      );
+    }
+
+    const location = await getGeocodingService().geocode(validation.data!);
+    if (!location) {
+      return NextResponse.json({ error: 'Dirección no encontrada' }, { status: 404 });
+    }
+
+    return NextResponse.json({ location });
+  } catch (error) {
+    return handleApiError(error, 'GET /api/geocode', 'Error al geocodificar la dirección');
+  }
+}
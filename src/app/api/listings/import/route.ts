@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateListingUrl } from '@/lib/validation';
+import { handleApiError } from '@/lib/errorHandler';
+import { parseListing } from '@/lib/listingImport';
+import { fetchListingHtml, type ListingFetchResult } from '@/lib/listingFetcher';
+
+// POST - Importar un comparable desde el link de una publicación
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const urlValidation = validateListingUrl(body?.url);
+    if (!urlValidation.isValid) {
+      return NextResponse.json(
+        { error: 'Link inválido', details: urlValidation.errors },
+        { status: 400 }
+      );
+    }
+
+    let fetched: ListingFetchResult;
+    try {
+      fetched = await fetchListingHtml(urlValidation.data!);
+    } catch (error) {
+      console.error('Error descargando publicación:', error);
+      return NextResponse.json(
+        { error: 'No se pudo descargar la publicación; guarde la página como HTML e impórtela como archivo' },
+        { status: 502 }
+      );
+    }
+
+    if ('error' in fetched) {
+      return NextResponse.json({ error: fetched.error }, { status: fetched.status });
+    }
+
+    // El link original es el que se guarda en el comparable
+    const listing = parseListing(fetched.html, urlValidation.data!);
+    if (!listing) {
+      return NextResponse.json(
+        { error: 'No se encontraron datos de la propiedad en la publicación' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ listing });
+  } catch (error) {
+    return handleApiError(error, 'POST /api/listings/import', 'Error al importar la publicación');
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/errorHandler';
+import { validatePlanDefinitions } from '@/lib/validation';
+import { getCurrentPlanCatalog, getPlanCatalogHistory, savePlanCatalog } from '@/lib/planCatalogStore';
+
+// GET - Catálogo de planes vigente de la oficina y sus versiones anteriores
+export async function GET() {
+  try {
+    const [current, history] = await Promise.all([getCurrentPlanCatalog(), getPlanCatalogHistory()]);
+    return NextResponse.json({ current, history });
+  } catch (error) {
+    return handleApiError(error, 'GET /api/plan-catalog', 'Error al obtener el catálogo de planes');
+  }
+}
+
+// PUT - Guardar los planes como una versión nueva del catálogo
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = validatePlanDefinitions(body?.plans);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Catálogo de planes inválido', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const catalog = await savePlanCatalog(validation.data!);
+    return NextResponse.json({ catalog });
+  } catch (error) {
+    return handleApiError(error, 'PUT /api/plan-catalog', 'Error al guardar el catálogo de planes');
+  }
+}
@@ -107,7 +107,7 @@ export async function POST(request: Request) {
           type: "section",
           text: {
             type: "mrkdwn",
-            text: `*Planes Propuestos:*\n${plans.map((p: PlanData) => `• Plan ${p.id}: $${p.initial_rent_clp?.toLocaleString('es-CL')} CLP/mes`).join('\n')}`
+            text: `*Planes Propuestos (${plans.length}):*\n${plans.map((p: PlanData) => `• ${p.name ? `${p.name} (${p.id})` : `Plan ${p.id}`}: $${p.initial_rent_clp?.toLocaleString('es-CL')} CLP/mes${p.commission_percentage ? ` · comisión ${p.commission_percentage}%` : ''}`).join('\n')}`
           }
         },
         {
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/errorHandler';
+import { validateOfficeId, validateSimilarityWeights } from '@/lib/validation';
+import { getOfficeSimilarityWeights, saveOfficeSimilarityWeights } from '@/lib/similarityWeightsStore';
+
+// GET - Pesos de similitud guardados por cada oficina
+export async function GET() {
+  try {
+    return NextResponse.json({ offices: await getOfficeSimilarityWeights() });
+  } catch (error) {
+    return handleApiError(error, 'GET /api/similarity-weights', 'Error al obtener los pesos de similitud');
+  }
+}
+
+// PUT - Guardar los pesos de una oficina ({ office_id, weights })
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const officeValidation = validateOfficeId(body?.office_id);
+    const weightsValidation = validateSimilarityWeights(body?.weights);
+    if (!officeValidation.isValid || !weightsValidation.isValid) {
+      return NextResponse.json(
+        { error: 'Pesos de similitud inválidos', details: [...officeValidation.errors, ...weightsValidation.errors] },
+        { status: 400 }
+      );
+    }
+
+    const weights = await saveOfficeSimilarityWeights(officeValidation.data!, weightsValidation.data!);
+    return NextResponse.json({ office_id: officeValidation.data, weights });
+  } catch (error) {
+    return handleApiError(error, 'PUT /api/similarity-weights', 'Error al guardar los pesos de similitud');
+  }
+}
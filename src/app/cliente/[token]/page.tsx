@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
 import type { RentalAnalysis, ClientResponse } from '@/types/rental'
+import { planCardClass } from '@/lib/planCatalog'
 
 // Simulamos datos del análisis (en producción vendría de una API)
 const mockAnalysis: RentalAnalysis = {
@@ -141,7 +142,7 @@ export default function ClientReviewPage() {
 
     // En producción, aquí enviaría la respuesta a la API
     const response: ClientResponse = {
-      plan_ids_accepted: selectedPlans as Array<'A' | 'B' | 'C'>,
+      plan_ids_accepted: selectedPlans,
       response_date: new Date(),
       client_email: clientInfo.email,
       broker_email: 'broker@tumatch.cl', // Vendría del análisis
@@ -266,7 +267,7 @@ export default function ClientReviewPage() {
           </div>
           <div className="card-body text-warning-800">
             <p className="mb-2">
-              <strong>Costo de vacancia:</strong> Cada mes que su propiedad esté vacante representa una pérdida del <strong>8.33%</strong> de su rentabilidad anual.
+              <strong>Costo de vacancia:</strong> Con el cronograma de precios propuesto se esperan <strong>{analysis.vacancy_impact.days_vacant} días</strong> vacantes, una pérdida del <strong>{analysis.vacancy_impact.percentage_annual_loss.toFixed(1)}%</strong> de su rentabilidad anual.
             </p>
             <p>
               Es por esto que ofrecemos diferentes planes con ajustes de precio para minimizar el tiempo de vacancia y maximizar sus ingresos.
@@ -280,10 +281,10 @@ export default function ClientReviewPage() {
           <p className="text-gray-600">Seleccione uno o más planes que desea aprobar. Necesita aprobar al menos un plan para continuar.</p>
           
           <div className="grid lg:grid-cols-3 gap-6">
-            {analysis.plans.map((plan) => (
+            {analysis.plans.map((plan, index) => (
               <div
                 key={plan.id}
-                className={`plan-card plan-${plan.id.toLowerCase()} ${selectedPlans.includes(plan.id) ? 'selected' : ''}`}
+                className={`plan-card ${planCardClass(index)} ${selectedPlans.includes(plan.id) ? 'selected' : ''}`}
                 onClick={() => togglePlanSelection(plan.id)}
               >
                 <div className="flex justify-between items-start mb-4">
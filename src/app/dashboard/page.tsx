@@ -3,7 +3,12 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { AnalysisStorage, type DashboardData, type DashboardActivity } from '@/lib/localStorage'
+import { fetchAllAnalyses, importLocalAnalysesOnce } from '@/lib/analysisApi'
 import { SavedAnalysis } from '@/types/saved-analysis'
+import { listUpcomingExpirations } from '@/lib/proposalExpiry'
+
+// Propuestas enviadas que vencen dentro de esta cantidad de días
+const UPCOMING_EXPIRATION_DAYS = 7
 
 export default function DashboardPage() {
   const [dashboardData, setDashboardData] = useState<DashboardData | null>(null)
@@ -15,14 +20,16 @@ export default function DashboardPage() {
     loadDashboardData()
   }, [])
 
-  const loadDashboardData = () => {
+  const loadDashboardData = async () => {
     setLoading(true)
     try {
-      // Cargar datos del dashboard desde localStorage
-      const data = AnalysisStorage.getDashboardData()
-      const allAnalyses = AnalysisStorage.getAll()
+      // Los análisis viven en el servidor; los que quedaron en este navegador se suben una vez
+      await importLocalAnalysesOnce().catch(error => {
+        console.warn('No se pudieron subir los análisis locales:', error)
+      })
+      const allAnalyses = await fetchAllAnalyses()
       
-      setDashboardData(data)
+      setDashboardData(AnalysisStorage.computeDashboardData(allAnalyses))
       setAnalyses(allAnalyses)
     } catch (error) {
       console.error('Error loading dashboard data:', error)
@@ -55,6 +62,7 @@ export default function DashboardPage() {
       case 'sent_to_client': return 'bg-blue-100 text-blue-800'
       case 'client_responded': return 'bg-yellow-100 text-yellow-800'
       case 'published': return 'bg-green-100 text-green-800'
+      case 'expired': return 'bg-orange-100 text-orange-800'
       case 'archived': return 'bg-red-100 text-red-800'
       default: return 'bg-gray-100 text-gray-800'
     }
@@ -66,6 +74,7 @@ export default function DashboardPage() {
       case 'sent_to_client': return 'Enviado'
       case 'client_responded': return 'Respondido'
       case 'published': return 'Publicado'
+      case 'expired': return 'Vencido'
       case 'archived': return 'Archivado'
       default: return status
     }
@@ -92,6 +101,9 @@ export default function DashboardPage() {
     return true
   })
 
+  const upcomingExpirations = listUpcomingExpirations(analyses, UPCOMING_EXPIRATION_DAYS)
+  const expiredCount = analyses.filter(a => a.metadata.status === 'expired').length
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 p-4">
@@ -195,6 +207,45 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Próximos vencimientos */}
+        <div className="card">
+          <div className="card-body">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">⏰ Propuestas por vencer</h3>
+              {expiredCount > 0 && (
+                <Link href="/analyses" className="text-sm text-orange-700 hover:underline">
+                  {expiredCount} vencida{expiredCount === 1 ? '' : 's'} sin respuesta
+                </Link>
+              )}
+            </div>
+
+            {upcomingExpirations.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                Ninguna propuesta enviada vence en los próximos {UPCOMING_EXPIRATION_DAYS} días.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {upcomingExpirations.map(({ analysis, expiresAt, daysLeft }) => (
+                  <div key={analysis.id} className="flex justify-between items-center p-3 rounded-lg hover:bg-gray-50 transition-colors">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{analysis.title}</p>
+                      <p className="text-sm text-gray-600 truncate">
+                        👤 {analysis.metadata.client_name || analysis.metadata.client_email || 'Cliente sin registrar'}
+                      </p>
+                    </div>
+                    <div className="text-right ml-4 flex-shrink-0">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${daysLeft <= 1 ? 'bg-red-100 text-red-800' : daysLeft <= 3 ? 'bg-orange-100 text-orange-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                        {`Vence en ${daysLeft} día${daysLeft === 1 ? '' : 's'}`}
+                      </span>
+                      <p className="text-xs text-gray-500 mt-1">{formatDate(expiresAt)}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Lista de análisis */}
           <div className="space-y-6">
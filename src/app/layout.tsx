@@ -5,7 +5,7 @@ import ToastContainer from '@/components/ui/Toast'
 
 export const metadata: Metadata = {
   title: 'Análisis de Rentabilidad - Arriendos',
-  description: 'Sistema de análisis de rentabilidad para arriendos con planes A, B y C',
+  description: 'Sistema de análisis de rentabilidad para arriendos con planes comerciales configurables',
 }
 
 export default function RootLayout({
@@ -43,6 +43,12 @@ export default function RootLayout({
                 >
                   📂 Análisis Guardados
                 </Link>
+                <Link 
+                  href="/planes" 
+                  className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                >
+                  🗂️ Planes
+                </Link>
                 <Link 
                   href="/dashboard" 
                   className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -4,8 +4,15 @@ import { useForm } from 'react-hook-form'
 import { useState, useEffect } from 'react'
 import PropertyFormImproved from '@/components/PropertyFormImproved'
 import AnalysisResults from '@/components/AnalysisResults'
-import type { RentalAnalysisForm, RentalAnalysis } from '@/types/rental'
-import { performAnalysis } from '@/lib/analysisEngine'
+import type { MarketRentIndex, PlanCatalog, RentalAnalysisForm, RentalAnalysisResult, SimilarityWeights } from '@/types/rental'
+import { calculateRentalProfitability, formToAnalysisInput } from '@/lib/profitability'
+import { DEFAULT_PLAN_CATALOG } from '@/lib/planCatalog'
+import { fetchActiveSimilarityWeights, fetchPlanCatalog } from '@/lib/officeApi'
+import { DEFAULT_SIMILARITY_WEIGHTS } from '@/lib/similarity'
+import { EXPENSE_DEFAULTS } from '@/lib/ownerExpenses'
+import { createComparableEntry } from '@/lib/comparables'
+import { buildMarketRentIndex, marketBenchmarkFor } from '@/lib/marketRentIndex'
+import { fetchAllAnalyses } from '@/lib/analysisApi'
 
 export default function NewAnalysisPage() {
   const form = useForm<RentalAnalysisForm>({
@@ -28,47 +35,40 @@ export default function NewAnalysisPage() {
       
       market_study_notes: '',
       
-      plan_a_commission: '50',
-      plan_b_commission: '75', 
-      plan_c_commission: '100',
-      
       annual_maintenance_clp: '',
       annual_property_tax_clp: '',
       annual_insurance_clp: '',
+      common_expenses_monthly_clp: '',
+      common_expenses_paid_by: EXPENSE_DEFAULTS.COMMON_EXPENSES_PAID_BY,
+      administration_percentage: EXPENSE_DEFAULTS.ADMINISTRATION_PERCENTAGE.toString(),
+      repairs_reserve_percentage: '',
+      lease_commission_percentage: '',
+      other_one_off_costs_clp: '',
       
       uf_value_clp: '38000',
       
-      comparable_1_link: '',
-      comparable_1_address: '',
-      comparable_1_m2: '',
-      comparable_1_bedrooms: '',
-      comparable_1_bathrooms: '',
-      comparable_1_parking: '',
-      comparable_1_storage: '',
-      comparable_1_price: '',
-      
-      comparable_2_link: '',
-      comparable_2_address: '',
-      comparable_2_m2: '',
-      comparable_2_bedrooms: '',
-      comparable_2_bathrooms: '',
-      comparable_2_parking: '',
-      comparable_2_storage: '',
-      comparable_2_price: '',
-      
-      comparable_3_link: '',
-      comparable_3_address: '',
-      comparable_3_m2: '',
-      comparable_3_bedrooms: '',
-      comparable_3_bathrooms: '',
-      comparable_3_parking: '',
-      comparable_3_storage: '',
-      comparable_3_price: ''
+      comparables: [createComparableEntry()]
     }
   })
 
   const formValues = form.watch()
-  const [analysisResult, setAnalysisResult] = useState<RentalAnalysis | null>(null)
+  const [analysisResult, setAnalysisResult] = useState<RentalAnalysisResult | null>(null)
+  const [marketIndex, setMarketIndex] = useState<MarketRentIndex | null>(null)
+  const [planCatalog, setPlanCatalog] = useState<PlanCatalog>(DEFAULT_PLAN_CATALOG)
+  const [similarityWeights, setSimilarityWeights] = useState<SimilarityWeights>(DEFAULT_SIMILARITY_WEIGHTS)
+
+  // Catálogo de planes y pesos de similitud de la oficina, e índice de arriendos de mercado con los análisis guardados en el servidor
+  useEffect(() => {
+    fetchPlanCatalog()
+      .then(({ current }) => setPlanCatalog(current))
+      .catch(error => console.warn('No se pudo cargar el catálogo de planes:', error))
+    fetchActiveSimilarityWeights()
+      .then(setSimilarityWeights)
+      .catch(error => console.warn('No se pudieron cargar los pesos de similitud:', error))
+    fetchAllAnalyses()
+      .then(analyses => setMarketIndex(buildMarketRentIndex(analyses)))
+      .catch(error => console.warn('No se pudo cargar el índice de mercado:', error))
+  }, [])
 
   // Cargar datos desde sessionStorage si vienen de Quick Analysis
   useEffect(() => {
@@ -100,29 +100,12 @@ export default function NewAnalysisPage() {
   }, [form])
 
   const handleSuggestRent = () => {
-    // Construir array de comparables desde los campos individuales
-    const comparables = []
-    
-    if (formValues.comparable_1_price && formValues.comparable_1_m2) {
-      comparables.push({
-        rent_clp: parseFloat(formValues.comparable_1_price),
-        size_m2: parseFloat(formValues.comparable_1_m2)
-      })
-    }
-    
-    if (formValues.comparable_2_price && formValues.comparable_2_m2) {
-      comparables.push({
-        rent_clp: parseFloat(formValues.comparable_2_price),
-        size_m2: parseFloat(formValues.comparable_2_m2)
-      })
-    }
-    
-    if (formValues.comparable_3_price && formValues.comparable_3_m2) {
-      comparables.push({
-        rent_clp: parseFloat(formValues.comparable_3_price),
-        size_m2: parseFloat(formValues.comparable_3_m2)
-      })
-    }
+    const comparables = (formValues.comparables || [])
+      .filter(entry => entry.price && entry.m2)
+      .map(entry => ({
+        rent_clp: parseFloat(entry.price || '0'),
+        size_m2: parseFloat(entry.m2 || '0')
+      }))
     
     if (comparables.length === 0) {
       alert('Por favor, agrega al menos una propiedad comparable')
@@ -146,8 +129,16 @@ export default function NewAnalysisPage() {
       return
     }
 
-    // Realizar análisis
-    const result = performAnalysis(formValues)
+    // Realizar análisis con el catálogo de planes y los pesos de la oficina (los mismos del guardado y el PDF)
+    // y, si faltan comparables, el índice de la comuna
+    const marketBenchmark = marketBenchmarkFor(
+      marketIndex,
+      formValues.property_address,
+      parseInt(formValues.bedrooms) || undefined
+    )
+    const result = calculateRentalProfitability(
+      formToAnalysisInput(formValues, planCatalog, similarityWeights, marketBenchmark)
+    )
     setAnalysisResult(result)
   }
 
@@ -191,33 +182,10 @@ export default function NewAnalysisPage() {
               </button>
             </div>
             <AnalysisResults 
-              analysis={analysisResult}
-              calculations={{
-                cap_rate: analysisResult.cap_rate_analysis.cap_rate_percentage,
-                annual_rental_yield: analysisResult.cap_rate_analysis.annual_rental_income > 0 && analysisResult.property.value_clp > 0
-                  ? (analysisResult.cap_rate_analysis.annual_rental_income / analysisResult.property.value_clp) * 100
-                  : 0,
-                monthly_net_income: analysisResult.cap_rate_analysis.net_operating_income / 12,
-                vacancy_cost_per_month: analysisResult.vacancy_impact.lost_income_clp / 12,
-                break_even_rent_reduction: analysisResult.vacancy_impact.break_even_reduction_percentage,
-                plan_comparisons: analysisResult.plans.map(plan => {
-                  // Calcular renta final del último ajuste o usar inicial
-                  const finalRent = plan.price_adjustment_schedule && plan.price_adjustment_schedule.length > 0
-                    ? plan.price_adjustment_schedule[plan.price_adjustment_schedule.length - 1].new_rent_clp
-                    : plan.initial_rent_clp
-                  
-                  return {
-                    plan_id: plan.id,
-                    expected_rental_time: plan.marketing_duration_days || 30,
-                    total_commission: finalRent * (plan.commission_percentage / 100),
-                    net_annual_income: finalRent * 12 * 0.9, // Aproximado con 10% gastos
-                    vacancy_risk_score: plan.id === 'A' ? 2 : plan.id === 'B' ? 4 : 6, // A=menor riesgo, C=mayor riesgo
-                    recommendation_score: plan.id === 'A' ? 9 : plan.id === 'B' ? 7 : 5 // A=mejor recomendación
-                  }
-                })
-              }}
-              capRateAnalysis={analysisResult.cap_rate_analysis}
-              vacancyImpact={analysisResult.vacancy_impact}
+              analysis={analysisResult.analysis}
+              calculations={analysisResult.calculations}
+              capRateAnalysis={analysisResult.analysis.cap_rate_analysis}
+              vacancyImpact={analysisResult.analysis.vacancy_impact}
             />
           </div>
         )}
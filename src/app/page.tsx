@@ -17,6 +17,8 @@ export default function HomePage() {
     marketStudy,
     capRateAnalysis,
     vacancyImpact,
+    rentalPlans,
+    planComparisons,
     generateAnalysis,
     suggestInitialRent,
   } = useRentalProfitability()
@@ -233,7 +235,7 @@ export default function HomePage() {
                   {/* Vista Previa del Plan Comercial */}
                   <div>
                     <h3 className="text-2xl font-bold text-gray-800 mb-6">📄 Plan Comercial</h3>
-                    <AnalysisPreview formValues={formValues} />
+                    <AnalysisPreview formValues={formValues} plans={rentalPlans} planComparisons={planComparisons} />
                   </div>
 
                   {/* Análisis Detallado */}
@@ -0,0 +1,13 @@
+import PlanCatalogEditor from '@/components/PlanCatalogEditor'
+import SimilarityWeightsEditor from '@/components/SimilarityWeightsEditor'
+
+export default function PlanesPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="container mx-auto py-8 space-y-6">
+        <PlanCatalogEditor />
+        <SimilarityWeightsEditor />
+      </div>
+    </div>
+  )
+}
@@ -1,81 +1,55 @@
 'use client'
 
-import { useEffect, useState, useMemo, useCallback, memo } from 'react'
+import { useEffect, useState, useCallback, useRef, memo } from 'react'
+import { geocodeAddress, DEFAULT_COORDINATES, GEOCODE_ACCURACY_LABELS, type Coordinates } from '@/lib/geocoding'
+
+// Espera a que el usuario deje de escribir antes de consultar el servicio de geocodificación
+const GEOCODE_DEBOUNCE_MS = 800
 
 interface AddressMapProps {
   address: string
+  onGeocoded?: (coordinates: Coordinates) => void // Solo con resultados reales, no con la ubicación por defecto
 }
 
-function AddressMap({ address }: AddressMapProps) {
+function AddressMap({ address, onGeocoded }: AddressMapProps) {
   const [mapUrl, setMapUrl] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [coordinates, setCoordinates] = useState<{lat: number, lon: number} | null>(null)
   const [locationInfo, setLocationInfo] = useState<{displayName: string, accuracy: string} | null>(null)
   
-  const geocodeAddress = useCallback(async (addressToGeocode: string) => {
+  // En un ref para no volver a geocodificar cuando el padre pasa una función nueva en cada render
+  const onGeocodedRef = useRef(onGeocoded)
+  onGeocodedRef.current = onGeocoded
+
+  const showDefaultLocation = useCallback(() => {
+    const { lat, lon } = DEFAULT_COORDINATES
+    setCoordinates(DEFAULT_COORDINATES)
+    const bbox = `${lon - 0.01},${lat - 0.01},${lon + 0.01},${lat + 0.01}`
+    setMapUrl(
+      `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${lat},${lon}`
+    )
+  }, [])
+
+  const locateAddress = useCallback(async (addressToGeocode: string) => {
     setIsLoading(true)
     try {
-      // Usar múltiples estrategias para mayor precisión
-      const strategies = [
-        // Estrategia 1: Dirección exacta con más detalles
-        `${addressToGeocode}, Chile`,
-        // Estrategia 2: Con región metropolitana
-        `${addressToGeocode}, Santiago, Región Metropolitana, Chile`,
-        // Estrategia 3: Solo la dirección principal
-        addressToGeocode.split(',')[0] + ', Chile'
-      ]
-      
-      let bestResult = null
-      let highestAccuracy = 0
+      const result = await geocodeAddress(addressToGeocode)
       
-      for (const strategy of strategies) {
-        const encodedAddress = encodeURIComponent(strategy)
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/search?format=json&q=${encodedAddress}&limit=3&countrycodes=cl&addressdetails=1&extratags=1`
-        )
-        
-        const data = await response.json()
-        
-        if (data && data.length > 0) {
-          // Buscar el resultado con mejor precisión
-          for (const result of data) {
-            let accuracy = 0
-            
-            // Dar más puntos por tipo de lugar más específico
-            if (result.class === 'building') accuracy += 100
-            if (result.class === 'place' && result.type === 'house') accuracy += 90
-            if (result.class === 'highway' && result.type === 'residential') accuracy += 80
-            if (result.class === 'place' && result.type === 'neighbourhood') accuracy += 70
-            
-            // Dar puntos por tener número de casa
-            if (result.display_name.match(/\d+/)) accuracy += 50
-            
-            // Dar puntos por importancia del resultado
-            if (result.importance) accuracy += result.importance * 30
-            
-            if (accuracy > highestAccuracy) {
-              highestAccuracy = accuracy
-              bestResult = result
-            }
-          }
-          
-          if (bestResult) break // Si encontramos un buen resultado, no probar más estrategias
-        }
-      }
-      
-      if (bestResult) {
-        const lat = parseFloat(bestResult.lat)
-        const lon = parseFloat(bestResult.lon)
+      if (result) {
+        const { lat, lon } = result
         setCoordinates({ lat, lon })
+        onGeocodedRef.current?.({ lat, lon })
         
-        // Crear bbox más preciso dependiendo del tipo de ubicación
+        // Crear bbox más preciso dependiendo de la precisión del resultado
         let margin = 0.003 // Margen más pequeño para mayor precisión
         
         // Ajustar zoom según el tipo de ubicación
-        if (bestResult.class === 'building' || bestResult.class === 'place') {
+        if (result.accuracy === 'building' || result.accuracy === 'address') {
           margin = 0.002 // Muy cercano para edificios específicos
-        } else if (bestResult.class === 'highway') {
+        } else if (result.accuracy === 'street') {
           margin = 0.004 // Un poco más amplio para calles
+        } else if (result.accuracy === 'comuna') {
+          margin = 0.02 // Centro de la comuna: vista amplia
         }
         
         const bbox = `${lon - margin},${lat - margin},${lon + margin},${lat + margin}`
@@ -86,42 +60,28 @@ function AddressMap({ address }: AddressMapProps) {
         )
         
         // Establecer información de precisión para mostrar al usuario
-        let accuracyText = 'Ubicación aproximada'
-        if (bestResult.class === 'building') accuracyText = 'Edificio específico'
-        else if (bestResult.class === 'place' && bestResult.type === 'house') accuracyText = 'Casa específica'
-        else if (bestResult.class === 'highway' && bestResult.type === 'residential') accuracyText = 'Calle específica'
-        else if (bestResult.display_name.match(/\d+/)) accuracyText = 'Dirección con número'
-        
         setLocationInfo({
-          displayName: bestResult.display_name,
-          accuracy: accuracyText
+          displayName: result.display_name,
+          accuracy: GEOCODE_ACCURACY_LABELS[result.accuracy]
         })
       } else {
         // Si no encuentra la dirección, usar coordenadas por defecto de Santiago
-        setCoordinates({ lat: -33.45, lon: -70.6 })
-        const bbox = "-70.61,-33.46,-70.59,-33.44"
-        setMapUrl(
-          `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=-33.45,-70.6`
-        )
+        showDefaultLocation()
       }
     } catch (error) {
       console.error('Error geocodificando dirección:', error)
       // En caso de error, usar coordenadas por defecto
-      setCoordinates({ lat: -33.45, lon: -70.6 })
-      const bbox = "-70.61,-33.46,-70.59,-33.44"
-      setMapUrl(
-        `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=-33.45,-70.6`
-      )
+      showDefaultLocation()
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [showDefaultLocation])
 
   useEffect(() => {
-    if (address && address.trim().length > 3) {
-      geocodeAddress(address)
-    }
-  }, [address, geocodeAddress])
+    if (!address || address.trim().length <= 3) return
+    const timer = setTimeout(() => locateAddress(address), GEOCODE_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [address, locateAddress])
 
   if (!address) return null
 
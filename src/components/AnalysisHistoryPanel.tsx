@@ -0,0 +1,162 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { AnalysisHistoryResponse, AnalysisRevisionAction, SavedAnalysis } from '@/types/saved-analysis'
+import { fetchAnalysisHistory, restoreAnalysisRevision } from '@/lib/analysisApi'
+import { describeFieldPath, formatChangeValue } from '@/lib/analysisHistory'
+import { toast } from '@/components/ui/Toast'
+
+interface AnalysisHistoryPanelProps {
+  analysisId: string
+  onRestored?: (analysis: SavedAnalysis) => void
+}
+
+type RevisionItem = AnalysisHistoryResponse['revisions'][number]
+
+const ACTION_LABELS: Record<AnalysisRevisionAction, { label: string; className: string }> = {
+  created: { label: 'Creado', className: 'bg-green-100 text-green-800' },
+  updated: { label: 'Modificado', className: 'bg-blue-100 text-blue-800' },
+  restored: { label: 'Restaurado', className: 'bg-purple-100 text-purple-800' },
+  deleted: { label: 'Eliminado', className: 'bg-red-100 text-red-800' }
+}
+
+// Cambios visibles por revisión antes de "ver todos"
+const COLLAPSED_CHANGES = 8
+
+export default function AnalysisHistoryPanel({ analysisId, onRestored }: AnalysisHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<RevisionItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [restoring, setRestoring] = useState<number | null>(null)
+
+  const loadHistory = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setRevisions((await fetchAnalysisHistory(analysisId)).revisions)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadHistory()
+  }, [analysisId])
+
+  const handleRestore = async (revision: RevisionItem) => {
+    if (!confirm(`¿Restaurar el análisis a la revisión ${revision.revision}? El estado actual queda guardado en el historial.`)) return
+
+    setRestoring(revision.revision)
+    try {
+      const analysis = await restoreAnalysisRevision(analysisId, revision.revision)
+      toast.success('Versión restaurada', `El análisis volvió a la revisión ${revision.revision}`)
+      onRestored?.(analysis)
+      await loadHistory()
+    } catch (err) {
+      toast.error('Error', err instanceof Error ? err.message : 'No se pudo restaurar la revisión')
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('es-CL', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 p-4">Cargando historial...</p>
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 text-sm text-red-700">
+        {error}{' '}
+        <button type="button" onClick={loadHistory} className="underline">Reintentar</button>
+      </div>
+    )
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500 p-4">Este análisis aún no tiene cambios registrados.</p>
+  }
+
+  // La revisión más reciente es el estado actual: no se ofrece restaurarla
+  const latest = revisions[0]
+
+  return (
+    <ol className="space-y-3">
+      {revisions.map(revision => {
+        const action = ACTION_LABELS[revision.action]
+        const isExpanded = expanded === revision.revision
+        const visibleChanges = isExpanded ? revision.changes : revision.changes.slice(0, COLLAPSED_CHANGES)
+
+        return (
+          <li key={revision.revision} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-bold text-gray-900">v{revision.revision}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${action.className}`}>{action.label}</span>
+                <span className="text-gray-600">{revision.author}</span>
+                <span className="text-gray-400">· {formatDate(revision.created_at)}</span>
+              </div>
+              {revision.restorable && revision !== latest && (
+                <button
+                  type="button"
+                  onClick={() => handleRestore(revision)}
+                  disabled={restoring !== null}
+                  className="text-xs px-2 py-1 rounded border border-purple-300 text-purple-700 hover:bg-purple-50 disabled:opacity-50"
+                >
+                  {restoring === revision.revision ? 'Restaurando...' : '↩️ Restaurar esta versión'}
+                </button>
+              )}
+            </div>
+
+            {revision.restored_from !== undefined && (
+              <p className="text-xs text-purple-700 mt-1">Restaurado desde la revisión {revision.restored_from}</p>
+            )}
+
+            {revision.changes.length > 0 && (
+              <table className="w-full text-xs mt-2">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="font-medium py-1 pr-2">Campo</th>
+                    <th className="font-medium py-1 pr-2">Antes</th>
+                    <th className="font-medium py-1">Después</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleChanges.map(change => (
+                    <tr key={change.path} className="border-t border-gray-100 align-top">
+                      <td className="py-1 pr-2 text-gray-700" title={change.path}>{describeFieldPath(change.path)}</td>
+                      <td className="py-1 pr-2 text-red-700 line-through break-all">{formatChangeValue(change.before)}</td>
+                      <td className="py-1 text-green-700 break-all">{formatChangeValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {revision.changes.length > COLLAPSED_CHANGES && (
+              <button
+                type="button"
+                onClick={() => setExpanded(isExpanded ? null : revision.revision)}
+                className="text-xs text-blue-600 hover:underline mt-1"
+              >
+                {isExpanded ? 'Ver menos' : `Ver los ${revision.changes.length} cambios`}
+              </button>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -3,12 +3,21 @@
 import { useRef, useState, useEffect } from 'react'
 import html2canvas from 'html2canvas'
 import jsPDF from 'jspdf'
-import type { RentalAnalysisForm } from '@/types/rental'
+import type { RentalAnalysisForm, RentalPlan, PlanComparison } from '@/types/rental'
 
 interface AnalysisPreviewProps {
   formValues: RentalAnalysisForm
+  plans: RentalPlan[]
+  planComparisons?: PlanComparison[]
 }
 
+// Colores de cada estrategia según su posición en el catálogo
+const PLAN_PALETTES = [
+  { border: 'border-green-400', background: 'from-green-50 to-green-100', title: 'text-green-800', text: 'text-green-600', badge: 'bg-green-600' },
+  { border: 'border-orange-400', background: 'from-orange-50 to-orange-100', title: 'text-orange-800', text: 'text-orange-600', badge: 'bg-orange-600' },
+  { border: 'border-blue-400', background: 'from-blue-50 to-blue-100', title: 'text-blue-800', text: 'text-blue-600', badge: 'bg-blue-600' }
+]
+
 interface ClientData {
   ownerName: string
   ownerRut: string
@@ -17,7 +26,7 @@ interface ClientData {
   selectedStrategies: string[]
 }
 
-export default function AnalysisPreview({ formValues }: AnalysisPreviewProps) {
+export default function AnalysisPreview({ formValues, plans, planComparisons = [] }: AnalysisPreviewProps) {
   const previewRef = useRef<HTMLDivElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [isDrawing, setIsDrawing] = useState(false)
@@ -334,183 +343,74 @@ export default function AnalysisPreview({ formValues }: AnalysisPreviewProps) {
           <p className="text-gray-600 mb-6">Seleccione la estrategia que mejor se adapte a sus objetivos de rentabilidad y tiempo:</p>
           
           <div className="space-y-6">
-            {/* Plan A - Velocidad Rápida */}
-            <div className="border-2 border-green-400 rounded-xl p-6 bg-gradient-to-r from-green-50 to-green-100 shadow-lg">
-              <div className="flex items-center justify-between mb-4">
-                <div>
-                  <h3 className="text-xl font-bold text-green-800 flex items-center">
-                    <span className="bg-green-600 text-white w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold mr-3">A</span>
-                    Estrategia Velocidad Rápida
-                  </h3>
-                  <p className="text-sm text-green-600 mt-1">Ideal para propietarios que priorizan liquidez inmediata</p>
-                </div>
-                <div className="text-right">
-                  <div className="text-2xl font-bold text-green-700">7-15 días</div>
-                  <div className="text-xs text-green-600">Tiempo objetivo</div>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <h4 className="font-semibold text-green-800 mb-3">📅 Cronograma de Precios</h4>
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between bg-white bg-opacity-60 p-2 rounded">
-                      <span className="font-medium">Días 1-7:</span>
-                      <span className="font-bold">${baseRent.toLocaleString('es-CL')}</span>
+            {plans.map((plan, index) => {
+              const palette = PLAN_PALETTES[index % PLAN_PALETTES.length]
+              const simulation = planComparisons.find(comparison => comparison.plan_id === plan.id)?.simulation
+              const schedule = plan.price_adjustment_schedule
+
+              return (
+                <div key={plan.id} className={`border-2 ${palette.border} rounded-xl p-6 bg-gradient-to-r ${palette.background} shadow-lg`}>
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <h3 className={`text-xl font-bold ${palette.title} flex items-center`}>
+                        <span className={`${palette.badge} text-white w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold mr-3`}>{plan.id}</span>
+                        {plan.name}
+                      </h3>
+                      <p className={`text-sm ${palette.text} mt-1`}>{plan.description}</p>
                     </div>
-                    <div className="flex justify-between bg-white bg-opacity-40 p-2 rounded">
-                      <span className="font-medium">Días 8-15:</span>
-                      <span className="font-bold">${Math.round(baseRent * 0.975).toLocaleString('es-CL')} <span className="text-xs text-green-600">(-2.5%)</span></span>
-                    </div>
-                    <div className="flex justify-between bg-white bg-opacity-40 p-2 rounded">
-                      <span className="font-medium">Días 16-22:</span>
-                      <span className="font-bold">${Math.round(baseRent * 0.95).toLocaleString('es-CL')} <span className="text-xs text-green-600">(-5%)</span></span>
-                    </div>
-                    <div className="flex justify-between bg-white bg-opacity-40 p-2 rounded">
-                      <span className="font-medium">Días 23-30:</span>
-                      <span className="font-bold">${Math.round(baseRent * 0.925).toLocaleString('es-CL')} <span className="text-xs text-green-600">(-7.5%)</span></span>
-                    </div>
-                  </div>
-                </div>
-                
-                <div>
-                  <h4 className="font-semibold text-green-800 mb-3">📊 Proyección de Ingresos</h4>
-                  <div className="space-y-3 text-sm">
-                    <div className="bg-white bg-opacity-60 p-3 rounded">
-                      <div className="flex justify-between">
-                        <span>Ingreso promedio esperado:</span>
-                        <span className="font-bold">${Math.round(baseRent * 0.975).toLocaleString('es-CL')}</span>
+                    {simulation && (
+                      <div className="text-right">
+                        <div className={`text-2xl font-bold ${palette.title}`}>{simulation.p10_days}-{simulation.p90_days} días</div>
+                        <div className={`text-xs ${palette.text}`}>Tiempo estimado</div>
                       </div>
-                      <div className="text-xs text-green-600 mt-1">Basado en arriendo en día 12 (pérdida 0.4% rentabilidad anual)</div>
-                    </div>
-                    <div className="bg-white bg-opacity-60 p-3 rounded">
-                      <div className="text-green-700 font-medium">✅ Ventajas:</div>
-                      <ul className="text-xs mt-1 space-y-1">
-                        <li>• Flujo de caja inmediato</li>
-                        <li>• Menor riesgo de vacancia</li>
-                        <li>• Certeza de ingreso rápido</li>
-                      </ul>
-                    </div>
+                    )}
                   </div>
-                </div>
-              </div>
-            </div>
 
-            {/* Plan B - Velocidad Media */}
-            <div className="border-2 border-orange-400 rounded-xl p-6 bg-gradient-to-r from-orange-50 to-orange-100 shadow-lg">
-              <div className="flex items-center justify-between mb-4">
-                <div>
-                  <h3 className="text-xl font-bold text-orange-800 flex items-center">
-                    <span className="bg-orange-600 text-white w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold mr-3">B</span>
-                    Estrategia Equilibrio Óptimo
-                  </h3>
-                  <p className="text-sm text-orange-600 mt-1">Equilibrio perfecto entre precio y velocidad de arriendo</p>
-                </div>
-                <div className="text-right">
-                  <div className="text-2xl font-bold text-orange-700">10-20 días</div>
-                  <div className="text-xs text-orange-600">Tiempo objetivo</div>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <h4 className="font-semibold text-orange-800 mb-3">📅 Cronograma de Precios</h4>
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between bg-white bg-opacity-60 p-2 rounded">
-                      <span className="font-medium">Días 1-10:</span>
-                      <span className="font-bold">${baseRent.toLocaleString('es-CL')}</span>
-                    </div>
-                    <div className="flex justify-between bg-white bg-opacity-40 p-2 rounded">
-                      <span className="font-medium">Días 11-20:</span>
-                      <span className="font-bold">${Math.round(baseRent * 0.97).toLocaleString('es-CL')} <span className="text-xs text-orange-600">(-3%)</span></span>
-                    </div>
-                    <div className="flex justify-between bg-white bg-opacity-40 p-2 rounded">
-                      <span className="font-medium">Días 21-30:</span>
-                      <span className="font-bold">${Math.round(baseRent * 0.94).toLocaleString('es-CL')} <span className="text-xs text-orange-600">(-6%)</span></span>
-                    </div>
-                  </div>
-                </div>
-                
-                <div>
-                  <h4 className="font-semibold text-orange-800 mb-3">📊 Proyección de Ingresos</h4>
-                  <div className="space-y-3 text-sm">
-                    <div className="bg-white bg-opacity-60 p-3 rounded">
-                      <div className="flex justify-between">
-                        <span>Ingreso promedio esperado:</span>
-                        <span className="font-bold">${Math.round(baseRent * 0.97).toLocaleString('es-CL')}</span>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <h4 className={`font-semibold ${palette.title} mb-3`}>📅 Cronograma de Precios</h4>
+                      <div className="space-y-2 text-sm">
+                        {schedule.map((adjustment, adjustmentIndex) => {
+                          const nextDay = schedule[adjustmentIndex + 1]?.day ?? plan.marketing_duration_days
+                          return (
+                            <div key={adjustment.day} className={`flex justify-between bg-white ${adjustmentIndex === 0 ? 'bg-opacity-60' : 'bg-opacity-40'} p-2 rounded`}>
+                              <span className="font-medium">Días {adjustment.day + 1}-{Math.max(adjustment.day + 1, nextDay)}:</span>
+                              <span className="font-bold">
+                                ${adjustment.new_rent_clp.toLocaleString('es-CL')}
+                                {adjustment.percentage_reduction > 0 && (
+                                  <span className={`text-xs ${palette.text}`}> (-{adjustment.percentage_reduction}%)</span>
+                                )}
+                              </span>
+                            </div>
+                          )
+                        })}
                       </div>
-                      <div className="text-xs text-orange-600 mt-1">Basado en arriendo en día 15 (pérdida 0.5% rentabilidad anual)</div>
-                    </div>
-                    <div className="bg-white bg-opacity-60 p-3 rounded">
-                      <div className="text-orange-700 font-medium">⚡ Ventajas:</div>
-                      <ul className="text-xs mt-1 space-y-1">
-                        <li>• Mejor precio promedio</li>
-                        <li>• Tiempo razonable de espera</li>
-                        <li>• ROI optimizado</li>
-                      </ul>
                     </div>
-                  </div>
-                </div>
-              </div>
-            </div>
 
-            {/* Plan C - Velocidad Conservadora */}
-            <div className="border-2 border-blue-400 rounded-xl p-6 bg-gradient-to-r from-blue-50 to-blue-100 shadow-lg">
-              <div className="flex items-center justify-between mb-4">
-                <div>
-                  <h3 className="text-xl font-bold text-blue-800 flex items-center">
-                    <span className="bg-blue-600 text-white w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold mr-3">C</span>
-                    Estrategia Máxima Rentabilidad
-                  </h3>
-                  <p className="text-sm text-blue-600 mt-1">Para propietarios que buscan el mejor precio del mercado</p>
-                </div>
-                <div className="text-right">
-                  <div className="text-2xl font-bold text-blue-700">15-30 días</div>
-                  <div className="text-xs text-blue-600">Tiempo objetivo</div>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <h4 className="font-semibold text-blue-800 mb-3">📅 Cronograma de Precios</h4>
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between bg-white bg-opacity-60 p-2 rounded">
-                      <span className="font-medium">Días 1-15:</span>
-                      <span className="font-bold">${baseRent.toLocaleString('es-CL')}</span>
-                    </div>
-                    <div className="flex justify-between bg-white bg-opacity-40 p-2 rounded">
-                      <span className="font-medium">Días 16-25:</span>
-                      <span className="font-bold">${Math.round(baseRent * 0.985).toLocaleString('es-CL')} <span className="text-xs text-blue-600">(-1.5%)</span></span>
-                    </div>
-                    <div className="flex justify-between bg-white bg-opacity-40 p-2 rounded">
-                      <span className="font-medium">Días 26-30:</span>
-                      <span className="font-bold">${Math.round(baseRent * 0.97).toLocaleString('es-CL')} <span className="text-xs text-blue-600">(-3%)</span></span>
-                    </div>
-                  </div>
-                </div>
-                
-                <div>
-                  <h4 className="font-semibold text-blue-800 mb-3">📊 Proyección de Ingresos</h4>
-                  <div className="space-y-3 text-sm">
-                    <div className="bg-white bg-opacity-60 p-3 rounded">
-                      <div className="flex justify-between">
-                        <span>Ingreso promedio esperado:</span>
-                        <span className="font-bold">${Math.round(baseRent * 0.985).toLocaleString('es-CL')}</span>
+                    <div>
+                      <h4 className={`font-semibold ${palette.title} mb-3`}>📊 Proyección de Ingresos</h4>
+                      <div className="space-y-3 text-sm">
+                        <div className="bg-white bg-opacity-60 p-3 rounded">
+                          <div className="flex justify-between">
+                            <span>Comisión anual:</span>
+                            <span className="font-bold">{plan.commission_percentage}%</span>
+                          </div>
+                        </div>
+                        {simulation && (
+                          <div className="bg-white bg-opacity-60 p-3 rounded">
+                            <div className="flex justify-between">
+                              <span>Ingreso promedio esperado:</span>
+                              <span className="font-bold">${simulation.expected_rent_clp.toLocaleString('es-CL')}</span>
+                            </div>
+                            <div className={`text-xs ${palette.text} mt-1`}>Arriendo típico en el día {simulation.p50_days} según simulación</div>
+                          </div>
+                        )}
                       </div>
-                      <div className="text-xs text-blue-600 mt-1">Basado en arriendo en día 20 (pérdida 0.67% rentabilidad anual)</div>
-                    </div>
-                    <div className="bg-white bg-opacity-60 p-3 rounded">
-                      <div className="text-blue-700 font-medium">🎯 Ventajas:</div>
-                      <ul className="text-xs mt-1 space-y-1">
-                        <li>• Precio máximo de mercado</li>
-                        <li>• Mayor rentabilidad total</li>
-                        <li>• Selección de mejores inquilinos</li>
-                      </ul>
                     </div>
                   </div>
                 </div>
-              </div>
-            </div>
+              )
+            })}
           </div>
         </div>
 
@@ -1,6 +1,8 @@
 'use client'
 
 import type { RentalAnalysis, RentalCalculations, CapRateAnalysis, VacancyImpact } from '@/types/rental'
+import LeveragedReturnsCard from '@/components/LeveragedReturnsCard'
+import { describeNeighborhoodDetail } from '@/lib/neighborhoodScore'
 
 interface AnalysisResultsProps {
   analysis: RentalAnalysis
@@ -117,6 +119,11 @@ export default function AnalysisResults({
         </div>
       </div>
 
+      {/* Retornos con Crédito Hipotecario */}
+      {calculations.leveraged_returns && (
+        <LeveragedReturnsCard leveragedReturns={calculations.leveraged_returns} />
+      )}
+
       {/* Análisis de CAP Rate Detallado */}
       <div className="grid lg:grid-cols-2 gap-6">
         <div className="card">
@@ -146,6 +153,20 @@ export default function AnalysisResults({
                 </span>
               </div>
             </div>
+            {calculations.after_tax && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Impuesto anual estimado:</span>
+                  <span className="font-medium text-error-600">
+                    -{formatCurrency(calculations.after_tax.annual_tax_clp)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Rentabilidad después de impuestos:</span>
+                  <span className="font-medium">{calculations.after_tax.after_tax_yield_percentage.toFixed(2)}%</span>
+                </div>
+              </>
+            )}
           </div>
         </div>
 
@@ -160,13 +181,13 @@ export default function AnalysisResults({
                 <span className="font-medium text-warning-900">Costo de Vacancia</span>
               </div>
               <p className="text-sm text-warning-700">
-                Perder 1 mes de arriendo = <strong>{vacancyImpact.percentage_annual_loss.toFixed(1)}%</strong> de pérdida anual
+                {vacancyImpact.days_vacant} días vacantes esperados = <strong>{vacancyImpact.percentage_annual_loss.toFixed(1)}%</strong> de pérdida anual
               </p>
             </div>
             
             <div className="space-y-2">
               <div className="flex justify-between">
-                <span className="text-gray-600">Pérdida por mes vacante:</span>
+                <span className="text-gray-600">Pérdida esperada en el año:</span>
                 <span className="font-medium text-error-600">
                   {formatCurrency(vacancyImpact.lost_income_clp)}
                 </span>
@@ -182,7 +203,7 @@ export default function AnalysisResults({
             <div className="bg-primary-50 border border-primary-200 rounded-lg p-3">
               <p className="text-sm text-primary-700">
                 <strong>Estrategia:</strong> Es mejor reducir el precio hasta {vacancyImpact.break_even_reduction_percentage.toFixed(0)}% 
-                que tener la propiedad vacante por un mes completo.
+                que tener la propiedad vacante los días esperados.
               </p>
             </div>
           </div>
@@ -205,6 +226,12 @@ export default function AnalysisResults({
                     ${analysis.market_study.average_rent_per_m2.toLocaleString('es-CL')}/m²
                   </span>
                 </div>
+                {analysis.market_study.market_benchmark && (
+                  <p className="text-xs text-gray-500">
+                    Índice de {analysis.market_study.market_benchmark.comuna}: {analysis.market_study.market_benchmark.sample_size} muestras
+                    entre {analysis.market_study.market_benchmark.from_month} y {analysis.market_study.market_benchmark.to_month}
+                  </p>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Precio de la propiedad:</span>
                   <span className="font-medium text-primary-600">
@@ -253,6 +280,11 @@ export default function AnalysisResults({
                     {analysis.market_study.neighborhood_factors.amenities_score}/10
                   </span>
                 </div>
+                {analysis.market_study.neighborhood_factors.breakdown?.map(detail => (
+                  <p key={detail.category} className="text-xs text-gray-500">
+                    {describeNeighborhoodDetail(detail)}
+                  </p>
+                ))}
               </div>
             </div>
           </div>
@@ -1,6 +1,13 @@
 'use client'
 
 import type { RentalAnalysis, RentalCalculations, CapRateAnalysis, VacancyImpact } from '@/types/rental'
+import CashFlowProjectionTable from '@/components/CashFlowProjectionTable'
+import LeveragedReturnsCard from '@/components/LeveragedReturnsCard'
+import HoldAndSellCard from '@/components/HoldAndSellCard'
+import SensitivityAnalysisCard from '@/components/SensitivityAnalysisCard'
+import ComparableValuationCard from '@/components/ComparableValuationCard'
+import { EXPENSE_LABELS } from '@/lib/ownerExpenses'
+import { describeNeighborhoodDetail } from '@/lib/neighborhoodScore'
 
 interface AnalysisResultsImprovedProps {
   analysis: RentalAnalysis
@@ -184,6 +191,24 @@ export default function AnalysisResultsImproved({
                     -{formatCurrency(capRateAnalysis.annual_expenses)}
                   </span>
                 </div>
+                {capRateAnalysis.expense_breakdown && (
+                  <div className="pl-4 pb-2 space-y-1 text-sm">
+                    {(Object.keys(EXPENSE_LABELS) as Array<keyof typeof EXPENSE_LABELS>)
+                      .filter(key => capRateAnalysis.expense_breakdown![key] > 0)
+                      .map(key => (
+                        <div key={key} className="flex justify-between text-gray-600">
+                          <span>{EXPENSE_LABELS[key]}</span>
+                          <span>-{formatCurrency(capRateAnalysis.expense_breakdown![key])}</span>
+                        </div>
+                      ))}
+                  </div>
+                )}
+                {!!capRateAnalysis.commission_clp && (
+                  <div className="flex justify-between items-center py-2 border-t">
+                    <span className="text-gray-700 font-medium">Comisión del plan:</span>
+                    <span className="font-bold text-red-600">-{formatCurrency(capRateAnalysis.commission_clp)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center py-3 border-t-2 border-gray-300">
                   <span className="text-gray-900 font-bold text-lg">NOI (Ingreso Neto):</span>
                   <span className="font-bold text-xl text-green-700">
@@ -203,6 +228,34 @@ export default function AnalysisResultsImproved({
                   </div>
                 </div>
               </div>
+
+              {calculations.after_tax && (
+                <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-200 space-y-2 text-sm">
+                  <div className="text-center">
+                    <div className="text-3xl font-bold text-indigo-700">
+                      {calculations.after_tax.after_tax_yield_percentage.toFixed(2)}%
+                    </div>
+                    <div className="font-medium text-gray-700">Rentabilidad Después de Impuestos</div>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">
+                      Impuesto anual estimado ({calculations.after_tax.dfl2_exempt ? 'exento DFL-2' : `tramo ${calculations.after_tax.marginal_rate_percentage}%`}):
+                    </span>
+                    <span className="font-medium text-red-600">-{formatCurrency(calculations.after_tax.annual_tax_clp)}</span>
+                  </div>
+                  {calculations.after_tax.contribuciones_credit_clp > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Crédito por contribuciones:</span>
+                      <span className="font-medium">{formatCurrency(calculations.after_tax.contribuciones_credit_clp)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Ingreso neto después de impuestos:</span>
+                    <span className="font-medium text-green-700">{formatCurrency(calculations.after_tax.after_tax_income_clp)}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">Año tributario {calculations.after_tax.tax_year} · estimación referencial</div>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -223,7 +276,7 @@ export default function AnalysisResultsImproved({
                   +{(100 - vacancyImpact.percentage_annual_loss).toFixed(1)}%
                 </div>
                 <div className="text-sm text-green-600 font-medium">
-                  Ganancia que mantiene si arrienda rápido (30 días)
+                  Ingreso anual que conserva con ~{vacancyImpact.days_vacant} días vacantes esperados
                 </div>
                 <div className="text-xs text-green-500 mt-2">
                   ✅ Arrendar rápido = Más dinero en su bolsillo al final del año
@@ -235,7 +288,7 @@ export default function AnalysisResultsImproved({
                   <div className="text-2xl font-bold text-blue-700">
                     {formatCurrency(vacancyImpact.lost_income_clp)}
                   </div>
-                  <div className="text-sm text-blue-600">Dinero Seguro Cada Mes</div>
+                  <div className="text-sm text-blue-600">Pérdida Esperada en el Año</div>
                 </div>
                 
                 <div className="bg-blue-50 p-4 rounded-xl border border-blue-200 text-center">
@@ -246,6 +299,24 @@ export default function AnalysisResultsImproved({
                 </div>
               </div>
 
+              {vacancyImpact.windows && vacancyImpact.windows.length > 0 && (
+                <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
+                  <div className="text-sm font-medium text-gray-700 mb-2">
+                    Probabilidad de arrendar en cada tramo del cronograma
+                  </div>
+                  <div className="space-y-1 text-sm">
+                    {vacancyImpact.windows.map(window => (
+                      <div key={window.from_day} className="flex justify-between">
+                        <span className="text-gray-600">
+                          Días {window.from_day}-{window.to_day} a {formatCurrency(window.rent_clp)}
+                        </span>
+                        <span className="font-medium">{(window.closing_probability * 100).toFixed(0)}%</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
                 <div className="flex items-start space-x-3">
                   <div className="text-2xl">💡</div>
@@ -253,7 +324,7 @@ export default function AnalysisResultsImproved({
                     <div className="font-bold text-blue-800 mb-1">Consejo de Experto</div>
                     <div className="text-sm text-blue-700">
                       Es mucho mejor bajar el precio hasta un {vacancyImpact.break_even_reduction_percentage.toFixed(0)}% 
-                      que tener la casa vacía un mes entero perdiendo dinero.
+                      que tener la casa vacía los {vacancyImpact.days_vacant} días que se esperan con este cronograma.
                     </div>
                   </div>
                 </div>
@@ -284,6 +355,15 @@ export default function AnalysisResultsImproved({
                   <div className="text-2xl font-bold text-blue-700">
                     ${analysis.market_study.average_rent_per_m2.toLocaleString()}/m²
                   </div>
+                  {analysis.market_study.market_benchmark && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      Mediana de {analysis.market_study.market_benchmark.comuna}
+                      {analysis.market_study.market_benchmark.typology !== undefined &&
+                        ` (${analysis.market_study.market_benchmark.typology}${analysis.market_study.market_benchmark.typology >= 4 ? '+' : ''}D)`}
+                      {' · '}{analysis.market_study.market_benchmark.sample_size} muestras
+                      {' · '}{analysis.market_study.market_benchmark.from_month} a {analysis.market_study.market_benchmark.to_month}
+                    </div>
+                  )}
                 </div>
                 
                 <div className="bg-purple-50 p-4 rounded-xl border border-purple-200">
@@ -298,7 +378,11 @@ export default function AnalysisResultsImproved({
             <div className="text-center">
               <h5 className="font-bold text-gray-900 mb-4 flex items-center justify-center">
                 <span className="text-xl mr-2">🎯</span>
-                Rango de Mercado
+                {analysis.market_study.market_benchmark
+                  ? 'Rango de Mercado (P25–P75 de la comuna)'
+                  : analysis.market_study.valuation
+                  ? `Rango de Mercado (IC ${analysis.market_study.valuation.confidence_level_percentage}%)`
+                  : 'Rango de Mercado'}
               </h5>
               <div className="space-y-3">
                 <div className="bg-green-50 p-4 rounded-xl border border-green-200">
@@ -352,12 +436,44 @@ export default function AnalysisResultsImproved({
                     </div>
                   </div>
                 ))}
+                {analysis.market_study.neighborhood_factors.breakdown ? (
+                  <ul className="text-left text-xs text-gray-600 space-y-1">
+                    {analysis.market_study.neighborhood_factors.breakdown.map(detail => (
+                      <li key={detail.category} className="flex justify-between gap-2">
+                        <span>{describeNeighborhoodDetail(detail)}</span>
+                        <span className="font-medium text-gray-800 shrink-0">+{detail.points}/{detail.max_points}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : analysis.market_study.neighborhood_factors.source === 'default' && (
+                  <p className="text-xs text-gray-500">
+                    Valores referenciales: ubique la propiedad en el mapa para calcularlos con los puntos de interés cercanos.
+                  </p>
+                )}
               </div>
             </div>
           </div>
         </div>
       </div>
 
+      {analysis.market_study.valuation && (
+        <ComparableValuationCard
+          valuation={analysis.market_study.valuation}
+          comparables={analysis.market_study.comparable_properties}
+        />
+      )}
+
+      {/* Proyección de Flujo de Caja */}
+      {calculations.leveraged_returns && (
+        <LeveragedReturnsCard leveragedReturns={calculations.leveraged_returns} />
+      )}
+
+      <CashFlowProjectionTable analysis={analysis} />
+
+      <HoldAndSellCard analysis={analysis} />
+
+      <SensitivityAnalysisCard analysis={analysis} />
+
       {/* Términos y Condiciones */}
       <div className="card">
         <div className="card-header">
@@ -399,7 +515,7 @@ export default function AnalysisResultsImproved({
               <div className="space-y-3 text-sm text-green-800">
                 <div className="flex items-start space-x-2">
                   <span className="text-green-600 mt-0.5">•</span>
-                  <span>Arrendar en el primer mes conserva el <strong>{(100 - vacancyImpact.percentage_annual_loss).toFixed(1)}%</strong> de la rentabilidad anual proyectada.</span>
+                  <span>Con el cronograma del plan principal se conserva el <strong>{(100 - vacancyImpact.percentage_annual_loss).toFixed(1)}%</strong> de la rentabilidad anual proyectada.</span>
                 </div>
                 <div className="flex items-start space-x-2">
                   <span className="text-green-600 mt-0.5">•</span>
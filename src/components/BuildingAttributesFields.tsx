@@ -0,0 +1,125 @@
+'use client'
+
+import { UseFormReturn, FieldPath } from 'react-hook-form'
+import { useState } from 'react'
+import type { Amenity, RentalAnalysisForm } from '@/types/rental'
+import { geocodeAddress } from '@/lib/geocoding'
+import { AMENITY_LABELS, ORIENTATIONS, parseAmenities } from '@/lib/similarity'
+import { toast } from '@/components/ui/Toast'
+
+// Campos del formulario donde se guardan los atributos (propiedad o un comparable)
+export interface BuildingAttributeNames {
+  address: FieldPath<RentalAnalysisForm>
+  lat: FieldPath<RentalAnalysisForm>
+  lon: FieldPath<RentalAnalysisForm>
+  yearBuilt: FieldPath<RentalAnalysisForm>
+  floor: FieldPath<RentalAnalysisForm>
+  orientation: FieldPath<RentalAnalysisForm>
+  amenities: FieldPath<RentalAnalysisForm>
+}
+
+interface BuildingAttributesFieldsProps {
+  form: UseFormReturn<RentalAnalysisForm>
+  names: BuildingAttributeNames
+}
+
+export default function BuildingAttributesFields({ form, names }: BuildingAttributesFieldsProps) {
+  const { register, setValue, watch } = form
+  const [locating, setLocating] = useState(false)
+
+  const address = watch(names.address) as string | undefined
+  const lat = watch(names.lat) as string | undefined
+  const lon = watch(names.lon) as string | undefined
+  const amenities = parseAmenities(watch(names.amenities) as string | undefined)
+
+  const toggleAmenity = (amenity: Amenity) => {
+    const next = amenities.includes(amenity)
+      ? amenities.filter(item => item !== amenity)
+      : [...amenities, amenity]
+    setValue(names.amenities, next.join(','))
+  }
+
+  // Ubica la dirección para medir la distancia entre la propiedad y los comparables
+  const locate = async () => {
+    if (!address || address.trim().length <= 3) {
+      toast.warning('Dirección requerida', 'Ingrese la dirección antes de ubicarla en el mapa')
+      return
+    }
+
+    setLocating(true)
+    try {
+      const result = await geocodeAddress(address)
+      if (result) {
+        setValue(names.lat, result.lat.toString())
+        setValue(names.lon, result.lon.toString())
+      } else {
+        toast.warning('Dirección no encontrada', 'No se pudo ubicar la dirección; la distancia no se considerará')
+      }
+    } catch (error) {
+      console.error('Error geocodificando dirección:', error)
+      toast.error('Error de conexión', 'No se pudo ubicar la dirección')
+    } finally {
+      setLocating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <div>
+          <label className="text-xs text-gray-600">Año construcción</label>
+          <input
+            {...register(names.yearBuilt)}
+            type="number"
+            min="1850"
+            placeholder="Ej: 2015"
+            className="input input-sm w-full"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-600">Piso</label>
+          <input
+            {...register(names.floor)}
+            type="number"
+            min="0"
+            placeholder="Ej: 8"
+            className="input input-sm w-full"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-600">Orientación</label>
+          <select {...register(names.orientation)} className="input input-sm w-full">
+            <option value="">Sin dato</option>
+            {ORIENTATIONS.map(orientation => (
+              <option key={orientation} value={orientation}>{orientation}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-600">Ubicación</label>
+          <button
+            type="button"
+            onClick={locate}
+            disabled={locating}
+            className="btn btn-outline text-xs w-full"
+          >
+            {locating ? '🔍 Buscando...' : lat && lon ? '✅ Ubicada' : '📍 Ubicar'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(AMENITY_LABELS) as Amenity[]).map(amenity => (
+          <label key={amenity} className="flex items-center space-x-1 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={amenities.includes(amenity)}
+              onChange={() => toggleAmenity(amenity)}
+            />
+            <span>{AMENITY_LABELS[amenity]}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
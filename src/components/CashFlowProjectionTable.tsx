@@ -0,0 +1,132 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { RentalAnalysis, RentIndexation } from '@/types/rental'
+import { projectCashFlow, PROJECTION_DEFAULTS } from '@/lib/cashFlowProjection'
+
+interface CashFlowProjectionTableProps {
+  analysis: RentalAnalysis
+}
+
+const INDEXATION_OPTIONS: Array<{ value: RentIndexation; label: string }> = [
+  { value: 'UF', label: 'Arriendo en UF' },
+  { value: 'IPC', label: 'Reajuste anual IPC' },
+  { value: 'none', label: 'Sin reajuste' }
+]
+
+export default function CashFlowProjectionTable({ analysis }: CashFlowProjectionTableProps) {
+  const [years, setYears] = useState<number>(PROJECTION_DEFAULTS.YEARS)
+  const [indexation, setIndexation] = useState<RentIndexation>(PROJECTION_DEFAULTS.INDEXATION)
+  const [inflation, setInflation] = useState<number>(PROJECTION_DEFAULTS.ANNUAL_INFLATION_PERCENTAGE)
+
+  const projection = useMemo(
+    () => projectCashFlow(analysis, { years, indexation, annual_inflation_percentage: inflation }),
+    [analysis, years, indexation, inflation]
+  )
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('es-CL', {
+      style: 'currency',
+      currency: 'CLP',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h4 className="text-xl font-bold text-white flex items-center">
+          <span className="text-2xl mr-2">📅</span>
+          Proyección a {projection.settings.years} Años
+        </h4>
+        <p className="text-blue-100 text-sm mt-1">
+          Flujo de caja año a año con reajuste del arriendo
+        </p>
+      </div>
+      <div className="card-body space-y-6">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <label className="label">Horizonte</label>
+            <div className="flex space-x-2">
+              {[5, 10].map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setYears(option)}
+                  className={`btn ${years === option ? 'btn-primary' : 'btn-secondary'} flex-1`}
+                >
+                  {option} años
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="label">Reajuste del arriendo</label>
+            <select
+              value={indexation}
+              onChange={(e) => setIndexation(e.target.value as RentIndexation)}
+              className="input"
+            >
+              {INDEXATION_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="label">Inflación anual esperada (%)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              max="20"
+              value={inflation}
+              onChange={(e) => setInflation(parseFloat(e.target.value) || 0)}
+              className="input"
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50 text-gray-700">
+                <th className="px-3 py-2 text-left">Año</th>
+                <th className="px-3 py-2 text-right">Arriendo mensual</th>
+                <th className="px-3 py-2 text-right">Arriendo bruto</th>
+                <th className="px-3 py-2 text-right">Vacancia</th>
+                <th className="px-3 py-2 text-right">Comisión</th>
+                <th className="px-3 py-2 text-right">Gastos</th>
+                <th className="px-3 py-2 text-right">NOI</th>
+                <th className="px-3 py-2 text-right">Acumulado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projection.years.map(row => (
+                <tr key={row.year} className="border-t">
+                  <td className="px-3 py-2 font-medium">{row.year}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(row.monthly_rent_clp)}</td>
+                  <td className="px-3 py-2 text-right text-green-600">{formatCurrency(row.gross_rent_clp)}</td>
+                  <td className="px-3 py-2 text-right text-red-600">-{formatCurrency(row.vacancy_loss_clp)}</td>
+                  <td className="px-3 py-2 text-right text-red-600">-{formatCurrency(row.commission_clp)}</td>
+                  <td className="px-3 py-2 text-right text-red-600">-{formatCurrency(row.expenses_clp)}</td>
+                  <td className="px-3 py-2 text-right font-bold">{formatCurrency(row.net_operating_income)}</td>
+                  <td className="px-3 py-2 text-right font-bold text-blue-700">{formatCurrency(row.cumulative_income_clp)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 text-center">
+          <div className="text-sm text-blue-600">Ingreso neto acumulado en {projection.settings.years} años</div>
+          <div className="text-2xl font-bold text-blue-700">{formatCurrency(projection.total_net_income_clp)}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            Considera {projection.settings.commission_percentage}% de comisión anual y gastos reajustados por inflación
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
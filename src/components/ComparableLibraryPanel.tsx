@@ -0,0 +1,175 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { ComparableFormEntry, LibraryComparable } from '@/types/rental'
+import { COMPARABLE_LIBRARY_DEFAULTS, searchLibrary } from '@/lib/comparableLibrary'
+import { comparableEntryKey } from '@/lib/comparables'
+import { COMUNAS, detectComuna } from '@/lib/comunas'
+import { deleteLibraryComparable, fetchComparableLibrary } from '@/lib/officeApi'
+import { toast } from '@/components/ui/Toast'
+
+interface ComparableLibraryPanelProps {
+  propertyAddress?: string
+  current: ComparableFormEntry[] // Comparables ya ingresados en el análisis
+  onSelect: (entry: ComparableFormEntry) => void
+}
+
+export default function ComparableLibraryPanel({ propertyAddress, current, onSelect }: ComparableLibraryPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [library, setLibrary] = useState<LibraryComparable[]>([])
+  const [query, setQuery] = useState('')
+  const [comuna, setComuna] = useState('')
+  const [staleAfterDays, setStaleAfterDays] = useState<number>(COMPARABLE_LIBRARY_DEFAULTS.STALE_AFTER_DAYS)
+  const [hideStale, setHideStale] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('es-CL', {
+      style: 'currency',
+      currency: 'CLP',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  // La biblioteca es de la oficina: se lee del servidor cada vez que se abre el panel
+  const loadLibrary = async () => {
+    try {
+      setLibrary(await fetchComparableLibrary())
+    } catch (error) {
+      toast.error('Error', error instanceof Error ? error.message : 'No se pudo cargar la biblioteca de comparables')
+    }
+  }
+
+  // Al abrir, se filtra por la comuna de la propiedad evaluada
+  useEffect(() => {
+    if (!open) return
+    loadLibrary()
+    setComuna(detectComuna(propertyAddress) || '')
+  }, [open, propertyAddress])
+
+  const results = useMemo(() => searchLibrary(library, {
+    query,
+    comuna: comuna || undefined,
+    maxAgeDays: hideStale ? staleAfterDays : undefined
+  }, staleAfterDays), [library, query, comuna, hideStale, staleAfterDays])
+
+  const currentKeys = useMemo(
+    () => new Set(current.map(comparableEntryKey).filter(Boolean)),
+    [current]
+  )
+
+  const handleDelete = async (item: LibraryComparable) => {
+    if (!confirm(`¿Eliminar "${item.entry.address}" de la biblioteca?`)) return
+    try {
+      await deleteLibraryComparable(item.id)
+      setLibrary(prev => prev.filter(candidate => candidate.id !== item.id))
+    } catch (error) {
+      toast.error('Error al eliminar', error instanceof Error ? error.message : 'No se pudo eliminar el comparable')
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full flex justify-between items-center p-3 text-sm font-medium text-gray-800"
+      >
+        <span>📚 Biblioteca de comparables</span>
+        <span>{open ? '▲' : '▼'}</span>
+      </button>
+
+      {open && (
+        <div className="p-3 pt-0 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Buscar por dirección o edificio"
+              className="input input-sm md:col-span-2"
+            />
+            <select value={comuna} onChange={(e) => setComuna(e.target.value)} className="input input-sm">
+              <option value="">Todas las comunas</option>
+              {COMUNAS.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <div className="flex items-center space-x-2 text-xs text-gray-600">
+              <span>Vigencia</span>
+              <input
+                type="number"
+                min="1"
+                value={staleAfterDays}
+                onChange={(e) => setStaleAfterDays(parseInt(e.target.value) || COMPARABLE_LIBRARY_DEFAULTS.STALE_AFTER_DAYS)}
+                className="input input-sm w-16"
+              />
+              <span>días</span>
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-xs text-gray-600">
+            <input type="checkbox" checked={hideStale} onChange={(e) => setHideStale(e.target.checked)} />
+            <span>Ocultar publicaciones desactualizadas</span>
+          </label>
+
+          {results.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              {library.length === 0
+                ? 'La biblioteca está vacía: los comparables se agregan al guardar cada análisis.'
+                : 'No hay comparables que coincidan con la búsqueda.'}
+            </p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {results.map(({ item, age_days, is_stale }) => {
+                const alreadyAdded = currentKeys.has(item.key)
+                return (
+                  <div
+                    key={item.id}
+                    className={`flex justify-between items-center gap-3 p-2 rounded border text-xs ${is_stale ? 'bg-yellow-50 border-yellow-200' : 'bg-white border-gray-200'}`}
+                  >
+                    <div>
+                      <div className="font-medium text-gray-800">
+                        {item.entry.address}
+                        {item.comuna && <span className="text-gray-500"> · {item.comuna}</span>}
+                      </div>
+                      <div className="text-gray-600">
+                        {item.entry.m2} m² · {item.entry.bedrooms}D/{item.entry.bathrooms}B · {formatCurrency(parseFloat(item.entry.price || '0'))}
+                      </div>
+                      <div className={is_stale ? 'text-yellow-700' : 'text-gray-500'}>
+                        Capturado el {new Date(item.captured_at).toLocaleDateString('es-CL')} (hace {age_days} días)
+                        {item.captured_by && ` · ${item.captured_by}`}
+                        {is_stale && ' · ⚠️ Desactualizado'}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          onSelect(item.entry)
+                          if (is_stale) {
+                            toast.warning('Comparable desactualizado', `Fue capturado hace ${age_days} días; verifique que siga vigente`)
+                          }
+                        }}
+                        disabled={alreadyAdded}
+                        className="btn btn-outline text-xs"
+                      >
+                        {alreadyAdded ? '✓ En la lista' : '➕ Usar'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(item)}
+                        className="text-red-500 hover:text-red-700"
+                        title="Eliminar de la biblioteca"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,17 @@
 'use client'
 
-import { UseFormReturn } from 'react-hook-form'
-import { useState, useMemo, useCallback, memo } from 'react'
-import type { RentalAnalysisForm } from '@/types/rental'
+import { UseFormReturn, useFieldArray } from 'react-hook-form'
+import { useMemo, useCallback, useEffect, useState, memo } from 'react'
+import type { ComparableFormEntry, RentalAnalysisForm, SimilarityWeights } from '@/types/rental'
 import { formatNumber, unformatNumber } from '@/utils/numberFormatter'
 import { toast } from '@/components/ui/Toast'
+import { createComparableEntry, isComparableEntryEmpty, MAX_COMPARABLES } from '@/lib/comparables'
+import { formToAnalysisInput, PROFITABILITY_DEFAULTS } from '@/lib/profitability'
+import { valueComparables } from '@/lib/comparableValuation'
+import { scoreComparables, DEFAULT_SIMILARITY_WEIGHTS } from '@/lib/similarity'
+import { fetchActiveSimilarityWeights } from '@/lib/officeApi'
+import ListingImportPanel from './ListingImportPanel'
+import ComparableLibraryPanel from './ComparableLibraryPanel'
 
 interface ComparablePropertiesProps {
   form: UseFormReturn<RentalAnalysisForm>
@@ -13,74 +20,52 @@ interface ComparablePropertiesProps {
 }
 
 function ComparableProperties({ form, formValues, onCalculateSuggestedPrice }: ComparablePropertiesProps) {
-  const { register, setValue } = form
-  const [activeComparables, setActiveComparables] = useState<number[]>([1])
+  const { register, setValue, control } = form
+  const { fields, append, remove, update } = useFieldArray({ control, name: 'comparables' })
+  const entries = formValues.comparables || []
 
-  const addComparable = useCallback((index: number) => {
-    setActiveComparables(prev => {
-      if (!prev.includes(index)) {
-        return [...prev, index]
-      }
-      return prev
-    })
-  }, [])
+  const addComparable = useCallback(() => {
+    if (fields.length >= MAX_COMPARABLES) {
+      toast.warning('Límite alcanzado', `Puede ingresar hasta ${MAX_COMPARABLES} comparables`)
+      return
+    }
+    append(createComparableEntry())
+  }, [fields.length, append])
 
-  const removeComparable = useCallback((index: number) => {
-    setActiveComparables(prev => {
-      if (prev.length > 1) {
-        // Limpiar los campos del comparable eliminado
-        const fields = ['link', 'address', 'm2', 'bedrooms', 'bathrooms', 'parking', 'storage', 'price']
-        fields.forEach(field => {
-          setValue(`comparable_${index}_${field}` as keyof RentalAnalysisForm, '')
-        })
-        return prev.filter(i => i !== index)
-      }
-      return prev
-    })
-  }, [setValue])
+  // Un comparable importado ocupa la primera fila vacía o se agrega al final
+  const importComparable = useCallback((entry: ComparableFormEntry) => {
+    const emptyIndex = entries.findIndex(isComparableEntryEmpty)
+    if (emptyIndex >= 0) {
+      update(emptyIndex, entry)
+    } else if (fields.length < MAX_COMPARABLES) {
+      append(entry)
+    } else {
+      toast.warning('Límite alcanzado', `Puede ingresar hasta ${MAX_COMPARABLES} comparables`)
+    }
+  }, [entries, fields.length, update, append])
+
+  const [similarityWeights, setSimilarityWeights] = useState<SimilarityWeights>(DEFAULT_SIMILARITY_WEIGHTS)
+
+  useEffect(() => {
+    fetchActiveSimilarityWeights()
+      .then(setSimilarityWeights)
+      .catch(error => console.warn('No se pudieron cargar los pesos de similitud:', error))
+  }, [])
 
-  // Memoizar propiedades de la propiedad principal
-  const propertyMetrics = useMemo(() => ({
-    m2: parseFloat(formValues.property_size_m2) || 0,
-    bedrooms: parseInt(formValues.bedrooms) || 1,
-    bathrooms: parseInt(formValues.bathrooms) || 1,
-    parking: parseInt(formValues.parking_spaces) || 0
-  }), [formValues.property_size_m2, formValues.bedrooms, formValues.bathrooms, formValues.parking_spaces])
+  // Similitud de cada comparable con los pesos de la oficina (id = posición en la lista)
+  const scoredComparables = useMemo(() => {
+    const input = formToAnalysisInput(formValues, undefined, similarityWeights)
+    return scoreComparables(input.comparables, input.property, similarityWeights)
+  }, [formValues, similarityWeights])
 
   // Memoizar datos válidos de comparables
   const validComparablesData = useMemo(() => {
-    return activeComparables.filter(index => {
-      const price = formValues[`comparable_${index}_price` as keyof RentalAnalysisForm]
-      const m2 = formValues[`comparable_${index}_m2` as keyof RentalAnalysisForm]
-      return price && m2 && parseFloat(price) > 0 && parseFloat(m2) > 0
-    }).map(index => {
-      const price = parseFloat(formValues[`comparable_${index}_price` as keyof RentalAnalysisForm] || '0')
-      const m2 = parseFloat(formValues[`comparable_${index}_m2` as keyof RentalAnalysisForm] || '0')
-      const bedrooms = parseInt(formValues[`comparable_${index}_bedrooms` as keyof RentalAnalysisForm] || '1')
-      const bathrooms = parseInt(formValues[`comparable_${index}_bathrooms` as keyof RentalAnalysisForm] || '1')
-      const parking = parseInt(formValues[`comparable_${index}_parking` as keyof RentalAnalysisForm] || '0')
-      
-      // Factor de similitud (0-1)
-      const bedroomsSimilarity = 1 - Math.abs(bedrooms - propertyMetrics.bedrooms) * 0.15
-      const bathroomsSimilarity = 1 - Math.abs(bathrooms - propertyMetrics.bathrooms) * 0.1
-      const parkingSimilarity = parking === propertyMetrics.parking ? 1 : (Math.abs(parking - propertyMetrics.parking) === 1 ? 0.85 : 0.7)
-      
-      const overallSimilarity = (bedroomsSimilarity + bathroomsSimilarity + parkingSimilarity) / 3
-      const pricePerM2 = price / m2
-      
-      return {
-        price,
-        m2,
-        pricePerM2,
-        adjustedPricePerM2: pricePerM2 * overallSimilarity,
-        similarity: overallSimilarity,
-        bedrooms,
-        bathrooms,
-        parking,
-        index
-      }
-    })
-  }, [activeComparables, formValues, propertyMetrics])
+    return entries.filter(entry => {
+      return entry.price && entry.m2 && parseFloat(entry.price) > 0 && parseFloat(entry.m2) > 0
+    }).map(entry => ({
+      pricePerM2: parseFloat(entry.price || '0') / parseFloat(entry.m2 || '1')
+    }))
+  }, [entries])
 
   const calculateSuggestedPrice = useCallback(() => {
     if (validComparablesData.length === 0) {
@@ -88,173 +73,182 @@ function ComparableProperties({ form, formValues, onCalculateSuggestedPrice }: C
       return
     }
 
-    // Cálculos de mercado usando datos memoizados
-    const avgPricePerM2 = validComparablesData.reduce((sum, c) => sum + c.pricePerM2, 0) / validComparablesData.length
-    const weightedAvgPricePerM2 = validComparablesData.reduce((sum, c) => sum + c.adjustedPricePerM2, 0) / validComparablesData.length
-    const maxPricePerM2 = Math.max(...validComparablesData.map(c => c.pricePerM2))
-    const minPricePerM2 = Math.min(...validComparablesData.map(c => c.pricePerM2))
+    // Valoración estadística: descarta outliers y, con suficientes datos, usa regresión hedónica
+    const input = formToAnalysisInput(formValues)
+    const valuation = valueComparables(input.comparables, input.property, {
+      fallbackRentClp: input.monthly_rent_clp,
+      fallbackRangePercentage: PROFITABILITY_DEFAULTS.MARKET_RANGE_PERCENTAGE
+    })
 
-    // Precio sugerido considerando similitud
-    const suggestedPrice = propertyMetrics.m2 > 0 ? weightedAvgPricePerM2 * propertyMetrics.m2 : weightedAvgPricePerM2 * 50
-    
-    // Rango de precios
-    const minSuggested = minPricePerM2 * propertyMetrics.m2
-    const maxSuggested = maxPricePerM2 * propertyMetrics.m2
+    if (valuation.method === 'none') {
+      toast.warning('Datos incompletos', 'Los comparables necesitan dirección, precio y m² para estimar el arriendo')
+      return
+    }
 
-    setValue('suggested_rent_clp', Math.round(suggestedPrice).toString())
+    setValue('suggested_rent_clp', valuation.estimate_clp.toString())
     
-    // Mostrar análisis detallado con toast
     toast.success(
       '📊 Análisis Completado',
-      `Precio sugerido: $${Math.round(suggestedPrice).toLocaleString('es-CL')} CLP basado en ${validComparablesData.length} comparables`,
+      `Precio sugerido: $${valuation.estimate_clp.toLocaleString('es-CL')} CLP ` +
+        `(${valuation.confidence_level_percentage}%: $${valuation.confidence_interval.min_rent_clp.toLocaleString('es-CL')} - ` +
+        `$${valuation.confidence_interval.max_rent_clp.toLocaleString('es-CL')}) basado en ${valuation.comparables_used} comparables` +
+        (valuation.outliers_rejected > 0 ? `, ${valuation.outliers_rejected} descartados por atípicos` : ''),
       8000
     )
     
     if (onCalculateSuggestedPrice) {
       onCalculateSuggestedPrice()
     }
-  }, [validComparablesData, propertyMetrics, setValue, onCalculateSuggestedPrice])
+  }, [validComparablesData, formValues, setValue, onCalculateSuggestedPrice])
 
-  const renderComparable = useCallback((index: number) => (
-    <div key={index} className="border-2 border-gray-200 rounded-lg p-4 bg-gray-50">
-      <div className="flex justify-between items-center mb-3">
-        <h4 className="font-bold text-sm text-gray-700">
-          {index}️⃣ Comparable {index}
-        </h4>
-        <div className="flex space-x-2">
-          {activeComparables.length > 1 && (
+  const renderComparable = useCallback((id: string, index: number) => {
+    const scored = scoredComparables.find(comp => comp.id === index + 1)
+
+    return (
+      <div key={id} className="border-2 border-gray-200 rounded-lg p-4 bg-gray-50">
+        <div className="flex justify-between items-center mb-3">
+          <h4 className="font-bold text-sm text-gray-700">
+            🏠 Comparable {index + 1}
+          </h4>
+          <div className="flex space-x-2">
             <button
               type="button"
-              onClick={() => removeComparable(index)}
+              onClick={() => remove(index)}
               className="text-red-500 hover:text-red-700 text-xs"
             >
               ✕ Eliminar
             </button>
-          )}
-        </div>
-      </div>
-
-      <div className="space-y-3">
-        {/* Link y Dirección */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          <input
-            {...register(`comparable_${index}_link` as keyof RentalAnalysisForm)}
-            placeholder="Link de publicación (opcional)"
-            className="input input-sm text-xs"
-          />
-          <input
-            {...register(`comparable_${index}_address` as keyof RentalAnalysisForm)}
-            placeholder="Dirección *"
-            className="input input-sm"
-          />
-        </div>
-
-        {/* M2 y Precio */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          <div className="relative">
-            <input
-              {...register(`comparable_${index}_m2` as keyof RentalAnalysisForm)}
-              type="number"
-              placeholder="Metros cuadrados *"
-              className="input input-sm"
-            />
-            <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-xs text-gray-400">m²</span>
-          </div>
-          <div className="relative">
-            <input
-              type="text"
-              placeholder="Precio arriendo *"
-              className="input input-sm"
-              value={formatNumber(formValues[`comparable_${index}_price` as keyof RentalAnalysisForm] || '')}
-              onChange={(e) => {
-                const cleanValue = unformatNumber(e.target.value)
-                setValue(`comparable_${index}_price` as keyof RentalAnalysisForm, cleanValue)
-              }}
-            />
-            <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-xs text-gray-400">CLP</span>
           </div>
         </div>
 
-        {/* Tipología (se llena automáticamente) */}
-        <div className="grid grid-cols-4 gap-2">
-          <div>
-            <label className="text-xs text-gray-600">Dormitorios</label>
+        <div className="space-y-3">
+          {/* Link y Dirección */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
             <input
-              {...register(`comparable_${index}_bedrooms` as keyof RentalAnalysisForm)}
-              type="number"
-              min="0"
-              defaultValue="1"
-              className="input input-sm"
+              {...register(`comparables.${index}.link`)}
+              placeholder="Link de publicación (opcional)"
+              className="input input-sm text-xs"
             />
-          </div>
-          <div>
-            <label className="text-xs text-gray-600">Baños</label>
             <input
-              {...register(`comparable_${index}_bathrooms` as keyof RentalAnalysisForm)}
-              type="number"
-              min="0"
-              defaultValue="1"
+              {...register(`comparables.${index}.address`)}
+              placeholder="Dirección *"
               className="input input-sm"
             />
           </div>
-          <div>
-            <label className="text-xs text-gray-600">Estacionamientos</label>
-            <input
-              {...register(`comparable_${index}_parking` as keyof RentalAnalysisForm)}
-              type="number"
-              min="0"
-              defaultValue="0"
-              className="input input-sm"
-            />
+
+          {/* M2 y Precio */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="relative">
+              <input
+                {...register(`comparables.${index}.m2`)}
+                type="number"
+                placeholder="Metros cuadrados *"
+                className="input input-sm"
+              />
+              <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-xs text-gray-400">m²</span>
+            </div>
+            <div className="relative">
+              <input
+                type="text"
+                placeholder="Precio arriendo *"
+                className="input input-sm"
+                value={formatNumber(entries[index]?.price || '')}
+                onChange={(e) => {
+                  const cleanValue = unformatNumber(e.target.value)
+                  setValue(`comparables.${index}.price`, cleanValue)
+                }}
+              />
+              <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-xs text-gray-400">CLP</span>
+            </div>
           </div>
-          <div>
-            <label className="text-xs text-gray-600">Bodegas</label>
-            <input
-              {...register(`comparable_${index}_storage` as keyof RentalAnalysisForm)}
-              type="number"
-              min="0"
-              defaultValue="0"
-              className="input input-sm"
-            />
+
+          {/* Tipología (se llena automáticamente) */}
+          <div className="grid grid-cols-4 gap-2">
+            <div>
+              <label className="text-xs text-gray-600">Dormitorios</label>
+              <input
+                {...register(`comparables.${index}.bedrooms`)}
+                type="number"
+                min="0"
+                className="input input-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-600">Baños</label>
+              <input
+                {...register(`comparables.${index}.bathrooms`)}
+                type="number"
+                min="0"
+                className="input input-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-600">Estacionamientos</label>
+              <input
+                {...register(`comparables.${index}.parking`)}
+                type="number"
+                min="0"
+                className="input input-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-600">Bodegas</label>
+              <input
+                {...register(`comparables.${index}.storage`)}
+                type="number"
+                min="0"
+                className="input input-sm"
+              />
+            </div>
           </div>
-        </div>
 
-        {/* Análisis del comparable */}
-        {formValues[`comparable_${index}_price` as keyof RentalAnalysisForm] && 
-         formValues[`comparable_${index}_m2` as keyof RentalAnalysisForm] && (
-          <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-3 rounded border border-blue-200">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
-              <div className="text-blue-800">
-                <span className="font-semibold">💰 Precio/m²:</span> ${Math.round(
-                  parseFloat(formValues[`comparable_${index}_price` as keyof RentalAnalysisForm] || '0') / 
-                  parseFloat(formValues[`comparable_${index}_m2` as keyof RentalAnalysisForm] || '1')
-                ).toLocaleString('es-CL')}
-              </div>
-              <div className="text-purple-700">
-                <span className="font-semibold">📈 Total mensual:</span> ${parseFloat(formValues[`comparable_${index}_price` as keyof RentalAnalysisForm] || '0').toLocaleString('es-CL')}
+          {/* Análisis del comparable */}
+          {entries[index]?.price && 
+           entries[index]?.m2 && (
+            <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-3 rounded border border-blue-200">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                <div className="text-blue-800">
+                  <span className="font-semibold">💰 Precio/m²:</span> ${Math.round(
+                    parseFloat(entries[index]?.price || '0') / 
+                    parseFloat(entries[index]?.m2 || '1')
+                  ).toLocaleString('es-CL')}
+                </div>
+                <div className="text-purple-700">
+                  <span className="font-semibold">📈 Total mensual:</span> ${parseFloat(entries[index]?.price || '0').toLocaleString('es-CL')}
+                </div>
               </div>
-            </div>
-            
-            {/* Análisis de similitud */}
-            {formValues.property_size_m2 && (
-              <div className="mt-2 pt-2 border-t border-blue-200">
-                <div className="text-xs text-gray-600">
-                  🎯 Estimación para ${formValues.property_size_m2}m²: 
-                  <span className="font-bold text-green-700">
-                    ${Math.round(
-                      (parseFloat(formValues[`comparable_${index}_price` as keyof RentalAnalysisForm] || '0') / 
-                       parseFloat(formValues[`comparable_${index}_m2` as keyof RentalAnalysisForm] || '1')) * 
-                      parseFloat(formValues.property_size_m2)
-                    ).toLocaleString('es-CL')}
+              
+              {/* Análisis de similitud */}
+              {scored?.similarity_score !== undefined && (
+                <div className="mt-2 pt-2 border-t border-blue-200 text-xs text-gray-600">
+                  🧭 Similitud: <span className="font-bold text-blue-700">
+                    {scored.similarity_score}/100
                   </span>
+                  {scored.distance_km !== undefined && (
+                    <span> · a {scored.distance_km} km</span>
+                  )}
                 </div>
-              </div>
-            )}
-          </div>
-        )}
+              )}
+              {formValues.property_size_m2 && (
+                <div className="mt-2 pt-2 border-t border-blue-200">
+                  <div className="text-xs text-gray-600">
+                    🎯 Estimación para ${formValues.property_size_m2}m²: 
+                    <span className="font-bold text-green-700">
+                      ${Math.round(
+                        (parseFloat(entries[index]?.price || '0') / 
+                         parseFloat(entries[index]?.m2 || '1')) * 
+                        parseFloat(formValues.property_size_m2)
+                      ).toLocaleString('es-CL')}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
       </div>
-    </div>
-  ), [activeComparables, removeComparable, register, formValues])
+    )
+  }, [remove, register, setValue, entries, formValues.property_size_m2, scoredComparables])
 
   return (
     <div className="space-y-4">
@@ -269,35 +263,36 @@ function ComparableProperties({ form, formValues, onCalculateSuggestedPrice }: C
         </button>
       </div>
 
+      <ListingImportPanel
+        ufValueClp={parseFloat(formValues.uf_value_clp || '38000')}
+        onImport={importComparable}
+      />
+      <ComparableLibraryPanel
+        propertyAddress={formValues.property_address}
+        current={entries}
+        onSelect={importComparable}
+      />
+
       {/* Comparables activos */}
       <div className="space-y-4">
-        {activeComparables.map(index => renderComparable(index))}
+        {fields.map((field, index) => renderComparable(field.id, index))}
       </div>
 
-      {/* Botones para agregar comparables */}
-      <div className="flex space-x-2">
-        {!activeComparables.includes(2) && (
-          <button
-            type="button"
-            onClick={() => addComparable(2)}
-            className="btn btn-outline text-xs"
-          >
-            ➕ Agregar Comparable 2
-          </button>
-        )}
-        {!activeComparables.includes(3) && activeComparables.includes(2) && (
-          <button
-            type="button"
-            onClick={() => addComparable(3)}
-            className="btn btn-outline text-xs"
-          >
-            ➕ Agregar Comparable 3
-          </button>
-        )}
+      {/* Botón para agregar comparables */}
+      <div className="flex items-center space-x-3">
+        <button
+          type="button"
+          onClick={addComparable}
+          disabled={fields.length >= MAX_COMPARABLES}
+          className="btn btn-outline text-xs"
+        >
+          ➕ Agregar Comparable
+        </button>
+        <span className="text-xs text-gray-500">{fields.length} de {MAX_COMPARABLES}</span>
       </div>
 
       {/* Análisis de mercado en tiempo real */}
-      {activeComparables.length > 0 && (
+      {fields.length > 0 && (
         <div className="bg-gradient-to-br from-green-50 to-blue-50 p-4 rounded-lg border-2 border-green-200">
           <h4 className="font-bold text-green-800 mb-3 flex items-center">
             📊 Análisis de Mercado en Tiempo Real
@@ -305,17 +300,7 @@ function ComparableProperties({ form, formValues, onCalculateSuggestedPrice }: C
           
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
             {(() => {
-              const validPrices = activeComparables
-                .filter(index => {
-                  const price = formValues[`comparable_${index}_price` as keyof RentalAnalysisForm]
-                  const m2 = formValues[`comparable_${index}_m2` as keyof RentalAnalysisForm]
-                  return price && m2 && parseFloat(price) > 0 && parseFloat(m2) > 0
-                })
-                .map(index => {
-                  const price = parseFloat(formValues[`comparable_${index}_price` as keyof RentalAnalysisForm] || '0')
-                  const m2 = parseFloat(formValues[`comparable_${index}_m2` as keyof RentalAnalysisForm] || '1')
-                  return price / m2
-                })
+              const validPrices = validComparablesData.map(c => c.pricePerM2)
 
               if (validPrices.length === 0) {
                 return (
@@ -366,7 +351,7 @@ function ComparableProperties({ form, formValues, onCalculateSuggestedPrice }: C
 
           <div className="mt-3 text-xs text-gray-600 bg-white p-2 rounded border border-gray-200">
             <strong>💡 Consejos:</strong> Use al menos 2 comparables para un análisis confiable. 
-            El sistema ajusta automáticamente por similitud en dormitorios, baños y estacionamientos.
+            Cada comparable muestra su similitud (superficie, distancia, dormitorios, antigüedad, piso, orientación y amenidades) según los pesos de su oficina.
           </div>
         </div>
       )}
@@ -0,0 +1,229 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { ComparableFormEntry, ListingCurrency } from '@/types/rental'
+import {
+  COMPARABLE_COLUMN_LABELS,
+  guessColumnMapping,
+  looksLikeHeaderRow,
+  mapSpreadsheetRows,
+  readSpreadsheetFile,
+  type ComparableColumnField,
+  type ComparableColumnMapping
+} from '@/lib/spreadsheetImport'
+import { Modal } from '@/components/ui/Modal'
+import { toast } from '@/components/ui/Toast'
+
+interface ComparableSpreadsheetImportProps {
+  ufValueClp: number
+  existing: ComparableFormEntry[]
+  maxRows: number // Cupo disponible en la lista de comparables
+  onImport: (entries: ComparableFormEntry[]) => void
+}
+
+const REPORT_PREVIEW_ROWS = 200
+
+const STATUS_LABELS = {
+  ok: { text: '✅ Válida', className: 'text-green-700' },
+  error: { text: '❌ Error', className: 'text-red-600' },
+  duplicate: { text: '♻️ Duplicada', className: 'text-yellow-700' }
+} as const
+
+export default function ComparableSpreadsheetImport({ ufValueClp, existing, maxRows, onImport }: ComparableSpreadsheetImportProps) {
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<string[][]>([])
+  const [hasHeader, setHasHeader] = useState(true)
+  const [mapping, setMapping] = useState<ComparableColumnMapping>({})
+  const [defaultCurrency, setDefaultCurrency] = useState<ListingCurrency>('CLP')
+  const [ufValue, setUfValue] = useState(ufValueClp.toString())
+  const [loading, setLoading] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('es-CL', {
+      style: 'currency',
+      currency: 'CLP',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0)
+  const columnName = (index: number) => {
+    const letter = String.fromCharCode(65 + (index % 26))
+    const header = hasHeader ? rows[0]?.[index]?.trim() : ''
+    return header ? `${letter} · ${header}` : `Columna ${letter}`
+  }
+
+  const report = useMemo(() => mapSpreadsheetRows(rows, mapping, {
+    hasHeader,
+    defaultCurrency,
+    ufValueClp: parseFloat(ufValue) || ufValueClp,
+    existing
+  }), [rows, mapping, hasHeader, defaultCurrency, ufValue, ufValueClp, existing])
+
+  const validRows = report.filter(row => row.status === 'ok')
+  const errorCount = report.filter(row => row.status === 'error').length
+  const duplicateCount = report.filter(row => row.status === 'duplicate').length
+
+  const close = () => {
+    setRows([])
+    setFileName('')
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+
+    setLoading(true)
+    try {
+      const parsed = await readSpreadsheetFile(file)
+      if (parsed.length === 0) {
+        toast.warning('Planilla vacía', 'El archivo no tiene filas')
+        return
+      }
+
+      const header = looksLikeHeaderRow(parsed[0])
+      const guess = guessColumnMapping(header ? parsed[0] : [])
+      setHasHeader(header)
+      setMapping(guess.mapping)
+      setDefaultCurrency(guess.defaultCurrency)
+      setRows(parsed)
+      setFileName(file.name)
+    } catch (error) {
+      console.error('Error leyendo planilla de comparables:', error)
+      toast.error('No se pudo leer la planilla', error instanceof Error ? error.message : 'Formato no reconocido')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleImport = () => {
+    const entries = validRows.slice(0, maxRows).map(row => row.entry)
+    onImport(entries)
+
+    if (validRows.length > maxRows) {
+      toast.warning('Límite alcanzado', `Se importaron ${maxRows} de ${validRows.length} filas válidas`)
+    } else {
+      toast.success('Comparables importados', `${entries.length} filas de ${fileName}`)
+    }
+    close()
+  }
+
+  return (
+    <>
+      <label className={`btn btn-outline w-full cursor-pointer text-center ${loading ? 'opacity-50 pointer-events-none' : ''}`}>
+        {loading ? '⏳ Leyendo planilla...' : '📊 Importar comparables desde CSV o Excel (.xlsx)'}
+        <input
+          type="file"
+          accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0])
+            e.target.value = ''
+          }}
+        />
+      </label>
+
+      <Modal isOpen={rows.length > 0} onClose={close} title={`Importar comparables · ${fileName}`} size="xl">
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center space-x-2">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+              <span>La primera fila tiene encabezados</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>Moneda del precio si no se indica:</span>
+              <select
+                value={defaultCurrency}
+                onChange={(e) => setDefaultCurrency(e.target.value as ListingCurrency)}
+                className="input input-sm"
+              >
+                <option value="CLP">CLP</option>
+                <option value="UF">UF</option>
+              </select>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>Valor UF:</span>
+              <input
+                type="number"
+                value={ufValue}
+                onChange={(e) => setUfValue(e.target.value)}
+                className="input input-sm w-28"
+              />
+            </label>
+          </div>
+
+          {/* Mapeo de columnas */}
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {(Object.keys(COMPARABLE_COLUMN_LABELS) as ComparableColumnField[]).map(field => (
+              <div key={field}>
+                <label className="text-xs text-gray-600">{COMPARABLE_COLUMN_LABELS[field]}</label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping(prev => ({
+                    ...prev,
+                    [field]: e.target.value === '' ? undefined : parseInt(e.target.value)
+                  }))}
+                  className="input input-sm w-full"
+                >
+                  <option value="">— No importar —</option>
+                  {Array.from({ length: columnCount }, (_, index) => (
+                    <option key={index} value={index}>{columnName(index)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Reporte por fila */}
+          <div className="text-sm text-gray-700">
+            {validRows.length} válidas · {errorCount} con errores · {duplicateCount} duplicadas
+          </div>
+          <div className="max-h-80 overflow-y-auto border rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 px-2">Fila</th>
+                  <th className="py-2 px-2">Estado</th>
+                  <th className="py-2 px-2">Dirección</th>
+                  <th className="py-2 px-2 text-right">m²</th>
+                  <th className="py-2 px-2 text-right">Precio CLP</th>
+                  <th className="py-2 px-2">Observaciones</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.slice(0, REPORT_PREVIEW_ROWS).map(row => (
+                  <tr key={row.row} className="border-t border-gray-100">
+                    <td className="py-1 px-2">{row.row}</td>
+                    <td className={`py-1 px-2 whitespace-nowrap ${STATUS_LABELS[row.status].className}`}>
+                      {STATUS_LABELS[row.status].text}
+                    </td>
+                    <td className="py-1 px-2">{row.entry.address || '-'}</td>
+                    <td className="py-1 px-2 text-right">{row.entry.m2 || '-'}</td>
+                    <td className="py-1 px-2 text-right">{row.entry.price ? formatCurrency(parseFloat(row.entry.price)) : '-'}</td>
+                    <td className="py-1 px-2 text-gray-600">{row.messages.join(' · ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {report.length > REPORT_PREVIEW_ROWS && (
+            <p className="text-xs text-gray-500">Se muestran las primeras {REPORT_PREVIEW_ROWS} filas de {report.length}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={close} className="btn btn-secondary">
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={validRows.length === 0 || maxRows <= 0}
+              className="btn btn-primary"
+            >
+              Importar {Math.min(validRows.length, Math.max(maxRows, 0))} filas válidas
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  )
+}
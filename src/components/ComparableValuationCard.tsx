@@ -0,0 +1,106 @@
+'use client'
+
+import type { ComparableValuation, ComparableProperty } from '@/types/rental'
+import { VALUATION_METHOD_LABELS } from '@/lib/comparableValuation'
+
+interface ComparableValuationCardProps {
+  valuation: ComparableValuation
+  comparables: ComparableProperty[]
+}
+
+export default function ComparableValuationCard({ valuation, comparables }: ComparableValuationCardProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('es-CL', {
+      style: 'currency',
+      currency: 'CLP',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const addressOf = (comparableId: number) =>
+    comparables.find(comp => comp.id === comparableId)?.address || `Comparable ${comparableId}`
+
+  const linkOf = (comparableId: number) =>
+    comparables.find(comp => comp.id === comparableId)?.link || undefined
+
+  const similarityOf = (comparableId: number) =>
+    comparables.find(comp => comp.id === comparableId)?.similarity_score
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h4 className="text-xl font-bold text-white flex items-center">
+          <span className="text-2xl mr-2">🧮</span>
+          Valoración por Comparables
+        </h4>
+      </div>
+      <div className="card-body space-y-6">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="bg-blue-50 p-4 rounded-xl border border-blue-200 text-center">
+            <div className="text-sm text-gray-600 mb-1">Arriendo estimado</div>
+            <div className="text-2xl font-bold text-blue-700">{formatCurrency(valuation.estimate_clp)}</div>
+            <div className="text-xs text-gray-500">${valuation.estimate_per_m2.toLocaleString('es-CL')}/m²</div>
+          </div>
+          <div className="bg-green-50 p-4 rounded-xl border border-green-200 text-center">
+            <div className="text-sm text-gray-600 mb-1">Intervalo de confianza {valuation.confidence_level_percentage}%</div>
+            <div className="text-lg font-bold text-green-700">
+              {formatCurrency(valuation.confidence_interval.min_rent_clp)} - {formatCurrency(valuation.confidence_interval.max_rent_clp)}
+            </div>
+          </div>
+          <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 text-center">
+            <div className="text-sm text-gray-600 mb-1">Método</div>
+            <div className="text-sm font-semibold text-gray-800">{VALUATION_METHOD_LABELS[valuation.method]}</div>
+            <div className="text-xs text-gray-500">
+              {valuation.comparables_used} comparables usados · {valuation.outliers_rejected} atípicos descartados ({valuation.outlier_method.toUpperCase()})
+              {valuation.r_squared !== undefined && ` · R² ${valuation.r_squared.toFixed(2)}`}
+            </div>
+          </div>
+        </div>
+
+        {valuation.contributions.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Comparable</th>
+                  <th className="py-2 pr-4 text-right">Similitud</th>
+                  <th className="py-2 pr-4 text-right">Precio/m²</th>
+                  <th className="py-2 pr-4 text-right">Peso</th>
+                  <th className="py-2 text-right">Aporte</th>
+                </tr>
+              </thead>
+              <tbody>
+                {valuation.contributions.map(contribution => (
+                  <tr
+                    key={contribution.comparable_id}
+                    className={`border-b border-gray-100 ${contribution.is_outlier ? 'text-gray-400 line-through' : 'text-gray-800'}`}
+                  >
+                    <td className="py-2 pr-4">
+                      {linkOf(contribution.comparable_id) ? (
+                        <a
+                          href={linkOf(contribution.comparable_id)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline"
+                        >
+                          {addressOf(contribution.comparable_id)}
+                        </a>
+                      ) : addressOf(contribution.comparable_id)}
+                      {contribution.is_outlier && <span className="ml-2 text-xs text-red-500 no-underline">atípico</span>}
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      {similarityOf(contribution.comparable_id) !== undefined ? `${similarityOf(contribution.comparable_id)}/100` : '-'}
+                    </td>
+                    <td className="py-2 pr-4 text-right">${contribution.price_per_m2.toLocaleString('es-CL')}</td>
+                    <td className="py-2 pr-4 text-right">{(contribution.weight * 100).toFixed(1)}%</td>
+                    <td className="py-2 text-right">{formatCurrency(contribution.contribution_clp)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { ComparableProperty } from '@/types/rental'
+import { buildComparablesMapLayout, MAP_RINGS_KM, SIMILARITY_COLORS, type MapMarker } from '@/lib/comparablesMap'
+
+interface ComparablesMapProps {
+  subject: { lat?: number; lon?: number; address?: string }
+  comparables: ComparableProperty[]
+  onSelectComparable?: (index: number) => void // Posición del comparable en la lista
+}
+
+export default function ComparablesMap({ subject, comparables, onSelectComparable }: ComparablesMapProps) {
+  const [hovered, setHovered] = useState<MapMarker | null>(null)
+  const layout = useMemo(() => buildComparablesMapLayout(subject, comparables), [subject, comparables])
+
+  if (!layout) {
+    return (
+      <p className="text-xs text-gray-500 border border-dashed border-gray-300 rounded-lg p-3">
+        🗺️ Ubique la propiedad y los comparables en el mapa (botón &quot;Ubicar&quot;) para verlos con sus distancias.
+      </p>
+    )
+  }
+
+  const labelAnchor = (marker: MapMarker) => marker.x > layout.width - 90 ? 'end' : 'start'
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <svg
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        className="w-full h-auto bg-gray-100 block"
+        role="img"
+        aria-label="Mapa de la propiedad y sus comparables"
+      >
+        {layout.tiles.map(tile => (
+          <image key={tile.url + tile.x} href={tile.url} x={tile.x} y={tile.y} width={tile.size} height={tile.size} />
+        ))}
+
+        {layout.subject && layout.rings.map(ring => (
+          <g key={ring.radius_km}>
+            <circle
+              cx={layout.subject!.x}
+              cy={layout.subject!.y}
+              r={ring.radius_px}
+              fill="none"
+              stroke={SIMILARITY_COLORS.SUBJECT}
+              strokeWidth={1.5}
+              strokeDasharray="6 4"
+              opacity={0.7}
+            />
+            <text
+              x={layout.subject!.x}
+              y={layout.subject!.y - ring.radius_px - 4}
+              textAnchor="middle"
+              fontSize={11}
+              fill={SIMILARITY_COLORS.SUBJECT}
+              stroke="white"
+              strokeWidth={3}
+              paintOrder="stroke"
+            >
+              {ring.radius_km < 1 ? `${ring.radius_km * 1000} m` : `${ring.radius_km} km`}
+            </text>
+          </g>
+        ))}
+
+        {layout.markers.map(marker => (
+          <g
+            key={marker.id}
+            onClick={() => onSelectComparable?.(marker.id - 1)}
+            onMouseEnter={() => setHovered(marker)}
+            onMouseLeave={() => setHovered(null)}
+            className={onSelectComparable ? 'cursor-pointer' : undefined}
+          >
+            <circle cx={marker.x} cy={marker.y} r={8} fill={marker.color} stroke="white" strokeWidth={2} />
+            <text x={marker.x} y={marker.y + 3.5} textAnchor="middle" fontSize={9} fontWeight="bold" fill="white">
+              {marker.id}
+            </text>
+            <text
+              x={marker.x + (labelAnchor(marker) === 'end' ? -12 : 12)}
+              y={marker.y + 4}
+              textAnchor={labelAnchor(marker)}
+              fontSize={11}
+              fontWeight="bold"
+              fill="#111827"
+              stroke="white"
+              strokeWidth={3}
+              paintOrder="stroke"
+            >
+              {marker.label}
+            </text>
+          </g>
+        ))}
+
+        {layout.subject && (
+          <g>
+            <circle cx={layout.subject.x} cy={layout.subject.y} r={10} fill={layout.subject.color} stroke="white" strokeWidth={3} />
+            <text x={layout.subject.x} y={layout.subject.y + 4} textAnchor="middle" fontSize={11} fill="white">★</text>
+          </g>
+        )}
+
+        <text x={layout.width - 4} y={layout.height - 4} textAnchor="end" fontSize={9} fill="#374151" stroke="white" strokeWidth={3} paintOrder="stroke">
+          © OpenStreetMap
+        </text>
+      </svg>
+
+      <div className="p-2 bg-white text-xs text-gray-600 space-y-1">
+        {hovered ? (
+          <p className="text-gray-800">
+            <strong>#{hovered.id}</strong> {hovered.address} · {hovered.label}
+            {hovered.similarity_score !== undefined && ` · Similitud ${hovered.similarity_score}/100`}
+            {hovered.distance_km !== undefined && ` · a ${hovered.distance_km.toLocaleString('es-CL')} km`}
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            <span><span style={{ color: SIMILARITY_COLORS.SUBJECT }}>★</span> Propiedad</span>
+            <span><span style={{ color: SIMILARITY_COLORS.HIGH }}>●</span> Similitud ≥ 75</span>
+            <span><span style={{ color: SIMILARITY_COLORS.MEDIUM }}>●</span> 50–74</span>
+            <span><span style={{ color: SIMILARITY_COLORS.LOW }}>●</span> &lt; 50</span>
+            <span><span style={{ color: SIMILARITY_COLORS.UNKNOWN }}>●</span> Sin puntaje</span>
+            {layout.subject && <span>Anillos: {MAP_RINGS_KM.map(km => km < 1 ? `${km * 1000} m` : `${km} km`).join(' y ')}</span>}
+          </div>
+        )}
+        {layout.missing_coordinates > 0 && (
+          <p className="text-yellow-700">
+            ⚠️ {layout.missing_coordinates} comparable(s) sin ubicación no aparecen en el mapa
+          </p>
+        )}
+        {onSelectComparable && layout.markers.length > 0 && (
+          <p className="text-gray-500">Haga clic en un comparable para ir a su fila.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { UseFormReturn } from 'react-hook-form'
+import { useState } from 'react'
+import type { RentalAnalysisForm } from '@/types/rental'
+import { calculateMonthlyDividendUf } from '@/lib/financing'
+
+interface FinancingFieldsProps {
+  form: UseFormReturn<RentalAnalysisForm>
+  formValues: RentalAnalysisForm
+}
+
+export default function FinancingFields({ form, formValues }: FinancingFieldsProps) {
+  const { register } = form
+  const [expanded, setExpanded] = useState(!!formValues.mortgage_loan_uf)
+
+  const loanUf = parseFloat(formValues.mortgage_loan_uf || '0')
+  const dividendUf = calculateMonthlyDividendUf(
+    loanUf,
+    parseFloat(formValues.mortgage_annual_rate || '0'),
+    parseFloat(formValues.mortgage_term_years || '0')
+  )
+  const ufValue = parseFloat(formValues.uf_value_clp || '38000')
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div>
+          <div className="text-sm font-medium text-gray-900">🏦 Crédito Hipotecario (opcional)</div>
+          <p className="text-xs text-gray-600">Complete si la propiedad se compró con crédito para ver dividendo y flujo mensual</p>
+        </div>
+        <span className="text-gray-500">{expanded ? '▲' : '▼'}</span>
+      </button>
+
+      {expanded && (
+        <div className="p-4 pt-0 space-y-4">
+          <div className="space-y-4 sm:space-y-0 sm:grid sm:grid-cols-2 sm:gap-4">
+            <div className="w-full">
+              <label className="label">💵 Pie (UF)</label>
+              <input
+                {...register('mortgage_down_payment_uf')}
+                type="number"
+                min="0"
+                step="0.01"
+                className="input w-full"
+                placeholder="Ej: 800"
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">🏦 Monto del crédito (UF)</label>
+              <input
+                {...register('mortgage_loan_uf')}
+                type="number"
+                min="0"
+                step="0.01"
+                className="input w-full"
+                placeholder="Ej: 3200"
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">📈 Tasa anual (%)</label>
+              <input
+                {...register('mortgage_annual_rate')}
+                type="number"
+                min="0"
+                step="0.01"
+                className="input w-full"
+                placeholder="Ej: 4.5"
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">📅 Plazo (años)</label>
+              <input
+                {...register('mortgage_term_years')}
+                type="number"
+                min="1"
+                max="40"
+                className="input w-full"
+                placeholder="Ej: 25"
+              />
+            </div>
+          </div>
+
+          {dividendUf > 0 && (
+            <p className="text-sm text-blue-700">
+              💡 Dividendo estimado: {dividendUf.toFixed(2)} UF (≈ ${Math.round(dividendUf * ufValue).toLocaleString('es-CL')} CLP) sin seguros
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { RentalAnalysis } from '@/types/rental'
+import { calculateHoldAndSell, HOLD_AND_SELL_DEFAULTS } from '@/lib/holdAndSell'
+import { PROJECTION_DEFAULTS } from '@/lib/cashFlowProjection'
+
+interface HoldAndSellCardProps {
+  analysis: RentalAnalysis
+}
+
+export default function HoldAndSellCard({ analysis }: HoldAndSellCardProps) {
+  const [exitYear, setExitYear] = useState<number>(HOLD_AND_SELL_DEFAULTS.EXIT_YEAR)
+  const [appreciation, setAppreciation] = useState<number>(HOLD_AND_SELL_DEFAULTS.ANNUAL_APPRECIATION_UF_PERCENTAGE)
+  const [saleCosts, setSaleCosts] = useState<number>(HOLD_AND_SELL_DEFAULTS.SALE_COSTS_PERCENTAGE)
+  const [discountRate, setDiscountRate] = useState<number>(HOLD_AND_SELL_DEFAULTS.DISCOUNT_RATE_PERCENTAGE)
+
+  const scenario = useMemo(
+    () => calculateHoldAndSell(analysis, {
+      exit_year: exitYear,
+      annual_appreciation_uf_percentage: appreciation,
+      sale_costs_percentage: saleCosts,
+      discount_rate_percentage: discountRate
+    }),
+    [analysis, exitYear, appreciation, saleCosts, discountRate]
+  )
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('es-CL', {
+      style: 'currency',
+      currency: 'CLP',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  if (scenario.purchase_value_clp <= 0) return null
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h4 className="text-xl font-bold text-white flex items-center">
+          <span className="text-2xl mr-2">📈</span>
+          Escenario Mantener y Vender
+        </h4>
+        <p className="text-blue-100 text-sm mt-1">
+          Retorno total incluyendo plusvalía al vender en el año {scenario.settings.exit_year}
+        </p>
+      </div>
+      <div className="card-body space-y-6">
+        <div className="grid md:grid-cols-4 gap-4">
+          <div>
+            <label className="label">Año de venta</label>
+            <input
+              type="number"
+              min="1"
+              max={PROJECTION_DEFAULTS.MAX_YEARS}
+              value={exitYear}
+              onChange={(e) => setExitYear(parseInt(e.target.value) || 1)}
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label className="label">Plusvalía anual en UF (%)</label>
+            <input
+              type="number"
+              step="0.1"
+              value={appreciation}
+              onChange={(e) => setAppreciation(parseFloat(e.target.value) || 0)}
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label className="label">Gastos de venta (%)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={saleCosts}
+              onChange={(e) => setSaleCosts(parseFloat(e.target.value) || 0)}
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label className="label">Tasa de descuento (%)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={discountRate}
+              onChange={(e) => setDiscountRate(parseFloat(e.target.value) || 0)}
+              className="input"
+            />
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="bg-blue-50 p-4 rounded-xl border border-blue-200 text-center">
+            <div className="text-2xl font-bold text-blue-700">
+              {scenario.irr_percentage === null ? 'N/A' : `${scenario.irr_percentage.toFixed(2)}%`}
+            </div>
+            <div className="text-sm text-gray-600 mt-1">TIR</div>
+          </div>
+
+          <div className={`p-4 rounded-xl border text-center ${scenario.npv_clp >= 0 ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+            <div className={`text-2xl font-bold ${scenario.npv_clp >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+              {formatCurrency(scenario.npv_clp)}
+            </div>
+            <div className="text-sm text-gray-600 mt-1">VAN al {scenario.settings.discount_rate_percentage}%</div>
+          </div>
+
+          <div className="bg-purple-50 p-4 rounded-xl border border-purple-200 text-center">
+            <div className="text-2xl font-bold text-purple-700">
+              {scenario.equity_multiple.toFixed(2)}x
+            </div>
+            <div className="text-sm text-gray-600 mt-1">Múltiplo del Capital</div>
+          </div>
+        </div>
+
+        <div className="bg-gray-50 rounded-xl p-4 border border-gray-200 space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Valor de compra:</span>
+            <span className="font-medium">{formatCurrency(scenario.purchase_value_clp)}</span>
+          </div>
+          {scenario.levered && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Pie (capital propio):</span>
+              <span className="font-medium">{formatCurrency(scenario.equity_invested_clp)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-gray-600">Ingreso neto acumulado por arriendo:</span>
+            <span className="font-medium text-green-600">{formatCurrency(scenario.projection.total_net_income_clp)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Precio de venta estimado:</span>
+            <span className="font-medium">{formatCurrency(scenario.sale_value_clp)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Gastos de venta:</span>
+            <span className="font-medium text-red-600">-{formatCurrency(scenario.sale_costs_clp)}</span>
+          </div>
+          {scenario.levered && (
+            <>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Dividendos pagados:</span>
+                <span className="font-medium text-red-600">-{formatCurrency(scenario.debt_service_clp)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Saldo del crédito al vender:</span>
+                <span className="font-medium text-red-600">-{formatCurrency(scenario.loan_balance_at_exit_clp)}</span>
+              </div>
+            </>
+          )}
+          <div className="flex justify-between border-t pt-2">
+            <span className="font-bold text-gray-900">Ganancia total:</span>
+            <span className={`font-bold ${scenario.total_profit_clp >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+              {formatCurrency(scenario.total_profit_clp)}
+            </span>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          {scenario.levered
+            ? 'Con crédito hipotecario: TIR, VAN y múltiplo sobre el pie, después de dividendos y del saldo del crédito.'
+            : 'Sin financiamiento.'} Arriendos reajustados en UF con {scenario.projection.settings.annual_inflation_percentage}% de inflación anual.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import type { LeveragedReturns } from '@/types/rental'
+
+interface LeveragedReturnsCardProps {
+  leveragedReturns: LeveragedReturns
+}
+
+export default function LeveragedReturnsCard({ leveragedReturns }: LeveragedReturnsCardProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('es-CL', {
+      style: 'currency',
+      currency: 'CLP',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const { financing } = leveragedReturns
+  const cashFlowPositive = leveragedReturns.monthly_cash_flow_clp >= 0
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h4 className="text-xl font-bold text-white flex items-center">
+          <span className="text-2xl mr-2">🏦</span>
+          Rentabilidad con Crédito Hipotecario
+        </h4>
+        <p className="text-blue-100 text-sm mt-1">
+          Crédito de {financing.loan_uf.toLocaleString('es-CL')} UF a {financing.term_years} años, tasa {financing.annual_rate_percentage}% anual
+        </p>
+      </div>
+      <div className="card-body space-y-4">
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 text-center">
+            <div className="text-2xl font-bold text-gray-900">
+              {leveragedReturns.monthly_dividend_uf.toFixed(2)} UF
+            </div>
+            <div className="text-xs text-gray-500">{formatCurrency(leveragedReturns.monthly_dividend_clp)}</div>
+            <div className="text-sm text-gray-600 mt-1">Dividendo Mensual</div>
+          </div>
+
+          <div className={`p-4 rounded-xl border text-center ${cashFlowPositive ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+            <div className={`text-2xl font-bold ${cashFlowPositive ? 'text-green-700' : 'text-red-700'}`}>
+              {formatCurrency(leveragedReturns.monthly_cash_flow_clp)}
+            </div>
+            <div className="text-sm text-gray-600 mt-1">Flujo Mensual Después del Dividendo</div>
+          </div>
+
+          <div className="bg-blue-50 p-4 rounded-xl border border-blue-200 text-center">
+            <div className="text-2xl font-bold text-blue-700">
+              {leveragedReturns.cash_on_cash_percentage.toFixed(2)}%
+            </div>
+            <div className="text-sm text-gray-600 mt-1">Cash-on-Cash</div>
+            <div className="text-xs text-gray-500">Sobre {formatCurrency(leveragedReturns.equity_invested_clp)} de pie</div>
+          </div>
+
+          <div className="bg-purple-50 p-4 rounded-xl border border-purple-200 text-center">
+            <div className="text-2xl font-bold text-purple-700">
+              {leveragedReturns.debt_service_coverage_ratio.toFixed(2)}x
+            </div>
+            <div className="text-sm text-gray-600 mt-1">Cobertura de Deuda (DSCR)</div>
+          </div>
+        </div>
+
+        <div className={`rounded-xl p-4 border ${leveragedReturns.rent_covers_dividend ? 'bg-green-50 border-green-200 text-green-800' : 'bg-orange-50 border-orange-200 text-orange-800'}`}>
+          {leveragedReturns.rent_covers_dividend
+            ? '✅ El arriendo cubre el dividendo mensual.'
+            : '⚠️ El arriendo no alcanza a cubrir el dividendo: el propietario debe complementar cada mes.'}
+        </div>
+      </div>
+    </div>
+  )
+}
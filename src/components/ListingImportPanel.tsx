@@ -0,0 +1,160 @@
+'use client'
+
+import { useState } from 'react'
+import type { ComparableFormEntry, ExtractedListing } from '@/types/rental'
+import {
+  getListingExtractors,
+  LISTING_IMPORT_LIMITS,
+  listingImportWarnings,
+  listingToComparableEntry,
+  parseListing
+} from '@/lib/listingImport'
+import { toast } from '@/components/ui/Toast'
+
+interface ListingImportPanelProps {
+  ufValueClp: number
+  onImport: (entry: ComparableFormEntry) => void
+  disabled?: boolean
+}
+
+export default function ListingImportPanel({ ufValueClp, onImport, disabled = false }: ListingImportPanelProps) {
+  const [url, setUrl] = useState('')
+  const [pasted, setPasted] = useState('')
+  const [showPaste, setShowPaste] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const extractorLabel = (id: string) => getListingExtractors().find(extractor => extractor.id === id)?.label || id
+
+  const applyListing = (listing: ExtractedListing) => {
+    onImport(listingToComparableEntry(listing, ufValueClp))
+
+    const source = listing.extractors.map(extractorLabel).join(', ')
+    const warnings = listingImportWarnings(listing, ufValueClp)
+    if (warnings.length > 0) {
+      toast.warning('Comparable importado con datos incompletos', `${warnings.join('. ')}. Fuente: ${source}`, 8000)
+    } else {
+      toast.success('Comparable importado', `Datos obtenidos de: ${source}`)
+    }
+  }
+
+  const importFromContent = (content: string, sourceUrl?: string) => {
+    if (content.length > LISTING_IMPORT_LIMITS.MAX_CONTENT_LENGTH) {
+      toast.error('Archivo muy grande', 'La publicación supera el tamaño máximo permitido')
+      return
+    }
+
+    const listing = parseListing(content, sourceUrl)
+    if (!listing) {
+      toast.warning('Sin datos', 'No se encontraron datos de la propiedad en el contenido')
+      return
+    }
+    applyListing(listing)
+  }
+
+  const importFromUrl = async () => {
+    if (!url.trim()) return
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/listings/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: url.trim() })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error('No se pudo importar', result.details?.join(', ') || result.error)
+        return
+      }
+
+      applyListing(result.listing)
+      setUrl('')
+    } catch (error) {
+      console.error('Error importando publicación:', error)
+      toast.error('Error de conexión', 'No se pudo importar la publicación')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      importFromContent(await file.text(), url.trim() || undefined)
+    } catch (error) {
+      console.error('Error leyendo archivo de publicación:', error)
+      toast.error('Error', 'No se pudo leer el archivo')
+    }
+  }
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 space-y-2">
+      <div className="text-sm font-medium text-blue-900">🔗 Importar desde una publicación</div>
+      <div className="flex flex-col md:flex-row gap-2">
+        <input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://www.portalinmobiliario.com/..."
+          className="input input-sm flex-1 text-xs"
+          disabled={disabled || loading}
+        />
+        <button
+          type="button"
+          onClick={importFromUrl}
+          disabled={disabled || loading || !url.trim()}
+          className="btn btn-outline text-xs"
+        >
+          {loading ? '⏳ Importando...' : '⤵️ Importar link'}
+        </button>
+        <label className={`btn btn-outline text-xs cursor-pointer ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+          📄 Archivo HTML/JSON
+          <input
+            type="file"
+            accept=".html,.htm,.json,.jsonld,text/html,application/json,application/ld+json"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0])
+              e.target.value = ''
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => setShowPaste(prev => !prev)}
+          className="btn btn-outline text-xs"
+          disabled={disabled}
+        >
+          📋 Pegar
+        </button>
+      </div>
+
+      {showPaste && (
+        <div className="space-y-2">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={4}
+            placeholder="Pegue el HTML de la página o el bloque JSON-LD de la publicación"
+            className="input w-full text-xs font-mono"
+          />
+          <button
+            type="button"
+            onClick={() => {
+              importFromContent(pasted, url.trim() || undefined)
+              setPasted('')
+            }}
+            disabled={disabled || !pasted.trim()}
+            className="btn btn-secondary text-xs"
+          >
+            Extraer comparable
+          </button>
+        </div>
+      )}
+
+      <p className="text-xs text-blue-700">
+        Si el portal bloquea la descarga, guarde la página (Ctrl+S) e impórtela como archivo. Los precios en UF se convierten a CLP.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { UseFormReturn } from 'react-hook-form'
+import { useState } from 'react'
+import type { RentalAnalysisForm } from '@/types/rental'
+import { formToAnalysisInput, PROFITABILITY_DEFAULTS } from '@/lib/profitability'
+import { calculateExpenseBreakdown, quarterlyPropertyTax, EXPENSE_DEFAULTS } from '@/lib/ownerExpenses'
+
+interface OwnerExpensesFieldsProps {
+  form: UseFormReturn<RentalAnalysisForm>
+  formValues: RentalAnalysisForm
+}
+
+export default function OwnerExpensesFields({ form, formValues }: OwnerExpensesFieldsProps) {
+  const { register, setValue } = form
+  const [expanded, setExpanded] = useState(false)
+
+  const input = formToAnalysisInput(formValues)
+  const breakdown = calculateExpenseBreakdown(
+    input.annual_expenses,
+    input.monthly_rent_clp,
+    PROFITABILITY_DEFAULTS.VACANCY_MONTHS_PER_YEAR
+  )
+  const quarterlyTax = quarterlyPropertyTax(parseFloat(formValues.annual_property_tax_clp || '0'))
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div>
+          <div className="text-sm font-medium text-gray-900">🧾 Gastos del Propietario</div>
+          <p className="text-xs text-gray-600">
+            Total primer año: ${breakdown.total_clp.toLocaleString('es-CL')} CLP
+            {breakdown.one_off_clp > 0 && ` (incluye $${breakdown.one_off_clp.toLocaleString('es-CL')} de costos únicos)`}
+          </p>
+        </div>
+        <span className="text-gray-500">{expanded ? '▲' : '▼'}</span>
+      </button>
+
+      {expanded && (
+        <div className="p-4 pt-0 space-y-4">
+          <div className="space-y-4 sm:space-y-0 sm:grid sm:grid-cols-2 sm:gap-4">
+            <div className="w-full">
+              <label className="label">🏢 Gastos comunes mensuales (CLP)</label>
+              <input
+                {...register('common_expenses_monthly_clp')}
+                type="number"
+                min="0"
+                className="input w-full"
+                placeholder="Ej: 90000"
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">👤 ¿Quién paga los gastos comunes?</label>
+              <select
+                {...register('common_expenses_paid_by')}
+                className="input w-full"
+              >
+                <option value="tenant">Arrendatario (propietario solo en vacancia)</option>
+                <option value="owner">Propietario</option>
+              </select>
+            </div>
+
+            <div className="w-full">
+              <label className="label">🏛️ Contribuciones (cuota trimestral, CLP)</label>
+              <input
+                type="number"
+                min="0"
+                value={quarterlyTax ? Math.round(quarterlyTax) : ''}
+                onChange={(e) => setValue(
+                  'annual_property_tax_clp',
+                  String((parseFloat(e.target.value) || 0) * EXPENSE_DEFAULTS.PROPERTY_TAX_INSTALLMENTS)
+                )}
+                className="input w-full"
+                placeholder="Ej: 75000"
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">🛡️ Seguros anuales (CLP)</label>
+              <input
+                {...register('annual_insurance_clp')}
+                type="number"
+                min="0"
+                className="input w-full"
+                placeholder="Ej: 200000"
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">🔧 Mantención anual (CLP)</label>
+              <input
+                {...register('annual_maintenance_clp')}
+                type="number"
+                min="0"
+                className="input w-full"
+                placeholder="Ej: 500000"
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">📋 Administración (% del arriendo)</label>
+              <input
+                {...register('administration_percentage')}
+                type="number"
+                min="0"
+                max="20"
+                step="0.1"
+                className="input w-full"
+                placeholder={`Ej: ${EXPENSE_DEFAULTS.ADMINISTRATION_PERCENTAGE}`}
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">🧰 Reserva para reparaciones (% del arriendo)</label>
+              <input
+                {...register('repairs_reserve_percentage')}
+                type="number"
+                min="0"
+                max="20"
+                step="0.1"
+                className="input w-full"
+                placeholder="Ej: 3"
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">🤝 Corretaje nuevo contrato (% de un mes)</label>
+              <input
+                {...register('lease_commission_percentage')}
+                type="number"
+                min="0"
+                max="100"
+                className="input w-full"
+                placeholder="Ej: 50"
+              />
+            </div>
+
+            <div className="w-full">
+              <label className="label">💼 Otros costos únicos (CLP)</label>
+              <input
+                {...register('other_one_off_costs_clp')}
+                type="number"
+                min="0"
+                className="input w-full"
+                placeholder="Ej: 150000"
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-blue-700">
+            💡 Recurrentes ${breakdown.recurring_total_clp.toLocaleString('es-CL')} al año ·
+            administración ${breakdown.administration_clp.toLocaleString('es-CL')} ·
+            gastos comunes a cargo del propietario ${breakdown.common_expenses_clp.toLocaleString('es-CL')}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
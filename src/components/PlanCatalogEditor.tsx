@@ -0,0 +1,284 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { PlanCatalog, PlanDefinition, PlanServiceLevel } from '@/types/rental'
+import { DEFAULT_PLAN_CATALOG, createPlanDefinition } from '@/lib/planCatalog'
+import { fetchPlanCatalog, savePlanCatalog } from '@/lib/officeApi'
+import { validatePlanDefinitions } from '@/lib/validation'
+import { toast } from '@/components/ui/Toast'
+
+const SERVICE_LEVELS: Array<{ value: PlanServiceLevel; label: string }> = [
+  { value: 'premium', label: 'Premium' },
+  { value: 'standard', label: 'Estándar' },
+  { value: 'basic', label: 'Básico' }
+]
+
+export default function PlanCatalogEditor() {
+  const [catalog, setCatalog] = useState<PlanCatalog>(DEFAULT_PLAN_CATALOG)
+  const [plans, setPlans] = useState<PlanDefinition[]>(DEFAULT_PLAN_CATALOG.plans)
+  const [history, setHistory] = useState<PlanCatalog[]>([])
+  const [errors, setErrors] = useState<string[]>([])
+
+  // El catálogo es de la oficina: se guarda en el servidor y lo ven todos los corredores
+  const loadCatalog = async () => {
+    try {
+      const { current, history } = await fetchPlanCatalog()
+      setCatalog(current)
+      setPlans(current.plans)
+      setHistory(history)
+    } catch (error) {
+      toast.error('Error', error instanceof Error ? error.message : 'No se pudo cargar el catálogo de planes')
+    }
+  }
+
+  useEffect(() => {
+    loadCatalog()
+  }, [])
+
+  const updatePlan = (index: number, changes: Partial<PlanDefinition>) => {
+    setPlans(prev => prev.map((plan, i) => i === index ? { ...plan, ...changes } : plan))
+  }
+
+  const updateAdjustment = (planIndex: number, adjustmentIndex: number, field: 'day' | 'percentage_reduction', value: number) => {
+    const plan = plans[planIndex]
+    updatePlan(planIndex, {
+      adjustments: plan.adjustments.map((adjustment, i) =>
+        i === adjustmentIndex ? { ...adjustment, [field]: value } : adjustment
+      )
+    })
+  }
+
+  const addAdjustment = (planIndex: number) => {
+    const plan = plans[planIndex]
+    const lastDay = plan.adjustments[plan.adjustments.length - 1]?.day ?? 0
+    const lastReduction = plan.adjustments[plan.adjustments.length - 1]?.percentage_reduction ?? 0
+    updatePlan(planIndex, {
+      adjustments: [...plan.adjustments, { day: lastDay + 7, percentage_reduction: lastReduction + 3 }]
+    })
+  }
+
+  const removeAdjustment = (planIndex: number, adjustmentIndex: number) => {
+    const plan = plans[planIndex]
+    updatePlan(planIndex, {
+      adjustments: plan.adjustments.filter((_, i) => i !== adjustmentIndex)
+    })
+  }
+
+  const handleSave = async () => {
+    const validation = validatePlanDefinitions(plans)
+    if (!validation.isValid) {
+      setErrors(validation.errors)
+      toast.warning('Catálogo inválido', 'Revisa los errores antes de guardar')
+      return
+    }
+
+    try {
+      const saved = await savePlanCatalog(validation.data!)
+      setErrors([])
+      await loadCatalog()
+      toast.success('Catálogo guardado', `Versión ${saved.version} de los planes`)
+    } catch (error) {
+      toast.error('Error al guardar', error instanceof Error ? error.message : 'No se pudo guardar el catálogo de planes')
+    }
+  }
+
+  const handleReset = async () => {
+    if (!confirm('¿Volver a los planes A, B y C por defecto? Se guardará como una nueva versión.')) return
+    try {
+      const saved = await savePlanCatalog(DEFAULT_PLAN_CATALOG.plans)
+      setErrors([])
+      await loadCatalog()
+      toast.success('Catálogo restablecido', `Versión ${saved.version} con los planes por defecto`)
+    } catch (error) {
+      toast.error('Error', error instanceof Error ? error.message : 'No se pudo restablecer el catálogo')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">🗂️ Catálogo de Planes</h1>
+          <p className="text-gray-600">
+            Versión {catalog.version === 0 ? 'por defecto' : catalog.version}
+            {catalog.version > 0 && ` · actualizada el ${new Date(catalog.updated_at).toLocaleString('es-CL')}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button type="button" onClick={handleReset} className="btn btn-secondary">
+            Restablecer A/B/C
+          </button>
+          <button
+            type="button"
+            onClick={() => setPlans(prev => [...prev, createPlanDefinition(prev)])}
+            className="btn btn-secondary"
+          >
+            ➕ Agregar plan
+          </button>
+          <button type="button" onClick={handleSave} className="btn btn-primary">
+            💾 Guardar versión
+          </button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">
+          <ul className="space-y-1">
+            {errors.map((error, index) => (
+              <li key={index}>• {error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {plans.map((plan, planIndex) => (
+          <div key={planIndex} className="card">
+            <div className="card-header flex items-center justify-between">
+              <h4 className="text-xl font-bold text-white">Plan {plan.id}</h4>
+              <button
+                type="button"
+                onClick={() => setPlans(prev => prev.filter((_, i) => i !== planIndex))}
+                disabled={plans.length <= 1}
+                className="text-sm text-white underline disabled:opacity-50"
+              >
+                Eliminar
+              </button>
+            </div>
+            <div className="card-body space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="label">Identificador</label>
+                  <input
+                    value={plan.id}
+                    onChange={(e) => updatePlan(planIndex, { id: e.target.value })}
+                    className="input"
+                    maxLength={10}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="label">Nombre</label>
+                  <input
+                    value={plan.name}
+                    onChange={(e) => updatePlan(planIndex, { name: e.target.value })}
+                    className="input"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="label">Descripción</label>
+                <input
+                  value={plan.description}
+                  onChange={(e) => updatePlan(planIndex, { description: e.target.value })}
+                  className="input"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="label">Comisión (%)</label>
+                  <input
+                    type="number"
+                    step="0.5"
+                    min="5"
+                    max="25"
+                    value={plan.commission_percentage}
+                    onChange={(e) => updatePlan(planIndex, { commission_percentage: parseFloat(e.target.value) || 0 })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="label">Servicio</label>
+                  <select
+                    value={plan.service_level}
+                    onChange={(e) => updatePlan(planIndex, { service_level: e.target.value as PlanServiceLevel })}
+                    className="input"
+                  >
+                    {SERVICE_LEVELS.map(level => (
+                      <option key={level.value} value={level.value}>{level.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="label">Marketing (días)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="180"
+                    value={plan.marketing_duration_days}
+                    onChange={(e) => updatePlan(planIndex, { marketing_duration_days: parseInt(e.target.value) || 0 })}
+                    className="input"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="label mb-0">📊 Cronograma de precios</label>
+                  <button type="button" onClick={() => addAdjustment(planIndex)} className="text-sm text-blue-600 hover:underline">
+                    + Ajuste
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {plan.adjustments.map((adjustment, adjustmentIndex) => (
+                    <div key={adjustmentIndex} className="flex items-center gap-2 text-sm">
+                      <span className="text-gray-600 w-10">Día</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={adjustment.day}
+                        onChange={(e) => updateAdjustment(planIndex, adjustmentIndex, 'day', parseInt(e.target.value) || 0)}
+                        className="input w-24"
+                      />
+                      <span className="text-gray-600">Reducción</span>
+                      <input
+                        type="number"
+                        step="0.5"
+                        min="0"
+                        max="50"
+                        value={adjustment.percentage_reduction}
+                        onChange={(e) => updateAdjustment(planIndex, adjustmentIndex, 'percentage_reduction', parseFloat(e.target.value) || 0)}
+                        className="input w-24"
+                      />
+                      <span className="text-gray-600">%</span>
+                      {adjustment.day !== 0 && (
+                        <button
+                          type="button"
+                          onClick={() => removeAdjustment(planIndex, adjustmentIndex)}
+                          className="text-red-600 hover:underline"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {history.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h4 className="text-xl font-bold text-white">🕘 Versiones anteriores</h4>
+          </div>
+          <div className="card-body">
+            <ul className="divide-y text-sm">
+              {[...history].reverse().map(version => (
+                <li key={version.version} className="py-2 flex justify-between">
+                  <span className="font-medium">Versión {version.version}</span>
+                  <span className="text-gray-600">
+                    {version.plans.map(plan => plan.name).join(', ')} · {new Date(version.updated_at).toLocaleString('es-CL')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
 'use client'
 
-import { UseFormReturn } from 'react-hook-form'
-import { useState } from 'react'
-import type { RentalAnalysisForm } from '@/types/rental'
+import { UseFormReturn, useFieldArray } from 'react-hook-form'
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import type { ComparableFormEntry, RentalAnalysisForm, PlanCatalog, SimilarityWeights } from '@/types/rental'
 import { SavedAnalysisFormData, formDataToSavedAnalysis } from '@/types/saved-analysis'
 import { useRouter } from 'next/navigation'
 import PropitalSync from './PropitalSync'
@@ -13,6 +14,19 @@ import HelpButton from '@/components/ui/HelpButton'
 import ProgressBar from '@/components/ui/ProgressBar'
 import LiveFeedback from '@/components/ui/LiveFeedback'
 import SmartInput from '@/components/ui/SmartInput'
+import FinancingFields from '@/components/FinancingFields'
+import OwnerExpensesFields from '@/components/OwnerExpensesFields'
+import TaxFields from '@/components/TaxFields'
+import BuildingAttributesFields from '@/components/BuildingAttributesFields'
+import ListingImportPanel from '@/components/ListingImportPanel'
+import ComparableLibraryPanel from '@/components/ComparableLibraryPanel'
+import ComparablesMap from '@/components/ComparablesMap'
+import { DEFAULT_PLAN_CATALOG } from '@/lib/planCatalog'
+import { SimilarityWeightsStorage } from '@/lib/localStorage'
+import { addComparablesToLibrary, fetchActiveSimilarityWeights, fetchPlanCatalog } from '@/lib/officeApi'
+import { calculateRentalProfitability, formToAnalysisInput } from '@/lib/profitability'
+import { createComparableEntry, isComparableEntryEmpty, MAX_COMPARABLES } from '@/lib/comparables'
+import { DEFAULT_SIMILARITY_WEIGHTS, scoreComparables } from '@/lib/similarity'
 
 interface PropertyFormImprovedProps {
   form: UseFormReturn<RentalAnalysisForm>
@@ -21,17 +35,56 @@ interface PropertyFormImprovedProps {
 }
 
 export default function PropertyFormImproved({ form, formValues, onSuggestRent }: PropertyFormImprovedProps) {
-  const { register, formState: { errors }, watch, setValue } = form
+  const { register, formState: { errors }, watch, setValue, control } = form
+  const { fields: comparableFields, append: appendComparable, remove: removeComparable, update: updateComparable } = useFieldArray({ control, name: 'comparables' })
   const [activeSection, setActiveSection] = useState(1)
   const [sending, setSending] = useState(false)
   const [showUF, setShowUF] = useState(false)
   const [saving, setSaving] = useState(false)
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [analysisTitle, setAnalysisTitle] = useState('')
+  const [planCatalog, setPlanCatalog] = useState<PlanCatalog>(DEFAULT_PLAN_CATALOG)
+  const [similarityWeights, setSimilarityWeights] = useState<SimilarityWeights>(DEFAULT_SIMILARITY_WEIGHTS)
+  const [highlightedComparable, setHighlightedComparable] = useState<number | null>(null)
   const ufValue = parseFloat(formValues.uf_value_clp || '38000')
   const router = useRouter()
+
+  useEffect(() => {
+    fetchPlanCatalog()
+      .then(({ current }) => setPlanCatalog(current))
+      .catch(error => console.warn('No se pudo cargar el catálogo de planes:', error))
+    fetchActiveSimilarityWeights()
+      .then(setSimilarityWeights)
+      .catch(error => console.warn('No se pudieron cargar los pesos de similitud:', error))
+  }, [])
   // useConfirm removed - using native confirm instead
 
+  // Comparables con su similitud, para el mapa (id = posición en la lista + 1)
+  const mapInput = useMemo(() => formToAnalysisInput(formValues, undefined, similarityWeights), [formValues, similarityWeights])
+  const mapComparables = useMemo(
+    () => scoreComparables(mapInput.comparables, mapInput.property, similarityWeights),
+    [mapInput, similarityWeights]
+  )
+
+  // Clic en el mapa: lleva a la fila del comparable y la destaca unos segundos
+  const focusComparableRow = (index: number) => {
+    document.getElementById(`comparable-row-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setHighlightedComparable(index)
+    setTimeout(() => setHighlightedComparable(current => current === index ? null : current), 2000)
+  }
+
+  // Comparable importado o tomado de la biblioteca: ocupa la primera fila vacía o se agrega al final
+  const addComparableEntry = (entry: ComparableFormEntry) => {
+    const emptyIndex = (formValues.comparables || []).findIndex(isComparableEntryEmpty)
+    if (emptyIndex >= 0) {
+      updateComparable(emptyIndex, entry)
+    } else if (comparableFields.length < MAX_COMPARABLES) {
+      appendComparable(entry)
+    } else {
+      toast.warning('Límite alcanzado', `Puede ingresar hasta ${MAX_COMPARABLES} comparables`)
+    }
+  }
+
   const sections = [
     { id: 1, title: 'Información de la Propiedad', icon: '🏠' },
     { id: 2, title: 'Precio de Arriendo', icon: '💰' }
@@ -84,37 +137,38 @@ export default function PropertyFormImproved({ form, formValues, onSuggestRent }
         bathrooms: formValues.bathrooms,
         parking_spaces: formValues.parking_spaces,
         storage_units: formValues.storage_units,
+        property_lat: formValues.property_lat,
+        property_lon: formValues.property_lon,
+        property_year_built: formValues.property_year_built,
+        property_floor: formValues.property_floor,
+        property_orientation: formValues.property_orientation,
+        property_amenities: formValues.property_amenities,
         suggested_rent_clp: formValues.suggested_rent_clp,
         suggested_rent_uf: formValues.suggested_rent_uf,
         rent_currency: formValues.rent_currency,
         capture_price_clp: formValues.capture_price_clp,
         capture_price_uf: formValues.capture_price_uf,
         capture_price_currency: formValues.capture_price_currency,
-        comparable_1_address: formValues.comparable_1_address,
-        comparable_1_m2: formValues.comparable_1_m2,
-        comparable_1_bedrooms: formValues.comparable_1_bedrooms,
-        comparable_1_bathrooms: formValues.comparable_1_bathrooms,
-        comparable_1_parking: formValues.comparable_1_parking,
-        comparable_1_storage: formValues.comparable_1_storage,
-        comparable_1_price: formValues.comparable_1_price,
-        comparable_2_address: formValues.comparable_2_address,
-        comparable_2_m2: formValues.comparable_2_m2,
-        comparable_2_bedrooms: formValues.comparable_2_bedrooms,
-        comparable_2_bathrooms: formValues.comparable_2_bathrooms,
-        comparable_2_parking: formValues.comparable_2_parking,
-        comparable_2_storage: formValues.comparable_2_storage,
-        comparable_2_price: formValues.comparable_2_price,
-        comparable_3_address: formValues.comparable_3_address,
-        comparable_3_m2: formValues.comparable_3_m2,
-        comparable_3_bedrooms: formValues.comparable_3_bedrooms,
-        comparable_3_bathrooms: formValues.comparable_3_bathrooms,
-        comparable_3_parking: formValues.comparable_3_parking,
-        comparable_3_storage: formValues.comparable_3_storage,
-        comparable_3_price: formValues.comparable_3_price,
+        comparables: formValues.comparables,
         annual_maintenance_clp: formValues.annual_maintenance_clp || '0',
         annual_property_tax_clp: formValues.annual_property_tax_clp || '0',
         annual_insurance_clp: formValues.annual_insurance_clp || '0',
+        common_expenses_monthly_clp: formValues.common_expenses_monthly_clp,
+        common_expenses_paid_by: formValues.common_expenses_paid_by,
+        administration_percentage: formValues.administration_percentage,
+        repairs_reserve_percentage: formValues.repairs_reserve_percentage,
+        lease_commission_percentage: formValues.lease_commission_percentage,
+        other_one_off_costs_clp: formValues.other_one_off_costs_clp,
         uf_value_clp: formValues.uf_value_clp,
+        mortgage_down_payment_uf: formValues.mortgage_down_payment_uf,
+        mortgage_loan_uf: formValues.mortgage_loan_uf,
+        mortgage_annual_rate: formValues.mortgage_annual_rate,
+        mortgage_term_years: formValues.mortgage_term_years,
+        tax_marginal_bracket: formValues.tax_marginal_bracket,
+        tax_is_dfl2: formValues.tax_is_dfl2,
+        tax_dfl2_properties_owned: formValues.tax_dfl2_properties_owned,
+        plan_catalog: planCatalog,
+        similarity_weights: similarityWeights,
         broker_email: 'corredor@ejemplo.com', // En una app real, esto vendría del usuario autenticado
         notes: `Análisis creado desde el formulario el ${new Date().toLocaleString('es-CL')}`,
         tags: ['formulario', 'nuevo']
@@ -131,6 +185,14 @@ export default function PropertyFormImproved({ form, formValues, onSuggestRent }
       const result = await response.json()
 
       if (response.ok) {
+        // Los comparables completos quedan en la biblioteca de la oficina para otros análisis
+        addComparablesToLibrary(formValues.comparables || [], {
+          capturedBy: SimilarityWeightsStorage.getActiveOffice(),
+          sourceAnalysisId: result.analysis?.id
+        }).catch(error => {
+          console.error('Error saving comparables to library:', error)
+          toast.warning('Biblioteca de comparables', 'El análisis se guardó, pero sus comparables no se agregaron a la biblioteca')
+        })
         toast.success('¡Éxito!', 'Análisis guardado exitosamente')
         setShowSaveDialog(false)
         setAnalysisTitle('')
@@ -520,6 +582,24 @@ export default function PropertyFormImproved({ form, formValues, onSuggestRent }
                     <p className="text-xs text-gray-500 mt-1">Número de bodegas incluidas</p>
                   </div>
                 </div>
+
+                {/* Edificio y ubicación (para la similitud de comparables) */}
+                <div className="mt-6 border border-gray-200 rounded-lg p-4">
+                  <div className="text-sm font-medium text-gray-900 mb-1">🏢 Edificio y ubicación (opcional)</div>
+                  <p className="text-xs text-gray-600 mb-3">Permite comparar antigüedad, piso, orientación, amenidades y distancia con los comparables</p>
+                  <BuildingAttributesFields
+                    form={form}
+                    names={{
+                      address: 'property_address',
+                      lat: 'property_lat',
+                      lon: 'property_lon',
+                      yearBuilt: 'property_year_built',
+                      floor: 'property_floor',
+                      orientation: 'property_orientation',
+                      amenities: 'property_amenities'
+                    }}
+                  />
+                </div>
                 
                 {/* Campo valor UF actual */}
                 <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -540,6 +620,15 @@ export default function PropertyFormImproved({ form, formValues, onSuggestRent }
                     </div>
                   </div>
                 </div>
+
+                {/* Gastos del propietario */}
+                <OwnerExpensesFields form={form} formValues={formValues} />
+
+                {/* Crédito hipotecario (opcional) */}
+                <FinancingFields form={form} formValues={formValues} />
+
+                {/* Impuesto a la renta (opcional) */}
+                <TaxFields form={form} formValues={formValues} />
               </div>
 
               <div className="flex justify-between pt-4">
@@ -607,220 +696,128 @@ export default function PropertyFormImproved({ form, formValues, onSuggestRent }
                 <div className="space-y-4">
                   <label className="label">🏘️ ¿Conoce propiedades parecidas en su sector? (Opcional)</label>
                   <p className="text-sm text-gray-600 mb-3">Si sabe de casas o departamentos similares que se arriendan cerca, agréguelas aquí para un cálculo más preciso</p>
+
+                  <ListingImportPanel ufValueClp={ufValue} onImport={addComparableEntry} />
+                  <ComparableLibraryPanel
+                    propertyAddress={formValues.property_address}
+                    current={formValues.comparables || []}
+                    onSelect={addComparableEntry}
+                  />
                   
-                  {/* Propiedad 1 */}
-                  <div className="border-2 border-gray-200 rounded-lg p-4">
-                    <h4 className="font-bold text-sm mb-3">1️⃣ Propiedad Comparable 1</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      <input
-                        {...register('comparable_1_address')}
-                        placeholder="Dirección"
-                        className="input input-sm"
-                      />
-                      <input
-                        {...register('comparable_1_m2')}
-                        type="number"
-                        placeholder="Metros cuadrados"
-                        className="input input-sm"
-                      />
-                      <input
-                        {...register('comparable_1_price')}
-                        type="number"
-                        placeholder="Precio arriendo CLP"
-                        className="input input-sm"
-                      />
-                      <div className="space-y-2 sm:space-y-0 sm:grid sm:grid-cols-4 sm:gap-2">
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Dormitorios</label>
-                          <input
-                            {...register('comparable_1_bedrooms')}
-                            type="number"
-                            min="0"
-                            defaultValue="1"
-                            placeholder="Dormitorios"
-                            className="input input-sm w-full"
-                          />
-                        </div>
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Baños</label>
-                          <input
-                            {...register('comparable_1_bathrooms')}
-                            type="number"
-                            min="0"
-                            defaultValue="1"
-                            placeholder="Baños"
-                            className="input input-sm w-full"
-                          />
-                        </div>
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Estacionamientos</label>
-                          <input
-                            {...register('comparable_1_parking')}
-                            type="number"
-                            min="0"
-                            defaultValue="0"
-                            placeholder="Estacionamientos"
-                            className="input input-sm w-full"
-                          />
-                        </div>
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Bodegas</label>
-                          <input
-                            {...register('comparable_1_storage')}
-                            type="number"
-                            min="0"
-                            defaultValue="0"
-                            placeholder="Bodegas"
-                            className="input input-sm w-full"
-                          />
-                        </div>
+                  {comparableFields.map((field, index) => (
+                    <div
+                      key={field.id}
+                      id={`comparable-row-${index}`}
+                      className={`border-2 rounded-lg p-4 transition-colors ${highlightedComparable === index ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+                    >
+                      <div className="flex justify-between items-center mb-3">
+                        <h4 className="font-bold text-sm">🏠 Propiedad Comparable {index + 1}</h4>
+                        <button
+                          type="button"
+                          onClick={() => removeComparable(index)}
+                          className="text-red-500 hover:text-red-700 text-xs"
+                        >
+                          ✕ Eliminar
+                        </button>
                       </div>
-                    </div>
-                  </div>
-
-                  {/* Propiedad 2 */}
-                  <div className="border-2 border-gray-200 rounded-lg p-4">
-                    <h4 className="font-bold text-sm mb-3">2️⃣ Propiedad Comparable 2</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      <input
-                        {...register('comparable_2_address')}
-                        placeholder="Dirección"
-                        className="input input-sm"
-                      />
-                      <input
-                        {...register('comparable_2_m2')}
-                        type="number"
-                        placeholder="Metros cuadrados"
-                        className="input input-sm"
-                      />
-                      <input
-                        {...register('comparable_2_price')}
-                        type="number"
-                        placeholder="Precio arriendo CLP"
-                        className="input input-sm"
-                      />
-                      <div className="space-y-2 sm:space-y-0 sm:grid sm:grid-cols-4 sm:gap-2">
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Dormitorios</label>
-                          <input
-                            {...register('comparable_2_bedrooms')}
-                            type="number"
-                            min="0"
-                            defaultValue="1"
-                            placeholder="Dormitorios"
-                            className="input input-sm w-full"
-                          />
-                        </div>
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Baños</label>
-                          <input
-                            {...register('comparable_2_bathrooms')}
-                            type="number"
-                            min="0"
-                            defaultValue="1"
-                            placeholder="Baños"
-                            className="input input-sm w-full"
-                          />
-                        </div>
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Estacionamientos</label>
-                          <input
-                            {...register('comparable_2_parking')}
-                            type="number"
-                            min="0"
-                            defaultValue="0"
-                            placeholder="Estacionamientos"
-                            className="input input-sm w-full"
-                          />
-                        </div>
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Bodegas</label>
-                          <input
-                            {...register('comparable_2_storage')}
-                            type="number"
-                            min="0"
-                            defaultValue="0"
-                            placeholder="Bodegas"
-                            className="input input-sm w-full"
-                          />
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input
+                          {...register(`comparables.${index}.address`)}
+                          placeholder="Dirección"
+                          className="input input-sm"
+                        />
+                        <input
+                          {...register(`comparables.${index}.m2`)}
+                          type="number"
+                          placeholder="Metros cuadrados"
+                          className="input input-sm"
+                        />
+                        <input
+                          {...register(`comparables.${index}.price`)}
+                          type="number"
+                          placeholder="Precio arriendo CLP"
+                          className="input input-sm"
+                        />
+                        <div className="space-y-2 sm:space-y-0 sm:grid sm:grid-cols-4 sm:gap-2">
+                          <div>
+                            <label className="text-xs text-gray-600 block sm:hidden">Dormitorios</label>
+                            <input
+                              {...register(`comparables.${index}.bedrooms`)}
+                              type="number"
+                              min="0"
+                              placeholder="Dormitorios"
+                              className="input input-sm w-full"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-xs text-gray-600 block sm:hidden">Baños</label>
+                            <input
+                              {...register(`comparables.${index}.bathrooms`)}
+                              type="number"
+                              min="0"
+                              placeholder="Baños"
+                              className="input input-sm w-full"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-xs text-gray-600 block sm:hidden">Estacionamientos</label>
+                            <input
+                              {...register(`comparables.${index}.parking`)}
+                              type="number"
+                              min="0"
+                              placeholder="Estacionamientos"
+                              className="input input-sm w-full"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-xs text-gray-600 block sm:hidden">Bodegas</label>
+                            <input
+                              {...register(`comparables.${index}.storage`)}
+                              type="number"
+                              min="0"
+                              placeholder="Bodegas"
+                              className="input input-sm w-full"
+                            />
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  </div>
-
-                  {/* Propiedad 3 */}
-                  <div className="border-2 border-gray-200 rounded-lg p-4">
-                    <h4 className="font-bold text-sm mb-3">3️⃣ Propiedad Comparable 3</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      <input
-                        {...register('comparable_3_address')}
-                        placeholder="Dirección"
-                        className="input input-sm"
-                      />
-                      <input
-                        {...register('comparable_3_m2')}
-                        type="number"
-                        placeholder="Metros cuadrados"
-                        className="input input-sm"
-                      />
-                      <input
-                        {...register('comparable_3_price')}
-                        type="number"
-                        placeholder="Precio arriendo CLP"
-                        className="input input-sm"
-                      />
-                      <div className="space-y-2 sm:space-y-0 sm:grid sm:grid-cols-4 sm:gap-2">
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Dormitorios</label>
-                          <input
-                            {...register('comparable_3_bedrooms')}
-                            type="number"
-                            min="0"
-                            defaultValue="1"
-                            placeholder="Dormitorios"
-                            className="input input-sm w-full"
-                          />
-                        </div>
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Baños</label>
-                          <input
-                            {...register('comparable_3_bathrooms')}
-                            type="number"
-                            min="0"
-                            defaultValue="1"
-                            placeholder="Baños"
-                            className="input input-sm w-full"
-                          />
-                        </div>
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Estacionamientos</label>
-                          <input
-                            {...register('comparable_3_parking')}
-                            type="number"
-                            min="0"
-                            defaultValue="0"
-                            placeholder="Estacionamientos"
-                            className="input input-sm w-full"
-                          />
-                        </div>
-                        <div>
-                          <label className="text-xs text-gray-600 block sm:hidden">Bodegas</label>
-                          <input
-                            {...register('comparable_3_storage')}
-                            type="number"
-                            min="0"
-                            defaultValue="0"
-                            placeholder="Bodegas"
-                            className="input input-sm w-full"
-                          />
-                        </div>
+                      <div className="mt-3">
+                        <BuildingAttributesFields
+                          form={form}
+                          names={{
+                            address: `comparables.${index}.address`,
+                            lat: `comparables.${index}.lat`,
+                            lon: `comparables.${index}.lon`,
+                            yearBuilt: `comparables.${index}.year_built`,
+                            floor: `comparables.${index}.floor`,
+                            orientation: `comparables.${index}.orientation`,
+                            amenities: `comparables.${index}.amenities`
+                          }}
+                        />
                       </div>
                     </div>
-                  </div>
+                  ))}
+
+                  <button
+                    type="button"
+                    onClick={() => appendComparable(createComparableEntry())}
+                    disabled={comparableFields.length >= MAX_COMPARABLES}
+                    className="btn btn-outline text-xs"
+                  >
+                    ➕ Agregar propiedad comparable
+                  </button>
 
                   <p className="text-sm text-gray-600 mt-1">
-                    📋 Puedes dejar en blanco cualquier propiedad comparable que no necesites
+                    📋 Puedes agregar hasta {MAX_COMPARABLES} propiedades; las que queden sin dirección o precio no se consideran
                   </p>
+
+                  {mapComparables.length > 0 && (
+                    <ComparablesMap
+                      subject={mapInput.property}
+                      comparables={mapComparables}
+                      onSelectComparable={focusComparableRow}
+                    />
+                  )}
                 </div>
 
                 <div>
@@ -1083,42 +1080,28 @@ export default function PropertyFormImproved({ form, formValues, onSuggestRent }
                 <h4 className="font-bold text-yellow-800 text-lg mb-3">Planes Configurados</h4>
                 <div className="text-sm text-yellow-700 space-y-2">
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-left">
-                    <div className="bg-white p-3 rounded-lg border">
-                      <div className="font-bold text-green-700 mb-1">📊 Plan A - Premium</div>
-                      <div className="text-xs text-gray-600">
-                        • Días 1-7: Precio inicial<br/>
-                        • Día 7: -0.27% rentabilidad<br/>
-                        • Día 14: -0.53% rentabilidad<br/>
-                        • Día 21: -0.80% rentabilidad<br/>
-                        • Día 30: -1.08% rentabilidad<br/>
-                        • Máximo: -1.83% al mes
-                      </div>
-                    </div>
-                    <div className="bg-white p-3 rounded-lg border">
-                      <div className="font-bold text-orange-700 mb-1">📊 Plan B - Estándar</div>
-                      <div className="text-xs text-gray-600">
-                        • Días 1-10: Precio inicial<br/>
-                        • Día 15: -0.46% rentabilidad<br/>
-                        • Día 22: -0.91% rentabilidad<br/>
-                        • Día 30: -1.37% rentabilidad<br/>
-                        • Máximo: -1.83% al mes
-                      </div>
-                    </div>
-                    <div className="bg-white p-3 rounded-lg border">
-                      <div className="font-bold text-blue-700 mb-1">📊 Plan C - Básico</div>
-                      <div className="text-xs text-gray-600">
-                        • Días 1-15: Precio inicial<br/>
-                        • Día 20: -0.61% rentabilidad<br/>
-                        • Día 30: -1.22% rentabilidad<br/>
-                        • Máximo: -1.83% al mes
+                    {planCatalog.plans.map(plan => (
+                      <div key={plan.id} className="bg-white p-3 rounded-lg border">
+                        <div className="font-bold text-gray-800 mb-1">📊 Plan {plan.id} - {plan.name}</div>
+                        <div className="text-xs text-gray-600">
+                          • Comisión: {plan.commission_percentage}%<br/>
+                          {plan.adjustments.map(adjustment => (
+                            <span key={adjustment.day}>
+                              • {adjustment.day === 0 ? 'Inicio: precio inicial' : `Día ${adjustment.day}: -${adjustment.percentage_reduction}%`}<br/>
+                            </span>
+                          ))}
+                        </div>
                       </div>
-                    </div>
+                    ))}
                   </div>
                 </div>
                 <div className="text-xs text-yellow-600 mt-3 italic">
                   Los planes están optimizados para equilibrar velocidad de arriendo vs. rentabilidad total.
                   El cliente pierde máximo 1.83% de rentabilidad anual por mes de vacancia.
                 </div>
+                <Link href="/planes" className="text-xs text-yellow-700 underline mt-2 inline-block">
+                  Editar catálogo de planes
+                </Link>
               </div>
 
               <div className="bg-green-50 border border-green-200 rounded-xl p-4">
@@ -1156,11 +1139,7 @@ export default function PropertyFormImproved({ form, formValues, onSuggestRent }
                               value_clp: parseFloat(formValues.property_value_clp || '0'),
                               size_m2: parseFloat(formValues.property_size_m2 || '0')
                             },
-                            plans: [
-                              { id: 'A', initial_rent_clp: parseFloat(formValues.suggested_rent_clp || '0') },
-                              { id: 'B', initial_rent_clp: parseFloat(formValues.suggested_rent_clp || '0') * 0.95 },
-                              { id: 'C', initial_rent_clp: parseFloat(formValues.suggested_rent_clp || '0') * 0.97 }
-                            ],
+                            plans: calculateRentalProfitability(formToAnalysisInput(formValues, planCatalog, similarityWeights)).analysis.plans,
                             clientEmail: 'cliente@ejemplo.com',
                             brokerEmail: 'corredor@ejemplo.com'
                           })
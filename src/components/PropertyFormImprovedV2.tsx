@@ -134,7 +134,13 @@ export default function PropertyFormImprovedV2({ form, formValues, onSuggestRent
                   />
                   
                   {/* Mapa mejorado */}
-                  <AddressMap address={formValues.property_address} />
+                  <AddressMap
+                    address={formValues.property_address}
+                    onGeocoded={({ lat, lon }) => {
+                      setValue('property_lat', lat.toString())
+                      setValue('property_lon', lon.toString())
+                    }}
+                  />
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -3,7 +3,14 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { AnalysisStorage } from '@/lib/localStorage'
-import { SavedAnalysis } from '@/types/saved-analysis'
+import { fetchActiveSimilarityWeights } from '@/lib/officeApi'
+import { calculateSimilarityScore, DEFAULT_SIMILARITY_WEIGHTS } from '@/lib/similarity'
+import { importAnalyses } from '@/lib/analysisApi'
+import { initialProposalStatus } from '@/lib/proposalLifecycle'
+import { isComparableEntryEmpty, MAX_COMPARABLES } from '@/lib/comparables'
+import type { ComparableFormEntry } from '@/types/rental'
+import ComparableSpreadsheetImport from '@/components/ComparableSpreadsheetImport'
+import { SavedAnalysis, SAVED_ANALYSIS_SCHEMA_VERSION } from '@/types/saved-analysis'
 import { toast } from '@/components/ui/Toast'
 import { formatNumber, unformatNumber } from '@/utils/numberFormatter'
 
@@ -19,6 +26,8 @@ interface ComparableProperty {
   price: string
 }
 
+const APPROXIMATE_UF_VALUE_CLP = 38000
+
 export default function QuickPriceAnalysis() {
   const router = useRouter()
   const [comparables, setComparables] = useState<ComparableProperty[]>([
@@ -36,8 +45,8 @@ export default function QuickPriceAnalysis() {
     ))
   }
 
-  const calculateSuggestedPrice = () => {
-    const validComparables = comparables.filter(c => c.price && c.m2)
+  const calculateSuggestedPrice = (list: ComparableProperty[] = comparables) => {
+    const validComparables = list.filter(c => c.price && c.m2)
     if (validComparables.length === 0) return
 
     const prices = validComparables.map(c => {
@@ -64,14 +73,16 @@ export default function QuickPriceAnalysis() {
   }
 
   // Función para guardar el análisis rápido
-  const handleSaveQuickAnalysis = () => {
+  const handleSaveQuickAnalysis = async () => {
     if (!suggestedPrice || suggestedPrice <= 0) {
       toast.error('Error', 'Primero debes calcular un precio sugerido')
       return
     }
 
+    const similarityWeights = await fetchActiveSimilarityWeights().catch(() => DEFAULT_SIMILARITY_WEIGHTS)
     const analysisData: SavedAnalysis = {
       id: AnalysisStorage.generateId(),
+      schemaVersion: SAVED_ANALYSIS_SCHEMA_VERSION,
       title: propertyAddress || `Análisis Rápido - ${new Date().toLocaleDateString('es-CL')}`,
       property: {
         address: propertyAddress || 'Dirección no especificada',
@@ -85,23 +96,33 @@ export default function QuickPriceAnalysis() {
       analysis: {
         suggested_rent_clp: Math.round(suggestedPrice),
         rent_currency: 'CLP',
-        comparable_properties: comparables.filter(c => c.price && c.m2).map((c, idx) => ({
-          id: `comp_${idx}`,
-          address: c.address,
-          link: c.link,
-          rent_clp: parseFloat(c.price),
-          size_m2: parseFloat(c.m2),
-          similarity_score: 85, // Score aproximado
-          bedrooms: parseInt(c.bedrooms) || 0,
-          bathrooms: parseInt(c.bathrooms) || 0,
-          parking_spaces: parseInt(c.parking) || 0
-        })),
+        comparable_properties: comparables.filter(c => c.price && c.m2).map((c, idx) => {
+          const comparable = {
+            id: idx + 1,
+            address: c.address,
+            link: c.link,
+            rent_clp: parseFloat(c.price),
+            size_m2: parseFloat(c.m2),
+            bedrooms: parseInt(c.bedrooms) || 0,
+            bathrooms: parseInt(c.bathrooms) || 0,
+            parking_spaces: parseInt(c.parking) || 0,
+            storage_units: parseInt(c.storage) || 0,
+            price_per_m2: Math.round(parseFloat(c.price) / parseFloat(c.m2))
+          }
+          // En el análisis rápido solo se conoce la superficie de la propiedad
+          const { similarity_score } = calculateSimilarityScore(
+            { size_m2: parseFloat(propertyM2) || undefined },
+            comparable,
+            similarityWeights
+          )
+          return { ...comparable, similarity_score }
+        }),
         annual_expenses: {
           maintenance_clp: 0,
           property_tax_clp: 0,
           insurance_clp: 0
         },
-        uf_value_clp: 38000 // Valor UF aproximado
+        uf_value_clp: APPROXIMATE_UF_VALUE_CLP
       },
       calculations: {
         cap_rate: 0,
@@ -115,13 +136,16 @@ export default function QuickPriceAnalysis() {
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         broker_email: 'usuario@ejemplo.com',
-        status: 'draft',
+        ...initialProposalStatus(),
         tags: ['análisis-rápido', 'precio-sugerido'],
         notes: `Precio calculado basado en ${comparables.filter(c => c.price && c.m2).length} comparables`
       }
     }
 
-    const success = AnalysisStorage.save(analysisData)
+    // El análisis rápido ya viene calculado: se guarda tal cual en el servidor
+    const success = await importAnalyses([analysisData])
+      .then(result => result.imported.length === 1)
+      .catch(() => false)
     
     if (success) {
       toast.success('¡Éxito!', 'Análisis guardado correctamente')
@@ -151,6 +175,26 @@ export default function QuickPriceAnalysis() {
     router.push('/new-analysis')
   }
 
+  // Filas importadas desde planilla: reemplazan las filas vacías y se recalcula el precio con todas
+  const importComparables = (entries: ComparableFormEntry[]) => {
+    const next = [...comparables.filter(comp => !isComparableEntryEmpty(comp)), ...entries]
+      .slice(0, MAX_COMPARABLES)
+      .map((comp, index): ComparableProperty => ({
+        id: index + 1,
+        link: comp.link || '',
+        address: comp.address || '',
+        m2: comp.m2 || '',
+        bedrooms: comp.bedrooms || '',
+        bathrooms: comp.bathrooms || '',
+        parking: comp.parking || '',
+        storage: comp.storage || '',
+        price: comp.price || ''
+      }))
+
+    setComparables(next)
+    calculateSuggestedPrice(next)
+  }
+
   const addComparable = () => {
     const newId = Math.max(...comparables.map(c => c.id)) + 1
     setComparables(prev => [...prev, {
@@ -318,20 +362,27 @@ export default function QuickPriceAnalysis() {
               </div>
             ))}
 
-            {comparables.length < 4 && (
+            {comparables.length < MAX_COMPARABLES && (
               <button
                 type="button"
                 onClick={addComparable}
                 className="btn btn-secondary w-full"
               >
-                ➕ Agregar Comparable ({comparables.length + 1}/4)
+                ➕ Agregar Comparable ({comparables.length + 1}/{MAX_COMPARABLES})
               </button>
             )}
 
+            <ComparableSpreadsheetImport
+              ufValueClp={APPROXIMATE_UF_VALUE_CLP}
+              existing={comparables}
+              maxRows={MAX_COMPARABLES - comparables.filter(comp => !isComparableEntryEmpty(comp)).length}
+              onImport={importComparables}
+            />
+
             <div className="border-t-2 pt-4">
               <button
                 type="button"
-                onClick={calculateSuggestedPrice}
+                onClick={() => calculateSuggestedPrice()}
                 className="btn btn-primary w-full mb-4"
               >
                 🔮 Calcular Precio Sugerido
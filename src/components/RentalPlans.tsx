@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import type { RentalPlan, RentalAnalysis, PlanComparison } from '@/types/rental'
 import { generateRentalAnalysisPDF } from '@/utils/pdfGenerator'
+import { planCardClass } from '@/lib/planCatalog'
 
 interface RentalPlansProps {
   plans: RentalPlan[]
@@ -134,14 +135,14 @@ TuMatch Arriendos
 
       {/* Planes Grid */}
       <div className="grid lg:grid-cols-3 gap-6">
-        {plans.map((plan) => {
+        {plans.map((plan, index) => {
           const comparison = getPlanComparison(plan.id)
           const isSelected = selectedPlans.includes(plan.id)
           
           return (
             <div
               key={plan.id}
-              className={`plan-card plan-${plan.id.toLowerCase()} ${isSelected ? 'selected' : ''}`}
+              className={`plan-card ${planCardClass(index)} ${isSelected ? 'selected' : ''}`}
               onClick={() => togglePlanSelection(plan.id)}
             >
               {/* Plan Header */}
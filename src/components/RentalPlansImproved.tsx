@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import type { RentalPlan, RentalAnalysis, PlanComparison } from '@/types/rental'
 import { generateSimpleRentalPDF } from '@/utils/simplePdfGenerator'
+import { planBadge, planCardClass } from '@/lib/planCatalog'
 
 interface RentalPlansImprovedProps {
   plans: RentalPlan[]
@@ -154,16 +155,16 @@ TuMatch Arriendos
           Planes Comerciales A, B y C
         </h3>
         <p className="text-lg text-gray-600 max-w-3xl mx-auto">
-          Estos son 3 planes diferentes para arrendar su propiedad. Cada uno bajará el precio de forma distinta para arrendar más rápido.
+          Estos son {plans.length} planes diferentes para arrendar su propiedad. Cada uno bajará el precio de forma distinta para arrendar más rápido.
         </p>
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-4 max-w-3xl mx-auto">
           <div className="flex items-start space-x-3">
             <span className="text-blue-600 text-xl">💡</span>
             <div className="text-sm text-blue-800">
               <div className="font-medium mb-1">¿Cómo funcionan los planes?</div>
-              <div>• <strong>Plan A:</strong> Baja el precio rápido para arrendar en pocos días</div>
-              <div>• <strong>Plan B:</strong> Equilibrio entre precio y tiempo</div>
-              <div>• <strong>Plan C:</strong> Mantiene el precio alto más tiempo</div>
+              {plans.map(plan => (
+                <div key={plan.id}>• <strong>{plan.name}:</strong> {plan.description}</div>
+              ))}
               <div className="mt-2 text-blue-700 font-medium">✅ Usted elige cuál(es) presentar al dueño</div>
             </div>
           </div>
@@ -203,14 +204,14 @@ TuMatch Arriendos
 
       {/* Grid de Planes */}
       <div className="grid lg:grid-cols-3 gap-8">
-        {plans.map((plan) => {
+        {plans.map((plan, index) => {
           const comparison = getPlanComparison(plan.id)
           const isSelected = selectedPlans.includes(plan.id)
           
           return (
             <div
               key={plan.id}
-              className={`plan-card plan-${plan.id.toLowerCase()} ${isSelected ? 'selected' : ''}`}
+              className={`plan-card ${planCardClass(index)} ${isSelected ? 'selected' : ''}`}
               onClick={() => togglePlanSelection(plan.id)}
             >
               {/* Header del Plan */}
@@ -218,7 +219,7 @@ TuMatch Arriendos
                 <div className="flex-1">
                   <div className="flex items-center space-x-3 mb-2">
                     <div className="text-3xl">
-                      {plan.id === 'A' ? '🥇' : plan.id === 'B' ? '🥈' : '🥉'}
+                      {planBadge(index)}
                     </div>
                     <div>
                       <h4 className="text-2xl font-bold text-gray-900">{plan.name}</h4>
@@ -270,6 +271,19 @@ TuMatch Arriendos
                     <span className="font-medium text-green-600">{comparison.expected_rental_time} días</span>
                   </div>
                 )}
+
+                {comparison?.simulation && (
+                  <div className="p-3 bg-gray-50 rounded-lg text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">🎲 Rango probable (P10-P90):</span>
+                      <span className="font-medium">{comparison.simulation.p10_days}-{comparison.simulation.p90_days} días</span>
+                    </div>
+                    <div className="flex justify-between mt-1">
+                      <span className="text-gray-600">Prob. vacante al día 30:</span>
+                      <span className="font-medium">{(comparison.simulation.probability_vacant_day_30 * 100).toFixed(0)}%</span>
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Cronograma de Ajustes */}
@@ -342,7 +356,7 @@ TuMatch Arriendos
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
-              {plans.map((plan) => {
+              {plans.map((plan, index) => {
                 const comparison = getPlanComparison(plan.id)
                 const isSelected = selectedPlans.includes(plan.id)
                 
@@ -351,7 +365,7 @@ TuMatch Arriendos
                     <td className="px-6 py-4">
                       <div className="flex items-center space-x-3">
                         <div className="text-2xl">
-                          {plan.id === 'A' ? '🥇' : plan.id === 'B' ? '🥈' : '🥉'}
+                          {planBadge(index)}
                         </div>
                         <div>
                           <div className="font-bold text-gray-900">{plan.name}</div>
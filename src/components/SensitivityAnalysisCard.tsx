@@ -0,0 +1,209 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { RentalAnalysis, SensitivityMetric, SensitivityOutcome, SensitivityRange } from '@/types/rental'
+import {
+  SENSITIVITY_DEFAULTS,
+  SENSITIVITY_LABELS,
+  calculateSensitivityGrid,
+  calculateTornado,
+  evaluateSensitivity,
+  sensitivityBaseFromAnalysis,
+  sensitivityUnit
+} from '@/lib/sensitivity'
+
+interface SensitivityAnalysisCardProps {
+  analysis: RentalAnalysis
+}
+
+export default function SensitivityAnalysisCard({ analysis }: SensitivityAnalysisCardProps) {
+  const [metric, setMetric] = useState<SensitivityMetric>('cap_rate')
+  const [ranges, setRanges] = useState<SensitivityRange[]>(SENSITIVITY_DEFAULTS.RANGES)
+
+  const base = useMemo(() => sensitivityBaseFromAnalysis(analysis), [analysis])
+  const baseOutcome = useMemo(() => evaluateSensitivity(base), [base])
+  const tornado = useMemo(() => calculateTornado(base, ranges, metric), [base, ranges, metric])
+  const grid = useMemo(() => calculateSensitivityGrid(base), [base])
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('es-CL', {
+      style: 'currency',
+      currency: 'CLP',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const valueOf = (outcome: SensitivityOutcome) =>
+    metric === 'cap_rate' ? outcome.cap_rate_percentage : outcome.net_annual_income_clp
+
+  const formatMetric = (value: number) =>
+    metric === 'cap_rate' ? `${value.toFixed(2)}%` : formatCurrency(value)
+
+  const formatChange = (change: number, unit: string) =>
+    `${change > 0 ? '+' : ''}${change}${unit === '%' ? '%' : ` ${unit}`}`
+
+  const updateRange = (index: number, field: 'low' | 'high', value: number) => {
+    setRanges(prev => prev.map((range, i) => i === index ? { ...range, [field]: value } : range))
+  }
+
+  const baseValue = valueOf(baseOutcome)
+  // Escala del tornado: la mayor desviación respecto del caso base ocupa media barra
+  const maxDeviation = Math.max(
+    ...tornado.map(bar => Math.max(Math.abs(valueOf(bar.low) - baseValue), Math.abs(valueOf(bar.high) - baseValue))),
+    Number.EPSILON
+  )
+  const barWidth = (value: number) => `${(Math.abs(value - baseValue) / maxDeviation) * 50}%`
+
+  const cellColor = (outcome: SensitivityOutcome) => {
+    const value = valueOf(outcome)
+    if (value >= baseValue) return 'bg-green-50 text-green-700'
+    if (value >= baseValue - Math.abs(baseValue) * 0.1) return 'bg-yellow-50 text-yellow-700'
+    return 'bg-red-50 text-red-700'
+  }
+
+  if (base.property_value_clp <= 0 || base.monthly_rent_clp <= 0) return null
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h4 className="text-xl font-bold text-white flex items-center">
+          <span className="text-2xl mr-2">🌪️</span>
+          Análisis de Sensibilidad
+        </h4>
+        <p className="text-blue-100 text-sm mt-1">
+          ¿Qué pasa si el arriendo baja o los gastos suben?
+        </p>
+      </div>
+      <div className="card-body space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="text-sm text-gray-600">
+            Caso base: <strong>{baseOutcome.cap_rate_percentage.toFixed(2)}%</strong> CAP rate ·{' '}
+            <strong>{formatCurrency(baseOutcome.net_annual_income_clp)}</strong> ingreso neto anual
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setMetric('cap_rate')}
+              className={`btn ${metric === 'cap_rate' ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              CAP Rate
+            </button>
+            <button
+              type="button"
+              onClick={() => setMetric('net_income')}
+              className={`btn ${metric === 'net_income' ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              Ingreso Neto
+            </button>
+          </div>
+        </div>
+
+        {/* Tornado */}
+        <div className="space-y-3">
+          {tornado.map(bar => {
+            const unit = sensitivityUnit(bar.variable)
+            const lowValue = valueOf(bar.low)
+            const highValue = valueOf(bar.high)
+            return (
+              <div key={bar.variable} className="grid grid-cols-12 items-center gap-2 text-sm">
+                <div className="col-span-3 text-gray-700 font-medium">{SENSITIVITY_LABELS[bar.variable]}</div>
+                <div className="col-span-6 relative h-6 bg-gray-100 rounded">
+                  <div className="absolute inset-y-0 left-1/2 w-px bg-gray-400" />
+                  {[{ value: lowValue, change: bar.low_change }, { value: highValue, change: bar.high_change }].map((side, sideIndex) => (
+                    <div
+                      key={sideIndex}
+                      title={`${formatChange(side.change, unit)}: ${formatMetric(side.value)}`}
+                      className={`absolute inset-y-0 ${side.value >= baseValue ? 'bg-green-400' : 'bg-red-400'}`}
+                      style={side.value >= baseValue
+                        ? { left: '50%', width: barWidth(side.value) }
+                        : { right: '50%', width: barWidth(side.value) }}
+                    />
+                  ))}
+                </div>
+                <div className="col-span-3 text-xs text-gray-600">
+                  {formatMetric(Math.min(lowValue, highValue))} – {formatMetric(Math.max(lowValue, highValue))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Rangos configurables */}
+        <details className="bg-gray-50 rounded-xl p-4 border border-gray-200">
+          <summary className="cursor-pointer text-sm font-medium text-gray-700">⚙️ Ajustar rangos</summary>
+          <div className="grid md:grid-cols-2 gap-3 mt-4">
+            {ranges.map((range, index) => {
+              const unit = sensitivityUnit(range.variable)
+              return (
+                <div key={range.variable} className="flex items-center gap-2 text-sm">
+                  <span className="w-40 text-gray-700">{SENSITIVITY_LABELS[range.variable]} ({unit})</span>
+                  <input
+                    type="number"
+                    step={unit === 'meses' ? 0.5 : 1}
+                    value={range.low}
+                    onChange={(e) => updateRange(index, 'low', parseFloat(e.target.value) || 0)}
+                    className="input w-20"
+                  />
+                  <span className="text-gray-500">a</span>
+                  <input
+                    type="number"
+                    step={unit === 'meses' ? 0.5 : 1}
+                    value={range.high}
+                    onChange={(e) => updateRange(index, 'high', parseFloat(e.target.value) || 0)}
+                    className="input w-20"
+                  />
+                </div>
+              )
+            })}
+          </div>
+          <button
+            type="button"
+            onClick={() => setRanges(SENSITIVITY_DEFAULTS.RANGES)}
+            className="text-sm text-blue-600 hover:underline mt-3"
+          >
+            Restablecer rangos
+          </button>
+        </details>
+
+        {/* Grilla arriendo × vacancia */}
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-2">
+            {metric === 'cap_rate' ? 'CAP rate' : 'Ingreso neto anual'} según arriendo y meses vacantes al año
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-center">
+              <thead>
+                <tr className="text-gray-600">
+                  <th className="px-3 py-2 text-left">Vacancia \ Arriendo</th>
+                  {grid.rent_changes.map(change => (
+                    <th key={change} className="px-3 py-2">
+                      {formatChange(change, '%')}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.cells.map((row, rowIndex) => (
+                  <tr key={grid.vacancy_months[rowIndex]} className="border-t">
+                    <td className="px-3 py-2 text-left text-gray-600">
+                      {grid.vacancy_months[rowIndex]} {grid.vacancy_months[rowIndex] === 1 ? 'mes' : 'meses'}
+                    </td>
+                    {row.map((cell, columnIndex) => (
+                      <td key={columnIndex} className={`px-3 py-2 font-medium ${cellColor(cell)}`}>
+                        {formatMetric(valueOf(cell))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          El CAP rate no incluye la comisión; el ingreso neto descuenta la comisión del plan {analysis.plans[0]?.id || ''} sobre el arriendo cobrado.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { SimilarityCriterion, SimilarityWeights } from '@/types/rental'
+import { DEFAULT_OFFICE_ID, DEFAULT_SIMILARITY_WEIGHTS, SIMILARITY_CRITERIA_LABELS, weightsForOffice } from '@/lib/similarity'
+import { SimilarityWeightsStorage } from '@/lib/localStorage'
+import { fetchSimilarityWeights, saveSimilarityWeights } from '@/lib/officeApi'
+import { validateSimilarityWeights } from '@/lib/validation'
+import { toast } from '@/components/ui/Toast'
+
+export default function SimilarityWeightsEditor() {
+  const [offices, setOffices] = useState<string[]>([DEFAULT_OFFICE_ID])
+  const [officeId, setOfficeId] = useState(DEFAULT_OFFICE_ID)
+  const [weights, setWeights] = useState<SimilarityWeights>(DEFAULT_SIMILARITY_WEIGHTS)
+  const [newOffice, setNewOffice] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+
+  // Los pesos son de la oficina: se guardan en el servidor y los usan todos sus corredores
+  const loadOffice = async (id: string) => {
+    setOfficeId(id)
+    setErrors([])
+    try {
+      const saved = await fetchSimilarityWeights()
+      setWeights(weightsForOffice(saved, id))
+      setOffices(Array.from(new Set([DEFAULT_OFFICE_ID, ...Object.keys(saved), id])))
+    } catch (error) {
+      toast.error('Error', error instanceof Error ? error.message : 'No se pudieron cargar los pesos de similitud')
+    }
+  }
+
+  useEffect(() => {
+    loadOffice(SimilarityWeightsStorage.getActiveOffice())
+  }, [])
+
+  const selectOffice = (id: string) => {
+    SimilarityWeightsStorage.setActiveOffice(id)
+    loadOffice(id)
+  }
+
+  const addOffice = () => {
+    const id = newOffice.trim()
+    if (!id) return
+    setNewOffice('')
+    selectOffice(id)
+  }
+
+  const totalWeight = Object.values(weights).reduce((acc, weight) => acc + (weight || 0), 0)
+
+  const handleSave = async () => {
+    const validation = validateSimilarityWeights(weights)
+    if (!validation.isValid) {
+      setErrors(validation.errors)
+      toast.warning('Pesos inválidos', 'Revisa los errores antes de guardar')
+      return
+    }
+
+    try {
+      await saveSimilarityWeights(officeId, validation.data!)
+      await loadOffice(officeId)
+      toast.success('Pesos guardados', `Similitud de comparables para la oficina "${officeId}"`)
+    } catch (error) {
+      toast.error('Error al guardar', error instanceof Error ? error.message : 'No se pudieron guardar los pesos de similitud')
+    }
+  }
+
+  const handleReset = async () => {
+    if (!confirm(`¿Volver a los pesos por defecto para la oficina "${officeId}"?`)) return
+    try {
+      await saveSimilarityWeights(officeId, DEFAULT_SIMILARITY_WEIGHTS)
+      await loadOffice(officeId)
+      toast.success('Pesos restablecidos', 'Se usarán los pesos por defecto')
+    } catch (error) {
+      toast.error('Error', error instanceof Error ? error.message : 'No se pudieron restablecer los pesos')
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="text-xl font-bold text-white flex items-center">
+          <span className="text-2xl mr-2">🧭</span>
+          Similitud de Comparables
+        </h2>
+      </div>
+      <div className="card-body space-y-4">
+        <p className="text-sm text-gray-600">
+          Peso de cada criterio en el puntaje de similitud (0-100) de los comparables. Los criterios sin datos
+          en la propiedad o en el comparable no se consideran y el resto se reescala.
+        </p>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div>
+            <label className="label">Oficina</label>
+            <select value={officeId} onChange={(e) => selectOffice(e.target.value)} className="input">
+              {offices.map(office => (
+                <option key={office} value={office}>{office}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={newOffice}
+              onChange={(e) => setNewOffice(e.target.value)}
+              placeholder="Nueva oficina"
+              className="input"
+            />
+            <button type="button" onClick={addOffice} className="btn btn-secondary">
+              ➕ Agregar
+            </button>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">
+            <ul className="space-y-1">
+              {errors.map((error, index) => (
+                <li key={index}>• {error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {(Object.keys(SIMILARITY_CRITERIA_LABELS) as SimilarityCriterion[]).map(criterion => (
+            <div key={criterion}>
+              <label className="text-xs text-gray-600">{SIMILARITY_CRITERIA_LABELS[criterion]}</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={weights[criterion]}
+                onChange={(e) => setWeights(prev => ({ ...prev, [criterion]: parseFloat(e.target.value) || 0 }))}
+                className="input input-sm w-full"
+              />
+              <div className="text-xs text-gray-500">
+                {totalWeight > 0 ? ((weights[criterion] / totalWeight) * 100).toFixed(1) : '0.0'}% del total
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={handleReset} className="btn btn-secondary">
+            Restablecer pesos
+          </button>
+          <button type="button" onClick={handleSave} className="btn btn-primary">
+            💾 Guardar pesos
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
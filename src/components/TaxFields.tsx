@@ -0,0 +1,73 @@
+'use client'
+
+import { UseFormReturn } from 'react-hook-form'
+import { useState } from 'react'
+import type { RentalAnalysisForm } from '@/types/rental'
+import { resolveTaxRules, bracketLabel } from '@/lib/taxRules'
+
+interface TaxFieldsProps {
+  form: UseFormReturn<RentalAnalysisForm>
+  formValues: RentalAnalysisForm
+}
+
+export default function TaxFields({ form, formValues }: TaxFieldsProps) {
+  const { register } = form
+  const [expanded, setExpanded] = useState(!!formValues.tax_marginal_bracket)
+  const rules = resolveTaxRules()
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div>
+          <div className="text-sm font-medium text-gray-900">🧮 Impuesto a la Renta (opcional)</div>
+          <p className="text-xs text-gray-600">Estime cuánto le queda al propietario después de impuestos (año tributario {rules.tax_year})</p>
+        </div>
+        <span className="text-gray-500">{expanded ? '▲' : '▼'}</span>
+      </button>
+
+      {expanded && (
+        <div className="p-4 pt-0 space-y-4">
+          <div className="space-y-4 sm:space-y-0 sm:grid sm:grid-cols-2 sm:gap-4">
+            <div className="w-full">
+              <label className="label">📊 Tramo marginal del propietario</label>
+              <select {...register('tax_marginal_bracket')} className="input w-full">
+                <option value="">No estimar impuestos</option>
+                {rules.brackets.map((bracket, index) => (
+                  <option key={index} value={index}>{bracketLabel(bracket, rules)}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="w-full">
+              <label className="label">🏠 ¿Vivienda DFL-2?</label>
+              <select {...register('tax_is_dfl2')} className="input w-full">
+                <option value="false">No</option>
+                <option value="true">Sí (hasta {rules.dfl2_max_properties} viviendas, arriendo exento)</option>
+              </select>
+            </div>
+
+            {formValues.tax_is_dfl2 === 'true' && (
+              <div className="w-full">
+                <label className="label">🏘️ Viviendas DFL-2 del propietario (contando esta)</label>
+                <select {...register('tax_dfl2_properties_owned')} className="input w-full">
+                  {Array.from({ length: rules.dfl2_max_properties }, (_, index) => index + 1).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                  <option value={rules.dfl2_max_properties + 1}>Más de {rules.dfl2_max_properties} (el arriendo tributa)</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Estimación referencial: el ingreso neto antes de contribuciones tributa a la tasa marginal y las contribuciones se descuentan como crédito. No reemplaza la asesoría tributaria.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 /*
 Domain: Rental/Profitability
-Responsibility: Hook para manejar análisis de rentabilidad de arriendos con planes A, B y C
+Responsibility: Hook para manejar análisis de rentabilidad de arriendos con los planes del catálogo
 Dependencies: React hooks, react-hook-form, tipos de rental
 */
 
@@ -12,12 +12,21 @@ import type {
   RentalPlan, 
   RentalAnalysis, 
   RentalAnalysisForm, 
+  RentalAnalysisResult,
   RentalCalculations,
   CapRateAnalysis,
   VacancyImpact,
   MarketStudy,
-  PlanComparison
+  PlanComparison,
+  PlanCatalog,
+  MarketRentIndex
 } from '@/types/rental'
+import { buildRentalPlans, calculateRentalProfitability, formToAnalysisInput } from '@/lib/profitability'
+import { DEFAULT_PLAN_CATALOG } from '@/lib/planCatalog'
+import { EXPENSE_DEFAULTS } from '@/lib/ownerExpenses'
+import { fetchPlanCatalog } from '@/lib/officeApi'
+import { buildMarketRentIndex, marketBenchmarkFor } from '@/lib/marketRentIndex'
+import { fetchAllAnalyses } from '@/lib/analysisApi'
 
 // Valores por defecto del formulario
 export const DEFAULT_RENTAL_FORM_VALUES: RentalAnalysisForm = {
@@ -36,62 +45,20 @@ export const DEFAULT_RENTAL_FORM_VALUES: RentalAnalysisForm = {
   capture_price_uf: undefined,
   capture_price_currency: 'CLP',
   market_study_notes: '',
-  plan_a_commission: '12', // 12% anual para plan premium
-  plan_b_commission: '10', // 10% anual para plan estándar
-  plan_c_commission: '8',  // 8% anual para plan básico
   annual_maintenance_clp: '500000',
   annual_property_tax_clp: '300000', 
   annual_insurance_clp: '200000',
+  common_expenses_monthly_clp: '0',
+  common_expenses_paid_by: EXPENSE_DEFAULTS.COMMON_EXPENSES_PAID_BY,
+  administration_percentage: EXPENSE_DEFAULTS.ADMINISTRATION_PERCENTAGE.toString(),
+  repairs_reserve_percentage: EXPENSE_DEFAULTS.REPAIRS_RESERVE_PERCENTAGE.toString(),
+  lease_commission_percentage: '0',
+  other_one_off_costs_clp: '0',
   uf_value_clp: '37000', // Valor aproximado UF 2024
 }
 
-// Planes predefinidos A, B, C según especificaciones de Patricio
-// IMPORTANTE: Plan A debe tener el MEJOR ingreso neto anual porque se arrienda más rápido
-// aunque tenga mayor comisión (12%). La menor vacancia compensa la mayor comisión.
-export const DEFAULT_RENTAL_PLANS: RentalPlan[] = [
-  {
-    id: 'A',
-    name: 'Plan Premium',
-    description: 'Ajustes frecuentes cada 7-10 días para máxima velocidad de arriendo',
-    initial_rent_clp: 0, // Se calcula dinámicamente
-    commission_percentage: 12,
-    marketing_duration_days: 30,
-    service_level: 'premium',
-    price_adjustment_schedule: [
-      { day: 0, new_rent_clp: 0, percentage_reduction: 0 }, // Días 1-7: Precio inicial
-      { day: 7, new_rent_clp: 0, percentage_reduction: 4 }, // Días 8-15: -4%
-      { day: 15, new_rent_clp: 0, percentage_reduction: 8 }, // Días 16-22: -8%
-      { day: 22, new_rent_clp: 0, percentage_reduction: 12 }, // Días 23-30: -12%
-    ]
-  },
-  {
-    id: 'B', 
-    name: 'Plan Estándar',
-    description: 'Balance ideal con ajustes moderados cada 15 días',
-    initial_rent_clp: 0,
-    commission_percentage: 10,
-    marketing_duration_days: 30,
-    service_level: 'standard',
-    price_adjustment_schedule: [
-      { day: 0, new_rent_clp: 0, percentage_reduction: 0 }, // Días 1-10: Precio inicial
-      { day: 10, new_rent_clp: 0, percentage_reduction: 5 }, // Días 11-20: -5%
-      { day: 20, new_rent_clp: 0, percentage_reduction: 10 }, // Días 21-30: -10%
-    ]
-  },
-  {
-    id: 'C',
-    name: 'Plan Básico',
-    description: 'Precio estable con ajustes solo después de 20-30 días',
-    initial_rent_clp: 0,
-    commission_percentage: 8,
-    marketing_duration_days: 30,
-    service_level: 'basic',
-    price_adjustment_schedule: [
-      { day: 0, new_rent_clp: 0, percentage_reduction: 0 }, // Días 1-15: Precio inicial
-      { day: 15, new_rent_clp: 0, percentage_reduction: 3 }, // Días 16-30: -3%
-    ]
-  }
-]
+// Planes por defecto A, B, C (definidos en lib/planCatalog, sin precios asignados)
+export const DEFAULT_RENTAL_PLANS: RentalPlan[] = buildRentalPlans(0)
 
 interface UseRentalProfitabilityProps {
   property?: Property | null;
@@ -100,7 +67,7 @@ interface UseRentalProfitabilityProps {
 
 /**
  * Hook para manejar análisis de rentabilidad de arriendos
- * Incluye cálculos de CAP rate, análisis de vacancia, planes A/B/C
+ * Incluye cálculos de CAP rate, análisis de vacancia y los planes del catálogo
  */
 export const useRentalProfitability = ({
   property: initialProperty,
@@ -110,6 +77,18 @@ export const useRentalProfitability = ({
   // Estados
   const [property, setProperty] = useState<Property | null>(initialProperty || null)
   const [loading, setLoading] = useState(false)
+  const [planCatalog, setPlanCatalog] = useState<PlanCatalog>(DEFAULT_PLAN_CATALOG)
+  const [marketIndex, setMarketIndex] = useState<MarketRentIndex | null>(null)
+
+  // El catálogo de la oficina y los análisis guardados (API) se cargan después de montar para no romper la hidratación
+  useEffect(() => {
+    fetchPlanCatalog()
+      .then(({ current }) => setPlanCatalog(current))
+      .catch(error => console.warn('No se pudo cargar el catálogo de planes:', error))
+    fetchAllAnalyses()
+      .then(analyses => setMarketIndex(buildMarketRentIndex(analyses)))
+      .catch(error => console.warn('No se pudo cargar el índice de mercado:', error))
+  }, [])
 
   // Formulario con valores por defecto
   const form = useForm<RentalAnalysisForm>({
@@ -119,303 +98,27 @@ export const useRentalProfitability = ({
   const { watch, setValue } = form
   const formValues = watch()
 
-  // Función para analizar el mercado (simulada - en producción conectaría con API)
-  const analyzeMarket = useMemo((): MarketStudy => {
-    const sizeM2 = parseFloat(formValues.property_size_m2) || 50
-    const baseRentPerM2 = 400 // Base: $400 CLP por m2
-    
-    // Factores simulados del mercado
-    const locationScore = 8 // 1-10
-    const transportationScore = 7
-    const amenitiesScore = 6
-
-    const marketMultiplier = (locationScore + transportationScore + amenitiesScore) / 30
-    const adjustedRentPerM2 = baseRentPerM2 * (0.7 + marketMultiplier * 0.6) // Rango 70%-130%
-
-    return {
-      comparable_properties: [], // En producción se cargarían propiedades similares
-      average_rent_per_m2: adjustedRentPerM2,
-      market_range: {
-        min_rent_clp: sizeM2 * adjustedRentPerM2 * 0.85,
-        max_rent_clp: sizeM2 * adjustedRentPerM2 * 1.15,
-      },
-      neighborhood_factors: {
-        location_score: locationScore,
-        transportation_access: transportationScore,
-        amenities_score: amenitiesScore,
-      }
-    }
-  }, [formValues.property_size_m2])
-
-  // Función para calcular CAP rate para arriendos
-  const calculateCapRate = useMemo((): CapRateAnalysis => {
-    const ufValueCLP = parseFloat(formValues.uf_value_clp) || 37000
-    
-    // Validar que el valor UF esté en un rango razonable (25,000 - 50,000 CLP)
-    const validUfValue = ufValueCLP >= 25000 && ufValueCLP <= 50000 ? ufValueCLP : 37000
-    
-    // Calcular valor de la propiedad en CLP considerando si está en UF o CLP
-    let propertyValueCLP = 0
-    if (formValues.property_value_clp && parseFloat(formValues.property_value_clp) > 0) {
-      propertyValueCLP = Math.abs(parseFloat(formValues.property_value_clp)) // Asegurar valor positivo
-    } else if (formValues.property_value_uf && parseFloat(formValues.property_value_uf) > 0) {
-      propertyValueCLP = Math.abs(parseFloat(formValues.property_value_uf)) * validUfValue
-    }
-    
-    // Calcular precio en CLP considerando la moneda seleccionada
-    let suggestedRentCLP = 0
-    if (formValues.rent_currency === 'UF') {
-      const rentUF = Math.abs(parseFloat(formValues.suggested_rent_uf) || 0) // Asegurar valor positivo
-      suggestedRentCLP = rentUF * validUfValue
-    } else {
-      suggestedRentCLP = Math.abs(parseFloat(formValues.suggested_rent_clp) || 0) // Asegurar valor positivo
-    }
-    
-    const annualRentalIncome = suggestedRentCLP * 12
-    
-    // Validar gastos anuales para evitar valores negativos o excesivos
-    const maintenance = Math.abs(parseFloat(formValues.annual_maintenance_clp) || 0)
-    const propertyTax = Math.abs(parseFloat(formValues.annual_property_tax_clp) || 0) 
-    const insurance = Math.abs(parseFloat(formValues.annual_insurance_clp) || 0)
-    const annualExpenses = maintenance + propertyTax + insurance
-    
-    // Validar que los gastos no sean excesivos (máximo 50% del ingreso anual)
-    const maxReasonableExpenses = annualRentalIncome * 0.5
-    const validatedExpenses = annualExpenses > maxReasonableExpenses ? maxReasonableExpenses : annualExpenses
-    
-    const netOperatingIncome = Math.max(0, annualRentalIncome - validatedExpenses) // No permitir ingresos netos negativos
-    const capRate = propertyValueCLP > 0 ? Math.max(0, (netOperatingIncome / propertyValueCLP) * 100) : 0
-    
-    // Determinar comparación con el mercado (simplificado)
-    let comparison: 'above' | 'average' | 'below' = 'average'
-    if (capRate > 6) comparison = 'above'
-    else if (capRate < 4) comparison = 'below'
-
-    return {
-      property_value_clp: propertyValueCLP,
-      annual_rental_income: annualRentalIncome,
-      annual_expenses: validatedExpenses,
-      net_operating_income: netOperatingIncome,
-      cap_rate_percentage: Math.round(capRate * 100) / 100, // Redondear a 2 decimales
-      comparison_to_market: comparison
-    }
-  }, [formValues])
-
-  // Función para calcular impacto de vacancia
-  const calculateVacancyImpact = useMemo((): VacancyImpact => {
-    const ufValueCLP = parseFloat(formValues.uf_value_clp) || 37000
-    const validUfValue = ufValueCLP >= 25000 && ufValueCLP <= 50000 ? ufValueCLP : 37000
-    
-    // Calcular precio en CLP considerando la moneda seleccionada
-    let monthlyRentCLP = 0
-    if (formValues.rent_currency === 'UF') {
-      const rentUF = Math.abs(parseFloat(formValues.suggested_rent_uf) || 0)
-      monthlyRentCLP = rentUF * validUfValue
-    } else {
-      monthlyRentCLP = Math.abs(parseFloat(formValues.suggested_rent_clp) || 0)
-    }
-    
-    // Validar que tengamos valores válidos para evitar NaN y valores irónicos
-    if (!monthlyRentCLP || monthlyRentCLP <= 0 || isNaN(monthlyRentCLP) || monthlyRentCLP < 50000) {
-      return {
-        days_vacant: 30,
-        percentage_annual_loss: 8.33,
-        lost_income_clp: 0,
-        break_even_reduction_percentage: 0
-      }
-    }
-    
-    // Validar que el arriendo no sea excesivamente alto (máximo 10M mensual)
-    const validatedMonthlyRent = monthlyRentCLP > 10000000 ? 10000000 : monthlyRentCLP
-    
-    // Cada mes vacante representa 8.33% de pérdida anual (1/12 = 8.33%)
-    const vacancyImpactPerMonth = 8.33
-    
-    // Cálculo lógico: cuánto se puede reducir el precio para compensar 1 mes de vacancia
-    // Si arrienda 1 mes antes con reducción X%, debe compensar 1 mes perdido
-    // Fórmula: 11 meses con (100%-X%) = 12 meses con 100%
-    // 11 * (1 - X/100) = 12 * 1  ->  X = (1/11) * 100 = 9.09%
-    const maxReductionToBreakEven = Math.round((1/11) * 100 * 100) / 100 // 9.09% exacto
-
-    return {
-      days_vacant: 30, // 1 mes de vacancia típica
-      percentage_annual_loss: Math.round(vacancyImpactPerMonth * 100) / 100,
-      lost_income_clp: Math.round(validatedMonthlyRent),
-      break_even_reduction_percentage: maxReductionToBreakEven
-    }
-  }, [formValues.suggested_rent_clp, formValues.suggested_rent_uf, formValues.rent_currency, formValues.uf_value_clp])
-
-  // Función para generar planes con precios ajustados
-  const generateRentalPlans = useMemo((): RentalPlan[] => {
-    // Calcular precio base en CLP considerando la moneda seleccionada
-    let baseRentCLP = 0
-    if (formValues.rent_currency === 'UF') {
-      const rentUF = parseFloat(formValues.suggested_rent_uf) || 0
-      const ufValueCLP = parseFloat(formValues.uf_value_clp) || 38000
-      baseRentCLP = rentUF * ufValueCLP
-    } else {
-      baseRentCLP = parseFloat(formValues.suggested_rent_clp) || 0
-    }
-    
-    return DEFAULT_RENTAL_PLANS.map(plan => ({
-      ...plan,
-      initial_rent_clp: baseRentCLP,
-      commission_percentage: parseFloat(formValues[`plan_${plan.id.toLowerCase()}_commission` as keyof RentalAnalysisForm] as string) || plan.commission_percentage,
-      price_adjustment_schedule: plan.price_adjustment_schedule.map(adjustment => ({
-        ...adjustment,
-        new_rent_clp: baseRentCLP * (1 - adjustment.percentage_reduction / 100)
-      }))
-    }))
-  }, [formValues.suggested_rent_clp, formValues.suggested_rent_uf, formValues.rent_currency, formValues.uf_value_clp, formValues.plan_a_commission, formValues.plan_b_commission, formValues.plan_c_commission])
-
-  // Función para comparar planes
-  const comparePlans = useMemo((): PlanComparison[] => {
-    // Calcular precio base en CLP considerando la moneda seleccionada
-    let baseRentCLP = 0
-    if (formValues.rent_currency === 'UF') {
-      const rentUF = Math.abs(parseFloat(formValues.suggested_rent_uf) || 0)
-      const ufValueCLP = parseFloat(formValues.uf_value_clp) || 38000
-      const validUfValue = ufValueCLP >= 25000 && ufValueCLP <= 50000 ? ufValueCLP : 38000
-      baseRentCLP = rentUF * validUfValue
-    } else {
-      baseRentCLP = Math.abs(parseFloat(formValues.suggested_rent_clp) || 0)
-    }
-    
-    // Validar que el precio base sea razonable
-    if (baseRentCLP < 50000 || baseRentCLP > 10000000) {
-      // Si el precio no es razonable, retornar comparaciones vacías
-      return generateRentalPlans.map(plan => ({
-        plan_id: plan.id,
-        expected_rental_time: 30,
-        total_commission: 0,
-        net_annual_income: 0,
-        vacancy_risk_score: 5,
-        recommendation_score: 5
-      }))
+  // Todos los cálculos se delegan a lib/profitability (misma fuente que el motor, las APIs y los PDFs)
+  const profitability = useMemo((): RentalAnalysisResult => {
+    const input = formToAnalysisInput(formValues, planCatalog)
+    if (property) {
+      input.property = { ...input.property, ...property }
     }
-    
-    return generateRentalPlans.map(plan => {
-      // Tiempo esperado de arriendo según plan (más agresivo = menos días)
-      let expectedRentalTime: number
-      let monthsVacant: number // Meses de vacancia estimados
-      
-      if (plan.id === 'A') {
-        expectedRentalTime = 7 // Plan A se arrienda más rápido (día 7)
-        monthsVacant = 0.25 // Solo 0.25 meses de vacancia
-      } else if (plan.id === 'B') {
-        expectedRentalTime = 12 // Plan B tiempo medio (día 12)
-        monthsVacant = 0.4 // 0.4 meses de vacancia
-      } else {
-        expectedRentalTime = 20 // Plan C más lento (día 20)
-        monthsVacant = 0.67 // 0.67 meses de vacancia
-      }
-      
-      // Calcular precio promedio considerando ajustes
-      let avgRentCLP = baseRentCLP
-      if (plan.price_adjustment_schedule.length > 1) {
-        const lastAdjustment = plan.price_adjustment_schedule[plan.price_adjustment_schedule.length - 1]
-        avgRentCLP = baseRentCLP * (1 - lastAdjustment.percentage_reduction / 200) // Promedio entre inicial y final
-      }
-      
-      // Meses efectivos de arriendo (12 - meses vacantes)
-      const effectiveMonths = 12 - monthsVacant
-      
-      // Ingreso bruto anual considerando vacancia
-      const annualRentWithVacancy = avgRentCLP * effectiveMonths
-      
-      // Comisión sobre el ingreso efectivo
-      const totalCommission = annualRentWithVacancy * (plan.commission_percentage / 100)
-      
-      // Ingreso neto anual (después de comisión y considerando vacancia)
-      const netAnnualIncome = Math.max(0, annualRentWithVacancy - totalCommission)
-      
-      // Score de riesgo de vacancia (Plan A menor riesgo, Plan C mayor riesgo)
-      const vacancyRiskScore = plan.id === 'A' ? 2 : plan.id === 'B' ? 5 : 8
-      
-      // Score de recomendación basado en ingreso neto
-      const recommendationScore = plan.id === 'A' ? 9 : plan.id === 'B' ? 7 : 5
+    input.market_benchmark = marketBenchmarkFor(marketIndex, input.property.address, input.property.bedrooms)
+    return calculateRentalProfitability(input)
+  }, [formValues, property, planCatalog, marketIndex])
 
-      return {
-        plan_id: plan.id,
-        expected_rental_time: expectedRentalTime,
-        total_commission: Math.round(totalCommission),
-        net_annual_income: Math.round(netAnnualIncome),
-        vacancy_risk_score: vacancyRiskScore,
-        recommendation_score: recommendationScore
-      }
-    })
-  }, [generateRentalPlans, formValues.suggested_rent_clp, formValues.suggested_rent_uf, formValues.rent_currency, formValues.uf_value_clp])
+  // Estudio de mercado: comparables del formulario o, si faltan, el índice de la comuna
+  const analyzeMarket: MarketStudy = profitability.analysis.market_study
 
-  // Cálculos consolidados
-  const calculations = useMemo((): RentalCalculations => {
-    const capRateAnalysis = calculateCapRate
-    const vacancyImpact = calculateVacancyImpact
-    
-    // Validar y sanitizar valores para evitar NaN y valores confusos para "Doña Juanita"
-    const capRate = !isNaN(capRateAnalysis.cap_rate_percentage) && capRateAnalysis.cap_rate_percentage >= 0 
-      ? Math.min(capRateAnalysis.cap_rate_percentage, 50) // Máximo 50% para evitar valores irreales
-      : 0
-    
-    const annualYield = capRateAnalysis.property_value_clp > 0 && !isNaN(capRateAnalysis.annual_rental_income) 
-      ? Math.min((capRateAnalysis.annual_rental_income / capRateAnalysis.property_value_clp) * 100, 50)
-      : 0
-    
-    const monthlyNet = !isNaN(capRateAnalysis.net_operating_income) && capRateAnalysis.net_operating_income >= 0
-      ? Math.round(capRateAnalysis.net_operating_income / 12)
-      : 0
-    
-    const vacancyCost = !isNaN(vacancyImpact.lost_income_clp) && vacancyImpact.lost_income_clp >= 0
-      ? Math.round(vacancyImpact.lost_income_clp)
-      : 0
-    
-    const breakEvenReduction = !isNaN(vacancyImpact.break_even_reduction_percentage) && vacancyImpact.break_even_reduction_percentage >= 0
-      ? Math.min(vacancyImpact.break_even_reduction_percentage, 25) // Máximo 25% para ser conservador
-      : 0
-    
-    return {
-      cap_rate: capRate,
-      annual_rental_yield: annualYield,
-      monthly_net_income: monthlyNet,
-      vacancy_cost_per_month: vacancyCost,
-      break_even_rent_reduction: breakEvenReduction,
-      plan_comparisons: comparePlans
-    }
-  }, [calculateCapRate, calculateVacancyImpact, comparePlans])
+  const calculateCapRate: CapRateAnalysis = profitability.analysis.cap_rate_analysis
+  const calculateVacancyImpact: VacancyImpact = profitability.analysis.vacancy_impact
+  const generateRentalPlans: RentalPlan[] = profitability.analysis.plans
+  const comparePlans: PlanComparison[] = profitability.calculations.plan_comparisons
+  const calculations: RentalCalculations = profitability.calculations
 
   // Función para generar análisis completo
-  const generateAnalysis = (): RentalAnalysis => {
-    // Calcular precio de mercado en CLP considerando la moneda seleccionada
-    let marketRentCLP = 0
-    if (formValues.rent_currency === 'UF') {
-      const rentUF = parseFloat(formValues.suggested_rent_uf) || 0
-      const ufValueCLP = parseFloat(formValues.uf_value_clp) || 38000
-      marketRentCLP = rentUF * ufValueCLP
-    } else {
-      marketRentCLP = parseFloat(formValues.suggested_rent_clp) || 0
-    }
-
-    const currentProperty: Property = property || {
-      id: 'temp-property',
-      address: formValues.property_address,
-      value_clp: parseFloat(formValues.property_value_clp) || 0,
-      value_uf: formValues.property_value_uf ? parseFloat(formValues.property_value_uf) : 0,
-      market_rent_clp: marketRentCLP,
-      size_m2: parseFloat(formValues.property_size_m2) || undefined,
-      bedrooms: parseInt(formValues.bedrooms) || undefined,
-      bathrooms: parseInt(formValues.bathrooms) || undefined,
-      parking_spaces: parseInt(formValues.parking_spaces) || undefined,
-      storage_units: parseInt(formValues.storage_units) || undefined
-    }
-
-    return {
-      property: currentProperty,
-      plans: generateRentalPlans,
-      market_study: analyzeMarket,
-      cap_rate_analysis: calculateCapRate,
-      vacancy_impact: calculateVacancyImpact,
-      recommended_initial_rent: marketRentCLP
-    }
-  }
+  const generateAnalysis = (): RentalAnalysis => profitability.analysis
 
   // Función para cargar datos de una propiedad
   const loadProperty = (propertyData: Property) => {
@@ -449,6 +152,7 @@ export const useRentalProfitability = ({
     // Estados
     property,
     loading,
+    planCatalog,
     
     // Cálculos
     calculations,
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import type { TaxInput } from '@/types/rental'
+import { calculateAfterTaxReturns } from '@/lib/afterTax'
+
+const afterTax = (tax: Partial<TaxInput>, netOperatingIncome = 5000000, propertyTaxClp = 300000) =>
+  calculateAfterTaxReturns({
+    tax: { marginal_bracket_index: 2, is_dfl2: false, tax_year: 2025, ...tax },
+    netOperatingIncome,
+    propertyTaxClp,
+    propertyValueClp: 150000000
+  })
+
+describe('calculateAfterTaxReturns', () => {
+  it('aplica la tasa del tramo elegido y usa el último si el índice se pasa de la tabla', () => {
+    expect(afterTax({ marginal_bracket_index: 2 }).marginal_rate_percentage).toBe(8)
+    expect(afterTax({ marginal_bracket_index: 99 }).marginal_rate_percentage).toBe(40)
+  })
+
+  it('no descuenta las contribuciones dos veces: vuelven a la base y se descuentan como crédito', () => {
+    const result = afterTax({ marginal_bracket_index: 2 })
+
+    expect(result).toMatchObject({
+      taxable_income_clp: 5300000,
+      gross_tax_clp: 424000,
+      contribuciones_credit_clp: 300000,
+      annual_tax_clp: 124000,
+      after_tax_income_clp: 4876000,
+      after_tax_yield_percentage: 3.25
+    })
+  })
+
+  it('el crédito no pasa del impuesto bruto', () => {
+    const result = afterTax({ marginal_bracket_index: 0 })
+
+    expect(result).toMatchObject({ gross_tax_clp: 0, contribuciones_credit_clp: 0, annual_tax_clp: 0, after_tax_income_clp: 5000000 })
+  })
+
+  it('exime el arriendo DFL-2 solo dentro del límite de viviendas', () => {
+    expect(afterTax({ is_dfl2: true })).toMatchObject({ dfl2_exempt: true, annual_tax_clp: 0, after_tax_income_clp: 5000000 })
+    expect(afterTax({ is_dfl2: true, dfl2_properties_owned: 2 })).toMatchObject({ dfl2_exempt: true, taxable_income_clp: 0 })
+
+    const overLimit = afterTax({ is_dfl2: true, dfl2_properties_owned: 3 })
+    expect(overLimit).toMatchObject({ dfl2_exempt: false, annual_tax_clp: 124000 })
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { SAVED_ANALYSIS_SCHEMA_VERSION } from '@/types/saved-analysis'
+import { migrateSavedAnalyses, migrateSavedAnalysis } from '@/lib/analysisMigrations'
+import { buildSavedAnalysis } from './fixtures/savedAnalysis'
+
+const now = new Date('2026-10-15T12:00:00.000Z')
+
+// Registro anterior al versionado: sin schemaVersion, comparables en campos planos y valores de texto
+function versionZeroRecord(): Record<string, any> {
+  const { schemaVersion: _version, ...current } = buildSavedAnalysis('v0')
+  const { comparable_properties: _comparables, ...analysis } = current.analysis
+  return {
+    ...current,
+    analysis: {
+      ...analysis,
+      comparable_1_address: 'Los Leones 100, Providencia',
+      comparable_1_m2: '50',
+      comparable_1_bedrooms: '2',
+      comparable_1_price: '520000',
+      comparable_2_address: 'Suecia 400, Providencia',
+      comparable_2_m2: '62.5',
+      comparable_2_price: '610000',
+      comparable_3_address: ''
+    }
+  }
+}
+
+// Versión 1: gastos solo con mantención, contribuciones y seguro
+function versionOneRecord(): Record<string, any> {
+  const current = buildSavedAnalysis('v1')
+  return {
+    ...current,
+    schemaVersion: 1,
+    analysis: {
+      ...current.analysis,
+      annual_expenses: { maintenance_clp: 500000, property_tax_clp: 300000, insurance_clp: 200000 }
+    }
+  }
+}
+
+describe('migrateSavedAnalysis', () => {
+  it('lleva un registro sin versión a la lista de comparables con números', () => {
+    const result = migrateSavedAnalysis(versionZeroRecord())
+
+    expect(result).toMatchObject({ fromVersion: 0, changed: true, errors: [] })
+    expect(result.analysis?.schemaVersion).toBe(SAVED_ANALYSIS_SCHEMA_VERSION)
+    expect(result.analysis?.analysis.comparable_properties).toEqual([
+      expect.objectContaining({ address: 'Los Leones 100, Providencia', size_m2: 50, bedrooms: 2, rent_clp: 520000 }),
+      expect.objectContaining({ address: 'Suecia 400, Providencia', size_m2: 62.5, rent_clp: 610000 })
+    ])
+    expect(Object.keys(result.analysis!.analysis).some(key => key.startsWith('comparable_1_'))).toBe(false)
+  })
+
+  it('completa en cero los gastos que la versión 1 no tenía y deja los gastos comunes al arrendatario', () => {
+    const result = migrateSavedAnalysis(versionOneRecord())
+
+    expect(result).toMatchObject({ fromVersion: 1, changed: true, errors: [] })
+    expect(result.analysis?.analysis.annual_expenses).toEqual({
+      maintenance_clp: 500000,
+      property_tax_clp: 300000,
+      insurance_clp: 200000,
+      common_expenses_monthly_clp: 0,
+      common_expenses_paid_by: 'tenant',
+      administration_percentage: 0,
+      repairs_reserve_percentage: 0,
+      lease_commission_percentage: 0,
+      other_one_off_costs_clp: 0
+    })
+  })
+
+  it('no marca como cambiado un registro ya en la versión actual', () => {
+    const result = migrateSavedAnalysis(buildSavedAnalysis('actual'))
+
+    expect(result).toMatchObject({ fromVersion: SAVED_ANALYSIS_SCHEMA_VERSION, changed: false, errors: [] })
+  })
+})
+
+describe('migrateSavedAnalyses', () => {
+  it('aparta en cuarentena los registros que no se pueden migrar, con sus motivos', () => {
+    const future = { ...buildSavedAnalysis('futuro'), schemaVersion: SAVED_ANALYSIS_SCHEMA_VERSION + 1 }
+    const badStatus = buildSavedAnalysis('estado', {
+      metadata: { ...buildSavedAnalysis('estado').metadata, status: 'archivado' as any }
+    })
+
+    const result = migrateSavedAnalyses(['no es un análisis', future, badStatus, buildSavedAnalysis('ok')], now)
+
+    expect(result.changed).toBe(true)
+    expect(result.analyses.map(analysis => analysis.id)).toEqual(['ok'])
+    expect(result.quarantined.map(entry => entry.id)).toEqual([undefined, 'futuro', 'estado'])
+    expect(result.quarantined[0].reasons).toEqual(['El registro no es un análisis'])
+    expect(result.quarantined[1]).toMatchObject({ schemaVersion: SAVED_ANALYSIS_SCHEMA_VERSION + 1 })
+    expect(result.quarantined[1].reasons[0]).toMatch(/versión más nueva/)
+    expect(result.quarantined[2].reasons.length).toBeGreaterThan(0)
+    expect(result.quarantined.every(entry => entry.quarantined_at === now.toISOString())).toBe(true)
+  })
+
+  it('no pide volver a guardar una lista que ya está al día', () => {
+    const result = migrateSavedAnalyses([buildSavedAnalysis('a'), buildSavedAnalysis('b')], now)
+
+    expect(result).toMatchObject({ changed: false, quarantined: [] })
+    expect(result.analyses).toHaveLength(2)
+  })
+})
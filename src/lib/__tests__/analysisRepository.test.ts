@@ -0,0 +1,215 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { SavedAnalysis } from '@/types/saved-analysis'
+import analysisCache from '@/lib/cache/analysisCache'
+import {
+  createFileAnalysisRepository,
+  createMemoryAnalysisHistoryRepository,
+  createMemoryAnalysisRepository,
+  setAnalysisRepository,
+  type AnalysisRepository
+} from '@/lib/analysisRepository'
+import {
+  createAnalysisIfAbsent,
+  deleteAnalysis,
+  getAnalysisById,
+  getAnalysisHistory,
+  modifyAnalysis,
+  restoreAnalysisRevision,
+  saveAnalysis,
+  updateAnalysisStatus
+} from '@/lib/analysisStore'
+import { buildSavedAnalysis } from './fixtures/savedAnalysis'
+
+const analysis = (id: string, title: string): SavedAnalysis => buildSavedAnalysis(id, { title })
+
+const addTag = (tag: string) => (current: SavedAnalysis | undefined) =>
+  current && { ...current, metadata: { ...current.metadata, tags: [...(current.metadata.tags || []), tag] } }
+
+// Mismas garantías para las dos implementaciones
+function repositoryContract(name: string, create: () => Promise<AnalysisRepository>) {
+  describe(name, () => {
+    it('aplica las modificaciones simultáneas sobre la versión guardada, sin perder ninguna', async () => {
+      const repository = await create()
+      await repository.update('1', () => analysis('1', 'Depto Providencia'))
+
+      await Promise.all(['a', 'b', 'c'].map(tag => repository.update('1', addTag(tag))))
+
+      expect((await repository.get('1'))?.metadata.tags).toEqual(['a', 'b', 'c'])
+    })
+
+    it('entrega a afterWrite la versión anterior de cada escritura, en orden', async () => {
+      const repository = await create()
+      const seen: Array<[string | undefined, string]> = []
+      const record = async (previous: SavedAnalysis | undefined, saved: SavedAnalysis) => {
+        seen.push([previous?.title, saved.title])
+      }
+
+      await Promise.all(['v1', 'v2', 'v3'].map(title => repository.update('1', () => analysis('1', title), record)))
+
+      expect(seen).toEqual([[undefined, 'v1'], ['v1', 'v2'], ['v2', 'v3']])
+    })
+
+    it('no escribe si el cambio devuelve undefined', async () => {
+      const repository = await create()
+      await repository.update('1', () => analysis('1', 'Original'))
+
+      const result = await repository.update('1', current => (current ? undefined : analysis('1', 'Otro')))
+
+      expect(result.saved).toBeUndefined()
+      expect((await repository.get('1'))?.title).toBe('Original')
+    })
+
+    it('elimina y avisa solo si el análisis existía', async () => {
+      const repository = await create()
+      await repository.update('1', () => analysis('1', 'Depto'))
+      const deleted: string[] = []
+
+      expect(await repository.delete('1', async item => { deleted.push(item.id) })).toBe(true)
+      expect(await repository.delete('1', async item => { deleted.push(item.id) })).toBe(false)
+      expect(deleted).toEqual(['1'])
+      expect(await repository.list()).toEqual([])
+    })
+  })
+}
+
+repositoryContract('createMemoryAnalysisRepository', async () => createMemoryAnalysisRepository())
+
+describe('createFileAnalysisRepository', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'analyses-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  repositoryContract('contrato', async () => createFileAnalysisRepository(path.join(directory, `${Math.random()}.json`)))
+
+  it('otra instancia lee lo que quedó en el archivo', async () => {
+    const filePath = path.join(directory, 'analyses.json')
+    await createFileAnalysisRepository(filePath).update('1', () => analysis('1', 'Guardado'))
+
+    expect((await createFileAnalysisRepository(filePath).get('1'))?.title).toBe('Guardado')
+  })
+
+  it('no trata un archivo ilegible como vacío', async () => {
+    const filePath = path.join(directory, 'analyses.json')
+    await fs.writeFile(filePath, '{"analyses": [', 'utf8')
+
+    await expect(createFileAnalysisRepository(filePath).update('1', () => analysis('1', 'Nuevo'))).rejects.toThrow()
+    expect(await fs.readFile(filePath, 'utf8')).toBe('{"analyses": [')
+  })
+})
+
+describe('analysisStore', () => {
+  beforeEach(() => {
+    analysisCache.clear()
+    setAnalysisRepository(createMemoryAnalysisRepository(), createMemoryAnalysisHistoryRepository())
+  })
+
+  afterEach(() => {
+    setAnalysisRepository(null)
+  })
+
+  it('registra cada guardado simultáneo contra la versión que realmente reemplazó', async () => {
+    await Promise.all([
+      saveAnalysis(analysis('1', 'v1'), 'a@corredora.cl'),
+      saveAnalysis(analysis('1', 'v2'), 'b@corredora.cl'),
+      saveAnalysis(analysis('1', 'v3'), 'c@corredora.cl')
+    ])
+
+    const history = await getAnalysisHistory('1')
+    expect(history.map(revision => [revision.revision, revision.action, revision.snapshot?.title])).toEqual([
+      [1, 'created', 'v1'],
+      [2, 'updated', 'v2'],
+      [3, 'updated', 'v3']
+    ])
+    expect(history[2].changes).toEqual([expect.objectContaining({ before: 'v2', after: 'v3' })])
+  })
+
+  it('crea en la importación solo si el id no existe', async () => {
+    const results = await Promise.all([
+      createAnalysisIfAbsent(analysis('1', 'Primera copia'), 'a@corredora.cl'),
+      createAnalysisIfAbsent(analysis('1', 'Segunda copia'), 'b@corredora.cl')
+    ])
+
+    expect(results).toEqual([true, false])
+    expect((await getAnalysisHistory('1')).map(revision => revision.snapshot?.title)).toEqual(['Primera copia'])
+  })
+
+  it('modifyAnalysis devuelve null si el análisis no existe', async () => {
+    expect(await modifyAnalysis('no-existe', current => current, 'a@corredora.cl')).toBeNull()
+  })
+
+  it('revisa cada cambio de estado simultáneo contra el estado que dejó el anterior', async () => {
+    const draft = analysis('1', 'Depto Providencia')
+    await saveAnalysis({ ...draft, metadata: { ...draft.metadata, client_email: 'cliente@correo.cl' } }, 'a@corredora.cl')
+
+    const [first, second] = await Promise.all([
+      updateAnalysisStatus('1', 'sent_to_client', 'a@corredora.cl'),
+      updateAnalysisStatus('1', 'sent_to_client', 'b@corredora.cl')
+    ])
+
+    expect(first.allowed).toBe(true)
+    expect(second).toMatchObject({ allowed: false, code: 'invalid_transition' })
+    expect((await getAnalysisById('1'))?.metadata.status).toBe('sent_to_client')
+    expect((await getAnalysisHistory('1')).map(revision => revision.author)).toEqual(['a@corredora.cl', 'a@corredora.cl'])
+  })
+
+  it('no cambia el estado de un análisis que no existe', async () => {
+    expect(await updateAnalysisStatus('no-existe', 'archived', 'a@corredora.cl')).toEqual({
+      allowed: false,
+      reason: 'Análisis no encontrado'
+    })
+  })
+
+  it('al restaurar conserva el ciclo de vida actual de la propuesta', async () => {
+    const draft = analysis('1', 'Versión antigua')
+    await saveAnalysis({
+      ...draft,
+      metadata: { ...draft.metadata, client_email: 'cliente@correo.cl', expires_at: '2026-10-05T12:00:00.000Z', reminders_sent: [] }
+    }, 'a@corredora.cl')
+    await updateAnalysisStatus('1', 'sent_to_client', 'a@corredora.cl', new Date('2026-10-10T12:00:00.000Z'))
+    await modifyAnalysis('1', current => ({
+      ...current,
+      title: 'Versión nueva',
+      metadata: { ...current.metadata, reminders_sent: [7] }
+    }), 'programador')
+    const sent = (await getAnalysisById('1'))!
+
+    const restored = await restoreAnalysisRevision('1', 1, 'a@corredora.cl')
+
+    expect(restored?.title).toBe('Versión antigua')
+    expect(restored?.metadata).toMatchObject({
+      status: 'sent_to_client',
+      status_timestamps: sent.metadata.status_timestamps,
+      expires_at: sent.metadata.expires_at,
+      reminders_sent: [7]
+    })
+  })
+
+  it('un análisis eliminado se restaura como borrador, sin fechas de estado', async () => {
+    await saveAnalysis(analysis('1', 'Depto Providencia'), 'a@corredora.cl')
+    await modifyAnalysis('1', current => ({
+      ...current,
+      metadata: {
+        ...current.metadata,
+        status: 'published',
+        status_timestamps: { published: '2026-10-02T12:00:00.000Z' },
+        expires_at: '2026-11-01T12:00:00.000Z'
+      }
+    }), 'a@corredora.cl')
+    await deleteAnalysis('1', 'a@corredora.cl')
+
+    const restored = await restoreAnalysisRevision('1', 2, 'a@corredora.cl')
+
+    expect(restored?.metadata.status).toBe('draft')
+    expect(restored?.metadata.status_timestamps).toBeUndefined()
+    expect(restored?.metadata.expires_at).toBeUndefined()
+  })
+})
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createComparableEntry } from '@/lib/comparables'
+import { createMemoryDocumentStore } from '@/lib/documentStore'
+import { validateLibraryComparables } from '@/lib/validation'
+import {
+  addLibraryComparables,
+  deleteLibraryComparable,
+  getLibraryComparables,
+  setComparableLibraryStore,
+  type ComparableLibraryDocument
+} from '@/lib/comparableLibraryStore'
+
+const entry = (address: string, price: string, capturedAt: string) => ({
+  ...createComparableEntry(),
+  address,
+  m2: '55',
+  price,
+  captured_at: capturedAt
+})
+
+const validated = (items: unknown[]) => {
+  const validation = validateLibraryComparables(items)
+  expect(validation.errors).toEqual([])
+  return validation.data!
+}
+
+describe('biblioteca de comparables de la oficina', () => {
+  beforeEach(() => {
+    setComparableLibraryStore(createMemoryDocumentStore<ComparableLibraryDocument>({ items: [] }))
+  })
+
+  it('no pierde comparables agregados por dos corredores a la vez', async () => {
+    const norte = validated([{ entry: entry('Los Leones 100, Providencia', '500000', '2026-09-01T00:00:00.000Z'), captured_by: 'norte' }])
+    const sur = validated([{ entry: entry('Gran Avenida 5000, San Miguel', '380000', '2026-09-02T00:00:00.000Z'), captured_by: 'sur' }])
+
+    const results = await Promise.all([addLibraryComparables(norte), addLibraryComparables(sur)])
+
+    expect(results).toEqual([{ added: 1, updated: 0 }, { added: 1, updated: 0 }])
+    expect((await getLibraryComparables()).map(item => item.captured_by)).toEqual(['sur', 'norte'])
+  })
+
+  it('deja la captura más reciente de una misma publicación y elimina por id', async () => {
+    await addLibraryComparables(validated([{ entry: entry('Los Leones 100, Providencia', '500000', '2026-09-01T00:00:00.000Z') }]))
+    const [original] = await getLibraryComparables()
+
+    expect(await addLibraryComparables(validated([
+      { entry: entry('Los Leones 100, Providencia', '500000', '2026-10-01T00:00:00.000Z') }
+    ]))).toEqual({ added: 0, updated: 1 })
+
+    const [updated] = await getLibraryComparables()
+    expect(updated.id).toBe(original.id)
+    expect(updated.captured_at).toBe('2026-10-01T00:00:00.000Z')
+
+    expect(await deleteLibraryComparable(original.id)).toBe(true)
+    expect(await deleteLibraryComparable(original.id)).toBe(false)
+    expect(await getLibraryComparables()).toEqual([])
+  })
+
+  it('rechaza comparables sin dirección, m² o arriendo', () => {
+    const validation = validateLibraryComparables([{ entry: { ...createComparableEntry(), address: 'Sin precio 123', m2: '40' } }])
+    expect(validation.isValid).toBe(false)
+  })
+})
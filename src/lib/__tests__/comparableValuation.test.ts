@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import type { ComparableProperty } from '@/types/rental'
+import { detectOutliers, median, quantile, tCritical90, valueComparables } from '@/lib/comparableValuation'
+
+function comparable(id: number, size: number, bedrooms: number, rent: number): ComparableProperty {
+  return {
+    id,
+    address: `Comparable ${id}`,
+    size_m2: size,
+    bedrooms,
+    bathrooms: 1,
+    parking_spaces: 0,
+    storage_units: 0,
+    rent_clp: rent,
+    price_per_m2: Math.round(rent / size)
+  }
+}
+
+const options = { fallbackRentClp: 500000, fallbackRangePercentage: 10 }
+
+describe('quantile y median', () => {
+  it('interpolan linealmente entre posiciones', () => {
+    expect(quantile([1, 2, 3, 4], 0.25)).toBe(1.75)
+    expect(median([5, 1, 3])).toBe(3)
+    expect(median([4, 1, 3, 2])).toBe(2.5)
+  })
+})
+
+describe('tCritical90', () => {
+  it('usa la tabla hasta 10 grados de libertad y se acerca a la normal después', () => {
+    expect(tCritical90(2)).toBe(2.92)
+    expect(tCritical90(10)).toBe(1.812)
+    expect(tCritical90(30)).toBeCloseTo(1.697, 3)
+  })
+})
+
+describe('detectOutliers', () => {
+  const values = [10000, 10500, 11000, 11500, 12000, 25000]
+
+  it('descarta por IQR los valores fuera de las cercas', () => {
+    expect(detectOutliers(values, 'iqr')).toEqual([false, false, false, false, false, true])
+  })
+
+  it('descarta por MAD los valores con z modificado alto', () => {
+    expect(detectOutliers(values, 'mad')).toEqual([false, false, false, false, false, true])
+    expect(detectOutliers([10000, 10000, 10000, 10000, 50000], 'mad')).toEqual([false, false, false, false, false])
+  })
+
+  it('con menos de 4 valores no descarta ninguno', () => {
+    expect(detectOutliers([10000, 11000, 90000])).toEqual([false, false, false])
+  })
+})
+
+describe('valueComparables', () => {
+  it('ajusta la regresión hedónica y reparte la estimación entre los comparables', () => {
+    // Arriendo exacto: 100.000 + 8.000 por m² + 30.000 por dormitorio
+    const rentFor = (size: number, bedrooms: number) => 100000 + 8000 * size + 30000 * bedrooms
+    const sample: Array<[number, number]> = [[40, 1], [45, 1], [50, 2], [55, 2], [60, 2], [65, 3], [70, 2], [80, 3]]
+    const comparables = sample.map(([size, bedrooms], index) => comparable(index + 1, size, bedrooms, rentFor(size, bedrooms)))
+
+    const valuation = valueComparables(comparables, { size_m2: 58, bedrooms: 2 }, options)
+
+    expect(valuation).toMatchObject({ method: 'hedonic', comparables_used: 8, outliers_rejected: 0, r_squared: 1 })
+    expect(valuation.estimate_clp).toBe(rentFor(58, 2))
+    expect(valuation.coefficients).toEqual({ size_m2: 8000, bedrooms: 30000 })
+    // Ajuste perfecto: el intervalo de predicción se cierra sobre la estimación
+    expect(valuation.confidence_interval.max_rent_clp - valuation.confidence_interval.min_rent_clp).toBeLessThanOrEqual(2)
+    const total = valuation.contributions.reduce((sum, contribution) => sum + contribution.contribution_clp, 0)
+    expect(total).toBeCloseTo(valuation.estimate_clp, -1)
+  })
+
+  it('con pocos comparables promedia el precio por m² con un intervalo de predicción t', () => {
+    const comparables = [comparable(1, 50, 2, 500000), comparable(2, 50, 2, 550000), comparable(3, 50, 2, 600000)]
+
+    const valuation = valueComparables(comparables, { size_m2: 50 }, options)
+    const halfWidth = tCritical90(2) * 50000 * Math.sqrt(1 + 1 / 3)
+
+    expect(valuation).toMatchObject({ method: 'price_per_m2', estimate_clp: 550000, estimate_per_m2: 11000, comparables_used: 3 })
+    expect(valuation.confidence_interval).toEqual({
+      min_rent_clp: Math.round(550000 - halfWidth),
+      max_rent_clp: Math.round(550000 + halfWidth)
+    })
+  })
+
+  it('no usa los outliers en la estimación pero los informa', () => {
+    const comparables = [
+      comparable(1, 50, 2, 500000),
+      comparable(2, 50, 2, 525000),
+      comparable(3, 50, 2, 550000),
+      comparable(4, 50, 2, 575000),
+      comparable(5, 50, 2, 1500000)
+    ]
+
+    const valuation = valueComparables(comparables, { size_m2: 50 }, options)
+
+    expect(valuation).toMatchObject({ estimate_clp: 537500, comparables_used: 4, outliers_rejected: 1 })
+    expect(valuation.contributions[4]).toMatchObject({ comparable_id: 5, is_outlier: true, weight: 0, contribution_clp: 0 })
+  })
+
+  it('sin comparables útiles usa el arriendo de respaldo con el rango fijo', () => {
+    const valuation = valueComparables([comparable(1, 0, 2, 500000)], { size_m2: 50 }, options)
+
+    expect(valuation).toMatchObject({
+      method: 'none',
+      estimate_clp: 500000,
+      comparables_used: 0,
+      confidence_interval: { min_rent_clp: 450000, max_rent_clp: 550000 }
+    })
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { calculateLeveragedReturns, calculateMonthlyDividendUf, isFinancingComplete } from '@/lib/financing'
+
+describe('calculateMonthlyDividendUf', () => {
+  it('calcula la cuota fija del sistema francés', () => {
+    // 1.000 UF al 12% anual (1% mensual) en 12 meses
+    expect(calculateMonthlyDividendUf(1000, 12, 1)).toBeCloseTo(88.8488, 4)
+    expect(calculateMonthlyDividendUf(3000, 4.5, 20)).toBeCloseTo(18.9795, 4)
+  })
+
+  it('sin tasa reparte el crédito en partes iguales y sin crédito o plazo no hay dividendo', () => {
+    expect(calculateMonthlyDividendUf(2400, 0, 10)).toBe(20)
+    expect(calculateMonthlyDividendUf(0, 4, 20)).toBe(0)
+    expect(calculateMonthlyDividendUf(2000, 4, 0)).toBe(0)
+  })
+})
+
+describe('isFinancingComplete', () => {
+  it('exige monto, plazo y una tasa no negativa', () => {
+    expect(isFinancingComplete({ down_payment_uf: 0, loan_uf: 2000, annual_rate_percentage: 0, term_years: 20 })).toBe(true)
+    expect(isFinancingComplete({ down_payment_uf: 500, loan_uf: 0, annual_rate_percentage: 4, term_years: 20 })).toBe(false)
+    expect(isFinancingComplete({ down_payment_uf: 500, loan_uf: 2000, annual_rate_percentage: -1, term_years: 20 })).toBe(false)
+    expect(isFinancingComplete(undefined)).toBe(false)
+  })
+})
+
+describe('calculateLeveragedReturns', () => {
+  const params = {
+    financing: { down_payment_uf: 1000, loan_uf: 2400, annual_rate_percentage: 0, term_years: 10 },
+    netOperatingIncome: 6000000,
+    monthlyRentClp: 600000,
+    propertyValueClp: 136000000,
+    ufValueClp: 40000
+  }
+
+  it('descuenta el dividendo del NOI y calcula cash-on-cash y DSCR sobre el pie', () => {
+    // Dividendo: 20 UF = 800.000 CLP al mes, 9.600.000 al año
+    expect(calculateLeveragedReturns(params)).toMatchObject({
+      monthly_dividend_uf: 20,
+      monthly_dividend_clp: 800000,
+      annual_debt_service_clp: 9600000,
+      equity_invested_clp: 40000000,
+      monthly_cash_flow_clp: -300000,
+      cash_on_cash_percentage: -9,
+      debt_service_coverage_ratio: 0.63,
+      rent_covers_dividend: false
+    })
+  })
+
+  it('sin pie informado usa la diferencia entre el valor de la propiedad y el crédito', () => {
+    const result = calculateLeveragedReturns({ ...params, financing: { ...params.financing, down_payment_uf: 0 } })
+
+    expect(result.equity_invested_clp).toBe(40000000)
+  })
+})
@@ -0,0 +1,54 @@
+import { SAVED_ANALYSIS_SCHEMA_VERSION, type SavedAnalysis } from '@/types/saved-analysis'
+
+// Análisis guardado válido en la versión de esquema actual
+export function buildSavedAnalysis(id: string, overrides: Partial<SavedAnalysis> = {}): SavedAnalysis {
+  return {
+    id,
+    schemaVersion: SAVED_ANALYSIS_SCHEMA_VERSION,
+    title: 'Depto Providencia',
+    property: {
+      address: 'Av. Providencia 1234, Providencia',
+      value_clp: 150000000,
+      size_m2: 55,
+      bedrooms: 2,
+      bathrooms: 1,
+      parking_spaces: 1,
+      storage_units: 0
+    },
+    analysis: {
+      suggested_rent_clp: 550000,
+      rent_currency: 'CLP',
+      comparable_properties: [
+        { address: 'Los Leones 100, Providencia', size_m2: 50, bedrooms: 2, bathrooms: 1, rent_clp: 520000 }
+      ],
+      annual_expenses: {
+        maintenance_clp: 500000,
+        property_tax_clp: 300000,
+        insurance_clp: 200000,
+        common_expenses_monthly_clp: 0,
+        common_expenses_paid_by: 'tenant',
+        administration_percentage: 0,
+        repairs_reserve_percentage: 0,
+        lease_commission_percentage: 0,
+        other_one_off_costs_clp: 0
+      },
+      uf_value_clp: 38000
+    },
+    calculations: {
+      cap_rate: 3.7,
+      annual_rental_yield: 4.4,
+      monthly_net_income: 466667,
+      vacancy_cost_per_month: 45833,
+      break_even_rent_reduction: 15,
+      plan_comparisons: []
+    },
+    metadata: {
+      created_at: '2026-10-01T12:00:00.000Z',
+      updated_at: '2026-10-01T12:00:00.000Z',
+      broker_email: 'corredor@corredora.cl',
+      status: 'draft',
+      tags: []
+    },
+    ...overrides
+  }
+}
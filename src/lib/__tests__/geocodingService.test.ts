@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createFileGeocodeCache, locateForStorage, type GeocodingService } from '@/lib/geocodingService'
+
+describe('createFileGeocodeCache', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'geocoding-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('no sobrescribe un archivo de caché que no se puede interpretar', async () => {
+    const filePath = path.join(directory, 'geocoding.json')
+    await fs.writeFile(filePath, '{"providencia": {"location": nu', 'utf8')
+
+    const cache = createFileGeocodeCache(filePath)
+    await cache.set('los leones 100', null)
+
+    expect(await cache.get('los leones 100')).toBeNull()
+    expect(await fs.readFile(filePath, 'utf8')).toBe('{"providencia": {"location": nu')
+  })
+
+  it('crea el archivo si no existe', async () => {
+    const filePath = path.join(directory, 'nuevo', 'geocoding.json')
+
+    await createFileGeocodeCache(filePath).set('los leones 100', null)
+
+    expect(Object.keys(JSON.parse(await fs.readFile(filePath, 'utf8')))).toEqual(['los leones 100'])
+  })
+})
+
+describe('locateForStorage', () => {
+  it('no espera más del plazo y usa el nomenclátor local', async () => {
+    const slow: GeocodingService = { geocode: () => new Promise(resolve => setTimeout(() => resolve(null), 5000)) }
+
+    const started = Date.now()
+    const location = await locateForStorage('Av. Providencia 1234, Providencia', 50, slow)
+
+    expect(Date.now() - started).toBeLessThan(1000)
+    expect(location).toMatchObject({ comuna: 'Providencia', provider: 'gazetteer' })
+  })
+
+  it('devuelve el resultado del servicio si llega a tiempo', async () => {
+    const fast: GeocodingService = {
+      geocode: async () => ({
+        lat: -33.4,
+        lon: -70.6,
+        comuna: 'Providencia',
+        accuracy: 'building',
+        display_name: 'Avenida Providencia 1234, Providencia',
+        provider: 'nominatim',
+        geocoded_at: '2026-10-01T00:00:00.000Z'
+      })
+    }
+
+    expect(await locateForStorage('Av. Providencia 1234, Providencia', 1000, fast)).toMatchObject({ provider: 'nominatim' })
+  })
+})
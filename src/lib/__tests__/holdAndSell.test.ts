@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import type { RentalAnalysis } from '@/types/rental'
+import { calculateHoldAndSell, calculateIRR, calculateNPV } from '@/lib/holdAndSell'
+import { calculateLeveragedReturns, calculateLoanBalanceUf, calculateMonthlyDividendUf } from '@/lib/financing'
+
+const analysis = {
+  property: { value_clp: 100000000, market_rent_clp: 500000 },
+  cap_rate_analysis: { annual_expenses: 1000000 },
+  plans: []
+} as unknown as RentalAnalysis
+
+// Sin inflación, plusvalía ni gastos de venta: la venta devuelve el valor de compra
+const flatMarket = { exit_year: 5, annual_appreciation_uf_percentage: 0, sale_costs_percentage: 0 }
+const noInflation = { annual_inflation_percentage: 0 }
+
+describe('calculateNPV', () => {
+  it('descuenta cada flujo desde el año 0', () => {
+    expect(calculateNPV(10, [-100, 110])).toBeCloseTo(0, 9)
+    expect(calculateNPV(10, [-1000, 500, 500, 500])).toBeCloseTo(243.426, 3)
+    expect(calculateNPV(0, [-1000, 500, 500, 500])).toBe(500)
+  })
+})
+
+describe('calculateIRR', () => {
+  it('encuentra la tasa que anula el VAN', () => {
+    expect(calculateIRR([-100, 110])).toBeCloseTo(10, 4)
+    expect(calculateIRR([-1000, 500, 500, 500])).toBeCloseTo(23.3752, 3)
+    expect(calculateIRR([-1000, 100, 100, 900])).toBeCloseTo(3.5655, 3)
+  })
+
+  it('devuelve null si los flujos no cambian de signo', () => {
+    expect(calculateIRR([100, 50, 50])).toBeNull()
+    expect(calculateIRR([-100, -50, -50])).toBeNull()
+  })
+})
+
+describe('calculateHoldAndSell', () => {
+  it('sin crédito usa el valor completo de la propiedad', () => {
+    const scenario = calculateHoldAndSell(analysis, flatMarket, noInflation)
+    const incomes = scenario.projection.years.map(year => year.net_operating_income)
+
+    expect(scenario.levered).toBe(false)
+    expect(scenario.equity_invested_clp).toBe(100000000)
+    expect(scenario.cash_flows[0]).toBe(-100000000)
+    expect(scenario.cash_flows[5]).toBe(incomes[4] + 100000000)
+  })
+
+  it('con crédito usa el pie, descuenta los dividendos y paga el saldo del crédito al vender', () => {
+    const leveraged = calculateLeveragedReturns({
+      financing: { down_payment_uf: 500, loan_uf: 2000, annual_rate_percentage: 0, term_years: 10 },
+      netOperatingIncome: 0,
+      monthlyRentClp: 500000,
+      propertyValueClp: 100000000,
+      ufValueClp: 40000
+    })
+
+    const scenario = calculateHoldAndSell({ ...analysis, leveraged_returns: leveraged }, flatMarket, noInflation)
+    const incomes = scenario.projection.years.map(year => year.net_operating_income)
+
+    expect(scenario).toMatchObject({
+      levered: true,
+      equity_invested_clp: 20000000,
+      debt_service_clp: 40000000,
+      loan_balance_at_exit_clp: 40000000
+    })
+    expect(scenario.cash_flows[0]).toBe(-20000000)
+    expect(scenario.cash_flows[1]).toBe(incomes[0] - 8000000)
+    expect(scenario.cash_flows[5]).toBe(incomes[4] - 8000000 + 60000000)
+
+    const distributions = scenario.cash_flows.slice(1).reduce((sum, cashFlow) => sum + cashFlow, 0)
+    expect(scenario.equity_multiple).toBeCloseTo(distributions / 20000000, 2)
+    expect(scenario.total_profit_clp).toBe(distributions - 20000000)
+  })
+})
+
+describe('calculateLoanBalanceUf', () => {
+  it('coincide con amortizar el crédito mes a mes', () => {
+    const dividend = calculateMonthlyDividendUf(3000, 4.5, 20)
+    let balance = 3000
+    for (let month = 0; month < 60; month++) {
+      balance = balance * (1 + 0.045 / 12) - dividend
+    }
+
+    expect(calculateLoanBalanceUf(3000, 4.5, 20, 60)).toBeCloseTo(balance, 6)
+    expect(calculateLoanBalanceUf(3000, 4.5, 20, 240)).toBe(0)
+  })
+})
@@ -0,0 +1,92 @@
+import { Readable } from 'stream'
+import type { LookupAddress } from 'dns'
+import { describe, expect, it } from 'vitest'
+import { isPublicAddress } from '@/lib/networkAddress'
+import { validateListingUrl } from '@/lib/validation'
+import { createPublicLookup, readLimitedBody } from '@/lib/listingFetcher'
+
+describe('isPublicAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.31.255.255', '192.168.0.10', '100.64.0.1', '100.127.255.254',
+    '169.254.169.254', '0.0.0.0', '198.18.0.1', '224.0.0.1', '255.255.255.255',
+    '::', '::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '64:ff9b::a00:1', '2002:c0a8:1::1',
+    'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1', '2001:db8::1', 'no-es-una-ip'
+  ])('rechaza %s', address => {
+    expect(isPublicAddress(address)).toBe(false)
+  })
+
+  it.each(['8.8.8.8', '200.1.123.45', '100.128.0.1', '172.32.0.1', '::ffff:8.8.8.8', '2800:3f0:4001:80f::200e'])(
+    'acepta %s',
+    address => {
+      expect(isPublicAddress(address)).toBe(true)
+    }
+  )
+})
+
+describe('validateListingUrl', () => {
+  it.each([
+    'http://[::ffff:127.0.0.1]/',
+    'http://[::]/',
+    'http://100.64.10.1/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://2130706433/',
+    'http://0x7f.1/',
+    'http://localhost:3000/',
+    'http://intranet/',
+    'http://nas.local/',
+    'file:///etc/passwd'
+  ])('rechaza %s', url => {
+    expect(validateListingUrl(url).isValid).toBe(false)
+  })
+
+  it('acepta el link de un portal', () => {
+    expect(validateListingUrl('https://www.portalinmobiliario.com/MLC-1').isValid).toBe(true)
+  })
+})
+
+const lookupWith = (addresses: LookupAddress[]) => {
+  const lookup = createPublicLookup((_hostname, callback) => callback(null, addresses))
+  return (options: { all?: boolean; family?: number }) =>
+    new Promise<{ error: Error | null; result: unknown }>(resolve => {
+      lookup('portal.example.cl', options as any, ((error: Error | null, result: unknown) => resolve({ error, result })) as any)
+    })
+}
+
+describe('createPublicLookup', () => {
+  it('entrega las direcciones si todas son públicas', async () => {
+    const addresses = [{ address: '200.1.123.45', family: 4 }, { address: '2800:3f0:4001:80f::200e', family: 6 }]
+
+    expect(await lookupWith(addresses)({ all: true })).toEqual({ error: null, result: addresses })
+    expect((await lookupWith(addresses)({ family: 6 })).result).toBe('2800:3f0:4001:80f::200e')
+  })
+
+  it('rechaza el host si alguna dirección resuelta es interna', async () => {
+    const { error } = await lookupWith([
+      { address: '200.1.123.45', family: 4 },
+      { address: '::ffff:10.0.0.5', family: 6 }
+    ])({ all: true })
+
+    expect((error as NodeJS.ErrnoException).code).toBe('EBLOCKEDADDRESS')
+  })
+})
+
+describe('readLimitedBody', () => {
+  it('lee el cuerpo completo bajo el límite', async () => {
+    const body = await readLimitedBody(Readable.from([Buffer.from('<html>'), Buffer.from('</html>')]), 100)
+    expect(body!.toString()).toBe('<html></html>')
+  })
+
+  it('corta la descarga al pasar el límite aunque no haya content-length', async () => {
+    let produced = 0
+    const endless = new Readable({
+      read() {
+        produced += 1024
+        this.push(Buffer.alloc(1024, 'a'))
+      }
+    })
+
+    expect(await readLimitedBody(endless, 10 * 1024)).toBeNull()
+    expect(endless.destroyed).toBe(true)
+    expect(produced).toBeLessThan(64 * 1024)
+  })
+})
@@ -0,0 +1,79 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { parseListing } from '@/lib/listingImport'
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', 'listings', name), 'utf8')
+
+describe('parseListing con publicaciones guardadas', () => {
+  it('lee la ficha de Portal Inmobiliario', () => {
+    const url = 'https://www.portalinmobiliario.com/MLC-1234567890-departamento-providencia-_JM'
+    const listing = parseListing(fixture('portal-inmobiliario.html'), url)
+
+    expect(listing).toMatchObject({
+      url,
+      address: 'Av. Providencia 1234, Providencia, RM (Metropolitana)',
+      size_m2: 65,
+      bedrooms: 2,
+      bathrooms: 2,
+      parking_spaces: 1,
+      storage_units: 1,
+      price: 650000,
+      price_currency: 'CLP'
+    })
+    expect(listing!.extractors[0]).toBe('portal-inmobiliario')
+  })
+
+  it('lee la ficha de TocToc con entidades HTML y decimales con coma', () => {
+    const listing = parseListing(fixture('toctoc.html'), 'https://www.toctoc.com/arriendo/departamento/nunoa/98765')
+
+    expect(listing).toMatchObject({
+      address: 'Irarrázaval 3456, Ñuñoa',
+      size_m2: 48.5,
+      bedrooms: 1,
+      bathrooms: 1,
+      parking_spaces: 0,
+      price: 18.5,
+      price_currency: 'UF'
+    })
+    expect(listing!.extractors[0]).toBe('toctoc')
+  })
+
+  it('usa el JSON-LD de cualquier sitio', () => {
+    const listing = parseListing(fixture('json-ld.html'), 'https://corredora.example.cl/casa/77')
+
+    expect(listing).toMatchObject({
+      address: 'Camino El Alba 9500, Las Condes, Región Metropolitana',
+      size_m2: 140,
+      bedrooms: 4,
+      bathrooms: 3,
+      parking_spaces: 2,
+      storage_units: 1,
+      price: 1450000,
+      price_currency: 'CLP',
+      lat: -33.4089,
+      lon: -70.5167
+    })
+    expect(listing!.extractors).toEqual(['json-ld'])
+  })
+
+  it('completa desde OpenGraph y toma el link de og:url si no se entregó uno', () => {
+    const listing = parseListing(fixture('open-graph.html'))
+
+    expect(listing).toMatchObject({
+      url: 'https://corredora.example.cl/propiedades/4321',
+      address: 'San Diego 1500, Santiago',
+      size_m2: 80,
+      bedrooms: 3,
+      bathrooms: 2,
+      parking_spaces: 1,
+      storage_units: 1,
+      price: 25,
+      price_currency: 'UF'
+    })
+  })
+
+  it('devuelve null si la página no trae datos de la propiedad', () => {
+    expect(parseListing(fixture('no-data.html'), 'https://www.portalinmobiliario.com/MLC-1')).toBeNull()
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import type { SavedAnalysis } from '@/types/saved-analysis'
+import { buildMarketRentIndex, lookupMarketRent, marketBenchmarkFor, monthKey } from '@/lib/marketRentIndex'
+
+const now = new Date('2026-10-15T12:00:00.000Z')
+
+const saved = (
+  id: string,
+  address: string,
+  rentClp: number,
+  options: { bedrooms?: number; createdAt?: string } = {}
+): SavedAnalysis => ({
+  id,
+  property: { address, size_m2: 50, bedrooms: options.bedrooms ?? 2 },
+  analysis: { suggested_rent_clp: rentClp, comparable_properties: [] },
+  metadata: { created_at: options.createdAt || '2026-10-01T12:00:00.000Z' }
+} as unknown as SavedAnalysis)
+
+describe('buildMarketRentIndex', () => {
+  const analyses = [
+    saved('1', 'Los Leones 100, Providencia', 500000),
+    saved('2', 'Pedro de Valdivia 200, Providencia', 550000),
+    saved('3', 'Manuel Montt 300, Providencia', 600000),
+    saved('4', 'Suecia 400, Providencia', 1500000)
+  ]
+
+  it('no cuenta el arriendo sugerido del análisis que se está evaluando', () => {
+    const withOwn = lookupMarketRent(buildMarketRentIndex(analyses, now), { comuna: 'Providencia', bedrooms: 2, asOf: now })
+    const withoutOwn = lookupMarketRent(
+      buildMarketRentIndex(analyses, now, { excludeId: '4' }),
+      { comuna: 'Providencia', bedrooms: 2, asOf: now }
+    )
+
+    expect(withOwn?.sample_size).toBe(4)
+    expect(withoutOwn).toMatchObject({ sample_size: 3, median_rent_per_m2: 11000 })
+  })
+})
+
+describe('lookupMarketRent', () => {
+  const providencia = (id: string, rentClp: number, options: { bedrooms?: number; createdAt?: string } = {}) =>
+    saved(id, `Calle ${id}, Providencia`, rentClp, options)
+
+  it('entrega la mediana y los cuartiles del arriendo por m²', () => {
+    const index = buildMarketRentIndex([
+      providencia('1', 500000),
+      providencia('2', 550000),
+      providencia('3', 600000),
+      providencia('4', 650000),
+      providencia('5', 700000)
+    ], now)
+
+    expect(lookupMarketRent(index, { comuna: 'Providencia', bedrooms: 2, asOf: now })).toMatchObject({
+      typology: 2,
+      sample_size: 5,
+      median_rent_per_m2: 12000,
+      p25_rent_per_m2: 11000,
+      p75_rent_per_m2: 13000
+    })
+  })
+
+  it('usa toda la comuna si la tipología tiene pocas muestras', () => {
+    const index = buildMarketRentIndex([
+      providencia('1', 500000),
+      providencia('2', 550000),
+      providencia('3', 600000),
+      providencia('4', 900000, { bedrooms: 3 })
+    ], now)
+
+    const benchmark = lookupMarketRent(index, { comuna: 'Providencia', bedrooms: 3, asOf: now })
+    expect(benchmark).toMatchObject({ sample_size: 4 })
+    expect(benchmark?.typology).toBeUndefined()
+  })
+
+  it('solo cuenta los meses dentro de la ventana', () => {
+    const index = buildMarketRentIndex([
+      providencia('1', 500000, { createdAt: '2025-11-01T00:00:00.000Z' }),
+      providencia('2', 550000),
+      providencia('3', 600000),
+      providencia('4', 1000000, { createdAt: '2025-10-31T23:00:00.000Z' })
+    ], now)
+
+    expect(lookupMarketRent(index, { comuna: 'Providencia', bedrooms: 2, asOf: now })).toMatchObject({
+      from_month: '2025-11',
+      to_month: '2026-10',
+      sample_size: 3,
+      median_rent_per_m2: 11000
+    })
+  })
+})
+
+describe('marketBenchmarkFor', () => {
+  const index = buildMarketRentIndex([
+    saved('1', 'Los Leones 100, Providencia', 500000),
+    saved('2', 'Pedro de Valdivia 200, Providencia', 550000),
+    saved('3', 'Manuel Montt 300, Providencia', 600000)
+  ], now)
+
+  it('prefiere la comuna geocodificada cuando la dirección no la menciona', () => {
+    expect(marketBenchmarkFor(index, 'Los Leones 500', 2)).toBeUndefined()
+    expect(marketBenchmarkFor(index, 'Los Leones 500', 2, { comuna: 'Providencia' })).toMatchObject({ sample_size: 3 })
+  })
+})
+
+describe('monthKey', () => {
+  it('agrupa por mes en UTC', () => {
+    expect(monthKey(new Date('2026-09-30T23:30:00-04:00'))).toBe('2026-10')
+    expect(monthKey(new Date('2026-10-31T23:30:00.000Z'))).toBe('2026-10')
+  })
+})
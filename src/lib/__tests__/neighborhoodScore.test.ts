@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import type { PoiCategory, PointOfInterest } from '@/types/rental'
+import { NEIGHBORHOOD_DEFAULTS, describeNeighborhoodDetail, parsePoiCollection, scoreNeighborhood } from '@/lib/neighborhoodScore'
+
+const origin = { lat: -33.42, lon: -70.6 }
+// 0,001° de latitud ≈ 111 m
+const KM_PER_DEGREE = 111.195
+
+function poi(id: string, category: PoiCategory, northKm: number): PointOfInterest {
+  return { id, category, name: id, lat: origin.lat + northKm / KM_PER_DEGREE, lon: origin.lon }
+}
+
+describe('scoreNeighborhood', () => {
+  it('suma los puntos de cada categoría con el detalle por categoría', () => {
+    const pois = [
+      poi('Los Leones', 'metro_station', 0.35),
+      poi('Paradero 1', 'bus_stop', 0.1),
+      poi('Paradero 2', 'bus_stop', 0.3),
+      poi('Paradero lejano', 'bus_stop', 0.6),
+      poi('Supermercado', 'supermarket', 0.6),
+      poi('Colegio', 'school', 0.9)
+    ]
+
+    const factors = scoreNeighborhood(origin, pois)
+
+    // Transporte: metro a menos de 400 m (7) + 2 paraderos (2). Servicios: supermercado a 600 m (2) + colegio (1)
+    expect(factors).toMatchObject({ source: 'poi', transportation_access: 9, amenities_score: 3, location_score: 6 })
+    expect(factors.breakdown?.find(detail => detail.category === 'metro_station')).toMatchObject({
+      nearest_name: 'Los Leones',
+      nearest_distance_km: 0.35,
+      count_within_radius: 1,
+      points: 7
+    })
+    expect(factors.breakdown?.find(detail => detail.category === 'park')).toMatchObject({ points: 0, count_within_radius: 0 })
+  })
+
+  it('limita los puntos por categoría y los puntajes a la escala 1-10', () => {
+    const pois = [
+      poi('Metro', 'metro_station', 0.1),
+      ...[0.05, 0.1, 0.15, 0.2, 0.25].map((km, index) => poi(`Paradero ${index}`, 'bus_stop', km)),
+      poi('Parque', 'park', 0.2)
+    ]
+
+    const factors = scoreNeighborhood(origin, pois)
+
+    expect(factors.breakdown?.find(detail => detail.category === 'bus_stop')).toMatchObject({ count_within_radius: 5, points: 3 })
+    expect(factors.transportation_access).toBe(10)
+    expect(factors.amenities_score).toBe(3)
+  })
+
+  it('sin coordenadas o fuera de la cobertura usa los valores referenciales', () => {
+    const defaults = { ...NEIGHBORHOOD_DEFAULTS.FACTORS, source: 'default' }
+
+    expect(scoreNeighborhood(undefined)).toEqual(defaults)
+    expect(scoreNeighborhood({ lat: origin.lat }, [poi('Metro', 'metro_station', 0.1)])).toEqual(defaults)
+    expect(scoreNeighborhood(origin, [poi('Metro', 'metro_station', 5)])).toEqual(defaults)
+  })
+})
+
+describe('parsePoiCollection', () => {
+  it('descarta los elementos sin categoría conocida o sin coordenadas válidas', () => {
+    const pois = parsePoiCollection({
+      type: 'FeatureCollection',
+      features: [
+        { id: 'm1', type: 'Feature', properties: { category: 'metro_station', name: 'Tobalaba' }, geometry: { type: 'Point', coordinates: [-70.6, -33.42] } },
+        { type: 'Feature', properties: { category: 'park' }, geometry: { type: 'Point', coordinates: [-70.61, -33.43] } },
+        { type: 'Feature', properties: { category: 'hospital' }, geometry: { type: 'Point', coordinates: [-70.6, -33.42] } },
+        { type: 'Feature', properties: { category: 'school' }, geometry: { type: 'Point', coordinates: [-70.6, -133] } }
+      ]
+    })
+
+    expect(pois).toEqual([
+      { id: 'm1', category: 'metro_station', name: 'Tobalaba', lat: -33.42, lon: -70.6 },
+      { id: 'poi_1', category: 'park', name: 'Parques y plazas', lat: -33.43, lon: -70.61 }
+    ])
+  })
+})
+
+describe('describeNeighborhoodDetail', () => {
+  it('describe el más cercano y cuántos hay dentro del radio', () => {
+    const [metro] = scoreNeighborhood(origin, [poi('Los Leones', 'metro_station', 0.35)]).breakdown!
+
+    expect(describeNeighborhoodDetail(metro)).toBe('Metro: Los Leones a 350 m · 1 en 1,5 km')
+  })
+})
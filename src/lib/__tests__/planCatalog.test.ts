@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { buildRentalPlans, comparePlans } from '@/lib/profitability'
+import { DEFAULT_PLAN_CATALOG } from '@/lib/planCatalog'
+import { createMemoryDocumentStore } from '@/lib/documentStore'
+import {
+  getCurrentPlanCatalog,
+  getPlanCatalogHistory,
+  savePlanCatalog,
+  setPlanCatalogStore,
+  type PlanCatalogDocument
+} from '@/lib/planCatalogStore'
+
+describe('recomendación de planes con el catálogo por defecto', () => {
+  it.each([350000, 500000, 1200000])('ordena A, B, C con arriendo de %i', rent => {
+    const plans = buildRentalPlans(rent, undefined, DEFAULT_PLAN_CATALOG.plans)
+    const ranking = comparePlans(plans, { marketRentClp: rent })
+      .sort((a, b) => b.recommendation_score - a.recommendation_score)
+      .map(comparison => comparison.plan_id)
+
+    expect(ranking).toEqual(['A', 'B', 'C'])
+  })
+})
+
+describe('catálogo de planes del servidor', () => {
+  beforeEach(() => {
+    setPlanCatalogStore(createMemoryDocumentStore<PlanCatalogDocument>({ versions: [] }))
+  })
+
+  it('usa el catálogo por defecto mientras no haya versiones guardadas', async () => {
+    expect(await getCurrentPlanCatalog()).toEqual(DEFAULT_PLAN_CATALOG)
+    expect(await getPlanCatalogHistory()).toEqual([])
+  })
+
+  it('numera las versiones aunque los guardados sean simultáneos', async () => {
+    const [first, second] = await Promise.all([
+      savePlanCatalog(DEFAULT_PLAN_CATALOG.plans.slice(0, 2)),
+      savePlanCatalog(DEFAULT_PLAN_CATALOG.plans)
+    ])
+
+    expect([first.version, second.version]).toEqual([1, 2])
+    expect((await getCurrentPlanCatalog()).plans).toHaveLength(3)
+    expect((await getPlanCatalogHistory()).map(catalog => catalog.version)).toEqual([1, 2])
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import type { RentalAnalysisInput } from '@/types/rental'
+import { annualVacancyRate, calculateRentalProfitability } from '@/lib/profitability'
+import { projectCashFlow } from '@/lib/cashFlowProjection'
+import { applySensitivityChange, evaluateSensitivity, sensitivityBaseFromAnalysis } from '@/lib/sensitivity'
+
+const input: RentalAnalysisInput = {
+  property: { address: 'Los Leones 100, Providencia', value_clp: 150000000, size_m2: 55, bedrooms: 2 },
+  monthly_rent_clp: 600000,
+  uf_value_clp: 38000,
+  annual_expenses: {
+    maintenance_clp: 400000,
+    property_tax_clp: 300000,
+    insurance_clp: 150000,
+    common_expenses_monthly_clp: 80000,
+    common_expenses_paid_by: 'tenant',
+    administration_percentage: 5
+  },
+  comparables: []
+}
+
+describe('NOI', () => {
+  const { analysis } = calculateRentalProfitability(input)
+  const capRate = analysis.cap_rate_analysis
+
+  it('el CAP rate descuenta la comisión del plan principal', () => {
+    expect(analysis.plans[0].commission_percentage).toBeGreaterThan(0)
+    expect(capRate.commission_clp).toBeGreaterThan(0)
+
+    const collectedRent = capRate.annual_rental_income * (1 - annualVacancyRate())
+    expect(capRate.commission_clp).toBeCloseTo(collectedRent * analysis.plans[0].commission_percentage / 100, -1)
+    expect(capRate.net_operating_income)
+      .toBeCloseTo(collectedRent - capRate.commission_clp! - capRate.annual_expenses, -1)
+  })
+
+  it('la proyección sin reajuste parte del mismo NOI que el CAP rate', () => {
+    const [firstYear] = projectCashFlow(analysis, { annual_inflation_percentage: 0 }).years
+
+    expect(firstYear.commission_clp).toBeCloseTo(capRate.commission_clp!, -1)
+    expect(firstYear.net_operating_income).toBeCloseTo(capRate.net_operating_income, -1)
+  })
+
+  it('la sensibilidad reproduce el CAP rate y la comisión lo mueve', () => {
+    const base = sensitivityBaseFromAnalysis(analysis)
+    const outcome = evaluateSensitivity(base)
+
+    expect(outcome.cap_rate_percentage).toBeCloseTo(capRate.cap_rate_percentage, 1)
+    expect(outcome.net_annual_income_clp).toBeCloseTo(capRate.net_operating_income, -1)
+    const higherCommission = evaluateSensitivity(applySensitivityChange(base, 'commission', 5))
+    expect(higherCommission.cap_rate_percentage).toBeLessThan(outcome.cap_rate_percentage)
+  })
+})
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { SavedAnalysis } from '@/types/saved-analysis'
+import analysisCache from '@/lib/cache/analysisCache'
+import {
+  createMemoryAnalysisHistoryRepository,
+  createMemoryAnalysisRepository,
+  setAnalysisRepository
+} from '@/lib/analysisRepository'
+import { getAnalysisById, saveAnalysis, updateAnalysisStatus } from '@/lib/analysisStore'
+import { runProposalExpiry, type ExpiryNotifier } from '@/lib/proposalScheduler'
+import { buildSavedAnalysis } from './fixtures/savedAnalysis'
+
+const now = new Date('2026-10-15T12:00:00.000Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Propuesta enviada que vence en daysLeft días (negativo: ya vencida)
+function sentProposal(id: string, daysLeft: number): SavedAnalysis {
+  const analysis = buildSavedAnalysis(id)
+  return {
+    ...analysis,
+    metadata: {
+      ...analysis.metadata,
+      status: 'sent_to_client',
+      client_email: 'cliente@correo.cl',
+      expires_at: new Date(now.getTime() + daysLeft * DAY_MS).toISOString(),
+      reminders_sent: []
+    }
+  }
+}
+
+function recordingNotifier(onReminder: (analysis: SavedAnalysis) => Promise<void> = async () => undefined) {
+  const calls: string[] = []
+  const notifier: ExpiryNotifier = {
+    reminder: async (analysis, daysLeft) => {
+      calls.push(`recordatorio ${analysis.id} ${daysLeft}`)
+      await onReminder(analysis)
+    },
+    expired: async analysis => {
+      calls.push(`vencida ${analysis.id}`)
+    }
+  }
+  return { notifier, calls }
+}
+
+describe('runProposalExpiry', () => {
+  beforeEach(() => {
+    analysisCache.clear()
+    setAnalysisRepository(createMemoryAnalysisRepository(), createMemoryAnalysisHistoryRepository())
+  })
+
+  afterEach(() => {
+    setAnalysisRepository(null)
+  })
+
+  it('vence las propuestas fuera de plazo y marca los recordatorios enviados', async () => {
+    await saveAnalysis(sentProposal('vencida', -1), 'a@corredora.cl')
+    await saveAnalysis(sentProposal('por-vencer', 2), 'a@corredora.cl')
+    const { notifier, calls } = recordingNotifier()
+
+    const summary = await runProposalExpiry({ now, notifier, reminderDays: [3, 1] })
+
+    expect(summary).toMatchObject({ dry_run: false, checked: 2, expired: ['vencida'], failed: [] })
+    expect(summary.reminded).toEqual([{ id: 'por-vencer', days_left: 2 }])
+    expect(calls).toEqual(['vencida vencida', 'recordatorio por-vencer 2'])
+    expect((await getAnalysisById('vencida'))?.metadata.status).toBe('expired')
+
+    const reminded = await getAnalysisById('por-vencer')
+    expect(reminded?.metadata.reminders_sent).toEqual([3])
+    expect(reminded?.metadata.updated_at).toBe(sentProposal('por-vencer', 2).metadata.updated_at)
+  })
+
+  it('no revierte un cambio de estado hecho mientras salía el recordatorio', async () => {
+    await saveAnalysis(sentProposal('1', 2), 'a@corredora.cl')
+    const { notifier } = recordingNotifier(async analysis => {
+      await updateAnalysisStatus(analysis.id, 'draft', 'b@corredora.cl', now)
+    })
+
+    const summary = await runProposalExpiry({ now, notifier, reminderDays: [3] })
+
+    expect(summary.failed).toEqual([])
+    const current = await getAnalysisById('1')
+    expect(current?.metadata.status).toBe('draft')
+    expect(current?.metadata.reminders_sent).toEqual([])
+  })
+
+  it('en simulación informa sin avisar ni cambiar nada', async () => {
+    await saveAnalysis(sentProposal('vencida', -1), 'a@corredora.cl')
+    await saveAnalysis(sentProposal('por-vencer', 2), 'a@corredora.cl')
+    const { notifier, calls } = recordingNotifier()
+
+    const summary = await runProposalExpiry({ now, dryRun: true, notifier, reminderDays: [3] })
+
+    expect(summary).toMatchObject({ dry_run: true, expired: ['vencida'], reminded: [{ id: 'por-vencer', days_left: 2 }] })
+    expect(calls).toEqual([])
+    expect((await getAnalysisById('vencida'))?.metadata.status).toBe('sent_to_client')
+    expect((await getAnalysisById('por-vencer'))?.metadata.reminders_sent).toEqual([])
+  })
+
+  it('una pasada real que llega durante una simulación se ejecuta igual', async () => {
+    await saveAnalysis(sentProposal('vencida', -1), 'a@corredora.cl')
+    const { notifier, calls } = recordingNotifier()
+
+    const [simulated, real, repeated] = await Promise.all([
+      runProposalExpiry({ now, dryRun: true, notifier, reminderDays: [3] }),
+      runProposalExpiry({ now, notifier, reminderDays: [3] }),
+      runProposalExpiry({ now, notifier, reminderDays: [3] })
+    ])
+
+    expect(simulated).toMatchObject({ dry_run: true, expired: ['vencida'] })
+    expect(real).toMatchObject({ dry_run: false, expired: ['vencida'] })
+    // La segunda pasada real se superpone con la primera y recibe su resultado
+    expect(repeated).toBe(real)
+    expect(calls).toEqual(['vencida vencida'])
+    expect((await getAnalysisById('vencida'))?.metadata.status).toBe('expired')
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import type { RentalPlan } from '@/types/rental'
+import {
+  SIMULATION_DEFAULTS,
+  dailyRentProbability,
+  rentOnDay,
+  simulateDaysToRent,
+  vacancyRiskScore
+} from '@/lib/rentalSimulation'
+
+const plan: RentalPlan = {
+  id: 'A',
+  name: 'Plan A',
+  description: '',
+  initial_rent_clp: 660000,
+  commission_percentage: 8,
+  marketing_duration_days: 60,
+  service_level: 'standard',
+  price_adjustment_schedule: [
+    { day: 20, new_rent_clp: 630000, percentage_reduction: 5 },
+    { day: 40, new_rent_clp: 600000, percentage_reduction: 9 }
+  ]
+}
+
+describe('rentOnDay', () => {
+  it('aplica el último ajuste vigente del cronograma', () => {
+    expect(rentOnDay(plan, 0)).toBe(660000)
+    expect(rentOnDay(plan, 19)).toBe(660000)
+    expect(rentOnDay(plan, 20)).toBe(630000)
+    expect(rentOnDay(plan, 90)).toBe(600000)
+  })
+})
+
+describe('dailyRentProbability', () => {
+  it('a precio de mercado usa la probabilidad base y cae con el sobreprecio', () => {
+    expect(dailyRentProbability(600000, 600000)).toBeCloseTo(SIMULATION_DEFAULTS.BASE_DAILY_PROBABILITY, 12)
+    expect(dailyRentProbability(660000, 600000)).toBeCloseTo(SIMULATION_DEFAULTS.BASE_DAILY_PROBABILITY * Math.exp(-1), 12)
+    expect(dailyRentProbability(600000, 0)).toBe(SIMULATION_DEFAULTS.BASE_DAILY_PROBABILITY)
+  })
+})
+
+describe('simulateDaysToRent', () => {
+  it('con la misma semilla da siempre el mismo resultado', () => {
+    const first = simulateDaysToRent(plan, { marketRentClp: 600000, seed: 42 })
+    const second = simulateDaysToRent(plan, { marketRentClp: 600000, seed: 42 })
+
+    expect(second).toEqual(first)
+    expect(simulateDaysToRent(plan, { marketRentClp: 600000, seed: 7 })).not.toEqual(first)
+  })
+
+  it('entrega percentiles ordenados dentro del horizonte', () => {
+    const simulation = simulateDaysToRent(plan, { marketRentClp: 600000 })
+
+    expect(simulation.iterations).toBe(SIMULATION_DEFAULTS.ITERATIONS)
+    expect(simulation.p10_days).toBeGreaterThanOrEqual(0)
+    expect(simulation.p10_days).toBeLessThanOrEqual(simulation.p50_days)
+    expect(simulation.p50_days).toBeLessThanOrEqual(simulation.p90_days)
+    expect(simulation.p90_days).toBeLessThanOrEqual(SIMULATION_DEFAULTS.MAX_DAYS)
+    expect(simulation.expected_rent_clp).toBeGreaterThanOrEqual(600000)
+    expect(simulation.expected_rent_clp).toBeLessThanOrEqual(660000)
+  })
+
+  it('a precio de mercado la mediana ronda los 10 días', () => {
+    const atMarket = { ...plan, initial_rent_clp: 600000, price_adjustment_schedule: [] }
+    const simulation = simulateDaysToRent(atMarket, { marketRentClp: 600000, iterations: 5000 })
+
+    // Mediana geométrica: ln 2 / p = 10 días, con algo de dispersión por la demanda
+    expect(simulation.p50_days).toBeGreaterThanOrEqual(7)
+    expect(simulation.p50_days).toBeLessThanOrEqual(12)
+    expect(simulation.expected_rent_clp).toBe(600000)
+  })
+
+  it('un precio más alto alarga la espera y sube el riesgo de vacancia', () => {
+    const atMarket = simulateDaysToRent({ ...plan, initial_rent_clp: 600000, price_adjustment_schedule: [] }, { marketRentClp: 600000 })
+    const overMarket = simulateDaysToRent({ ...plan, initial_rent_clp: 700000, price_adjustment_schedule: [] }, { marketRentClp: 600000 })
+
+    expect(overMarket.p50_days).toBeGreaterThan(atMarket.p50_days)
+    expect(overMarket.probability_vacant_day_30).toBeGreaterThan(atMarket.probability_vacant_day_30)
+    expect(vacancyRiskScore(overMarket)).toBeGreaterThanOrEqual(vacancyRiskScore(atMarket))
+  })
+})
+
+describe('vacancyRiskScore', () => {
+  it('lleva la probabilidad de vacancia al día 30 a una escala de 1 a 10', () => {
+    const simulation = simulateDaysToRent(plan, { marketRentClp: 600000 })
+
+    expect(vacancyRiskScore({ ...simulation, probability_vacant_day_30: 0 })).toBe(1)
+    expect(vacancyRiskScore({ ...simulation, probability_vacant_day_30: 0.5 })).toBe(6)
+    expect(vacancyRiskScore({ ...simulation, probability_vacant_day_30: 1 })).toBe(10)
+  })
+})
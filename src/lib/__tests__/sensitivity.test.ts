@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import type { SensitivityBase } from '@/types/rental'
+import { applySensitivityChange, calculateSensitivityGrid, calculateTornado, evaluateSensitivity } from '@/lib/sensitivity'
+
+// Arriendo cobrado 6.000.000, comisión 600.000 y mantención 1.200.000: NOI 4.200.000 y CAP rate 4,2%
+const base: SensitivityBase = {
+  monthly_rent_clp: 500000,
+  property_value_clp: 100000000,
+  expenses: { maintenance_clp: 1200000, property_tax_clp: 0, insurance_clp: 0 },
+  vacancy_months: 0,
+  commission_percentage: 10
+}
+
+describe('evaluateSensitivity', () => {
+  it('descuenta vacancia, comisión y gastos del NOI usado en el CAP rate', () => {
+    expect(evaluateSensitivity(base)).toEqual({ cap_rate_percentage: 4.2, net_annual_income_clp: 4200000 })
+    expect(evaluateSensitivity({ ...base, vacancy_months: 1 })).toEqual({ cap_rate_percentage: 3.75, net_annual_income_clp: 3750000 })
+  })
+})
+
+describe('applySensitivityChange', () => {
+  it('varía en % los montos, en meses la vacancia y en puntos la comisión, sin bajar de cero', () => {
+    expect(applySensitivityChange(base, 'rent', -10).monthly_rent_clp).toBe(450000)
+    expect(applySensitivityChange(base, 'maintenance', 20).expenses.maintenance_clp).toBe(1440000)
+    expect(applySensitivityChange(base, 'vacancy', -1).vacancy_months).toBe(0)
+    expect(applySensitivityChange(base, 'commission', 2).commission_percentage).toBe(12)
+    expect(applySensitivityChange(base, 'commission', -20).commission_percentage).toBe(0)
+  })
+})
+
+describe('calculateTornado', () => {
+  it('ordena las variables de mayor a menor impacto en el CAP rate', () => {
+    const bars = calculateTornado(base)
+
+    expect(bars.map(bar => [bar.variable, bar.swing])).toEqual([
+      ['rent', expect.closeTo(1.08, 6)],
+      ['property_value', expect.closeTo(0.85, 6)],
+      ['maintenance', expect.closeTo(0.48, 6)],
+      ['vacancy', expect.closeTo(0.45, 6)],
+      ['commission', expect.closeTo(0.24, 6)],
+      ['property_tax', 0],
+      ['insurance', 0]
+    ])
+    expect(bars[0]).toMatchObject({
+      low_change: -10,
+      high_change: 10,
+      low: { cap_rate_percentage: 3.66 },
+      high: { cap_rate_percentage: 4.74 }
+    })
+  })
+
+  it('puede ordenar por ingreso neto', () => {
+    const bars = calculateTornado(base, undefined, 'net_income')
+
+    // El valor de la propiedad no mueve el ingreso neto
+    expect(bars[0]).toMatchObject({ variable: 'rent', swing: 1080000 })
+    expect(bars.find(bar => bar.variable === 'property_value')?.swing).toBe(0)
+  })
+})
+
+describe('calculateSensitivityGrid', () => {
+  it('cruza los meses vacantes (filas) con el cambio de arriendo (columnas)', () => {
+    const grid = calculateSensitivityGrid(base, [-10, 0, 10], [0, 1])
+
+    expect(grid.cells).toHaveLength(2)
+    expect(grid.cells[0]).toHaveLength(3)
+    expect(grid.cells[0][1]).toEqual(evaluateSensitivity(base))
+    expect(grid.cells[1][1]).toEqual(evaluateSensitivity({ ...base, vacancy_months: 1 }))
+    expect(grid.cells[1][0].cap_rate_percentage).toBeLessThan(grid.cells[0][2].cap_rate_percentage)
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import type { ComparableProperty } from '@/types/rental'
+import {
+  DEFAULT_SIMILARITY_WEIGHTS,
+  calculateSimilarityScore,
+  parseAmenities,
+  scoreComparables,
+  similarityComponents,
+  weightsForOffice
+} from '@/lib/similarity'
+
+const comparable: ComparableProperty = {
+  id: 1,
+  address: 'Suecia 400, Providencia',
+  size_m2: 50,
+  bedrooms: 2,
+  bathrooms: 1,
+  parking_spaces: 1,
+  storage_units: 0,
+  rent_clp: 550000,
+  price_per_m2: 11000
+}
+
+describe('calculateSimilarityScore', () => {
+  it('un comparable idéntico obtiene 100', () => {
+    const subject = { size_m2: 50, bedrooms: 2, bathrooms: 1, parking_spaces: 1 }
+
+    expect(calculateSimilarityScore(subject, comparable).similarity_score).toBe(100)
+  })
+
+  it('pondera solo los criterios con datos en ambos lados', () => {
+    // Tamaño 20% distinto: 1 - 0,2 / 0,5 = 0,6; dormitorios iguales. (0,6 × 25 + 1 × 15) / 40 = 75
+    const result = calculateSimilarityScore({ size_m2: 50, bedrooms: 2, year_built: 2015 }, { ...comparable, size_m2: 60 })
+
+    expect(result).toEqual({ similarity_score: 75, distance_km: undefined })
+  })
+
+  it('usa los pesos de la oficina y deja fuera los criterios con peso cero', () => {
+    const weights = { ...DEFAULT_SIMILARITY_WEIGHTS, size: 0 }
+    const result = calculateSimilarityScore({ size_m2: 50, bedrooms: 2 }, { ...comparable, size_m2: 60 }, weights)
+
+    expect(result.similarity_score).toBe(100)
+  })
+
+  it('sin criterios comparables no entrega puntaje', () => {
+    expect(calculateSimilarityScore({}, comparable).similarity_score).toBeUndefined()
+  })
+})
+
+describe('similarityComponents', () => {
+  it('puntúa orientación por pasos de 45° y amenidades por Jaccard', () => {
+    const { scores } = similarityComponents(
+      { orientation: 'N', amenities: ['piscina', 'gimnasio', 'quincho'] },
+      { ...comparable, orientation: 'NE', amenities: ['piscina', 'gimnasio', 'ascensor'] }
+    )
+
+    expect(scores.orientation).toBe(0.75)
+    expect(scores.amenities).toBe(0.5)
+    expect(similarityComponents({ orientation: 'N' }, { ...comparable, orientation: 'S' }).scores.orientation).toBe(0)
+  })
+
+  it('la distancia llega a cero a los 3 km', () => {
+    const subject = { lat: -33.42, lon: -70.6 }
+    const near = similarityComponents(subject, { ...comparable, lat: -33.42, lon: -70.6 })
+    const far = similarityComponents(subject, { ...comparable, lat: -33.46, lon: -70.6 })
+
+    expect(near).toMatchObject({ scores: { distance: 1 }, distance_km: 0 })
+    expect(far.distance_km).toBeGreaterThan(3)
+    expect(far.scores.distance).toBe(0)
+  })
+})
+
+describe('scoreComparables', () => {
+  it('agrega el puntaje y la distancia a cada comparable', () => {
+    const [scored] = scoreComparables([{ ...comparable, lat: -33.42, lon: -70.6 }], { size_m2: 50, lat: -33.42, lon: -70.6 })
+
+    expect(scored).toMatchObject({ id: 1, similarity_score: 100, distance_km: 0 })
+  })
+})
+
+describe('weightsForOffice', () => {
+  it('completa los pesos de la oficina con los por defecto', () => {
+    expect(weightsForOffice({ norte: { ...DEFAULT_SIMILARITY_WEIGHTS, size: 40 } }, 'norte').size).toBe(40)
+    expect(weightsForOffice({}, 'sur')).toEqual(DEFAULT_SIMILARITY_WEIGHTS)
+  })
+})
+
+describe('parseAmenities', () => {
+  it('ignora las amenidades desconocidas', () => {
+    expect(parseAmenities('piscina, sauna ,gimnasio')).toEqual(['piscina', 'gimnasio'])
+    expect(parseAmenities(undefined)).toEqual([])
+  })
+})
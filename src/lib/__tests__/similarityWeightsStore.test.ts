@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DEFAULT_OFFICE_ID, DEFAULT_SIMILARITY_WEIGHTS } from '@/lib/similarity'
+import { createMemoryDocumentStore } from '@/lib/documentStore'
+import {
+  getOfficeSimilarityWeights,
+  getSimilarityWeightsForOffice,
+  saveOfficeSimilarityWeights,
+  setSimilarityWeightsStore,
+  type SimilarityWeightsDocument
+} from '@/lib/similarityWeightsStore'
+
+describe('pesos de similitud por oficina', () => {
+  beforeEach(() => {
+    setSimilarityWeightsStore(createMemoryDocumentStore<SimilarityWeightsDocument>({ offices: {} }))
+  })
+
+  it('conserva los pesos de cada oficina aunque se guarden a la vez', async () => {
+    const norte = { ...DEFAULT_SIMILARITY_WEIGHTS, size: 60 }
+    const sur = { ...DEFAULT_SIMILARITY_WEIGHTS, distance: 80 }
+
+    await Promise.all([saveOfficeSimilarityWeights('norte', norte), saveOfficeSimilarityWeights('sur', sur)])
+
+    expect(await getOfficeSimilarityWeights()).toEqual({ norte, sur })
+  })
+
+  it('sin pesos en el análisis el servidor usa los de la oficina, o los de la principal si no se indica', async () => {
+    await saveOfficeSimilarityWeights(DEFAULT_OFFICE_ID, { ...DEFAULT_SIMILARITY_WEIGHTS, size: 40 })
+    await saveOfficeSimilarityWeights('norte', { ...DEFAULT_SIMILARITY_WEIGHTS, size: 60 })
+
+    expect((await getSimilarityWeightsForOffice('norte')).size).toBe(60)
+    expect((await getSimilarityWeightsForOffice()).size).toBe(40)
+    expect(await getSimilarityWeightsForOffice('sin-pesos')).toEqual(DEFAULT_SIMILARITY_WEIGHTS)
+  })
+})
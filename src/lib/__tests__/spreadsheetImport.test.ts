@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { deflateRawSync } from 'zlib'
+import { readXlsx } from '@/lib/spreadsheetImport'
+
+interface ZipPart {
+  name: string
+  content: Uint8Array
+  deflate?: boolean // Comprimida con deflate (método 8); si no, guardada sin compresión
+}
+
+// .xlsx mínimo: un zip con las partes indicadas, sin comentario ni datos extra
+function xlsxWithParts(parts: ZipPart[]): ArrayBuffer {
+  const encoded = parts.map(part => ({
+    ...part,
+    nameBytes: new TextEncoder().encode(part.name),
+    data: part.deflate ? new Uint8Array(deflateRawSync(part.content)) : part.content
+  }))
+  const localSize = encoded.reduce((sum, part) => sum + 30 + part.nameBytes.length + part.data.length, 0)
+  const centralSize = encoded.reduce((sum, part) => sum + 46 + part.nameBytes.length, 0)
+  const bytes = new Uint8Array(localSize + centralSize + 22)
+  const view = new DataView(bytes.buffer)
+
+  let local = 0
+  let central = localSize
+  for (const part of encoded) {
+    const method = part.deflate ? 8 : 0
+    view.setUint32(local, 0x04034b50, true)
+    view.setUint16(local + 8, method, true)
+    view.setUint32(local + 18, part.data.length, true)
+    view.setUint32(local + 22, part.content.length, true)
+    view.setUint16(local + 26, part.nameBytes.length, true)
+    bytes.set(part.nameBytes, local + 30)
+    bytes.set(part.data, local + 30 + part.nameBytes.length)
+
+    view.setUint32(central, 0x02014b50, true)
+    view.setUint16(central + 10, method, true)
+    view.setUint32(central + 20, part.data.length, true)
+    view.setUint32(central + 24, part.content.length, true)
+    view.setUint16(central + 28, part.nameBytes.length, true)
+    view.setUint32(central + 42, local, true)
+    bytes.set(part.nameBytes, central + 46)
+
+    local += 30 + part.nameBytes.length + part.data.length
+    central += 46 + part.nameBytes.length
+  }
+
+  const end = localSize + centralSize
+  view.setUint32(end, 0x06054b50, true)
+  view.setUint16(end + 8, encoded.length, true)
+  view.setUint16(end + 10, encoded.length, true)
+  view.setUint32(end + 12, centralSize, true)
+  view.setUint32(end + 16, localSize, true)
+  return bytes.buffer
+}
+
+function xlsxWithSheet(sheetXml: string): ArrayBuffer {
+  return xlsxWithParts([{ name: 'xl/worksheets/sheet1.xml', content: new TextEncoder().encode(sheetXml) }])
+}
+
+// XML de relleno que se comprime a casi nada
+const padding = (megabytes: number) => new Uint8Array(megabytes * 1024 * 1024).fill(0x20)
+
+const sheet = (rows: string) => `<worksheet><sheetData>${rows}</sheetData></worksheet>`
+
+describe('readXlsx', () => {
+  it('ubica las filas y celdas según sus referencias', async () => {
+    const rows = await readXlsx(xlsxWithSheet(sheet(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>Dirección</t></is></c><c r="C1"><v>55</v></c></row>' +
+      '<row r="3"><c r="B3" t="b"><v>1</v></c></row>'
+    )))
+
+    expect(rows).toEqual([['Dirección', '', '55'], [], ['', 'VERDADERO']])
+  })
+
+  it('rechaza un número de fila fuera del límite antes de armar las filas', async () => {
+    const huge = xlsxWithSheet(sheet('<row r="4000000000"><c r="A4000000000"><v>1</v></c></row>'))
+    await expect(readXlsx(huge)).rejects.toThrow('más de 5000 filas')
+  })
+
+  it('rechaza columnas fuera del límite', async () => {
+    const wide = xlsxWithSheet(sheet('<row r="1"><c r="XFD1"><v>1</v></c></row>'))
+    await expect(readXlsx(wide)).rejects.toThrow('más de 200 columnas')
+  })
+  it('lee las partes comprimidas con deflate', async () => {
+    const xml = sheet('<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1"><v>520000</v></c></row>')
+    const rows = await readXlsx(xlsxWithParts([
+      { name: 'xl/sharedStrings.xml', content: new TextEncoder().encode('<sst><si><t>Providencia</t></si></sst>'), deflate: true },
+      { name: 'xl/worksheets/sheet1.xml', content: new TextEncoder().encode(xml), deflate: true }
+    ]))
+
+    expect(rows).toEqual([['Providencia', '520000']])
+  })
+
+  it('deja de descomprimir una parte que se infla sobre el tope', async () => {
+    const bomb = xlsxWithParts([{ name: 'xl/worksheets/sheet1.xml', content: padding(41), deflate: true }])
+
+    expect(bomb.byteLength).toBeLessThan(100 * 1024)
+    await expect(readXlsx(bomb)).rejects.toThrow('descomprimido supera')
+  })
+
+  it('suma lo descomprimido de todas las partes contra el tope del archivo', async () => {
+    const bomb = xlsxWithParts([
+      { name: 'xl/sharedStrings.xml', content: padding(35), deflate: true },
+      { name: 'xl/worksheets/sheet1.xml', content: padding(30), deflate: true }
+    ])
+
+    await expect(readXlsx(bomb)).rejects.toThrow('descomprimido supera')
+  })
+})
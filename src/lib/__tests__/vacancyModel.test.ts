@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import type { RentalPlan } from '@/types/rental'
+import { calculatePlanVacancyImpact } from '@/lib/vacancyModel'
+import { SIMULATION_DEFAULTS } from '@/lib/rentalSimulation'
+
+function plan(initialRent: number, schedule: Array<{ day: number; new_rent_clp: number }> = []): RentalPlan {
+  return {
+    id: 'A',
+    name: 'Plan A',
+    description: '',
+    initial_rent_clp: initialRent,
+    commission_percentage: 8,
+    marketing_duration_days: 60,
+    service_level: 'standard',
+    price_adjustment_schedule: schedule.map(adjustment => ({
+      ...adjustment,
+      percentage_reduction: Math.round((1 - adjustment.new_rent_clp / initialRent) * 100)
+    }))
+  }
+}
+
+describe('calculatePlanVacancyImpact', () => {
+  it('a precio de mercado y sin ajustes sigue una espera geométrica cortada en el horizonte', () => {
+    const p = SIMULATION_DEFAULTS.BASE_DAILY_PROBABILITY
+    const horizon = SIMULATION_DEFAULTS.MAX_DAYS
+    // E[min(D, horizonte)] con D geométrica desde el día 0
+    const expectedDays = ((1 - p) * (1 - Math.pow(1 - p, horizon))) / p
+
+    const impact = calculatePlanVacancyImpact(plan(600000), 600000)
+    const vacantMonths = expectedDays / 30
+
+    expect(impact.days_vacant).toBe(Math.round(expectedDays))
+    expect(impact.lost_income_clp).toBeCloseTo(600000 * vacantMonths, -1)
+    expect(impact.break_even_reduction_percentage).toBeCloseTo((vacantMonths / (12 - vacantMonths)) * 100, 2)
+    expect(impact.windows).toEqual([{ from_day: 0, to_day: horizon, rent_clp: 600000, closing_probability: 1 }])
+  })
+
+  it('reparte la probabilidad de cierre entre los tramos del cronograma', () => {
+    const impact = calculatePlanVacancyImpact(plan(700000, [{ day: 15, new_rent_clp: 650000 }, { day: 30, new_rent_clp: 600000 }]), 600000)
+
+    expect(impact.windows?.map(window => [window.from_day, window.to_day, window.rent_clp])).toEqual([
+      [0, 15, 700000],
+      [15, 30, 650000],
+      [30, SIMULATION_DEFAULTS.MAX_DAYS, 600000]
+    ])
+    const total = impact.windows!.reduce((sum, window) => sum + window.closing_probability, 0)
+    expect(total).toBeCloseTo(1, 2)
+  })
+
+  it('publicar sobre el mercado alarga la vacancia', () => {
+    const atMarket = calculatePlanVacancyImpact(plan(600000), 600000)
+    const overMarket = calculatePlanVacancyImpact(plan(660000), 600000)
+
+    expect(overMarket.days_vacant).toBeGreaterThan(atMarket.days_vacant)
+  })
+
+  it('un plan sin arriendo no tiene costo de vacancia', () => {
+    expect(calculatePlanVacancyImpact(plan(0), 600000)).toMatchObject({ days_vacant: 0, lost_income_clp: 0, windows: [] })
+  })
+})
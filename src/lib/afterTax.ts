@@ -0,0 +1,62 @@
+/*
+Domain: After-Tax Returns
+Responsibility: Estimación del impuesto a la renta del propietario y de la rentabilidad después de impuestos
+Dependencies: lib/taxRules, tipos de rental
+*/
+
+import type { AfterTaxReturns, TaxInput } from '@/types/rental'
+import { resolveTaxRules } from '@/lib/taxRules'
+
+export interface AfterTaxParams {
+  tax: TaxInput
+  netOperatingIncome: number // Arriendo cobrado menos gastos del propietario (contribuciones incluidas)
+  propertyTaxClp: number // Contribuciones pagadas en el año
+  propertyValueClp: number
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function isTaxInputComplete(tax: TaxInput | undefined): tax is TaxInput {
+  return !!tax && Number.isInteger(tax.marginal_bracket_index) && tax.marginal_bracket_index >= 0
+}
+
+// Estimación simplificada: el arriendo neto se suma a los demás ingresos del propietario y tributa a su tasa
+// marginal. Si las contribuciones se descuentan como crédito, no se descuentan además como gasto: la base
+// imponible las suma de vuelta al ingreso neto. El arriendo de una vivienda DFL-2 queda exento solo si el
+// propietario no pasa del límite de viviendas DFL-2 del año
+export function calculateAfterTaxReturns(params: AfterTaxParams): AfterTaxReturns {
+  const rules = resolveTaxRules(params.tax.tax_year)
+  const bracketIndex = Math.min(params.tax.marginal_bracket_index, rules.brackets.length - 1)
+  const marginalRate = rules.brackets[bracketIndex].rate_percentage
+  const netOperatingIncome = params.netOperatingIncome
+  const propertyTax = Math.max(0, params.propertyTaxClp)
+
+  const dfl2Exempt = params.tax.is_dfl2 && (params.tax.dfl2_properties_owned ?? 1) <= rules.dfl2_max_properties
+  const taxableIncome = dfl2Exempt
+    ? 0
+    : Math.max(0, netOperatingIncome + (rules.contribuciones_credit ? propertyTax : 0))
+  const grossTax = taxableIncome * (marginalRate / 100)
+  const contribucionesCredit = rules.contribuciones_credit ? Math.min(grossTax, propertyTax) : 0
+  const annualTax = grossTax - contribucionesCredit
+  const afterTaxIncome = netOperatingIncome - annualTax
+
+  return {
+    tax: params.tax,
+    tax_year: rules.tax_year,
+    marginal_rate_percentage: marginalRate,
+    taxable_income_clp: Math.round(taxableIncome),
+    gross_tax_clp: Math.round(grossTax),
+    contribuciones_credit_clp: Math.round(contribucionesCredit),
+    annual_tax_clp: Math.round(annualTax),
+    after_tax_income_clp: Math.round(afterTaxIncome),
+    after_tax_yield_percentage: params.propertyValueClp > 0
+      ? round2((afterTaxIncome / params.propertyValueClp) * 100)
+      : 0,
+    effective_tax_rate_percentage: netOperatingIncome > 0
+      ? round2((annualTax / netOperatingIncome) * 100)
+      : 0,
+    dfl2_exempt: dfl2Exempt
+  }
+}
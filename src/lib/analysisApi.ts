@@ -0,0 +1,92 @@
+/*
+Domain: Analysis Persistence
+Responsibility: Acceso a los análisis guardados desde el navegador a través de /api/analyses (lista, historial
+  y restauración), y subida única de los análisis que quedaron en localStorage antes de existir el almacenamiento
+  del servidor
+Dependencies: fetch, lib/localStorage, tipos de saved-analysis
+*/
+
+import type { AnalysisHistoryResponse, AnalysisListResponse, SavedAnalysis } from '@/types/saved-analysis'
+import { AnalysisStorage } from '@/lib/localStorage'
+
+// Máximo que acepta la paginación de /api/analyses
+const PAGE_SIZE = 100
+
+export interface AnalysisImportResult {
+  imported: string[]
+  skipped: string[]
+  rejected: Array<{ index: number; errors: string[] }>
+}
+
+// Todos los análisis del servidor (recorre las páginas)
+export async function fetchAllAnalyses(): Promise<SavedAnalysis[]> {
+  const analyses: SavedAnalysis[] = []
+
+  for (let page = 1; ; page++) {
+    const response = await fetch(`/api/analyses?page=${page}&pageSize=${PAGE_SIZE}`)
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'No se pudieron obtener los análisis')
+    }
+
+    const list = data as AnalysisListResponse
+    analyses.push(...list.analyses)
+    if (!list.hasMore) return analyses
+  }
+}
+
+// Guarda análisis ya calculados (análisis rápido o copias locales) como borradores; los ids existentes no se
+// sobrescriben
+export async function importAnalyses(analyses: SavedAnalysis[]): Promise<AnalysisImportResult> {
+  const response = await fetch('/api/analyses/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ analyses })
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'No se pudieron guardar los análisis')
+  }
+  return data
+}
+
+// Sube una vez los análisis de localStorage. Si falla se reintenta en la próxima carga
+export async function importLocalAnalysesOnce(): Promise<AnalysisImportResult | null> {
+  if (AnalysisStorage.isServerImportDone()) return null
+
+  const localAnalyses = AnalysisStorage.getAll()
+  if (localAnalyses.length === 0) {
+    AnalysisStorage.markServerImportDone()
+    return null
+  }
+
+  const result = await importAnalyses(localAnalyses)
+  AnalysisStorage.markServerImportDone()
+  if (result.rejected.length > 0) {
+    console.warn('Algunos análisis locales no se pudieron subir al servidor:', result.rejected)
+  }
+  return result
+}
+
+export async function fetchAnalysisHistory(id: string): Promise<AnalysisHistoryResponse> {
+  const response = await fetch(`/api/analyses/${encodeURIComponent(id)}/history`)
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'No se pudo obtener el historial')
+  }
+  return data
+}
+
+// Vuelve el análisis al estado de una revisión (queda registrado como una revisión nueva)
+export async function restoreAnalysisRevision(id: string, revision: number): Promise<SavedAnalysis> {
+  const response = await fetch(`/api/analyses/${encodeURIComponent(id)}/restore`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ revision })
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'No se pudo restaurar la revisión')
+  }
+  return data.analysis
+}
@@ -0,0 +1,121 @@
+/*
+Domain: Analysis Persistence
+Responsibility: Historial de cambios de los análisis: diferencias campo a campo entre dos versiones, nombres
+  legibles de los campos para mostrarlas y autor de cada cambio
+Dependencies: tipos de saved-analysis
+*/
+
+import type { AnalysisFieldChange, SavedAnalysis } from '@/types/saved-analysis'
+
+// Cambian en cada guardado y no aportan al historial
+const IGNORED_PATHS = ['metadata.updated_at', 'property.location.geocoded_at']
+
+export const ANONYMOUS_AUTHOR = 'anónimo'
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function collectChanges(before: unknown, after: unknown, path: string, changes: AnalysisFieldChange[]): void {
+  if (IGNORED_PATHS.includes(path)) return
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let index = 0; index < Math.max(before.length, after.length); index++) {
+      collectChanges(before[index], after[index], `${path}[${index}]`, changes)
+    }
+    return
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort()
+    for (const key of keys) {
+      collectChanges(before[key], after[key], path ? `${path}.${key}` : key, changes)
+    }
+    return
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, before, after })
+  }
+}
+
+// Campos que cambiaron de una versión a otra (los comparables se comparan por posición en la lista)
+export function diffAnalyses(before: SavedAnalysis, after: SavedAnalysis): AnalysisFieldChange[] {
+  const changes: AnalysisFieldChange[] = []
+  collectChanges(before, after, '', changes)
+  return changes
+}
+
+// Autor del cambio: cabecera x-broker-email o, si no viene, el primer correo conocido del análisis
+export function resolveAuthor(request: Request, ...fallbacks: Array<string | undefined>): string {
+  const fromHeader = request.headers.get('x-broker-email')?.trim()
+  return fromHeader || fallbacks.find(candidate => candidate && candidate.trim())?.trim() || ANONYMOUS_AUTHOR
+}
+
+const SECTION_LABELS: Record<string, string> = {
+  property: 'Propiedad',
+  analysis: 'Análisis',
+  calculations: 'Cálculos',
+  metadata: 'Datos generales',
+  comparable_properties: 'Comparable',
+  annual_expenses: 'Gastos',
+  financing: 'Crédito',
+  tax: 'Impuestos',
+  location: 'Ubicación',
+  plan_comparisons: 'Plan',
+  market_benchmark: 'Referencia de mercado'
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Título',
+  address: 'Dirección',
+  value_clp: 'Valor (CLP)',
+  value_uf: 'Valor (UF)',
+  size_m2: 'Superficie (m²)',
+  bedrooms: 'Dormitorios',
+  bathrooms: 'Baños',
+  parking_spaces: 'Estacionamientos',
+  storage_units: 'Bodegas',
+  suggested_rent_clp: 'Arriendo sugerido (CLP)',
+  suggested_rent_uf: 'Arriendo sugerido (UF)',
+  capture_price_clp: 'Precio de captación (CLP)',
+  rent_clp: 'Arriendo',
+  link: 'Publicación',
+  similarity_score: 'Similitud',
+  distance_km: 'Distancia (km)',
+  uf_value_clp: 'Valor UF',
+  cap_rate: 'Cap rate',
+  annual_rental_yield: 'Rentabilidad anual',
+  monthly_net_income: 'Ingreso neto mensual',
+  status: 'Estado',
+  notes: 'Notas',
+  tags: 'Etiquetas',
+  broker_email: 'Corredor',
+  client_email: 'Correo del cliente',
+  client_name: 'Cliente',
+  expires_at: 'Vencimiento',
+  reminders_sent: 'Recordatorios enviados'
+}
+
+// "analysis.comparable_properties[1].rent_clp" → "Análisis › Comparable 2 › Arriendo"
+export function describeFieldPath(path: string): string {
+  return path
+    .split('.')
+    .map(segment => {
+      const match = segment.match(/^([^[]+)((?:\[\d+\])*)$/)
+      if (!match) return segment
+      const [, key, indexes] = match
+      const label = SECTION_LABELS[key] || FIELD_LABELS[key] || key
+      const positions = indexes ? indexes.slice(1, -1).split('][').map(index => parseInt(index) + 1) : []
+      return positions.length > 0 ? `${label} ${positions.join('.')}` : label
+    })
+    .join(' › ')
+}
+
+export function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'number') return value.toLocaleString('es-CL')
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No'
+  if (typeof value === 'string') return value
+  const text = JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text
+}
@@ -0,0 +1,126 @@
+/*
+Domain: Analysis Persistence
+Responsibility: Migraciones de los análisis guardados entre versiones de esquema (schemaVersion): una cadena de
+  pasos que se aplica al cargar e importar, y cuarentena de los registros que no se pueden migrar o validar
+Dependencies: lib/comparables, lib/validation, tipos de saved-analysis
+*/
+
+import { SAVED_ANALYSIS_SCHEMA_VERSION, type QuarantinedAnalysis, type SavedAnalysis } from '@/types/saved-analysis'
+import { migrateSavedAnalysisComparables } from '@/lib/comparables'
+import { validateSavedAnalysisRecord } from '@/lib/validation'
+
+interface AnalysisMigration {
+  from: number // Versión de entrada; el resultado queda en from + 1
+  description: string
+  migrate: (record: Record<string, any>) => Record<string, any>
+}
+
+// Un paso por cada cambio de forma. Los registros sin versión (versión 0) pueden venir de cualquier momento
+// anterior al versionado, por eso los pasos desde 0 y 1 no suponen nada y solo completan lo que falta.
+const MIGRATIONS: AnalysisMigration[] = [
+  {
+    from: 0,
+    description: 'comparables comparable_1/2/3 y valores de texto a la lista analysis.comparable_properties',
+    migrate: record => migrateSavedAnalysisComparables(record as SavedAnalysis).analysis
+  },
+  {
+    from: 1,
+    description: 'gastos del propietario ítem por ítem (antes solo mantención, contribuciones y seguro)',
+    // Los ítems que faltan quedan en cero: así los indicadores recalculados coinciden con los guardados
+    migrate: record => ({
+      ...record,
+      analysis: {
+        ...record.analysis,
+        annual_expenses: {
+          common_expenses_monthly_clp: 0,
+          common_expenses_paid_by: 'tenant',
+          administration_percentage: 0,
+          repairs_reserve_percentage: 0,
+          lease_commission_percentage: 0,
+          other_one_off_costs_clp: 0,
+          ...record.analysis?.annual_expenses
+        }
+      }
+    })
+  }
+]
+
+export interface AnalysisMigrationResult {
+  analysis?: SavedAnalysis
+  fromVersion?: number
+  changed: boolean
+  errors: string[]
+}
+
+export function migrateSavedAnalysis(record: unknown): AnalysisMigrationResult {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { changed: false, errors: ['El registro no es un análisis'] }
+  }
+
+  const stored = record as Record<string, any>
+  const fromVersion = stored.schemaVersion === undefined ? 0 : stored.schemaVersion
+  if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+    return { changed: false, errors: [`Versión de esquema inválida: ${stored.schemaVersion}`] }
+  }
+  if (fromVersion > SAVED_ANALYSIS_SCHEMA_VERSION) {
+    return {
+      fromVersion,
+      changed: false,
+      errors: [`El análisis es de una versión más nueva (${fromVersion}) que la de esta aplicación (${SAVED_ANALYSIS_SCHEMA_VERSION})`]
+    }
+  }
+
+  let migrated = stored
+  for (const migration of MIGRATIONS.filter(step => step.from >= fromVersion)) {
+    try {
+      migrated = migration.migrate(migrated)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { fromVersion, changed: false, errors: [`Falló la migración ${migration.from}→${migration.from + 1} (${migration.description}): ${message}`] }
+    }
+  }
+
+  const validation = validateSavedAnalysisRecord({ ...migrated, schemaVersion: SAVED_ANALYSIS_SCHEMA_VERSION })
+  if (!validation.isValid) {
+    return { fromVersion, changed: false, errors: validation.errors }
+  }
+
+  return {
+    analysis: validation.data,
+    fromVersion,
+    changed: fromVersion !== SAVED_ANALYSIS_SCHEMA_VERSION || migrated !== stored,
+    errors: []
+  }
+}
+
+// Migra una lista completa; changed indica que conviene volver a guardarla
+export function migrateSavedAnalyses(records: unknown[], now: Date = new Date()): {
+  analyses: SavedAnalysis[]
+  quarantined: QuarantinedAnalysis[]
+  changed: boolean
+} {
+  const analyses: SavedAnalysis[] = []
+  const quarantined: QuarantinedAnalysis[] = []
+  let changed = false
+
+  for (const record of records) {
+    const result = migrateSavedAnalysis(record)
+    if (result.analysis) {
+      analyses.push(result.analysis)
+      changed = changed || result.changed
+      continue
+    }
+
+    const stored = (record && typeof record === 'object' ? record : {}) as Record<string, any>
+    quarantined.push({
+      id: typeof stored.id === 'string' ? stored.id : undefined,
+      schemaVersion: result.fromVersion,
+      reasons: result.errors,
+      quarantined_at: now.toISOString(),
+      record
+    })
+    changed = true
+  }
+
+  return { analyses, quarantined, changed }
+}
@@ -0,0 +1,310 @@
+/*
+Domain: Analysis Persistence
+Responsibility: Repositorio de análisis guardados del servidor: una interfaz común con una implementación en
+  archivo JSON (escritura atómica y serializada, migración de esquema al cargar) y otra en memoria para pruebas.
+  También el historial de revisiones, al que solo se agregan registros (JSON Lines)
+Dependencies: fs, lib/config, lib/analysisMigrations, tipos de saved-analysis
+*/
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { AnalysisRevision, QuarantinedAnalysis, SavedAnalysis } from '@/types/saved-analysis'
+import { STORAGE_CONFIG } from '@/lib/config'
+import { migrateSavedAnalyses } from '@/lib/analysisMigrations'
+
+// Recibe el análisis guardado (undefined si no existe) y devuelve el que se guarda, o undefined para no escribir
+export type AnalysisChange = (current: SavedAnalysis | undefined) => SavedAnalysis | undefined
+
+export interface AnalysisWrite {
+  previous?: SavedAnalysis
+  saved?: SavedAnalysis // undefined si el cambio decidió no escribir
+}
+
+export interface AnalysisRepository {
+  list(): Promise<SavedAnalysis[]>
+  get(id: string): Promise<SavedAnalysis | undefined>
+  // Lee, aplica el cambio y guarda como un solo paso: ninguna otra escritura corre entre la lectura y el guardado.
+  // afterWrite corre dentro del mismo paso (el historial recibe las revisiones en el orden de las escrituras)
+  update(
+    id: string,
+    change: AnalysisChange,
+    afterWrite?: (previous: SavedAnalysis | undefined, saved: SavedAnalysis) => Promise<void>
+  ): Promise<AnalysisWrite>
+  delete(id: string, afterDelete?: (deleted: SavedAnalysis) => Promise<void>): Promise<boolean>
+}
+
+export interface AnalysisHistoryRepository {
+  // Asigna el número de revisión siguiente del análisis
+  append(revision: Omit<AnalysisRevision, 'revision'>): Promise<AnalysisRevision>
+  list(analysisId: string): Promise<AnalysisRevision[]> // De la más antigua a la más reciente
+}
+
+interface AnalysesFile {
+  analyses: SavedAnalysis[]
+  quarantined?: QuarantinedAnalysis[] // Registros que no se pudieron migrar; no se listan pero no se pierden
+}
+
+// Copias independientes: quien recibe un análisis no puede modificar lo guardado sin llamar a update
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+// Encadena las operaciones para que corran de a una
+function createQueue() {
+  let queue: Promise<unknown> = Promise.resolve()
+  return {
+    idle: () => queue,
+    run<R>(operation: () => Promise<R>): Promise<R> {
+      const result = queue.then(operation)
+      queue = result.catch(() => undefined)
+      return result
+    }
+  }
+}
+
+// Paso de update común a ambas implementaciones; persist escribe la colección ya modificada
+async function applyChange(
+  analyses: Map<string, SavedAnalysis>,
+  id: string,
+  change: AnalysisChange,
+  persist: () => Promise<void>,
+  afterWrite?: (previous: SavedAnalysis | undefined, saved: SavedAnalysis) => Promise<void>
+): Promise<AnalysisWrite> {
+  const stored = analyses.get(id)
+  const previous = stored && clone(stored)
+  const next = change(stored && clone(stored))
+  if (!next) return { previous }
+
+  if (next.id !== id) throw new Error(`El cambio del análisis ${id} no puede cambiar su id`)
+  analyses.set(id, clone(next))
+  await persist()
+  if (afterWrite) await afterWrite(previous && clone(previous), clone(next))
+  return { previous, saved: clone(next) }
+}
+
+export function createMemoryAnalysisRepository(initial: SavedAnalysis[] = []): AnalysisRepository {
+  const analyses = new Map(initial.map(analysis => [analysis.id, clone(analysis)]))
+  const queue = createQueue()
+
+  return {
+    async list() {
+      await queue.idle()
+      return Array.from(analyses.values()).map(clone)
+    },
+    async get(id) {
+      await queue.idle()
+      const analysis = analyses.get(id)
+      return analysis && clone(analysis)
+    },
+    update(id, change, afterWrite) {
+      return queue.run(() => applyChange(analyses, id, change, async () => undefined, afterWrite))
+    },
+    delete(id, afterDelete) {
+      return queue.run(async () => {
+        const deleted = analyses.get(id)
+        if (!deleted) return false
+        analyses.delete(id)
+        if (afterDelete) await afterDelete(clone(deleted))
+        return true
+      })
+    }
+  }
+}
+
+// Todo el archivo se reescribe en cada cambio: se escribe a un temporal y se renombra para no dejarlo a medias,
+// y las escrituras se encadenan para que dos solicitudes simultáneas no se pisen
+export function createFileAnalysisRepository(filePath: string = STORAGE_CONFIG.ANALYSES_FILE): AnalysisRepository {
+  const absolutePath = path.resolve(process.cwd(), filePath)
+  let loading: Promise<Map<string, SavedAnalysis>> | null = null
+  let quarantined: QuarantinedAnalysis[] = []
+  const queue = createQueue()
+
+  const read = async (): Promise<Map<string, SavedAnalysis>> => {
+    let content: string
+    try {
+      content = await fs.readFile(absolutePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      quarantined = []
+      return new Map()
+    }
+
+    // Un archivo ilegible no se trata como vacío: la siguiente escritura borraría los análisis
+    const parsed = JSON.parse(content) as AnalysesFile
+    if (!parsed || !Array.isArray(parsed.analyses)) {
+      throw new Error(`El archivo de análisis ${filePath} no tiene el formato esperado`)
+    }
+
+    // Los registros de versiones anteriores se migran y el archivo se reescribe una vez
+    const migration = migrateSavedAnalyses(parsed.analyses)
+    quarantined = [...(parsed.quarantined || []), ...migration.quarantined]
+    const current = new Map(migration.analyses.map(analysis => [analysis.id, analysis]))
+    if (migration.quarantined.length > 0) {
+      console.warn(`${migration.quarantined.length} análisis no se pudieron migrar y quedaron en cuarentena en ${filePath}`)
+    }
+    if (migration.changed) {
+      await persist(current)
+    }
+    return current
+  }
+
+  // Una sola lectura compartida por las solicitudes simultáneas; si falla se reintenta en la siguiente
+  const load = (): Promise<Map<string, SavedAnalysis>> => {
+    if (!loading) {
+      loading = read().catch(error => {
+        loading = null
+        throw error
+      })
+    }
+    return loading
+  }
+
+  const persist = async (current: Map<string, SavedAnalysis>) => {
+    const data: AnalysesFile = { analyses: Array.from(current.values()), quarantined }
+    const temporaryPath = `${absolutePath}.${process.pid}.tmp`
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+    await fs.writeFile(temporaryPath, JSON.stringify(data), 'utf8')
+    await fs.rename(temporaryPath, absolutePath)
+  }
+
+  // Las modificaciones corren de a una; si la escritura falla se descarta la copia en memoria y se relee el archivo
+  const enqueue = <T>(operation: (current: Map<string, SavedAnalysis>) => Promise<T>): Promise<T> => {
+    return queue.run(async () => {
+      try {
+        return await operation(await load())
+      } catch (error) {
+        loading = null
+        throw error
+      }
+    })
+  }
+
+  return {
+    async list() {
+      await queue.idle()
+      return Array.from((await load()).values()).map(clone)
+    },
+    async get(id) {
+      await queue.idle()
+      const analysis = (await load()).get(id)
+      return analysis && clone(analysis)
+    },
+    update(id, change, afterWrite) {
+      return enqueue(current => applyChange(current, id, change, () => persist(current), afterWrite))
+    },
+    delete(id, afterDelete) {
+      return enqueue(async current => {
+        const deleted = current.get(id)
+        if (!deleted) return false
+        current.delete(id)
+        await persist(current)
+        if (afterDelete) await afterDelete(clone(deleted))
+        return true
+      })
+    }
+  }
+}
+
+// Agrega una revisión numerada a la lista del análisis (común a ambas implementaciones del historial)
+function nextRevision(revisions: AnalysisRevision[], revision: Omit<AnalysisRevision, 'revision'>): AnalysisRevision {
+  const last = revisions.reduce((max, item) => item.analysis_id === revision.analysis_id ? Math.max(max, item.revision) : max, 0)
+  return { ...clone(revision), revision: last + 1 }
+}
+
+export function createMemoryAnalysisHistoryRepository(): AnalysisHistoryRepository {
+  const revisions: AnalysisRevision[] = []
+
+  return {
+    async append(revision) {
+      const stored = nextRevision(revisions, revision)
+      revisions.push(stored)
+      return clone(stored)
+    },
+    async list(analysisId) {
+      return revisions.filter(item => item.analysis_id === analysisId).map(clone)
+    }
+  }
+}
+
+// Una línea por revisión: agregar nunca reescribe las anteriores. Las líneas ilegibles (p. ej. una escritura
+// cortada) se omiten al leer
+export function createFileAnalysisHistoryRepository(
+  filePath: string = STORAGE_CONFIG.ANALYSES_HISTORY_FILE
+): AnalysisHistoryRepository {
+  const absolutePath = path.resolve(process.cwd(), filePath)
+  let loading: Promise<AnalysisRevision[]> | null = null
+  const queue = createQueue()
+
+  const read = async (): Promise<AnalysisRevision[]> => {
+    let content: string
+    try {
+      content = await fs.readFile(absolutePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      return []
+    }
+
+    return content.split('\n').flatMap((line): AnalysisRevision[] => {
+      if (!line.trim()) return []
+      try {
+        return [JSON.parse(line)]
+      } catch {
+        console.warn(`Línea ilegible en el historial de análisis ${filePath}`)
+        return []
+      }
+    })
+  }
+
+  const load = (): Promise<AnalysisRevision[]> => {
+    if (!loading) {
+      loading = read().catch(error => {
+        loading = null
+        throw error
+      })
+    }
+    return loading
+  }
+
+  return {
+    append(revision) {
+      return queue.run(async () => {
+        const revisions = await load()
+        const stored = nextRevision(revisions, revision)
+        await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+        await fs.appendFile(absolutePath, `${JSON.stringify(stored)}\n`, 'utf8')
+        revisions.push(stored)
+        return clone(stored)
+      })
+    },
+    async list(analysisId) {
+      await queue.idle()
+      return (await load()).filter(item => item.analysis_id === analysisId).map(clone)
+    }
+  }
+}
+
+let defaultRepository: AnalysisRepository | null = null
+let defaultHistoryRepository: AnalysisHistoryRepository | null = null
+
+// Repositorio configurado con ANALYSES_STORAGE_DRIVER (una instancia por proceso, para compartir la cola de escrituras)
+export function getAnalysisRepository(): AnalysisRepository {
+  if (!defaultRepository) {
+    defaultRepository = STORAGE_CONFIG.ANALYSES_DRIVER === 'memory'
+      ? createMemoryAnalysisRepository()
+      : createFileAnalysisRepository()
+  }
+  return defaultRepository
+}
+
+export function getAnalysisHistoryRepository(): AnalysisHistoryRepository {
+  if (!defaultHistoryRepository) {
+    defaultHistoryRepository = STORAGE_CONFIG.ANALYSES_DRIVER === 'memory'
+      ? createMemoryAnalysisHistoryRepository()
+      : createFileAnalysisHistoryRepository()
+  }
+  return defaultHistoryRepository
+}
+
+// Reemplaza los repositorios del proceso (pruebas o un almacenamiento distinto)
+export function setAnalysisRepository(repository: AnalysisRepository | null, history: AnalysisHistoryRepository | null = null): void {
+  defaultRepository = repository
+  defaultHistoryRepository = history
+}
@@ -1,144 +1,212 @@
-// Sistema de almacenamiento de análisis usando localStorage
-// Proporciona persistencia real de datos para la aplicación
+// Sistema de almacenamiento de análisis del servidor
+// Lee y escribe a través del repositorio configurado (lib/analysisRepository) con un cache en memoria delante.
+// Cada guardado y eliminación agrega una revisión al historial del análisis
 
-import { SavedAnalysis } from '@/types/saved-analysis';
+import { SavedAnalysis, AnalysisRevision, AnalysisRevisionAction } from '@/types/saved-analysis';
 import analysisCache from '@/lib/cache/analysisCache';
-import { AnalysisStorage } from '@/lib/localStorage';
+import {
+  getAnalysisHistoryRepository,
+  getAnalysisRepository,
+  type AnalysisChange,
+  type AnalysisWrite
+} from '@/lib/analysisRepository';
+import { diffAnalyses } from '@/lib/analysisHistory';
+import { migrateSavedAnalysis } from '@/lib/analysisMigrations';
+import {
+  draftProposalLifecycle,
+  proposalLifecycleOf,
+  transitionProposal,
+  type TransitionResult
+} from '@/lib/proposalLifecycle';
+import type { ProposalStatus } from '@/types/rental';
 
-// No inicializar con datos de ejemplo - empezar con aplicación vacía
-function initializeWithExampleData() {
-  // No hacer nada - la aplicación empieza sin datos
-  return;
-}
-
-export function getAllAnalyses(): SavedAnalysis[] {
+export async function getAllAnalyses(): Promise<SavedAnalysis[]> {
   // Intentar obtener del cache primero
   const cached = analysisCache.getList({});
   if (cached) {
-    return cached;
+    // Copia de la lista: las rutas la filtran y ordenan
+    return [...cached];
   }
-  
-  // Inicializar con datos de ejemplo si es necesario
-  initializeWithExampleData();
-  
-  // Obtener datos reales del localStorage
-  const result = AnalysisStorage.getAll();
-  
+
+  const result = await getAnalysisRepository().list();
+
   // Guardar en cache por 5 minutos
   analysisCache.setList({}, result);
-  return result;
+  return [...result];
 }
 
-export function getAnalysisById(id: string): SavedAnalysis | undefined {
+export async function getAnalysisById(id: string): Promise<SavedAnalysis | undefined> {
   // Intentar obtener del cache primero
   const cached = analysisCache.get(id);
   if (cached) {
     return cached;
   }
-  
-  // Obtener del localStorage
-  const result = AnalysisStorage.getById(id);
-  
+
+  const result = await getAnalysisRepository().get(id);
+
   // Si se encuentra, guardarlo en cache
   if (result) {
     analysisCache.set(id, result);
   }
-  
-  return result || undefined;
+
+  return result;
 }
 
-export function saveAnalysis(analysis: SavedAnalysis): SavedAnalysis {
-  // Guardar en localStorage
-  const success = AnalysisStorage.save(analysis);
-  
-  if (success) {
+// Escribe a través del repositorio en un solo paso (lectura, cambio, guardado y revisión del historial), para
+// que dos solicitudes simultáneas no se pisen ni registren la diferencia contra una versión que ya no es la anterior
+async function writeAnalysis(
+  id: string,
+  change: AnalysisChange,
+  author: string,
+  options: { restoredFrom?: number } = {}
+): Promise<AnalysisWrite> {
+  const result = await getAnalysisRepository().update(id, change, async (previous, saved) => {
+    // Un guardado sin cambios no agrega revisión (salvo una restauración, que queda registrada igual)
+    const changes = previous ? diffAnalyses(previous, saved) : [];
+    if (previous && changes.length === 0 && options.restoredFrom === undefined) {
+      return;
+    }
+
+    const action: AnalysisRevisionAction = options.restoredFrom !== undefined ? 'restored' : previous ? 'updated' : 'created';
+    await getAnalysisHistoryRepository().append({
+      analysis_id: saved.id,
+      action,
+      author,
+      created_at: new Date().toISOString(),
+      changes,
+      snapshot: saved,
+      restored_from: options.restoredFrom
+    });
+  });
+
+  if (result.saved) {
     // Actualizar cache
-    analysisCache.set(analysis.id, analysis);
+    analysisCache.set(result.saved.id, result.saved);
     // Invalidar listas para forzar recarga
     analysisCache.invalidateLists();
-    
-    // Agregar actividad al dashboard
-    AnalysisStorage.addDashboardActivity({
-      id: `save_${Date.now()}`,
-      type: 'analysis_created',
-      title: 'Análisis guardado',
-      description: `"${analysis.title}" guardado exitosamente`,
-      date: new Date().toISOString(),
-      property_address: analysis.property.address
-    });
-    
-    return analysis;
-  } else {
-    throw new Error('Error al guardar el análisis');
   }
+
+  return result;
+}
+
+// author: correo de quien hace el cambio (lib/analysisHistory resolveAuthor). Crea o reemplaza por id
+export async function saveAnalysis(
+  analysis: SavedAnalysis,
+  author: string,
+  options: { restoredFrom?: number } = {}
+): Promise<SavedAnalysis> {
+  const { saved } = await writeAnalysis(analysis.id, () => analysis, author, options);
+  return saved!;
+}
+
+// Solo crea el análisis si el id no existe (importaciones); false si ya existía
+export async function createAnalysisIfAbsent(analysis: SavedAnalysis, author: string): Promise<boolean> {
+  const { saved } = await writeAnalysis(analysis.id, current => (current ? undefined : analysis), author);
+  return saved !== undefined;
+}
+
+// Modifica el análisis a partir de la versión guardada en el mismo paso de escritura. change devuelve undefined
+// para no escribir. null si el análisis no existe o no cambió
+export async function modifyAnalysis(
+  id: string,
+  change: (current: SavedAnalysis) => SavedAnalysis | undefined,
+  author: string
+): Promise<SavedAnalysis | null> {
+  const { saved } = await writeAnalysis(id, current => (current ? change(current) : undefined), author);
+  return saved || null;
 }
 
-export function deleteAnalysis(id: string): boolean {
-  // Obtener el análisis antes de eliminarlo para logs
-  const analysis = AnalysisStorage.getById(id);
-  
-  // Eliminar del localStorage
-  const success = AnalysisStorage.delete(id);
-  
+export async function deleteAnalysis(id: string, author: string): Promise<boolean> {
+  // El historial se conserva: el análisis se puede restaurar desde su última revisión
+  const success = await getAnalysisRepository().delete(id, async () => {
+    await getAnalysisHistoryRepository().append({
+      analysis_id: id,
+      action: 'deleted',
+      author,
+      created_at: new Date().toISOString(),
+      changes: []
+    });
+  });
+
   if (success) {
     // Invalidar cache
     analysisCache.invalidate(id);
     analysisCache.invalidateLists();
-    
-    // Agregar actividad al dashboard
-    if (analysis) {
-      AnalysisStorage.addDashboardActivity({
-        id: `delete_${Date.now()}`,
-        type: 'analysis_created', // No hay tipo específico para delete, usar genérico
-        title: 'Análisis eliminado',
-        description: `"${analysis.title}" fue eliminado`,
-        date: new Date().toISOString(),
-        property_address: analysis.property.address
-      });
-    }
   }
-  
+
   return success;
 }
 
-export function updateAnalysis(id: string, updates: Partial<SavedAnalysis>): SavedAnalysis | null {
-  const existingAnalysis = AnalysisStorage.getById(id);
-  
-  if (existingAnalysis) {
-    const updatedAnalysis: SavedAnalysis = {
-      ...existingAnalysis,
-      ...updates,
-      metadata: {
-        ...existingAnalysis.metadata,
-        ...updates.metadata,
-        updated_at: new Date().toISOString()
-      }
-    };
-    
-    const success = AnalysisStorage.save(updatedAnalysis);
-    
-    if (success) {
-      // Actualizar cache
-      analysisCache.set(id, updatedAnalysis);
-      // Invalidar listas para forzar recarga
-      analysisCache.invalidateLists();
-      
-      return updatedAnalysis;
+export async function updateAnalysis(id: string, updates: Partial<SavedAnalysis>, author: string): Promise<SavedAnalysis | null> {
+  return modifyAnalysis(id, existingAnalysis => ({
+    ...existingAnalysis,
+    ...updates,
+    metadata: {
+      ...existingAnalysis.metadata,
+      ...updates.metadata,
+      updated_at: new Date().toISOString()
     }
-  }
-  
-  return null;
+  }), author);
 }
 
-// Función específica para actualizar el estado
-export function updateAnalysisStatus(id: string, status: SavedAnalysis['metadata']['status']): boolean {
-  const success = AnalysisStorage.updateStatus(id, status);
-  
-  if (success) {
-    // Invalidar cache
-    analysisCache.invalidate(id);
-    analysisCache.invalidateLists();
+// Función específica para actualizar el estado: solo con transiciones permitidas (lib/proposalLifecycle).
+// La transición se revisa contra la versión guardada en el mismo paso de escritura: de dos cambios de estado
+// simultáneos, el segundo se evalúa sobre el estado que dejó el primero
+export async function updateAnalysisStatus(
+  id: string,
+  status: ProposalStatus,
+  author: string,
+  now: Date = new Date()
+): Promise<TransitionResult> {
+  let transition: TransitionResult = { allowed: false, reason: 'Análisis no encontrado' };
+
+  await modifyAnalysis(id, current => {
+    transition = transitionProposal(current.metadata, status, now);
+    return transition.allowed ? { ...current, metadata: transition.metadata! } : undefined;
+  }, author);
+
+  return transition;
+}
+
+// Revisiones del análisis, de la más antigua a la más reciente (también las de un análisis eliminado)
+export async function getAnalysisHistory(id: string): Promise<AnalysisRevision[]> {
+  return getAnalysisHistoryRepository().list(id);
+}
+
+// Vuelve al estado guardado en una revisión. Se registra como una revisión nueva: el historial no se reescribe.
+// null si la revisión no existe o no tiene copia (eliminaciones)
+export async function restoreAnalysisRevision(id: string, revisionNumber: number, author: string): Promise<SavedAnalysis | null> {
+  const revision = (await getAnalysisHistory(id)).find(item => item.revision === revisionNumber);
+  if (!revision?.snapshot) {
+    return null;
   }
-  
-  return success;
-}
\ No newline at end of file
+
+  // Las copias antiguas pueden ser de una versión de esquema anterior
+  const migration = migrateSavedAnalysis(revision.snapshot);
+  if (!migration.analysis) {
+    throw new Error(`La revisión ${revisionNumber} no se puede restaurar: ${migration.errors.join('; ')}`);
+  }
+
+  // Se restaura el contenido; el ciclo de vida de la propuesta (estado, plazo, recordatorios, respuesta) y los
+  // datos del cliente siguen siendo los actuales, porque solo cambian con transiciones permitidas. Un análisis
+  // eliminado vuelve como borrador
+  const snapshot = migration.analysis;
+  const { saved } = await writeAnalysis(id, current => ({
+    ...snapshot,
+    id,
+    metadata: {
+      ...snapshot.metadata,
+      ...(current
+        ? {
+            ...proposalLifecycleOf(current.metadata),
+            client_email: current.metadata.client_email,
+            client_name: current.metadata.client_name
+          }
+        : draftProposalLifecycle()),
+      created_at: current?.metadata.created_at || snapshot.metadata.created_at,
+      updated_at: new Date().toISOString()
+    }
+  }), author, { restoredFrom: revisionNumber });
+
+  return saved!;
+}
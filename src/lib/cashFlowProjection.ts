@@ -0,0 +1,106 @@
+/*
+Domain: Cash Flow Projection
+Responsibility: Proyección año a año del flujo de caja con reajuste del arriendo por UF o IPC
+Dependencies: lib/profitability, tipos de rental
+*/
+
+import type {
+  RentalAnalysis,
+  CashFlowProjection,
+  CashFlowProjectionSettings,
+  CashFlowProjectionYear
+} from '@/types/rental'
+import { annualVacancyRate } from '@/lib/profitability'
+
+export const PROJECTION_DEFAULTS = {
+  YEARS: 5,
+  MAX_YEARS: 30,
+  INDEXATION: 'UF',
+  ANNUAL_INFLATION_PERCENTAGE: 3, // Meta de inflación del Banco Central
+  IPC_READJUSTMENT_MONTHS: 12
+} as const
+
+// Factor de reajuste acumulado al mes indicado (0 = primer mes del contrato)
+function indexationFactor(settings: CashFlowProjectionSettings, month: number): number {
+  const monthlyGrowth = Math.pow(1 + settings.annual_inflation_percentage / 100, 1 / 12)
+
+  switch (settings.indexation) {
+    case 'UF':
+      // Arriendo pactado en UF: sigue la variación diaria de la UF
+      return Math.pow(monthlyGrowth, month)
+    case 'IPC': {
+      // Arriendo en pesos reajustado por IPC acumulado en cada período
+      const period = Math.max(1, settings.ipc_readjustment_months)
+      return Math.pow(monthlyGrowth, Math.floor(month / period) * period)
+    }
+    default:
+      return 1
+  }
+}
+
+export function resolveProjectionSettings(
+  analysis: RentalAnalysis,
+  overrides: Partial<CashFlowProjectionSettings> = {}
+): CashFlowProjectionSettings {
+  const years = Math.round(overrides.years ?? PROJECTION_DEFAULTS.YEARS)
+
+  return {
+    years: Math.min(Math.max(years, 1), PROJECTION_DEFAULTS.MAX_YEARS),
+    indexation: overrides.indexation ?? PROJECTION_DEFAULTS.INDEXATION,
+    annual_inflation_percentage: overrides.annual_inflation_percentage ?? PROJECTION_DEFAULTS.ANNUAL_INFLATION_PERCENTAGE,
+    ipc_readjustment_months: overrides.ipc_readjustment_months ?? PROJECTION_DEFAULTS.IPC_READJUSTMENT_MONTHS,
+    commission_percentage: overrides.commission_percentage ?? analysis.plans[0]?.commission_percentage ?? 0
+  }
+}
+
+export function projectCashFlow(
+  analysis: RentalAnalysis,
+  overrides: Partial<CashFlowProjectionSettings> = {}
+): CashFlowProjection {
+  const settings = resolveProjectionSettings(analysis, overrides)
+  const baseRent = analysis.property.market_rent_clp
+  // Los costos únicos (corretaje del nuevo contrato, etc.) solo se cargan al primer año
+  const breakdown = analysis.cap_rate_analysis.expense_breakdown
+  const baseExpenses = breakdown ? breakdown.recurring_total_clp : analysis.cap_rate_analysis.annual_expenses
+  const oneOffExpenses = breakdown ? breakdown.one_off_clp : 0
+  const vacancyRate = annualVacancyRate()
+  const inflation = settings.annual_inflation_percentage / 100
+
+  const years: CashFlowProjectionYear[] = []
+  let cumulativeIncome = 0
+
+  for (let year = 1; year <= settings.years; year++) {
+    let grossRent = 0
+    let lastMonthlyRent = baseRent
+
+    for (let month = (year - 1) * 12; month < year * 12; month++) {
+      lastMonthlyRent = baseRent * indexationFactor(settings, month)
+      grossRent += lastMonthlyRent
+    }
+
+    // Mismo NOI que calculateCapRateAnalysis: sin reajuste, el primer año coincide con el del CAP rate
+    const vacancyLoss = grossRent * vacancyRate
+    const commission = (grossRent - vacancyLoss) * (settings.commission_percentage / 100)
+    // Gastos recurrentes (gastos comunes, contribuciones, seguros, mantención, administración) crecen con la inflación
+    const expenses = baseExpenses * Math.pow(1 + inflation, year - 1) + (year === 1 ? oneOffExpenses : 0)
+    const netOperatingIncome = grossRent - vacancyLoss - commission - expenses
+    cumulativeIncome += netOperatingIncome
+
+    years.push({
+      year,
+      monthly_rent_clp: Math.round(lastMonthlyRent),
+      gross_rent_clp: Math.round(grossRent),
+      vacancy_loss_clp: Math.round(vacancyLoss),
+      commission_clp: Math.round(commission),
+      expenses_clp: Math.round(expenses),
+      net_operating_income: Math.round(netOperatingIncome),
+      cumulative_income_clp: Math.round(cumulativeIncome)
+    })
+  }
+
+  return {
+    settings,
+    years,
+    total_net_income_clp: Math.round(cumulativeIncome)
+  }
+}
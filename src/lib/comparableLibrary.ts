@@ -0,0 +1,126 @@
+/*
+Domain: Comparable Library
+Responsibility: Biblioteca de comparables reutilizables entre análisis: alta sin duplicados, búsqueda por
+  dirección normalizada, comuna y fecha de captura, y marca de publicaciones desactualizadas
+Dependencies: lib/comparables, lib/comunas, tipos de rental (la persistencia está en lib/comparableLibraryStore)
+*/
+
+import type { ComparableFormEntry, LibraryComparable } from '@/types/rental'
+import { comparableEntryKey, isComparableEntryEmpty } from '@/lib/comparables'
+import { detectComuna, normalizeAddress } from '@/lib/comunas'
+
+export const COMPARABLE_LIBRARY_DEFAULTS = {
+  STALE_AFTER_DAYS: 60, // Publicaciones más antiguas se marcan como desactualizadas
+  MAX_ITEMS: 2000,
+  MAX_RESULTS: 50
+} as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface LibrarySearchFilters {
+  query?: string // Texto de la dirección
+  comuna?: string
+  maxAgeDays?: number // Sin valor: incluye todas las fechas
+}
+
+export interface LibrarySearchResult {
+  item: LibraryComparable
+  age_days: number
+  is_stale: boolean
+}
+
+export interface LibraryCaptureInfo {
+  capturedAt?: string // Por defecto, ahora
+  capturedBy?: string
+  sourceAnalysisId?: string
+}
+
+export function comparableAgeDays(item: LibraryComparable, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(item.captured_at).getTime()) / DAY_MS))
+}
+
+export function isLibraryComparableStale(
+  item: LibraryComparable,
+  staleAfterDays: number = COMPARABLE_LIBRARY_DEFAULTS.STALE_AFTER_DAYS,
+  now: Date = new Date()
+): boolean {
+  return comparableAgeDays(item, now) > staleAfterDays
+}
+
+// null si la fila no tiene datos suficientes para reutilizarla (dirección, m² y precio)
+export function createLibraryComparable(entry: ComparableFormEntry, info: LibraryCaptureInfo = {}): LibraryComparable | null {
+  const key = comparableEntryKey(entry)
+  if (!key || isComparableEntryEmpty(entry) || !entry.address || !entry.m2 || !entry.price) return null
+
+  const capturedAt = entry.captured_at || info.capturedAt || new Date().toISOString()
+
+  return {
+    id: `cmp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    key,
+    normalized_address: normalizeAddress(entry.address),
+    comuna: detectComuna(entry.address),
+    captured_at: capturedAt,
+    captured_by: info.capturedBy,
+    source_analysis_id: info.sourceAnalysisId,
+    entry: { ...entry, captured_at: capturedAt }
+  }
+}
+
+// Agrega a la biblioteca; si la publicación ya existe, queda la captura más reciente
+export function mergeIntoLibrary(
+  library: LibraryComparable[],
+  incoming: LibraryComparable[]
+): { library: LibraryComparable[]; added: number; updated: number } {
+  const byKey = new Map(library.map(item => [item.key, item]))
+  let added = 0
+  let updated = 0
+
+  for (const item of incoming) {
+    const existing = byKey.get(item.key)
+    if (!existing) {
+      byKey.set(item.key, item)
+      added++
+    } else if (item.captured_at > existing.captured_at) {
+      byKey.set(item.key, { ...item, id: existing.id })
+      updated++
+    }
+  }
+
+  // Orden por fecha de captura, la más reciente primero; se descartan las más antiguas sobre el máximo
+  const merged = Array.from(byKey.values())
+    .sort((a, b) => b.captured_at.localeCompare(a.captured_at))
+    .slice(0, COMPARABLE_LIBRARY_DEFAULTS.MAX_ITEMS)
+
+  return { library: merged, added, updated }
+}
+
+// Coincidencias por comuna y palabras de la dirección; primero las del mismo edificio (misma dirección),
+// luego por cantidad de palabras en común y fecha de captura
+export function searchLibrary(
+  library: LibraryComparable[],
+  filters: LibrarySearchFilters,
+  staleAfterDays: number = COMPARABLE_LIBRARY_DEFAULTS.STALE_AFTER_DAYS,
+  now: Date = new Date()
+): LibrarySearchResult[] {
+  const query = filters.query ? normalizeAddress(filters.query) : ''
+  const tokens = query.split(' ').filter(token => token.length > 1)
+
+  return library
+    .filter(item => !filters.comuna || item.comuna === filters.comuna)
+    .map(item => ({
+      item,
+      age_days: comparableAgeDays(item, now),
+      is_stale: isLibraryComparableStale(item, staleAfterDays, now),
+      exact: query !== '' && item.normalized_address.startsWith(query),
+      matches: tokens.filter(token => item.normalized_address.includes(token)).length
+    }))
+    .filter(result => filters.maxAgeDays === undefined || result.age_days <= filters.maxAgeDays)
+    .filter(result => tokens.length === 0 || result.matches > 0)
+    .sort((a, b) =>
+      Number(b.exact) - Number(a.exact) ||
+      b.matches - a.matches ||
+      b.item.captured_at.localeCompare(a.item.captured_at)
+    )
+    .slice(0, COMPARABLE_LIBRARY_DEFAULTS.MAX_RESULTS)
+    .map(({ item, age_days, is_stale }) => ({ item, age_days, is_stale }))
+}
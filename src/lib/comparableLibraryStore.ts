@@ -0,0 +1,53 @@
+/*
+Domain: Comparable Library
+Responsibility: Biblioteca de comparables de la oficina guardada en el servidor, para que todos los corredores
+  reutilicen las mismas publicaciones: lectura, alta sin duplicados y eliminación. La expone /api/comparable-library
+Dependencies: lib/documentStore, lib/comparableLibrary, lib/config, tipos de rental
+*/
+
+import type { LibraryComparable } from '@/types/rental'
+import { STORAGE_CONFIG } from '@/lib/config'
+import { createDocumentStore, type DocumentStore } from '@/lib/documentStore'
+import { mergeIntoLibrary } from '@/lib/comparableLibrary'
+
+export interface ComparableLibraryDocument {
+  items: LibraryComparable[] // La captura más reciente primero
+}
+
+let store: DocumentStore<ComparableLibraryDocument> | null = null
+
+function getStore(): DocumentStore<ComparableLibraryDocument> {
+  if (!store) {
+    store = createDocumentStore<ComparableLibraryDocument>(STORAGE_CONFIG.COMPARABLE_LIBRARY_FILE, { items: [] })
+  }
+  return store
+}
+
+// Reemplaza el almacenamiento del proceso (pruebas)
+export function setComparableLibraryStore(replacement: DocumentStore<ComparableLibraryDocument> | null): void {
+  store = replacement
+}
+
+export async function getLibraryComparables(): Promise<LibraryComparable[]> {
+  return (await getStore().read()).items
+}
+
+export async function addLibraryComparables(items: LibraryComparable[]): Promise<{ added: number; updated: number }> {
+  let counts = { added: 0, updated: 0 }
+  await getStore().update(document => {
+    const { library, added, updated } = mergeIntoLibrary(document.items, items)
+    counts = { added, updated }
+    return { items: library }
+  })
+  return counts
+}
+
+// false si el comparable ya no estaba en la biblioteca
+export async function deleteLibraryComparable(id: string): Promise<boolean> {
+  let found = false
+  await getStore().update(document => {
+    found = document.items.some(item => item.id === id)
+    return { items: document.items.filter(item => item.id !== id) }
+  })
+  return found
+}
@@ -0,0 +1,269 @@
+/*
+Domain: Comparable Valuation
+Responsibility: Estimación estadística del arriendo desde comparables (outliers IQR/MAD, regresión hedónica, intervalo de confianza)
+Dependencies: Tipos de rental (sin React ni APIs del navegador)
+*/
+
+import type { ComparableContribution, ComparableProperty, ComparableValuation, OutlierMethod } from '@/types/rental'
+
+export const VALUATION_DEFAULTS = {
+  OUTLIER_METHOD: 'iqr' as OutlierMethod,
+  IQR_FACTOR: 1.5,
+  MAD_Z_THRESHOLD: 3.5, // Puntaje z modificado (Iglewicz y Hoaglin)
+  MIN_OUTLIER_SAMPLES: 4, // Con menos comparables no se descarta ninguno
+  MIN_HEDONIC_SAMPLES: 8, // Mínimo para ajustar la regresión hedónica
+  MIN_DEGREES_OF_FREEDOM: 3,
+  CONFIDENCE_LEVEL_PERCENTAGE: 90
+} as const
+
+// Características de la propiedad evaluada; las que falten se reemplazan por el promedio de los comparables
+export interface ValuationSubject {
+  size_m2?: number
+  bedrooms?: number
+  bathrooms?: number
+  parking_spaces?: number
+  storage_units?: number
+}
+
+export interface ValuationOptions {
+  fallbackRentClp: number // Arriendo a usar si no hay comparables útiles
+  fallbackRangePercentage: number // Rango ± cuando no se puede estimar la dispersión
+  outlierMethod?: OutlierMethod
+}
+
+const HEDONIC_FEATURES = ['size_m2', 'bedrooms', 'bathrooms', 'parking_spaces', 'storage_units'] as const
+type HedonicFeature = typeof HEDONIC_FEATURES[number]
+
+// t de Student de dos colas al 90% para 1 a 10 grados de libertad
+const T_90_TABLE = [6.314, 2.92, 2.353, 2.132, 2.015, 1.943, 1.895, 1.86, 1.833, 1.812]
+const Z_90 = 1.6449
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1))
+}
+
+export function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+export function median(values: number[]): number {
+  return quantile([...values].sort((a, b) => a - b), 0.5)
+}
+
+// Para más de 10 grados de libertad se usa la expansión de Cornish-Fisher
+export function tCritical90(degreesOfFreedom: number): number {
+  if (degreesOfFreedom < 1) return T_90_TABLE[0]
+  if (degreesOfFreedom <= T_90_TABLE.length) return T_90_TABLE[Math.round(degreesOfFreedom) - 1]
+  const z = Z_90
+  const df = degreesOfFreedom
+  return z + (z ** 3 + z) / (4 * df) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2)
+}
+
+// Marca como atípicos los valores fuera de [Q1 - k·IQR, Q3 + k·IQR] o con |z modificado| sobre el umbral
+export function detectOutliers(values: number[], method: OutlierMethod = VALUATION_DEFAULTS.OUTLIER_METHOD): boolean[] {
+  if (values.length < VALUATION_DEFAULTS.MIN_OUTLIER_SAMPLES) return values.map(() => false)
+
+  if (method === 'mad') {
+    const center = median(values)
+    const mad = median(values.map(value => Math.abs(value - center)))
+    if (mad === 0) return values.map(() => false)
+    return values.map(value => Math.abs((0.6745 * (value - center)) / mad) > VALUATION_DEFAULTS.MAD_Z_THRESHOLD)
+  }
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const q1 = quantile(sorted, 0.25)
+  const q3 = quantile(sorted, 0.75)
+  const fence = (q3 - q1) * VALUATION_DEFAULTS.IQR_FACTOR
+  return values.map(value => value < q1 - fence || value > q3 + fence)
+}
+
+// Inversa por Gauss-Jordan con pivoteo parcial; null si la matriz es singular
+function invert(matrix: number[][]): number[][] | null {
+  const size = matrix.length
+  const augmented = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))])
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(augmented[row][column]) > Math.abs(augmented[pivot][column])) pivot = row
+    }
+    if (Math.abs(augmented[pivot][column]) < 1e-9) return null
+    ;[augmented[column], augmented[pivot]] = [augmented[pivot], augmented[column]]
+
+    const divisor = augmented[column][column]
+    augmented[column] = augmented[column].map(value => value / divisor)
+    for (let row = 0; row < size; row++) {
+      if (row === column) continue
+      const factor = augmented[row][column]
+      augmented[row] = augmented[row].map((value, j) => value - factor * augmented[column][j])
+    }
+  }
+
+  return augmented.map(row => row.slice(size))
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map(row => row.reduce((sum, value, j) => sum + value * vector[j], 0))
+}
+
+interface HedonicFit {
+  estimate: number
+  halfWidth: number
+  weights: number[] // Peso de cada comparable en la predicción (fila del "hat")
+  rSquared: number
+  coefficients: Record<string, number>
+}
+
+// Regresión lineal del arriendo sobre m², dormitorios, baños, estacionamientos y bodegas.
+// Se omiten las variables sin variación entre los comparables; la estimación es lineal en los
+// arriendos (ŷ = Σ wᵢ·yᵢ), así que wᵢ·yᵢ es el aporte exacto de cada comparable.
+function fitHedonic(comparables: ComparableProperty[], subject: ValuationSubject): HedonicFit | null {
+  const features = HEDONIC_FEATURES.filter(feature =>
+    new Set(comparables.map(comp => comp[feature])).size > 1
+  )
+  if (!features.includes('size_m2')) return null
+
+  const parameters = features.length + 1
+  const degreesOfFreedom = comparables.length - parameters
+  if (degreesOfFreedom < VALUATION_DEFAULTS.MIN_DEGREES_OF_FREEDOM) return null
+
+  const rows = comparables.map(comp => [1, ...features.map(feature => comp[feature])])
+  const rents = comparables.map(comp => comp.rent_clp)
+  const xtx = Array.from({ length: parameters }, (_, i) =>
+    Array.from({ length: parameters }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+  )
+  const inverse = invert(xtx)
+  if (!inverse) return null
+
+  const xty = Array.from({ length: parameters }, (_, i) => rows.reduce((sum, row, k) => sum + row[i] * rents[k], 0))
+  const beta = multiply(inverse, xty)
+
+  const subjectRow = [1, ...features.map((feature: HedonicFeature) => {
+    const value = subject[feature]
+    return value !== undefined && isFinite(value) && value >= 0 ? value : mean(comparables.map(comp => comp[feature]))
+  })]
+  const projected = multiply(inverse, subjectRow)
+  const weights = rows.map(row => row.reduce((sum, value, j) => sum + value * projected[j], 0))
+  const estimate = weights.reduce((sum, weight, k) => sum + weight * rents[k], 0)
+
+  const residuals = rows.map((row, k) => rents[k] - row.reduce((sum, value, j) => sum + value * beta[j], 0))
+  const sse = residuals.reduce((sum, residual) => sum + residual ** 2, 0)
+  const average = mean(rents)
+  const sst = rents.reduce((sum, rent) => sum + (rent - average) ** 2, 0)
+  const leverage = subjectRow.reduce((sum, value, j) => sum + value * projected[j], 0)
+  const standardError = Math.sqrt((sse / degreesOfFreedom) * (1 + leverage))
+
+  return {
+    estimate,
+    halfWidth: tCritical90(degreesOfFreedom) * standardError,
+    weights,
+    rSquared: sst > 0 ? 1 - sse / sst : 0,
+    coefficients: Object.fromEntries(features.map((feature, index) => [feature, round2(beta[index + 1])]))
+  }
+}
+
+// Estimación del arriendo de la propiedad: descarta outliers por precio/m², ajusta la regresión
+// hedónica si hay suficientes comparables y, si no, usa el promedio de precio/m² con un
+// intervalo de predicción t. Sin comparables útiles devuelve el arriendo de respaldo ± rango fijo.
+export function valueComparables(
+  comparables: ComparableProperty[],
+  subject: ValuationSubject,
+  options: ValuationOptions
+): ComparableValuation {
+  const outlierMethod = options.outlierMethod || VALUATION_DEFAULTS.OUTLIER_METHOD
+  const usable = comparables.filter(comp => comp.rent_clp > 0 && comp.size_m2 > 0)
+  const flags = detectOutliers(usable.map(comp => comp.price_per_m2), outlierMethod)
+  const kept = usable.filter((_, index) => !flags[index])
+  const outlierIds = new Set(usable.filter((_, index) => flags[index]).map(comp => comp.id))
+  const subjectSize = subject.size_m2 && subject.size_m2 > 0 ? subject.size_m2 : 0
+
+  const contributionsFor = (weightOf: (comp: ComparableProperty, index: number) => number, valueOf: (comp: ComparableProperty) => number) => {
+    const weights = new Map(kept.map((comp, index) => [comp.id, weightOf(comp, index)]))
+    return comparables.map((comp): ComparableContribution => {
+      const weight = weights.get(comp.id) || 0
+      return {
+        comparable_id: comp.id,
+        price_per_m2: comp.price_per_m2,
+        is_outlier: outlierIds.has(comp.id),
+        weight: Math.round(weight * 10000) / 10000,
+        contribution_clp: Math.round(weight * valueOf(comp))
+      }
+    })
+  }
+
+  const result = (
+    method: ComparableValuation['method'],
+    estimate: number,
+    halfWidth: number,
+    contributions: ComparableContribution[],
+    extra: Pick<ComparableValuation, 'r_squared' | 'coefficients'> = {}
+  ): ComparableValuation => ({
+    method,
+    outlier_method: outlierMethod,
+    estimate_clp: Math.round(estimate),
+    estimate_per_m2: subjectSize > 0
+      ? Math.round(estimate / subjectSize)
+      : kept.length > 0 ? Math.round(mean(kept.map(comp => comp.price_per_m2))) : 0,
+    confidence_level_percentage: VALUATION_DEFAULTS.CONFIDENCE_LEVEL_PERCENTAGE,
+    confidence_interval: {
+      min_rent_clp: Math.round(Math.max(0, estimate - halfWidth)),
+      max_rent_clp: Math.round(estimate + halfWidth)
+    },
+    comparables_used: method === 'none' ? 0 : kept.length,
+    outliers_rejected: outlierIds.size,
+    ...extra,
+    contributions
+  })
+
+  const fallbackRange = (estimate: number) => estimate * (options.fallbackRangePercentage / 100)
+
+  if (kept.length === 0) {
+    return result('none', options.fallbackRentClp, fallbackRange(options.fallbackRentClp), contributionsFor(() => 0, () => 0))
+  }
+
+  if (subjectSize > 0 && kept.length >= VALUATION_DEFAULTS.MIN_HEDONIC_SAMPLES) {
+    const fit = fitHedonic(kept, subject)
+    if (fit && fit.estimate > 0) {
+      return result(
+        'hedonic',
+        fit.estimate,
+        fit.halfWidth,
+        contributionsFor((_, index) => fit.weights[index], comp => comp.rent_clp),
+        { r_squared: round2(fit.rSquared), coefficients: fit.coefficients }
+      )
+    }
+  }
+
+  // Sin tamaño de la propiedad se promedian directamente los arriendos
+  const values = kept.map(comp => (subjectSize > 0 ? comp.price_per_m2 * subjectSize : comp.rent_clp))
+  const estimate = mean(values)
+  const halfWidth = kept.length >= 2
+    ? tCritical90(kept.length - 1) * standardDeviation(values) * Math.sqrt(1 + 1 / kept.length)
+    : fallbackRange(estimate)
+
+  return result(
+    'price_per_m2',
+    estimate,
+    halfWidth,
+    contributionsFor(() => 1 / kept.length, comp => (subjectSize > 0 ? comp.price_per_m2 * subjectSize : comp.rent_clp))
+  )
+}
+
+export const VALUATION_METHOD_LABELS: Record<ComparableValuation['method'], string> = {
+  hedonic: 'Regresión hedónica (m², dormitorios, baños, estacionamientos, bodegas)',
+  price_per_m2: 'Promedio de precio por m²',
+  none: 'Sin comparables: rango fijo sobre el arriendo ingresado'
+}
@@ -0,0 +1,125 @@
+/*
+Domain: Comparables
+Responsibility: Lista de comparables de largo variable y migración desde los campos planos comparable_N_*
+Dependencies: Tipos de rental y de análisis guardados (sin React ni APIs del navegador)
+*/
+
+import type { ComparableFormEntry } from '@/types/rental'
+import type { SavedAnalysis } from '@/types/saved-analysis'
+import { normalizeAddress } from '@/lib/comunas'
+
+export const MAX_COMPARABLES = 50
+
+// Antiguos campos planos del formulario: comparable_<N>_<campo>
+const LEGACY_KEY_PATTERN = /^comparable_(\d+)_(link|address|m2|bedrooms|bathrooms|parking|storage|price)$/
+
+export function createComparableEntry(): ComparableFormEntry {
+  return { link: '', address: '', m2: '', bedrooms: '1', bathrooms: '1', parking: '0', storage: '0', price: '' }
+}
+
+export function isComparableEntryEmpty(entry: ComparableFormEntry): boolean {
+  return !entry.address && !entry.price && !entry.m2 && !entry.link
+}
+
+// Clave para detectar comparables repetidos: el link de la publicación o, sin link,
+// dirección + m² + precio. null si no hay datos suficientes para compararlo
+export function comparableEntryKey(entry: ComparableFormEntry): string | null {
+  const link = entry.link?.trim()
+  if (link) {
+    try {
+      const url = new URL(link)
+      return `link:${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/$/, '')}`.toLowerCase()
+    } catch {
+      return `link:${link.toLowerCase()}`
+    }
+  }
+
+  const address = entry.address ? normalizeAddress(entry.address) : ''
+  if (!address) return null
+  return `address:${address}|${parseFloat(entry.m2 || '') || ''}|${parseFloat(entry.price || '') || ''}`
+}
+
+export function hasLegacyComparableFields(record: Record<string, any>): boolean {
+  return Object.keys(record).some(key => LEGACY_KEY_PATTERN.test(key))
+}
+
+// Convierte comparable_1_*, comparable_2_*... en una lista ordenada por N, sin entradas vacías
+export function comparableEntriesFromLegacyFields(record: Record<string, any>): ComparableFormEntry[] {
+  const byIndex = new Map<number, ComparableFormEntry>()
+
+  for (const [key, value] of Object.entries(record)) {
+    const match = key.match(LEGACY_KEY_PATTERN)
+    if (!match || value === undefined || value === null || value === '') continue
+
+    const index = parseInt(match[1])
+    const entry = byIndex.get(index) || {}
+    entry[match[2] as keyof ComparableFormEntry] = String(value)
+    byIndex.set(index, entry)
+  }
+
+  return Array.from(byIndex.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, entry]) => entry)
+    .filter(entry => !isComparableEntryEmpty(entry))
+}
+
+// Copia del registro sin los campos planos comparable_N_*
+export function withoutLegacyComparableFields<T extends Record<string, any>>(record: T): T {
+  const result: Record<string, any> = {}
+  for (const [key, value] of Object.entries(record)) {
+    if (!LEGACY_KEY_PATTERN.test(key)) result[key] = value
+  }
+  return result as T
+}
+
+function toOptionalNumber(value: any, parse: (text: string) => number): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const parsed = typeof value === 'number' ? value : parse(String(value))
+  return isFinite(parsed) ? parsed : undefined
+}
+
+// Migración de análisis guardados: lista en analysis.comparable_properties con números,
+// aunque el registro venga con campos planos comparable_N_* o con valores string
+export function migrateSavedAnalysisComparables(saved: SavedAnalysis): { analysis: SavedAnalysis; changed: boolean } {
+  const legacy = saved.analysis as SavedAnalysis['analysis'] & Record<string, any>
+  const hasLegacy = hasLegacyComparableFields(legacy)
+  const current = Array.isArray(legacy.comparable_properties) ? legacy.comparable_properties : []
+
+  const fromLegacy = hasLegacy
+    ? comparableEntriesFromLegacyFields(legacy).map(entry => ({
+        address: entry.address,
+        size_m2: entry.m2,
+        bedrooms: entry.bedrooms,
+        bathrooms: entry.bathrooms,
+        parking_spaces: entry.parking,
+        storage_units: entry.storage,
+        rent_clp: entry.price,
+        link: entry.link
+      }))
+    : []
+
+  const comparables = [...current, ...fromLegacy].map((comp: Record<string, any>) => ({
+    ...comp,
+    address: comp.address || undefined,
+    size_m2: toOptionalNumber(comp.size_m2, parseFloat),
+    bedrooms: toOptionalNumber(comp.bedrooms, parseInt),
+    bathrooms: toOptionalNumber(comp.bathrooms, parseInt),
+    parking_spaces: toOptionalNumber(comp.parking_spaces, parseInt),
+    storage_units: toOptionalNumber(comp.storage_units, parseInt),
+    rent_clp: toOptionalNumber(comp.rent_clp, parseFloat),
+    link: comp.link || undefined
+  }))
+
+  const normalized = JSON.stringify(comparables) !== JSON.stringify(current)
+  if (!hasLegacy && !normalized && Array.isArray(legacy.comparable_properties)) {
+    return { analysis: saved, changed: false }
+  }
+
+  return {
+    analysis: {
+      ...saved,
+      analysis: { ...withoutLegacyComparableFields(legacy), comparable_properties: comparables }
+    },
+    changed: true
+  }
+}
@@ -0,0 +1,175 @@
+/*
+Domain: Comparables Map
+Responsibility: Disposición del mapa de la propiedad y sus comparables: proyección Web Mercator, zoom que
+  abarca todos los puntos y los anillos de distancia, teselas de OpenStreetMap y colores por similitud.
+  Lo usan el formulario (components/ComparablesMap) y el informe PDF
+Dependencies: tipos de rental
+*/
+
+import type { ComparableProperty } from '@/types/rental'
+
+export const MAP_RINGS_KM = [0.5, 1] as const
+
+export const MAP_VIEW = {
+  WIDTH: 640,
+  HEIGHT: 360,
+  TILE_SIZE: 256,
+  MIN_ZOOM: 10,
+  MAX_ZOOM: 17,
+  PADDING: 28, // Margen para que los marcadores y sus etiquetas no queden en el borde
+  TILE_URL: 'https://tile.openstreetmap.org'
+} as const
+
+// Verde: muy similar; ámbar: similar; rojo: poco similar; gris: sin puntaje
+export const SIMILARITY_COLORS = {
+  HIGH: '#16a34a',
+  MEDIUM: '#d97706',
+  LOW: '#dc2626',
+  UNKNOWN: '#6b7280',
+  SUBJECT: '#2563eb'
+} as const
+
+export interface MapMarker {
+  id: number // id del comparable (posición + 1); 0 para la propiedad evaluada
+  kind: 'subject' | 'comparable'
+  x: number // Coordenadas en la vista (0..WIDTH, 0..HEIGHT)
+  y: number
+  label: string
+  color: string
+  address: string
+  similarity_score?: number
+  distance_km?: number
+}
+
+export interface MapTile {
+  url: string
+  x: number
+  y: number
+  size: number
+}
+
+export interface ComparablesMapLayout {
+  width: number
+  height: number
+  zoom: number
+  subject?: MapMarker
+  markers: MapMarker[]
+  rings: Array<{ radius_km: number; radius_px: number }>
+  tiles: MapTile[]
+  missing_coordinates: number // Comparables sin ubicación, que no aparecen en el mapa
+}
+
+export function similarityColor(score: number | undefined): string {
+  if (score === undefined) return SIMILARITY_COLORS.UNKNOWN
+  if (score >= 75) return SIMILARITY_COLORS.HIGH
+  if (score >= 50) return SIMILARITY_COLORS.MEDIUM
+  return SIMILARITY_COLORS.LOW
+}
+
+export function pricePerM2Label(pricePerM2: number): string {
+  return `$${Math.round(pricePerM2).toLocaleString('es-CL')}/m²`
+}
+
+// Píxeles del mundo en el zoom dado (Web Mercator, teselas de 256 px)
+function project(lat: number, lon: number, zoom: number): { x: number; y: number } {
+  const worldSize = MAP_VIEW.TILE_SIZE * 2 ** zoom
+  const latRadians = (Math.max(-85, Math.min(85, lat)) * Math.PI) / 180
+  return {
+    x: ((lon + 180) / 360) * worldSize,
+    y: ((1 - Math.log(Math.tan(latRadians) + 1 / Math.cos(latRadians)) / Math.PI) / 2) * worldSize
+  }
+}
+
+function metersPerPixel(lat: number, zoom: number): number {
+  return (156543.03392 * Math.cos((lat * Math.PI) / 180)) / 2 ** zoom
+}
+
+const hasCoordinates = (point: { lat?: number; lon?: number }): point is { lat: number; lon: number } =>
+  typeof point.lat === 'number' && typeof point.lon === 'number' && isFinite(point.lat) && isFinite(point.lon)
+
+// null si ni la propiedad ni los comparables tienen coordenadas
+export function buildComparablesMapLayout(
+  subject: { lat?: number; lon?: number; address?: string },
+  comparables: ComparableProperty[],
+  size: { width: number; height: number } = { width: MAP_VIEW.WIDTH, height: MAP_VIEW.HEIGHT }
+): ComparablesMapLayout | null {
+  const located = comparables.filter(hasCoordinates)
+  const subjectLocated = hasCoordinates(subject) ? subject : undefined
+  if (!subjectLocated && located.length === 0) return null
+
+  // Centro: la propiedad evaluada o, sin ella, el promedio de los comparables
+  const center = subjectLocated || {
+    lat: located.reduce((sum, comp) => sum + comp.lat!, 0) / located.length,
+    lon: located.reduce((sum, comp) => sum + comp.lon!, 0) / located.length
+  }
+
+  const halfWidth = size.width / 2 - MAP_VIEW.PADDING
+  const halfHeight = size.height / 2 - MAP_VIEW.PADDING
+  const fits = (zoom: number) => {
+    const origin = project(center.lat, center.lon, zoom)
+    const ringPx = subjectLocated ? (Math.max(...MAP_RINGS_KM) * 1000) / metersPerPixel(center.lat, zoom) : 0
+    if (ringPx > Math.min(halfWidth, halfHeight)) return false
+    return located.every(comp => {
+      const point = project(comp.lat!, comp.lon!, zoom)
+      return Math.abs(point.x - origin.x) <= halfWidth && Math.abs(point.y - origin.y) <= halfHeight
+    })
+  }
+
+  let zoom: number = MAP_VIEW.MAX_ZOOM
+  while (zoom > MAP_VIEW.MIN_ZOOM && !fits(zoom)) zoom--
+
+  const origin = project(center.lat, center.lon, zoom)
+  const left = origin.x - size.width / 2
+  const top = origin.y - size.height / 2
+  const toView = (lat: number, lon: number) => {
+    const point = project(lat, lon, zoom)
+    return { x: point.x - left, y: point.y - top }
+  }
+
+  const tiles: MapTile[] = []
+  const tileCount = 2 ** zoom
+  for (let tileX = Math.floor(left / MAP_VIEW.TILE_SIZE); tileX * MAP_VIEW.TILE_SIZE < left + size.width; tileX++) {
+    for (let tileY = Math.floor(top / MAP_VIEW.TILE_SIZE); tileY * MAP_VIEW.TILE_SIZE < top + size.height; tileY++) {
+      if (tileY < 0 || tileY >= tileCount) continue
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount
+      tiles.push({
+        url: `${MAP_VIEW.TILE_URL}/${zoom}/${wrappedX}/${tileY}.png`,
+        x: tileX * MAP_VIEW.TILE_SIZE - left,
+        y: tileY * MAP_VIEW.TILE_SIZE - top,
+        size: MAP_VIEW.TILE_SIZE
+      })
+    }
+  }
+
+  return {
+    width: size.width,
+    height: size.height,
+    zoom,
+    subject: subjectLocated && {
+      id: 0,
+      kind: 'subject',
+      ...toView(subjectLocated.lat, subjectLocated.lon),
+      label: 'Propiedad',
+      color: SIMILARITY_COLORS.SUBJECT,
+      address: subject.address || ''
+    },
+    markers: located.map(comp => ({
+      id: comp.id,
+      kind: 'comparable',
+      ...toView(comp.lat!, comp.lon!),
+      label: comp.price_per_m2 > 0 ? pricePerM2Label(comp.price_per_m2) : `$${comp.rent_clp.toLocaleString('es-CL')}`,
+      color: similarityColor(comp.similarity_score),
+      address: comp.address,
+      similarity_score: comp.similarity_score,
+      distance_km: comp.distance_km
+    })),
+    rings: subjectLocated
+      ? MAP_RINGS_KM.map(radiusKm => ({
+          radius_km: radiusKm,
+          radius_px: (radiusKm * 1000) / metersPerPixel(subjectLocated.lat, zoom)
+        }))
+      : [],
+    tiles,
+    missing_coordinates: comparables.length - located.length
+  }
+}
@@ -0,0 +1,42 @@
+/*
+Domain: Comunas
+Responsibility: Normalización de direcciones y detección de la comuna a partir del texto de la dirección
+Dependencies: Ninguna
+*/
+
+// Comunas de la Región Metropolitana y principales ciudades de regiones
+export const COMUNAS = [
+  'Santiago', 'Cerrillos', 'Cerro Navia', 'Conchalí', 'El Bosque', 'Estación Central', 'Huechuraba',
+  'Independencia', 'La Cisterna', 'La Florida', 'La Granja', 'La Pintana', 'La Reina', 'Las Condes',
+  'Lo Barnechea', 'Lo Espejo', 'Lo Prado', 'Macul', 'Maipú', 'Ñuñoa', 'Pedro Aguirre Cerda', 'Peñalolén',
+  'Providencia', 'Pudahuel', 'Quilicura', 'Quinta Normal', 'Recoleta', 'Renca', 'San Joaquín', 'San Miguel',
+  'San Ramón', 'Vitacura', 'Puente Alto', 'Pirque', 'San José de Maipo', 'Colina', 'Lampa', 'Tiltil',
+  'San Bernardo', 'Buin', 'Calera de Tango', 'Paine', 'Melipilla', 'Alhué', 'Curacaví', 'María Pinto',
+  'Talagante', 'El Monte', 'Isla de Maipo', 'Padre Hurtado', 'Peñaflor',
+  'Viña del Mar', 'Valparaíso', 'Concón', 'Concepción', 'San Pedro de la Paz', 'La Serena', 'Coquimbo',
+  'Antofagasta', 'Temuco', 'Rancagua', 'Puerto Montt'
+] as const
+
+// Minúsculas, sin tildes y sin puntuación: "Av. Ñuñoa 123" → "av nunoa 123"
+export function normalizeAddress(address: string): string {
+  return address
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+const NORMALIZED_COMUNAS = COMUNAS.map(comuna => ({ comuna, normalized: normalizeAddress(comuna) }))
+  .sort((a, b) => b.normalized.length - a.normalized.length)
+
+// Comuna mencionada en la dirección. "Santiago" solo cuenta si no aparece otra comuna,
+// porque suele venir como ciudad ("Las Condes, Santiago")
+export function detectComuna(address: string | undefined): string | undefined {
+  if (!address) return undefined
+  const normalized = ` ${normalizeAddress(address)} `
+
+  const matches = NORMALIZED_COMUNAS.filter(({ normalized: comuna }) => normalized.includes(` ${comuna} `))
+  const specific = matches.find(({ comuna }) => comuna !== 'Santiago')
+  return (specific || matches[0])?.comuna
+}
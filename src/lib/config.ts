@@ -21,7 +21,7 @@ export const DEFAULT_EXPENSES = {
   ANNUAL_MAINTENANCE_CLP: VALIDATED_CONFIG.NEXT_PUBLIC_DEFAULT_MAINTENANCE || 500000,
   ANNUAL_PROPERTY_TAX_CLP: VALIDATED_CONFIG.NEXT_PUBLIC_DEFAULT_PROPERTY_TAX || 300000,
   ANNUAL_INSURANCE_CLP: VALIDATED_CONFIG.NEXT_PUBLIC_DEFAULT_INSURANCE || 200000,
-  ADMIN_PERCENTAGE: VALIDATED_CONFIG.NEXT_PUBLIC_ADMIN_PERCENTAGE || 2.5, // % del valor de la propiedad
+  ADMIN_PERCENTAGE: VALIDATED_CONFIG.NEXT_PUBLIC_ADMIN_PERCENTAGE || 2.5, // % del arriendo cobrado (ver lib/ownerExpenses)
 } as const
 
 // Configuración de comisiones por defecto (usando valores validados)
@@ -87,6 +87,41 @@ export const PROPITAL_CONFIG = {
   TIMEOUT_MS: parseInt(process.env.PROPITAL_TIMEOUT || '10000'),
 } as const
 
+// Configuración de geocodificación (lib/geocodingService, solo servidor)
+export const GEOCODING_CONFIG = {
+  // Proveedores en orden de prioridad; 'gazetteer' funciona sin conexión
+  PROVIDERS: (process.env.GEOCODING_PROVIDERS || 'nominatim,gazetteer').split(',').map(provider => provider.trim()).filter(Boolean),
+  NOMINATIM_URL: process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+  // Nominatim exige identificar la aplicación y no más de una consulta por segundo
+  USER_AGENT: process.env.GEOCODING_USER_AGENT || 'AnalisisRentabilidad/1.0 (contacto@tumatch.cl)',
+  MIN_INTERVAL_MS: parseInt(process.env.GEOCODING_MIN_INTERVAL_MS || '1000'),
+  TIMEOUT_MS: parseInt(process.env.GEOCODING_TIMEOUT_MS || '8000'),
+  // Espera máxima al guardar un análisis; después se usa el nomenclátor local
+  STORAGE_TIMEOUT_MS: parseInt(process.env.GEOCODING_STORAGE_TIMEOUT_MS || '2500'),
+  CACHE_FILE: process.env.GEOCODING_CACHE_FILE || '.cache/geocoding.json',
+} as const
+
+// Persistencia de análisis (lib/analysisRepository, solo servidor)
+export const STORAGE_CONFIG = {
+  // 'file' guarda en disco; 'memory' se pierde al reiniciar el servidor (pruebas y demos)
+  ANALYSES_DRIVER: process.env.ANALYSES_STORAGE_DRIVER || 'file',
+  ANALYSES_FILE: process.env.ANALYSES_STORAGE_FILE || '.data/analyses.json',
+  // Historial de cambios: un archivo JSON Lines al que solo se agregan líneas
+  ANALYSES_HISTORY_FILE: process.env.ANALYSES_HISTORY_FILE || '.data/analysis-history.jsonl',
+  // Datos compartidos por la oficina (lib/documentStore); ANALYSES_DRIVER también decide si van a disco
+  PLAN_CATALOG_FILE: process.env.PLAN_CATALOG_FILE || '.data/plan-catalog.json',
+  SIMILARITY_WEIGHTS_FILE: process.env.SIMILARITY_WEIGHTS_FILE || '.data/similarity-weights.json',
+  COMPARABLE_LIBRARY_FILE: process.env.COMPARABLE_LIBRARY_FILE || '.data/comparable-library.json',
+} as const
+
+// Vencimiento de propuestas enviadas (lib/proposalScheduler, solo servidor)
+export const PROPOSAL_EXPIRY_CONFIG = {
+  // Recordatorios al corredor, en días antes del vencimiento
+  REMINDER_DAYS: (process.env.PROPOSAL_REMINDER_DAYS || '7,3,1').split(',').map(days => parseInt(days.trim())).filter(days => days > 0),
+  // /api/cron/proposal-expiry exige "Authorization: Bearer <CRON_SECRET>"; sin definir, la ruta queda cerrada
+  CRON_SECRET: process.env.CRON_SECRET,
+} as const
+
 // Configuración de notificaciones
 export const NOTIFICATIONS_CONFIG = {
   EMAIL_ENABLED: process.env.EMAIL_ENABLED === 'true',
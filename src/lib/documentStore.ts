@@ -0,0 +1,107 @@
+/*
+Domain: Shared Office Data
+Responsibility: Documento JSON del servidor para los datos que comparte la oficina (catálogo de planes, pesos
+  de similitud, biblioteca de comparables): lectura, y modificaciones de a una con escritura atómica en archivo,
+  o en memoria para pruebas
+Dependencies: fs, lib/config
+*/
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { STORAGE_CONFIG } from '@/lib/config'
+
+export interface DocumentStore<T> {
+  read(): Promise<T>
+  // Lee, aplica el cambio y guarda como un solo paso: dos modificaciones simultáneas no se pisan
+  update(change: (current: T) => T): Promise<T>
+}
+
+// Copias independientes: quien lee el documento no puede modificar lo guardado sin llamar a update
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+// Encadena las operaciones para que corran de a una
+function createQueue() {
+  let queue: Promise<unknown> = Promise.resolve()
+  return {
+    idle: () => queue,
+    run<R>(operation: () => Promise<R>): Promise<R> {
+      const result = queue.then(operation)
+      queue = result.catch(() => undefined)
+      return result
+    }
+  }
+}
+
+export function createMemoryDocumentStore<T>(initial: T): DocumentStore<T> {
+  let document = clone(initial)
+  const queue = createQueue()
+
+  return {
+    async read() {
+      await queue.idle()
+      return clone(document)
+    },
+    update(change) {
+      return queue.run(async () => {
+        document = clone(change(clone(document)))
+        return clone(document)
+      })
+    }
+  }
+}
+
+// Un archivo que no existe vale initial; uno ilegible es un error (no se trata como vacío para no perder datos).
+// Se escribe a un temporal y se renombra para no dejar el archivo a medias
+export function createFileDocumentStore<T>(filePath: string, initial: T): DocumentStore<T> {
+  const absolutePath = path.resolve(process.cwd(), filePath)
+  const queue = createQueue()
+  let cached: T | null = null
+
+  const load = async (): Promise<T> => {
+    if (cached !== null) return cached
+
+    let content: string
+    try {
+      content = await fs.readFile(absolutePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      return clone(initial)
+    }
+
+    try {
+      cached = JSON.parse(content) as T
+    } catch {
+      throw new Error(`El archivo ${filePath} no es JSON válido; corríjalo o elimínelo para empezar de nuevo`)
+    }
+    return cached
+  }
+
+  const persist = async (document: T) => {
+    const temporaryPath = `${absolutePath}.${process.pid}.tmp`
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+    await fs.writeFile(temporaryPath, JSON.stringify(document), 'utf8')
+    await fs.rename(temporaryPath, absolutePath)
+  }
+
+  return {
+    async read() {
+      await queue.idle()
+      return clone(await load())
+    },
+    update(change) {
+      return queue.run(async () => {
+        const next = change(clone(await load()))
+        await persist(next)
+        cached = clone(next)
+        return clone(next)
+      })
+    }
+  }
+}
+
+// Documento según ANALYSES_STORAGE_DRIVER: en memoria ('memory') o en archivo
+export function createDocumentStore<T>(filePath: string, initial: T): DocumentStore<T> {
+  return STORAGE_CONFIG.ANALYSES_DRIVER === 'memory'
+    ? createMemoryDocumentStore(initial)
+    : createFileDocumentStore(filePath, initial)
+}
@@ -0,0 +1,76 @@
+/*
+Domain: Financing
+Responsibility: Retornos apalancados con crédito hipotecario en UF (dividendo, cash-on-cash, DSCR)
+Dependencies: Tipos de rental
+*/
+
+import type { FinancingInput, LeveragedReturns } from '@/types/rental'
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Dividendo mensual con sistema francés (cuota fija); tasa mensual = tasa anual / 12
+export function calculateMonthlyDividendUf(loanUf: number, annualRatePercentage: number, termYears: number): number {
+  const months = Math.round(termYears * 12)
+  if (loanUf <= 0 || months <= 0) return 0
+
+  const monthlyRate = annualRatePercentage / 100 / 12
+  if (monthlyRate <= 0) return loanUf / months
+
+  return (loanUf * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months))
+}
+
+// Saldo insoluto en UF después de pagar monthsPaid dividendos (0 una vez terminado el plazo)
+export function calculateLoanBalanceUf(loanUf: number, annualRatePercentage: number, termYears: number, monthsPaid: number): number {
+  const months = Math.round(termYears * 12)
+  if (loanUf <= 0 || months <= 0 || monthsPaid >= months) return 0
+
+  const dividend = calculateMonthlyDividendUf(loanUf, annualRatePercentage, termYears)
+  const monthlyRate = annualRatePercentage / 100 / 12
+  if (monthlyRate <= 0) return loanUf - dividend * monthsPaid
+
+  const growth = Math.pow(1 + monthlyRate, monthsPaid)
+  return loanUf * growth - (dividend * (growth - 1)) / monthlyRate
+}
+
+// Un crédito solo se considera si tiene monto, plazo y tasa válidos
+export function isFinancingComplete(financing?: FinancingInput): financing is FinancingInput {
+  return !!financing &&
+    financing.loan_uf > 0 &&
+    financing.term_years > 0 &&
+    financing.annual_rate_percentage >= 0
+}
+
+export function calculateLeveragedReturns(params: {
+  financing: FinancingInput
+  netOperatingIncome: number // NOI anual en CLP
+  monthlyRentClp: number
+  propertyValueClp: number
+  ufValueClp: number
+}): LeveragedReturns {
+  const { financing, netOperatingIncome, monthlyRentClp, propertyValueClp, ufValueClp } = params
+
+  const dividendUf = calculateMonthlyDividendUf(financing.loan_uf, financing.annual_rate_percentage, financing.term_years)
+  const dividendClp = dividendUf * ufValueClp
+  const annualDebtService = dividendClp * 12
+
+  // Si no se informa el pie, se asume la diferencia entre valor de la propiedad y crédito
+  const equityInvested = financing.down_payment_uf > 0
+    ? financing.down_payment_uf * ufValueClp
+    : Math.max(0, propertyValueClp - financing.loan_uf * ufValueClp)
+
+  const annualCashFlow = netOperatingIncome - annualDebtService
+
+  return {
+    financing,
+    monthly_dividend_uf: round2(dividendUf),
+    monthly_dividend_clp: Math.round(dividendClp),
+    annual_debt_service_clp: Math.round(annualDebtService),
+    equity_invested_clp: Math.round(equityInvested),
+    monthly_cash_flow_clp: Math.round(annualCashFlow / 12),
+    cash_on_cash_percentage: equityInvested > 0 ? round2((annualCashFlow / equityInvested) * 100) : 0,
+    debt_service_coverage_ratio: annualDebtService > 0 ? round2(netOperatingIncome / annualDebtService) : 0,
+    rent_covers_dividend: monthlyRentClp >= dividendClp
+  }
+}
@@ -0,0 +1,49 @@
+/*
+Domain: Geocoding
+Responsibility: Geocodificación de direcciones desde el navegador (vía /api/geocode) y distancias entre coordenadas
+Dependencies: fetch, tipos de rental (el servicio del servidor está en lib/geocodingService)
+*/
+
+import type { GeocodeAccuracy, GeocodedLocation } from '@/types/rental'
+
+export interface Coordinates {
+  lat: number
+  lon: number
+}
+
+// Centro de Santiago, usado cuando no se encuentra la dirección
+export const DEFAULT_COORDINATES: Coordinates = { lat: -33.45, lon: -70.6 }
+
+const EARTH_RADIUS_KM = 6371
+
+// Texto de precisión para mostrar al usuario
+export const GEOCODE_ACCURACY_LABELS: Record<GeocodeAccuracy, string> = {
+  building: 'Edificio específico',
+  address: 'Dirección con número',
+  street: 'Calle específica',
+  neighbourhood: 'Barrio',
+  comuna: 'Ubicación aproximada (comuna)'
+}
+
+// Geocodifica con el servicio del servidor (/api/geocode: caché y límites de consultas).
+// null si la dirección no se encuentra
+export async function geocodeAddress(address: string): Promise<GeocodedLocation | null> {
+  const response = await fetch(`/api/geocode?address=${encodeURIComponent(address)}`)
+  if (response.status === 404) return null
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'No se pudo ubicar la dirección')
+  }
+  return data.location
+}
+
+// Distancia en línea recta (fórmula de haversine)
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const deltaLat = toRadians(to.lat - from.lat)
+  const deltaLon = toRadians(to.lon - from.lon)
+  const a = Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(deltaLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
@@ -0,0 +1,407 @@
+/*
+Domain: Geocoding
+Responsibility: Servicio de geocodificación del servidor: proveedores intercambiables (Nominatim y un nomenclátor
+  local sin conexión), caché persistente por dirección normalizada y límites de consultas
+Dependencies: fs (caché en disco), lib/config, lib/comunas, src/data/gazetteer-cl.json, tipos de rental
+*/
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { GeocodeAccuracy, GeocodedLocation } from '@/types/rental'
+import { GEOCODING_CONFIG } from '@/lib/config'
+import { detectComuna, normalizeAddress } from '@/lib/comunas'
+import gazetteerData from '@/data/gazetteer-cl.json'
+
+export interface GeocodingProvider {
+  id: string
+  geocode(address: string): Promise<GeocodedLocation | null>
+}
+
+export interface GeocodeCache {
+  get(key: string): Promise<GeocodedLocation | null | undefined> // undefined: no está en caché
+  set(key: string, location: GeocodedLocation | null): Promise<void>
+}
+
+export const GEOCODING_DEFAULTS = {
+  CACHE_TTL_DAYS: 180,
+  NOT_FOUND_TTL_DAYS: 1, // Las direcciones no encontradas se reintentan al día siguiente
+  MAX_CACHE_ENTRIES: 5000,
+  MIN_ADDRESS_LENGTH: 4
+} as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function geocodeCacheKey(address: string): string {
+  return normalizeAddress(address)
+}
+
+// ---------------------------------------------------------------------------
+// Límites de consultas
+// ---------------------------------------------------------------------------
+
+// Ejecuta las tareas de a una, separadas por al menos minIntervalMs (política de uso de Nominatim)
+export function createThrottle(minIntervalMs: number) {
+  let queue: Promise<unknown> = Promise.resolve()
+  let lastRun = 0
+
+  return function throttle<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(async () => {
+      const wait = lastRun + minIntervalMs - Date.now()
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait))
+      lastRun = Date.now()
+      return task()
+    })
+    queue = run.catch(() => undefined)
+    return run
+  }
+}
+
+// Ventana fija por cliente: true si la consulta está permitida
+export function createRateLimiter(options: { limit: number; windowMs: number }) {
+  const windows = new Map<string, { start: number; count: number }>()
+
+  return function allow(clientKey: string, now: number = Date.now()): boolean {
+    const current = windows.get(clientKey)
+    if (!current || now - current.start >= options.windowMs) {
+      // Se limpian ventanas vencidas para no acumular clientes
+      if (windows.size > 1000) {
+        windows.forEach((window, key) => {
+          if (now - window.start >= options.windowMs) windows.delete(key)
+        })
+      }
+      windows.set(clientKey, { start: now, count: 1 })
+      return true
+    }
+    if (current.count >= options.limit) return false
+    current.count++
+    return true
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Proveedores
+// ---------------------------------------------------------------------------
+
+// Puntaje de precisión de un resultado de Nominatim: más alto para lugares más específicos
+function nominatimScore(result: any): number {
+  let score = 0
+
+  if (result.class === 'building') score += 100
+  if (result.class === 'place' && result.type === 'house') score += 90
+  if (result.class === 'highway' && result.type === 'residential') score += 80
+  if (result.class === 'place' && result.type === 'neighbourhood') score += 70
+
+  // Dar puntos por tener número de casa
+  if (String(result.display_name).match(/\d+/)) score += 50
+
+  // Dar puntos por importancia del resultado
+  if (result.importance) score += result.importance * 30
+
+  return score
+}
+
+function nominatimAccuracy(result: any): GeocodeAccuracy {
+  if (result.class === 'building' || (result.class === 'place' && result.type === 'house')) return 'building'
+  if (result.address?.house_number) return 'address'
+  if (result.class === 'highway') return 'street'
+  if (['neighbourhood', 'suburb', 'quarter'].includes(result.type)) return 'neighbourhood'
+  return 'comuna'
+}
+
+export function createNominatimProvider(options: {
+  baseUrl?: string
+  userAgent?: string
+  minIntervalMs?: number
+  timeoutMs?: number
+} = {}): GeocodingProvider {
+  const baseUrl = options.baseUrl || GEOCODING_CONFIG.NOMINATIM_URL
+  const throttle = createThrottle(options.minIntervalMs ?? GEOCODING_CONFIG.MIN_INTERVAL_MS)
+  const timeoutMs = options.timeoutMs ?? GEOCODING_CONFIG.TIMEOUT_MS
+
+  const search = (query: string) => throttle(async () => {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), timeoutMs)
+    try {
+      const response = await fetch(
+        `${baseUrl}/search?format=json&q=${encodeURIComponent(query)}&limit=3&countrycodes=cl&addressdetails=1`,
+        {
+          signal: controller.signal,
+          headers: {
+            'Accept': 'application/json',
+            'Accept-Language': 'es-CL,es;q=0.9',
+            'User-Agent': options.userAgent || GEOCODING_CONFIG.USER_AGENT
+          }
+        }
+      )
+      if (!response.ok) throw new Error(`Nominatim respondió con estado ${response.status}`)
+      const data = await response.json()
+      return Array.isArray(data) ? data : []
+    } finally {
+      clearTimeout(timeout)
+    }
+  })
+
+  return {
+    id: 'nominatim',
+    async geocode(address) {
+      const strategies = [
+        // Estrategia 1: Dirección exacta
+        `${address}, Chile`,
+        // Estrategia 2: Con región metropolitana
+        `${address}, Santiago, Región Metropolitana, Chile`,
+        // Estrategia 3: Solo la dirección principal
+        address.split(',')[0] + ', Chile'
+      ]
+
+      let best: any = null
+      let bestScore = 0
+      for (const strategy of strategies) {
+        for (const result of await search(strategy)) {
+          const score = nominatimScore(result)
+          if (score > bestScore) {
+            bestScore = score
+            best = result
+          }
+        }
+        if (best) break // Si encontramos un resultado, no probar más estrategias
+      }
+
+      if (!best) return null
+
+      const details = best.address || {}
+      return {
+        lat: parseFloat(best.lat),
+        lon: parseFloat(best.lon),
+        comuna: detectComuna([details.city, details.town, details.suburb, details.city_district, details.municipality].filter(Boolean).join(', '))
+          || detectComuna(best.display_name)
+          || detectComuna(address),
+        region: details.state,
+        accuracy: nominatimAccuracy(best),
+        display_name: best.display_name,
+        provider: 'nominatim',
+        geocoded_at: new Date().toISOString()
+      }
+    }
+  }
+}
+
+interface GazetteerData {
+  comunas: Array<{ name: string; region: string; lat: number; lon: number }>
+  streets: Array<{ name: string; comuna: string; lat: number; lon: number }>
+}
+
+// Nomenclátor local: avenida conocida (precisión de calle) o centro de la comuna. No requiere conexión
+export function createGazetteerProvider(data: GazetteerData = gazetteerData): GeocodingProvider {
+  // La avenida solo cuenta seguida de un número ("Providencia 1234"), para no confundirla con la comuna
+  const streets = data.streets
+    .map(street => ({ ...street, pattern: new RegExp(`(^| )${normalizeAddress(street.name)} \\d`) }))
+    .sort((a, b) => b.name.length - a.name.length)
+
+  return {
+    id: 'gazetteer',
+    async geocode(address) {
+      const normalized = normalizeAddress(address)
+      const comunaName = detectComuna(address)
+      const street = streets.find(item =>
+        item.pattern.test(normalized) && (!comunaName || item.comuna === comunaName)
+      )
+      const comuna = data.comunas.find(item => item.name === (street?.comuna || comunaName))
+      if (!comuna) return null
+
+      return {
+        lat: street ? street.lat : comuna.lat,
+        lon: street ? street.lon : comuna.lon,
+        comuna: comuna.name,
+        region: comuna.region,
+        accuracy: street ? 'street' : 'comuna',
+        display_name: street ? `${street.name}, ${comuna.name}, ${comuna.region}` : `${comuna.name}, ${comuna.region}`,
+        provider: 'gazetteer',
+        geocoded_at: new Date().toISOString()
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Caché
+// ---------------------------------------------------------------------------
+
+interface CachedGeocode {
+  location: GeocodedLocation | null
+  cached_at: number
+}
+
+function isFresh(entry: CachedGeocode, now: number): boolean {
+  const ttlDays = entry.location ? GEOCODING_DEFAULTS.CACHE_TTL_DAYS : GEOCODING_DEFAULTS.NOT_FOUND_TTL_DAYS
+  return now - entry.cached_at < ttlDays * DAY_MS
+}
+
+// Se descartan las entradas más antiguas sobre el máximo
+function pruneEntries(entries: Map<string, CachedGeocode>): void {
+  if (entries.size <= GEOCODING_DEFAULTS.MAX_CACHE_ENTRIES) return
+  Array.from(entries.entries())
+    .sort(([, a], [, b]) => a.cached_at - b.cached_at)
+    .slice(0, entries.size - GEOCODING_DEFAULTS.MAX_CACHE_ENTRIES)
+    .forEach(([key]) => entries.delete(key))
+}
+
+export function createMemoryGeocodeCache(): GeocodeCache {
+  const entries = new Map<string, CachedGeocode>()
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      return entry && isFresh(entry, Date.now()) ? entry.location : undefined
+    },
+    async set(key, location) {
+      entries.set(key, { location, cached_at: Date.now() })
+      pruneEntries(entries)
+    }
+  }
+}
+
+// Caché en un archivo JSON: sobrevive a los reinicios del servidor. Si el archivo existe pero no se puede
+// leer o interpretar, funciona solo en memoria y no lo sobrescribe (se revisa o elimina a mano)
+export function createFileGeocodeCache(filePath: string = GEOCODING_CONFIG.CACHE_FILE): GeocodeCache {
+  const absolutePath = path.resolve(process.cwd(), filePath)
+  let entries: Map<string, CachedGeocode> | null = null
+  let persistent = true
+  let writing: Promise<void> = Promise.resolve()
+
+  const load = async () => {
+    if (entries) return entries
+    try {
+      const content = JSON.parse(await fs.readFile(absolutePath, 'utf8'))
+      entries = new Map(Object.entries(content) as Array<[string, CachedGeocode]>)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        persistent = false
+        console.warn(`No se pudo leer la caché de geocodificación ${filePath}; se usará solo en memoria:`, error)
+      }
+      entries = new Map()
+    }
+    return entries
+  }
+
+  const persist = () => {
+    if (!persistent) return writing
+    writing = writing.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+        await fs.writeFile(absolutePath, JSON.stringify(Object.fromEntries(entries!)), 'utf8')
+      } catch (error) {
+        console.warn('No se pudo guardar la caché de geocodificación:', error)
+      }
+    })
+    return writing
+  }
+
+  return {
+    async get(key) {
+      const entry = (await load()).get(key)
+      return entry && isFresh(entry, Date.now()) ? entry.location : undefined
+    },
+    async set(key, location) {
+      const current = await load()
+      current.set(key, { location, cached_at: Date.now() })
+      pruneEntries(current)
+      await persist()
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Servicio
+// ---------------------------------------------------------------------------
+
+export interface GeocodingService {
+  geocode(address: string): Promise<GeocodedLocation | null>
+}
+
+// Prueba los proveedores en orden; si uno falla (sin conexión, límite del proveedor) sigue con el siguiente.
+// Solo se guarda en caché un "no encontrado" cuando ningún proveedor falló
+export function createGeocodingService(options: { providers: GeocodingProvider[]; cache?: GeocodeCache }): GeocodingService {
+  const cache = options.cache || createMemoryGeocodeCache()
+
+  return {
+    async geocode(address) {
+      const key = geocodeCacheKey(address)
+      if (key.length < GEOCODING_DEFAULTS.MIN_ADDRESS_LENGTH) return null
+
+      const cached = await cache.get(key)
+      if (cached !== undefined) return cached
+
+      let failed = false
+      for (const provider of options.providers) {
+        try {
+          const location = await provider.geocode(address)
+          if (location) {
+            await cache.set(key, location)
+            return location
+          }
+        } catch (error) {
+          failed = true
+          console.warn(`Geocodificación con ${provider.id} falló:`, error)
+        }
+      }
+
+      if (!failed) await cache.set(key, null)
+      return null
+    }
+  }
+}
+
+const PROVIDER_FACTORIES: Record<string, () => GeocodingProvider> = {
+  nominatim: () => createNominatimProvider(),
+  gazetteer: () => createGazetteerProvider()
+}
+
+let defaultService: GeocodingService | null = null
+
+// Servicio configurado con GEOCODING_PROVIDERS y la caché en disco (una instancia por proceso,
+// para compartir la caché y el límite de Nominatim entre solicitudes)
+export function getGeocodingService(): GeocodingService {
+  if (!defaultService) {
+    const providers = GEOCODING_CONFIG.PROVIDERS
+      .filter(id => id in PROVIDER_FACTORIES)
+      .map(id => PROVIDER_FACTORIES[id]())
+    defaultService = createGeocodingService({
+      providers: providers.length > 0 ? providers : [createGazetteerProvider()],
+      cache: createFileGeocodeCache()
+    })
+  }
+  return defaultService
+}
+
+let offlineProvider: GeocodingProvider | null = null
+
+// Ubicación para guardar con un análisis: nunca falla y espera a lo más timeoutMs (sin ubicación el análisis se
+// guarda igual). La cola de Nominatim es una sola para todo el servidor: si no responde a tiempo se usa el
+// nomenclátor local, y la consulta pendiente sigue y deja su resultado en caché para el próximo guardado
+export async function locateForStorage(
+  address: string | undefined,
+  timeoutMs: number = GEOCODING_CONFIG.STORAGE_TIMEOUT_MS,
+  service: GeocodingService = getGeocodingService()
+): Promise<GeocodedLocation | undefined> {
+  if (!address) return undefined
+
+  const pending = service.geocode(address).catch(error => {
+    console.warn('No se pudo geocodificar la dirección del análisis:', error)
+    return null
+  })
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const deadline = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs)
+  })
+  const result = await Promise.race([pending, deadline])
+  clearTimeout(timer)
+  if (result !== 'timeout') return result || undefined
+
+  try {
+    offlineProvider = offlineProvider || createGazetteerProvider()
+    return (await offlineProvider.geocode(address)) || undefined
+  } catch (error) {
+    console.warn('No se pudo ubicar la dirección del análisis en el nomenclátor local:', error)
+    return undefined
+  }
+}
@@ -0,0 +1,171 @@
+/*
+Domain: Hold and Sell
+Responsibility: Retorno total de mantener la propiedad y venderla (TIR, VAN y múltiplo del capital), con los
+  flujos del capital propio si la compra tiene crédito hipotecario
+Dependencies: lib/cashFlowProjection, lib/financing, tipos de rental
+*/
+
+import type {
+  RentalAnalysis,
+  CashFlowProjectionSettings,
+  HoldAndSellSettings,
+  HoldAndSellScenario,
+  LeveragedReturns
+} from '@/types/rental'
+import { projectCashFlow, PROJECTION_DEFAULTS } from '@/lib/cashFlowProjection'
+import { calculateLoanBalanceUf, calculateMonthlyDividendUf, isFinancingComplete } from '@/lib/financing'
+
+export const HOLD_AND_SELL_DEFAULTS = {
+  EXIT_YEAR: 10,
+  ANNUAL_APPRECIATION_UF_PERCENTAGE: 2,
+  SALE_COSTS_PERCENTAGE: 2.5, // Corretaje 2% + IVA y gastos notariales
+  DISCOUNT_RATE_PERCENTAGE: 8
+} as const
+
+const IRR_MIN_RATE = -0.99
+const IRR_MAX_RATE = 10
+const IRR_TOLERANCE = 1e-7
+const IRR_MAX_ITERATIONS = 200
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Flujos anuales: índice 0 = hoy (sin descontar)
+export function calculateNPV(discountRatePercentage: number, cashFlows: number[]): number {
+  const rate = discountRatePercentage / 100
+  return cashFlows.reduce((npv, cashFlow, year) => npv + cashFlow / Math.pow(1 + rate, year), 0)
+}
+
+// TIR por bisección; devuelve null si no existe una tasa que anule el VAN en el rango
+export function calculateIRR(cashFlows: number[]): number | null {
+  const npvAt = (rate: number) => calculateNPV(rate * 100, cashFlows)
+
+  let low = IRR_MIN_RATE
+  let high = IRR_MAX_RATE
+  let npvLow = npvAt(low)
+  const npvHigh = npvAt(high)
+
+  if (!isFinite(npvLow) || !isFinite(npvHigh) || npvLow * npvHigh > 0) return null
+
+  for (let i = 0; i < IRR_MAX_ITERATIONS; i++) {
+    const mid = (low + high) / 2
+    const npvMid = npvAt(mid)
+
+    if (Math.abs(npvMid) < IRR_TOLERANCE || (high - low) / 2 < IRR_TOLERANCE) {
+      return mid * 100
+    }
+
+    if (npvMid * npvLow > 0) {
+      low = mid
+      npvLow = npvMid
+    } else {
+      high = mid
+    }
+  }
+
+  return ((low + high) / 2) * 100
+}
+
+export function resolveHoldAndSellSettings(overrides: Partial<HoldAndSellSettings> = {}): HoldAndSellSettings {
+  const exitYear = Math.round(overrides.exit_year ?? HOLD_AND_SELL_DEFAULTS.EXIT_YEAR)
+
+  return {
+    exit_year: Math.min(Math.max(exitYear, 1), PROJECTION_DEFAULTS.MAX_YEARS),
+    annual_appreciation_uf_percentage: overrides.annual_appreciation_uf_percentage ?? HOLD_AND_SELL_DEFAULTS.ANNUAL_APPRECIATION_UF_PERCENTAGE,
+    sale_costs_percentage: overrides.sale_costs_percentage ?? HOLD_AND_SELL_DEFAULTS.SALE_COSTS_PERCENTAGE,
+    discount_rate_percentage: overrides.discount_rate_percentage ?? HOLD_AND_SELL_DEFAULTS.DISCOUNT_RATE_PERCENTAGE
+  }
+}
+
+interface DebtFlows {
+  equityInvested: number
+  annualDebtService: number[] // Por año de tenencia
+  loanBalanceAtExit: number
+}
+
+// Con crédito el propietario pone el pie, paga el dividendo en UF (en pesos sigue a la inflación) y al vender
+// salda el saldo insoluto, también en UF
+function debtFlows(
+  leveraged: LeveragedReturns,
+  purchaseValue: number,
+  exitYear: number,
+  inflation: number
+): DebtFlows {
+  const { loan_uf: loanUf, annual_rate_percentage: rate, term_years: termYears } = leveraged.financing
+  const dividendUf = calculateMonthlyDividendUf(loanUf, rate, termYears)
+  // El valor de la UF del análisis se deduce del dividendo que ya se calculó con ella
+  const ufValue = dividendUf > 0 ? leveraged.annual_debt_service_clp / (dividendUf * 12) : 0
+  const termMonths = Math.round(termYears * 12)
+  const monthlyGrowth = Math.pow(1 + inflation, 1 / 12)
+
+  const annualDebtService: number[] = []
+  for (let year = 1; year <= exitYear; year++) {
+    let debtService = 0
+    for (let month = (year - 1) * 12; month < Math.min(year * 12, termMonths); month++) {
+      debtService += dividendUf * ufValue * Math.pow(monthlyGrowth, month)
+    }
+    annualDebtService.push(debtService)
+  }
+
+  const balanceUf = calculateLoanBalanceUf(loanUf, rate, termYears, exitYear * 12)
+  return {
+    equityInvested: Math.min(leveraged.equity_invested_clp, purchaseValue),
+    annualDebtService,
+    loanBalanceAtExit: balanceUf * ufValue * Math.pow(1 + inflation, exitYear)
+  }
+}
+
+// Sin crédito los flujos son los de la propiedad completa; con crédito (analysis.leveraged_returns) son los del
+// capital propio: pie, arriendo neto menos dividendo y venta menos saldo del crédito
+export function calculateHoldAndSell(
+  analysis: RentalAnalysis,
+  overrides: Partial<HoldAndSellSettings> = {},
+  projectionOverrides: Partial<CashFlowProjectionSettings> = {}
+): HoldAndSellScenario {
+  const settings = resolveHoldAndSellSettings(overrides)
+  const projection = projectCashFlow(analysis, { ...projectionOverrides, years: settings.exit_year })
+  const inflation = projection.settings.annual_inflation_percentage / 100
+
+  // value_clp ya viene convertido desde UF cuando la propiedad se ingresó en UF
+  const purchaseValue = analysis.property.value_clp
+
+  // La plusvalía se mide en UF; el precio en pesos además sigue la variación de la UF
+  const saleValue = purchaseValue *
+    Math.pow(1 + settings.annual_appreciation_uf_percentage / 100, settings.exit_year) *
+    Math.pow(1 + inflation, settings.exit_year)
+  const saleCosts = saleValue * (settings.sale_costs_percentage / 100)
+  const netSaleProceeds = saleValue - saleCosts
+
+  const debt: DebtFlows = analysis.leveraged_returns && isFinancingComplete(analysis.leveraged_returns.financing)
+    ? debtFlows(analysis.leveraged_returns, purchaseValue, settings.exit_year, inflation)
+    : { equityInvested: purchaseValue, annualDebtService: [], loanBalanceAtExit: 0 }
+  const levered = debt.annualDebtService.length > 0
+
+  const cashFlows = [
+    -debt.equityInvested,
+    ...projection.years.map((year, index) => year.net_operating_income - (debt.annualDebtService[index] || 0))
+  ]
+  cashFlows[cashFlows.length - 1] += netSaleProceeds - debt.loanBalanceAtExit
+
+  const totalDistributions = cashFlows.slice(1).reduce((sum, cashFlow) => sum + cashFlow, 0)
+  const irr = debt.equityInvested > 0 ? calculateIRR(cashFlows) : null
+
+  return {
+    settings,
+    projection,
+    purchase_value_clp: Math.round(purchaseValue),
+    sale_value_clp: Math.round(saleValue),
+    sale_costs_clp: Math.round(saleCosts),
+    net_sale_proceeds_clp: Math.round(netSaleProceeds),
+    cash_flows: cashFlows.map(cashFlow => Math.round(cashFlow)),
+    levered,
+    equity_invested_clp: Math.round(debt.equityInvested),
+    debt_service_clp: Math.round(debt.annualDebtService.reduce((sum, payment) => sum + payment, 0)),
+    loan_balance_at_exit_clp: Math.round(debt.loanBalanceAtExit),
+    irr_percentage: irr === null ? null : round2(irr),
+    npv_clp: Math.round(calculateNPV(settings.discount_rate_percentage, cashFlows)),
+    equity_multiple: debt.equityInvested > 0 ? round2(totalDistributions / debt.equityInvested) : 0,
+    total_profit_clp: Math.round(totalDistributions - debt.equityInvested)
+  }
+}
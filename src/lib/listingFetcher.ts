@@ -0,0 +1,155 @@
+/*
+Domain: Listing Import
+Responsibility: Descargar el HTML de una publicación desde el servidor sin alcanzar la red interna: cada host
+  (también los de las redirecciones) se resuelve y se rechaza si alguna de sus direcciones no es pública, y el
+  cuerpo se lee por partes y se corta al pasar el tamaño máximo
+Dependencies: http/https/dns de Node, lib/networkAddress, lib/validation, lib/listingImport
+*/
+
+import http from 'http'
+import https from 'https'
+import dns from 'dns'
+import type { LookupFunction } from 'net'
+import type { Readable } from 'stream'
+import { isIpAddress, isPublicAddress, stripHostBrackets } from '@/lib/networkAddress'
+import { validateListingUrl } from '@/lib/validation'
+import { LISTING_IMPORT_LIMITS } from '@/lib/listingImport'
+
+const MAX_REDIRECTS = 3
+
+export type ListingFetchResult = { html: string; finalUrl: string } | { error: string; status: number }
+
+type ResolveAll = (hostname: string, callback: (error: Error | null, addresses: dns.LookupAddress[]) => void) => void
+
+const resolveAll: ResolveAll = (hostname, callback) => dns.lookup(hostname, { all: true }, callback)
+
+const blockedAddressError = (hostname: string) =>
+  Object.assign(new Error(`${hostname} resuelve a una dirección interna`), { code: 'EBLOCKEDADDRESS' })
+
+// lookup para http.request: la conexión usa solo direcciones ya revisadas, así un DNS que cambia de respuesta
+// entre la revisión y la conexión no puede llevarla a la red interna
+export function createPublicLookup(resolve: ResolveAll = resolveAll): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname, (error, addresses) => {
+      if (error) return callback(error, '', 4)
+
+      const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family
+      const candidates = family ? addresses.filter(address => address.family === family) : addresses
+      if (candidates.length === 0 || !addresses.every(address => isPublicAddress(address.address))) {
+        return callback(blockedAddressError(hostname), '', 4)
+      }
+
+      if (options.all) {
+        (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, candidates)
+      } else {
+        callback(null, candidates[0].address, candidates[0].family)
+      }
+    })
+  }
+}
+
+// Lee el cuerpo completo salvo que pase de maxBytes; en ese caso corta la descarga y devuelve null
+export function readLimitedBody(stream: Readable, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let total = 0
+
+    stream.on('data', (chunk: Buffer) => {
+      total += chunk.length
+      if (total > maxBytes) {
+        stream.destroy()
+        resolve(null)
+        return
+      }
+      chunks.push(chunk)
+    })
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+    stream.on('error', reject)
+  })
+}
+
+interface ListingResponse {
+  status: number
+  location?: string
+  body: Readable
+}
+
+function requestListing(url: URL, signal: AbortSignal, lookup: LookupFunction): Promise<ListingResponse> {
+  const client = url.protocol === 'https:' ? https : http
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, {
+      method: 'GET',
+      signal,
+      lookup,
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml,application/ld+json;q=0.9',
+        'Accept-Encoding': 'identity',
+        'Accept-Language': 'es-CL,es;q=0.9',
+        'User-Agent': 'Mozilla/5.0 (compatible; AnalisisRentabilidad/1.0)'
+      }
+    }, response => {
+      resolve({ status: response.statusCode || 0, location: response.headers.location, body: response })
+    })
+    request.on('error', reject)
+    request.end()
+  })
+}
+
+// Descarga la publicación siguiendo redirecciones solo hacia hosts públicos
+export async function fetchListingHtml(
+  url: string,
+  options: { resolve?: ResolveAll } = {}
+): Promise<ListingFetchResult> {
+  const lookup = createPublicLookup(options.resolve)
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), LISTING_IMPORT_LIMITS.FETCH_TIMEOUT_MS)
+
+  try {
+    let currentUrl = url
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      const target = new URL(currentUrl)
+      // Una IP literal no pasa por lookup: se revisa aquí
+      const host = stripHostBrackets(target.hostname)
+      if (isIpAddress(host) && !isPublicAddress(host)) {
+        return { error: 'El link debe apuntar a un portal público', status: 400 }
+      }
+
+      let response: ListingResponse
+      try {
+        response = await requestListing(target, controller.signal, lookup)
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EBLOCKEDADDRESS') {
+          return { error: 'El link debe apuntar a un portal público', status: 400 }
+        }
+        throw error
+      }
+
+      if (response.status >= 300 && response.status < 400 && response.location) {
+        response.body.resume()
+        const next = validateListingUrl(new URL(response.location, currentUrl).toString())
+        if (!next.isValid) {
+          return { error: 'La publicación redirige a un link no permitido', status: 400 }
+        }
+        currentUrl = next.data!
+        continue
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        response.body.resume()
+        return { error: `El portal respondió con estado ${response.status}`, status: 502 }
+      }
+
+      const body = await readLimitedBody(response.body, LISTING_IMPORT_LIMITS.MAX_CONTENT_LENGTH)
+      if (!body) {
+        return { error: 'La publicación es demasiado grande para importarla', status: 413 }
+      }
+
+      return { html: body.toString('utf8'), finalUrl: currentUrl }
+    }
+
+    return { error: 'La publicación tiene demasiadas redirecciones', status: 502 }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
@@ -0,0 +1,458 @@
+/*
+Domain: Listing Import
+Responsibility: Extraer un comparable (dirección, m², dormitorios, baños, estacionamientos, bodegas y precio CLP/UF)
+  desde el HTML de una publicación o un bloque de datos estructurados (JSON-LD / OpenGraph), con extractores por portal
+Dependencies: lib/comparables, tipos de rental (sin DOM: funciona en el navegador y en el servidor)
+*/
+
+import type { ComparableFormEntry, ExtractedListing, ListingCurrency } from '@/types/rental'
+import { createComparableEntry } from '@/lib/comparables'
+
+export const LISTING_IMPORT_LIMITS = {
+  MAX_CONTENT_LENGTH: 3_000_000, // ~3 MB de HTML
+  FETCH_TIMEOUT_MS: 10_000,
+  MAX_MONTHLY_RENT_CLP: 20_000_000, // Sobre esto el precio es de venta, no de arriendo
+  UF_PRICE_THRESHOLD: 100_000 // Precios sin moneda bajo este monto se asumen en UF
+} as const
+
+type ListingFields = Omit<ExtractedListing, 'extractors'>
+
+// Documento ya preparado para los extractores
+export interface ListingDocument {
+  url?: string
+  host: string // Dominio de la publicación, sin www
+  html: string // Vacío si se pegó JSON
+  text: string // Texto visible, sin etiquetas
+  structuredData: any[] // Nodos JSON-LD con @type, aplanados
+  meta: Record<string, string> // <meta property|name> → content, claves en minúsculas
+}
+
+export interface ListingExtractor {
+  id: string
+  label: string
+  matches: (doc: ListingDocument) => boolean
+  extract: (doc: ListingDocument) => Partial<ListingFields>
+}
+
+// ---------- Utilidades de parseo ----------
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', sup2: '²',
+  aacute: 'á', eacute: 'é', iacute: 'í', oacute: 'ó', uacute: 'ú', ntilde: 'ñ',
+  Aacute: 'Á', Eacute: 'É', Iacute: 'Í', Oacute: 'Ó', Uacute: 'Ú', Ntilde: 'Ñ'
+}
+
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const charCode = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1))
+      return isFinite(charCode) ? String.fromCodePoint(charCode) : match
+    }
+    return NAMED_ENTITIES[code] ?? match
+  })
+}
+
+// Números en formato chileno: "18.500" = 18500, "20,5" = 20.5; también acepta números de JSON
+export function parseListingNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return isFinite(value) ? value : undefined
+  if (typeof value !== 'string') return undefined
+
+  const match = value.replace(/\s/g, '').match(/\d[\d.,]*/)
+  if (!match) return undefined
+
+  let normalized = match[0].replace(/[.,]$/, '')
+  if (normalized.includes(',')) {
+    normalized = normalized.replace(/\./g, '').replace(',', '.')
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(normalized)) {
+    normalized = normalized.replace(/\./g, '')
+  }
+
+  const parsed = parseFloat(normalized)
+  return isFinite(parsed) ? parsed : undefined
+}
+
+export function parseListingCurrency(value: unknown): ListingCurrency | undefined {
+  if (typeof value !== 'string') return undefined
+  const normalized = value.trim().toUpperCase()
+  if (normalized === 'UF' || normalized === 'CLF') return 'UF'
+  if (normalized === 'CLP' || normalized === '$') return 'CLP'
+  return undefined
+}
+
+function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  ).replace(/\s+/g, ' ').trim()
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'))
+  return match ? decodeHtmlEntities(match[2] ?? match[3] ?? '') : undefined
+}
+
+function extractMetaTags(html: string): Record<string, string> {
+  const meta: Record<string, string> = {}
+  for (const [tag] of Array.from(html.matchAll(/<meta\b[^>]*>/gi))) {
+    const key = readAttribute(tag, 'property') || readAttribute(tag, 'name') || readAttribute(tag, 'itemprop')
+    const content = readAttribute(tag, 'content')
+    if (key && content !== undefined && meta[key.toLowerCase()] === undefined) {
+      meta[key.toLowerCase()] = content.trim()
+    }
+  }
+  return meta
+}
+
+// Recorre el JSON y devuelve todos los objetos con @type (incluidos @graph, offers, itemOffered...)
+function flattenStructuredData(value: unknown, nodes: any[] = []): any[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => flattenStructuredData(item, nodes))
+  } else if (value && typeof value === 'object') {
+    if ('@type' in value) nodes.push(value)
+    Object.values(value).forEach(item => flattenStructuredData(item, nodes))
+  }
+  return nodes
+}
+
+function extractJsonLd(html: string): any[] {
+  const nodes: any[] = []
+  const scripts = html.matchAll(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)
+  for (const [, json] of Array.from(scripts)) {
+    try {
+      flattenStructuredData(JSON.parse(json.trim()), nodes)
+    } catch (error) {
+      console.warn('JSON-LD inválido en la publicación:', error)
+    }
+  }
+  return nodes
+}
+
+function hostOf(url?: string): string {
+  if (!url) return ''
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return ''
+  }
+}
+
+export function createListingDocument(content: string, url?: string): ListingDocument {
+  const trimmed = content.trim()
+
+  // JSON pegado directamente (bloque JSON-LD sin la etiqueta <script>)
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return { url, host: hostOf(url), html: '', text: '', structuredData: flattenStructuredData(JSON.parse(trimmed)), meta: {} }
+    } catch {
+      // No es JSON válido: se trata como HTML o texto
+    }
+  }
+
+  const meta = extractMetaTags(trimmed)
+  const canonical = trimmed.match(/<link\b[^>]*rel\s*=\s*["']canonical["'][^>]*>/i)
+  const documentUrl = url || meta['og:url'] || (canonical ? readAttribute(canonical[0], 'href') : undefined)
+
+  return {
+    url: documentUrl,
+    host: hostOf(documentUrl),
+    html: trimmed,
+    text: htmlToText(trimmed),
+    structuredData: extractJsonLd(trimmed),
+    meta
+  }
+}
+
+// ---------- Heurísticas compartidas ----------
+
+function firstNumber(text: string, patterns: RegExp[]): number | undefined {
+  for (const pattern of patterns) {
+    const match = text.match(pattern)
+    if (match) return parseListingNumber(match[1])
+  }
+  return undefined
+}
+
+// Precio con moneda explícita; toma el que aparece primero en el texto
+function priceFromText(text: string): Pick<ListingFields, 'price' | 'price_currency'> {
+  const uf = text.match(/\bUF\s*([\d.]+(?:,\d+)?)/i)
+  const clp = text.match(/\$\s*(\d{1,3}(?:\.\d{3})+|\d{5,})/)
+  const first = uf && clp ? (uf.index! <= clp.index! ? 'UF' : 'CLP') : uf ? 'UF' : clp ? 'CLP' : undefined
+
+  if (first === 'UF') return { price: parseListingNumber(uf![1]), price_currency: 'UF' }
+  if (first === 'CLP') return { price: parseListingNumber(clp![1]), price_currency: 'CLP' }
+  return {}
+}
+
+export function extractFromText(text: string): Partial<ListingFields> {
+  return {
+    size_m2: firstNumber(text, [
+      /(\d+(?:[.,]\d+)?)\s*m(?:²|2|ts2|ts²)\s*útiles/i,
+      /superficie útil\s*:?\s*(\d+(?:[.,]\d+)?)/i,
+      /(\d+(?:[.,]\d+)?)\s*(?:m²|m2|mts2|mts²|metros cuadrados)/i
+    ]),
+    bedrooms: firstNumber(text, [/(\d+)\s*(?:dormitorios?|dorms?\b|habitaciones?)/i, /dormitorios?\s*:?\s*(\d+)/i]),
+    bathrooms: firstNumber(text, [/(\d+)\s*baños?/i, /baños?\s*:?\s*(\d+)/i]),
+    parking_spaces: firstNumber(text, [/(\d+)\s*estacionamientos?/i, /estacionamientos?\s*:?\s*(\d+)/i]),
+    storage_units: firstNumber(text, [/(\d+)\s*bodegas?/i, /bodegas?\s*:?\s*(\d+)/i]),
+    ...priceFromText(text)
+  }
+}
+
+// Filas etiqueta/valor de tablas de características (<th>/<td> y <dt>/<dd>)
+export function extractSpecRows(html: string): Array<{ label: string; value: string }> {
+  const rows: Array<{ label: string; value: string }> = []
+  const pairs = html.matchAll(/<(th|dt)\b[^>]*>([\s\S]*?)<\/\1>\s*<(td|dd)\b[^>]*>([\s\S]*?)<\/\3>/gi)
+  for (const match of Array.from(pairs)) {
+    rows.push({ label: htmlToText(match[2]), value: htmlToText(match[4]) })
+  }
+  return rows
+}
+
+// Etiquetas de los portales chilenos, de la más a la menos preferida por campo
+const SPEC_LABELS: Array<[RegExp, keyof ListingFields]> = [
+  [/superficie útil/i, 'size_m2'],
+  [/superficie (construida|total)/i, 'size_m2'],
+  [/dormitorios?|habitaciones?/i, 'bedrooms'],
+  [/baños?/i, 'bathrooms'],
+  [/estacionamientos?/i, 'parking_spaces'],
+  [/bodegas?/i, 'storage_units']
+]
+
+export function fieldsFromSpecRows(rows: Array<{ label: string; value: string }>): Partial<ListingFields> {
+  const fields: Partial<ListingFields> = {}
+  for (const [pattern, field] of SPEC_LABELS) {
+    if (fields[field] !== undefined) continue
+    const row = rows.find(candidate => pattern.test(candidate.label))
+    const value = row ? parseListingNumber(row.value) : undefined
+    if (value !== undefined) (fields as Record<string, number>)[field] = value
+  }
+  return fields
+}
+
+// ---------- Extractores genéricos ----------
+
+const RESIDENCE_TYPES = ['Apartment', 'House', 'SingleFamilyResidence', 'Residence', 'Accommodation', 'ApartmentComplex', 'Place', 'Product', 'RealEstateListing']
+
+function typesOf(node: any): string[] {
+  return ([] as unknown[]).concat(node['@type']).filter((type): type is string => typeof type === 'string')
+}
+
+function formatAddress(address: any): string | undefined {
+  if (typeof address === 'string') return address.trim() || undefined
+  if (!address || typeof address !== 'object') return undefined
+  const parts = [address.streetAddress, address.addressLocality, address.addressRegion]
+    .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+  return parts.length > 0 ? parts.join(', ') : undefined
+}
+
+function quantityValue(value: any): number | undefined {
+  if (value && typeof value === 'object') return parseListingNumber(value.value)
+  return parseListingNumber(value)
+}
+
+function additionalPropertyValue(node: any, pattern: RegExp): number | undefined {
+  const properties = ([] as any[]).concat(node.additionalProperty || [], node.amenityFeature || [])
+  const match = properties.find(property => typeof property?.name === 'string' && pattern.test(property.name))
+  return match ? parseListingNumber(match.value) : undefined
+}
+
+const jsonLdExtractor: ListingExtractor = {
+  id: 'json-ld',
+  label: 'Datos estructurados (JSON-LD)',
+  matches: doc => doc.structuredData.length > 0,
+  extract: doc => {
+    const nodes = doc.structuredData
+    const residence = nodes.find(node => typesOf(node).some(type => RESIDENCE_TYPES.includes(type))) || {}
+    const offer = nodes.find(node => typesOf(node).includes('Offer')) || ([] as any[]).concat(residence.offers || [])[0] || {}
+    const price = parseListingNumber(offer.price ?? offer.priceSpecification?.price)
+
+    return {
+      address: formatAddress(residence.address),
+      size_m2: quantityValue(residence.floorSize),
+      bedrooms: parseListingNumber(residence.numberOfBedrooms ?? residence.numberOfRooms),
+      bathrooms: parseListingNumber(residence.numberOfBathroomsTotal ?? residence.numberOfFullBathrooms),
+      parking_spaces: additionalPropertyValue(residence, /estacionamiento/i),
+      storage_units: additionalPropertyValue(residence, /bodega/i),
+      price,
+      price_currency: parseListingCurrency(offer.priceCurrency ?? offer.priceSpecification?.priceCurrency),
+      lat: parseListingNumber(residence.geo?.latitude),
+      lon: parseListingNumber(residence.geo?.longitude)
+    }
+  }
+}
+
+const openGraphExtractor: ListingExtractor = {
+  id: 'open-graph',
+  label: 'Metadatos OpenGraph',
+  matches: doc => Object.keys(doc.meta).length > 0,
+  extract: doc => {
+    const { meta } = doc
+    const address = [meta['og:street-address'] || meta['og:street_address'], meta['og:locality']].filter(Boolean).join(', ')
+    const price = parseListingNumber(meta['product:price:amount'] || meta['og:price:amount'])
+
+    return {
+      // El título y la descripción suelen traer "2 dormitorios, 1 baño, 55 m²"
+      ...extractFromText(`${meta['og:title'] || ''} · ${meta['og:description'] || meta['description'] || ''}`),
+      address: address || undefined,
+      ...(price !== undefined && {
+        price,
+        price_currency: parseListingCurrency(meta['product:price:currency'] || meta['og:price:currency'])
+      }),
+      lat: parseListingNumber(meta['place:location:latitude'] || meta['og:latitude']),
+      lon: parseListingNumber(meta['place:location:longitude'] || meta['og:longitude'])
+    }
+  }
+}
+
+const textExtractor: ListingExtractor = {
+  id: 'text',
+  label: 'Texto de la publicación',
+  matches: doc => doc.text.length > 0,
+  extract: doc => extractFromText(doc.text)
+}
+
+// ---------- Extractores por portal ----------
+
+function firstCapture(html: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = html.match(pattern)
+    if (match) return htmlToText(match[1]) || undefined
+  }
+  return undefined
+}
+
+const portalInmobiliarioExtractor: ListingExtractor = {
+  id: 'portal-inmobiliario',
+  label: 'Portal Inmobiliario',
+  matches: doc => doc.host.endsWith('portalinmobiliario.com') || /portalinmobiliario\.com/i.test(doc.html.slice(0, 20_000)),
+  extract: doc => {
+    // Precio en el bloque andes-money-amount: símbolo ("UF" o "$") y parte entera
+    const price = doc.html.match(
+      /andes-money-amount__currency-symbol[^>]*>\s*([^<]+?)\s*<[\s\S]{0,400}?andes-money-amount__fraction[^>]*>\s*([^<]+?)\s*</
+    )
+
+    return {
+      ...fieldsFromSpecRows(extractSpecRows(doc.html)),
+      address: firstCapture(doc.html, [
+        /ui-vip-location__subtitle[\s\S]{0,200}?<p[^>]*>([\s\S]*?)<\/p>/,
+        /ui-pdp-media__title[^>]*>([\s\S]*?)<\//
+      ]),
+      ...(price && { price: parseListingNumber(price[2]), price_currency: parseListingCurrency(price[1]) })
+    }
+  }
+}
+
+const tocTocExtractor: ListingExtractor = {
+  id: 'toctoc',
+  label: 'TocToc',
+  matches: doc => doc.host.endsWith('toctoc.com'),
+  extract: doc => ({
+    ...fieldsFromSpecRows(extractSpecRows(doc.html)),
+    address: firstCapture(doc.html, [/class="[^"]*\bdireccion\b[^"]*"[^>]*>([\s\S]*?)<\//]),
+    ...priceFromText(firstCapture(doc.html, [/class="[^"]*\bprecio[^"]*"[^>]*>([\s\S]*?)<\//]) || '')
+  })
+}
+
+// ---------- Registro y composición ----------
+
+// Los extractores por portal van primero; los genéricos completan lo que falte
+const portalExtractors: ListingExtractor[] = [portalInmobiliarioExtractor, tocTocExtractor]
+const genericExtractors: ListingExtractor[] = [jsonLdExtractor, openGraphExtractor, textExtractor]
+
+export function registerListingExtractor(extractor: ListingExtractor): void {
+  const index = portalExtractors.findIndex(existing => existing.id === extractor.id)
+  if (index >= 0) {
+    portalExtractors[index] = extractor
+  } else {
+    portalExtractors.push(extractor)
+  }
+}
+
+export function getListingExtractors(): ListingExtractor[] {
+  return [...portalExtractors, ...genericExtractors]
+}
+
+const NUMERIC_FIELDS = ['size_m2', 'bedrooms', 'bathrooms', 'parking_spaces', 'storage_units', 'lat', 'lon'] as const
+
+// Combina los extractores: cada campo lo aporta el primero que lo encuentra. null si nada sirvió
+export function parseListing(
+  content: string,
+  url?: string,
+  extractors: ListingExtractor[] = getListingExtractors()
+): ExtractedListing | null {
+  const doc = createListingDocument(content, url)
+  const listing: ExtractedListing = { url: doc.url, extractors: [] }
+
+  for (const extractor of extractors) {
+    if (!extractor.matches(doc)) continue
+
+    const fields = extractor.extract(doc)
+    let contributed = false
+
+    if (!listing.address && fields.address) {
+      listing.address = fields.address
+      contributed = true
+    }
+    for (const field of NUMERIC_FIELDS) {
+      const value = fields[field]
+      if (listing[field] === undefined && value !== undefined && isFinite(value)) {
+        listing[field] = value
+        contributed = true
+      }
+    }
+    // El precio y su moneda vienen siempre del mismo extractor
+    if (listing.price === undefined && fields.price !== undefined && fields.price > 0) {
+      listing.price = fields.price
+      listing.price_currency = fields.price_currency ??
+        (fields.price < LISTING_IMPORT_LIMITS.UF_PRICE_THRESHOLD ? 'UF' : 'CLP')
+      contributed = true
+    }
+
+    if (contributed) listing.extractors.push(extractor.id)
+  }
+
+  return listing.extractors.length > 0 ? listing : null
+}
+
+export function listingPriceClp(listing: ExtractedListing, ufValueClp: number): number | undefined {
+  if (listing.price === undefined) return undefined
+  return Math.round(listing.price_currency === 'UF' ? listing.price * ufValueClp : listing.price)
+}
+
+// Fila de comparable lista para el formulario; lo que no se encontró queda con los valores por defecto
+export function listingToComparableEntry(listing: ExtractedListing, ufValueClp: number): ComparableFormEntry {
+  const entry = createComparableEntry()
+  const asField = (value: number | undefined, fallback?: string) => value !== undefined ? String(value) : fallback
+  const priceClp = listingPriceClp(listing, ufValueClp)
+
+  return {
+    ...entry,
+    link: listing.url || '',
+    address: listing.address || '',
+    m2: asField(listing.size_m2, entry.m2),
+    bedrooms: asField(listing.bedrooms, entry.bedrooms),
+    bathrooms: asField(listing.bathrooms, entry.bathrooms),
+    parking: asField(listing.parking_spaces, entry.parking),
+    storage: asField(listing.storage_units, entry.storage),
+    price: asField(priceClp, entry.price),
+    lat: asField(listing.lat),
+    lon: asField(listing.lon)
+  }
+}
+
+// Avisos para el corredor: campos obligatorios faltantes o un precio que parece de venta
+export function listingImportWarnings(listing: ExtractedListing, ufValueClp: number): string[] {
+  const warnings: string[] = []
+  if (!listing.address) warnings.push('No se encontró la dirección')
+  if (listing.size_m2 === undefined) warnings.push('No se encontraron los m²')
+
+  const priceClp = listingPriceClp(listing, ufValueClp)
+  if (priceClp === undefined) {
+    warnings.push('No se encontró el precio')
+  } else if (priceClp > LISTING_IMPORT_LIMITS.MAX_MONTHLY_RENT_CLP) {
+    warnings.push('El precio parece de venta, no de arriendo mensual')
+  }
+
+  return warnings
+}
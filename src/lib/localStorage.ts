@@ -4,13 +4,24 @@ Responsibility: Sistema de persistencia de datos usando localStorage
 Dependencies: Browser localStorage API
 */
 
-import { SavedAnalysis } from '@/types/saved-analysis'
+import type { QuarantinedAnalysis, SavedAnalysis } from '@/types/saved-analysis'
+import type { LibraryComparable, PlanCatalog, ProposalStatus, SimilarityWeights } from '@/types/rental'
+import { migrateSavedAnalyses } from '@/lib/analysisMigrations'
+import { transitionProposal } from '@/lib/proposalLifecycle'
+import { mergeIntoLibrary } from '@/lib/comparableLibrary'
+import { DEFAULT_OFFICE_ID } from '@/lib/similarity'
 
 // Claves para localStorage
 const STORAGE_KEYS = {
   ANALYSES: 'rental_analyses',
   DASHBOARD_DATA: 'dashboard_data',
-  USER_PREFERENCES: 'user_preferences'
+  USER_PREFERENCES: 'user_preferences',
+  PLAN_CATALOG_VERSIONS: 'plan_catalog_versions',
+  SIMILARITY_WEIGHTS: 'similarity_weights',
+  ACTIVE_OFFICE: 'active_office',
+  COMPARABLE_LIBRARY: 'comparable_library',
+  ANALYSES_SERVER_IMPORT: 'rental_analyses_server_import',
+  ANALYSES_QUARANTINE: 'rental_analyses_quarantine'
 } as const
 
 // Interfaz para datos del dashboard
@@ -51,13 +62,41 @@ export class AnalysisStorage {
     
     try {
       const stored = localStorage.getItem(STORAGE_KEYS.ANALYSES)
-      return stored ? JSON.parse(stored) : []
+      if (!stored) return []
+
+      // Los análisis de versiones anteriores se migran y se persisten una vez; los que no se pueden migrar se apartan
+      const parsed = JSON.parse(stored)
+      const { analyses, quarantined, changed } = migrateSavedAnalyses(Array.isArray(parsed) ? parsed : [])
+      if (changed) {
+        this.quarantine(quarantined)
+        localStorage.setItem(STORAGE_KEYS.ANALYSES, JSON.stringify(analyses))
+      }
+      return analyses
     } catch (error) {
       console.error('Error loading analyses from localStorage:', error)
       return []
     }
   }
 
+  // Registros apartados por no poder migrarse o validarse (se conservan para revisarlos)
+  static getQuarantined(): QuarantinedAnalysis[] {
+    if (!isLocalStorageAvailable()) return []
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.ANALYSES_QUARANTINE)
+      return stored ? JSON.parse(stored) : []
+    } catch (error) {
+      console.error('Error loading quarantined analyses:', error)
+      return []
+    }
+  }
+
+  private static quarantine(records: QuarantinedAnalysis[]): void {
+    if (records.length === 0) return
+    console.warn(`${records.length} análisis guardado(s) no se pudieron migrar y quedaron en cuarentena`, records)
+    localStorage.setItem(STORAGE_KEYS.ANALYSES_QUARANTINE, JSON.stringify([...this.getQuarantined(), ...records]))
+  }
+
   static save(analysis: SavedAnalysis): boolean {
     if (!isLocalStorageAvailable()) return false
     
@@ -112,13 +151,18 @@ export class AnalysisStorage {
     }
   }
 
-  static updateStatus(id: string, status: SavedAnalysis['metadata']['status']): boolean {
+  // Solo transiciones permitidas del ciclo de vida de la propuesta (lib/proposalLifecycle)
+  static updateStatus(id: string, status: ProposalStatus): boolean {
     const analyses = this.getAll()
     const analysisIndex = analyses.findIndex(a => a.id === id)
     
     if (analysisIndex >= 0) {
-      analyses[analysisIndex].metadata.status = status
-      analyses[analysisIndex].metadata.updated_at = new Date().toISOString()
+      const transition = transitionProposal(analyses[analysisIndex].metadata, status)
+      if (!transition.allowed) {
+        console.warn('Cambio de estado no permitido:', transition.reason)
+        return false
+      }
+      analyses[analysisIndex].metadata = transition.metadata!
       
       try {
         localStorage.setItem(STORAGE_KEYS.ANALYSES, JSON.stringify(analyses))
@@ -143,18 +187,21 @@ export class AnalysisStorage {
     return false
   }
 
-  // Actualizar estadísticas del dashboard
-  static updateDashboardStats() {
-    const analyses = this.getAll()
-    
-    const dashboardData: DashboardData = {
+  // Estadísticas del dashboard para una lista de análisis (los del servidor o los locales)
+  static computeDashboardData(analyses: SavedAnalysis[]): DashboardData {
+    return {
       totalAnalyses: analyses.length,
       activeRentals: analyses.filter(a => a.metadata.status === 'sent_to_client' || a.metadata.status === 'published').length,
       totalRevenue: analyses.reduce((sum, a) => sum + (a.analysis.suggested_rent_clp || 0), 0),
       averageRentability: analyses.length > 0 ? 
         analyses.reduce((sum, a) => sum + (a.calculations.cap_rate || 0), 0) / analyses.length : 0,
-      recentActivity: this.getRecentActivity()
+      recentActivity: this.getRecentActivity(analyses)
     }
+  }
+
+  // Actualizar estadísticas del dashboard
+  static updateDashboardStats() {
+    const dashboardData = this.computeDashboardData(this.getAll())
     
     if (isLocalStorageAvailable()) {
       localStorage.setItem(STORAGE_KEYS.DASHBOARD_DATA, JSON.stringify(dashboardData))
@@ -220,8 +267,7 @@ export class AnalysisStorage {
   }
 
   // Obtener actividad reciente
-  static getRecentActivity(): DashboardActivity[] {
-    const analyses = this.getAll()
+  static getRecentActivity(analyses: SavedAnalysis[] = this.getAll()): DashboardActivity[] {
     const activities: DashboardActivity[] = []
     
     // Crear actividades basadas en los análisis existentes
@@ -253,9 +299,22 @@ export class AnalysisStorage {
       .slice(0, 20)
   }
 
-  // Generar ID único para nuevos análisis
+  // Los análisis guardados en el navegador se suben una sola vez al almacenamiento del servidor
+  static isServerImportDone(): boolean {
+    if (!isLocalStorageAvailable()) return true
+    return localStorage.getItem(STORAGE_KEYS.ANALYSES_SERVER_IMPORT) !== null
+  }
+
+  static markServerImportDone(): void {
+    if (!isLocalStorageAvailable()) return
+    localStorage.setItem(STORAGE_KEYS.ANALYSES_SERVER_IMPORT, new Date().toISOString())
+  }
+
+  // Generar ID único para nuevos análisis: 128 bits aleatorios, para que dos navegadores no generen el mismo id
+  // (crypto.randomUUID solo existe en contextos seguros; getRandomValues, en todos)
   static generateId(): string {
-    return `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const bytes = crypto.getRandomValues(new Uint8Array(16))
+    return `analysis_${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`
   }
 
   // Limpiar todos los datos (útil para testing)
@@ -277,6 +336,7 @@ export class AnalysisStorage {
     const data = {
       analyses: this.getAll(),
       dashboardData: this.getDashboardData(),
+      comparableLibrary: ComparableLibraryStorage.getAll(), // Solo los que aún no se subieron al servidor
       exportedAt: new Date().toISOString()
     }
     return JSON.stringify(data, null, 2)
@@ -286,9 +346,19 @@ export class AnalysisStorage {
   static importData(jsonData: string): boolean {
     try {
       const data = JSON.parse(jsonData)
+
+      // Los comparables del respaldo quedan pendientes y se suben a la biblioteca de la oficina en la próxima lectura
+      if (Array.isArray(data.comparableLibrary)) {
+        ComparableLibraryStorage.merge(data.comparableLibrary)
+      }
       
       if (data.analyses && Array.isArray(data.analyses)) {
-        localStorage.setItem(STORAGE_KEYS.ANALYSES, JSON.stringify(data.analyses))
+        // Se migran a la versión actual; si ninguno es válido no se reemplazan los análisis existentes
+        const { analyses, quarantined } = migrateSavedAnalyses(data.analyses)
+        this.quarantine(quarantined)
+        if (analyses.length === 0 && quarantined.length > 0) return false
+
+        localStorage.setItem(STORAGE_KEYS.ANALYSES, JSON.stringify(analyses))
         this.updateDashboardStats()
         return true
       }
@@ -299,4 +369,87 @@ export class AnalysisStorage {
       return false
     }
   }
-}
\ No newline at end of file
+}
+
+// Catálogo de planes que guardaba cada navegador antes de guardarse en el servidor (lib/officeApi lo sube una vez)
+export class PlanCatalogStorage {
+  static getHistory(): PlanCatalog[] {
+    if (!isLocalStorageAvailable()) return []
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.PLAN_CATALOG_VERSIONS)
+      return stored ? JSON.parse(stored) : []
+    } catch (error) {
+      console.error('Error loading plan catalog from localStorage:', error)
+      return []
+    }
+  }
+
+  static clear(): void {
+    if (!isLocalStorageAvailable()) return
+    localStorage.removeItem(STORAGE_KEYS.PLAN_CATALOG_VERSIONS)
+  }
+}
+
+// Oficina del corredor en este navegador. Los pesos de similitud de cada oficina se guardan en el servidor
+// (lib/officeApi); getAll y clear solo leen los que quedaron en el navegador para subirlos una vez
+export class SimilarityWeightsStorage {
+  static getAll(): Record<string, SimilarityWeights> {
+    if (!isLocalStorageAvailable()) return {}
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.SIMILARITY_WEIGHTS)
+      return stored ? JSON.parse(stored) : {}
+    } catch (error) {
+      console.error('Error loading similarity weights from localStorage:', error)
+      return {}
+    }
+  }
+
+  static clear(): void {
+    if (!isLocalStorageAvailable()) return
+    localStorage.removeItem(STORAGE_KEYS.SIMILARITY_WEIGHTS)
+  }
+
+  static getActiveOffice(): string {
+    if (!isLocalStorageAvailable()) return DEFAULT_OFFICE_ID
+    return localStorage.getItem(STORAGE_KEYS.ACTIVE_OFFICE) || DEFAULT_OFFICE_ID
+  }
+
+  static setActiveOffice(officeId: string): void {
+    if (!isLocalStorageAvailable()) return
+    localStorage.setItem(STORAGE_KEYS.ACTIVE_OFFICE, officeId)
+  }
+}
+
+// Biblioteca de comparables que guardaba cada navegador antes de guardarse en el servidor (lib/officeApi la sube
+// una vez); merge deja aquí los comparables de un respaldo importado para que se suban en la próxima lectura
+export class ComparableLibraryStorage {
+  static getAll(): LibraryComparable[] {
+    if (!isLocalStorageAvailable()) return []
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.COMPARABLE_LIBRARY)
+      return stored ? JSON.parse(stored) : []
+    } catch (error) {
+      console.error('Error loading comparable library from localStorage:', error)
+      return []
+    }
+  }
+
+  static merge(items: LibraryComparable[]): void {
+    if (!isLocalStorageAvailable()) return
+
+    try {
+      const { library } = mergeIntoLibrary(this.getAll(), items)
+      localStorage.setItem(STORAGE_KEYS.COMPARABLE_LIBRARY, JSON.stringify(library))
+    } catch (error) {
+      console.error('Error saving comparable library:', error)
+    }
+  }
+
+  static clear(): void {
+    if (!isLocalStorageAvailable()) return
+    localStorage.removeItem(STORAGE_KEYS.COMPARABLE_LIBRARY)
+  }
+}
@@ -0,0 +1,178 @@
+/*
+Domain: Market Rent Index
+Responsibility: Índice de arriendo por m² (mediana) por comuna, tipología (dormitorios) y mes, construido con
+  los análisis guardados y sus comparables; referencia de mercado cuando el análisis no tiene comparables
+Dependencies: lib/comunas, lib/comparableValuation (estadística), tipos de rental y de análisis guardados
+*/
+
+import type { GeocodedLocation, MarketRentBenchmark, MarketRentIndex, MarketRentIndexCell } from '@/types/rental'
+import type { SavedAnalysis } from '@/types/saved-analysis'
+import { detectComuna, normalizeAddress } from '@/lib/comunas'
+import { median, quantile } from '@/lib/comparableValuation'
+
+export const MARKET_INDEX_DEFAULTS = {
+  LOOKBACK_MONTHS: 12, // Meses hacia atrás que se consideran en una consulta
+  MIN_SAMPLES: 3, // Muestras mínimas para usar una tipología (si no, toda la comuna)
+  MAX_TYPOLOGY: 4, // 4 o más dormitorios se agrupan
+  // Arriendos por m² fuera de este rango se consideran errores de digitación
+  MIN_RENT_PER_M2: 2000,
+  MAX_RENT_PER_M2: 60000
+} as const
+
+interface RentObservation {
+  key: string
+  comuna: string
+  typology: number
+  month: string
+  rent_per_m2: number
+}
+
+// Meses en UTC: el mismo análisis cae en el mismo mes sin importar la zona horaria del servidor
+export function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+function monthsBefore(date: Date, months: number): string {
+  return monthKey(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - months, 1)))
+}
+
+export function typologyOf(bedrooms: number | undefined): number {
+  return Math.min(Math.max(0, Math.round(bedrooms || 0)), MARKET_INDEX_DEFAULTS.MAX_TYPOLOGY)
+}
+
+function observation(
+  address: string | undefined,
+  fallbackComuna: string | undefined,
+  bedrooms: number | undefined,
+  sizeM2: number | undefined,
+  rentClp: number | undefined,
+  capturedAt: string
+): RentObservation | null {
+  const comuna = detectComuna(address) || fallbackComuna
+  const date = new Date(capturedAt)
+  if (!comuna || !sizeM2 || sizeM2 <= 0 || !rentClp || rentClp <= 0 || isNaN(date.getTime())) return null
+
+  const rentPerM2 = rentClp / sizeM2
+  if (rentPerM2 < MARKET_INDEX_DEFAULTS.MIN_RENT_PER_M2 || rentPerM2 > MARKET_INDEX_DEFAULTS.MAX_RENT_PER_M2) return null
+
+  const month = monthKey(date)
+  return {
+    // El mismo comparable suele repetirse en varios análisis: se cuenta una vez por mes
+    key: `${normalizeAddress(address || '')}|${sizeM2}|${rentClp}|${month}`,
+    comuna,
+    typology: typologyOf(bedrooms),
+    month,
+    rent_per_m2: rentPerM2
+  }
+}
+
+// Observaciones de un análisis: la propiedad evaluada (arriendo sugerido) y cada comparable
+function observationsFromAnalysis(saved: SavedAnalysis): RentObservation[] {
+  const { property, analysis, metadata } = saved
+  const propertyComuna = property.location?.comuna || detectComuna(property.address)
+  const suggestedRent = analysis.rent_currency === 'UF' && analysis.suggested_rent_uf
+    ? analysis.suggested_rent_uf * analysis.uf_value_clp
+    : analysis.suggested_rent_clp
+
+  const observations = [
+    observation(property.address, property.location?.comuna, property.bedrooms, property.size_m2, suggestedRent, metadata.created_at),
+    ...(analysis.comparable_properties || []).map(comp => observation(
+      comp.address,
+      propertyComuna,
+      comp.bedrooms ?? property.bedrooms,
+      comp.size_m2,
+      comp.rent_clp,
+      comp.captured_at || metadata.created_at
+    ))
+  ]
+
+  return observations.filter((item): item is RentObservation => item !== null)
+}
+
+// excludeId: el análisis que se está evaluando no entra en su propia referencia (su arriendo sugerido
+// respaldaría el mismo arriendo que se quiere contrastar)
+export function buildMarketRentIndex(
+  analyses: SavedAnalysis[],
+  now: Date = new Date(),
+  options: { excludeId?: string } = {}
+): MarketRentIndex {
+  const unique = new Map<string, RentObservation>()
+  for (const saved of analyses) {
+    if (options.excludeId !== undefined && saved.id === options.excludeId) continue
+    for (const item of observationsFromAnalysis(saved)) {
+      if (!unique.has(item.key)) unique.set(item.key, item)
+    }
+  }
+
+  const cells = new Map<string, MarketRentIndexCell>()
+  for (const item of Array.from(unique.values())) {
+    const cellKey = `${item.comuna}|${item.typology}|${item.month}`
+    const cell = cells.get(cellKey) || {
+      comuna: item.comuna,
+      typology: item.typology,
+      month: item.month,
+      rent_per_m2_samples: [],
+      median_rent_per_m2: 0
+    }
+    cell.rent_per_m2_samples.push(Math.round(item.rent_per_m2))
+    cells.set(cellKey, cell)
+  }
+
+  return {
+    generated_at: now.toISOString(),
+    cells: Array.from(cells.values())
+      .map(cell => ({ ...cell, median_rent_per_m2: Math.round(median(cell.rent_per_m2_samples)) }))
+      .sort((a, b) => a.comuna.localeCompare(b.comuna) || a.typology - b.typology || b.month.localeCompare(a.month))
+  }
+}
+
+// Mediana y cuartiles de los últimos meses para la comuna y tipología; si la tipología
+// tiene pocas muestras se usa toda la comuna. undefined si no hay datos suficientes
+export function lookupMarketRent(
+  index: MarketRentIndex,
+  query: { comuna?: string; bedrooms?: number; asOf?: Date },
+  options: { lookbackMonths?: number; minSamples?: number } = {}
+): MarketRentBenchmark | undefined {
+  if (!query.comuna) return undefined
+
+  const asOf = query.asOf || new Date()
+  const lookbackMonths = options.lookbackMonths ?? MARKET_INDEX_DEFAULTS.LOOKBACK_MONTHS
+  const minSamples = options.minSamples ?? MARKET_INDEX_DEFAULTS.MIN_SAMPLES
+  const fromMonth = monthsBefore(asOf, lookbackMonths - 1)
+  const toMonth = monthKey(asOf)
+
+  const inWindow = index.cells.filter(cell =>
+    cell.comuna === query.comuna && cell.month >= fromMonth && cell.month <= toMonth
+  )
+
+  const benchmark = (cells: MarketRentIndexCell[], typology?: number): MarketRentBenchmark | undefined => {
+    const samples = cells.flatMap(cell => cell.rent_per_m2_samples).sort((a, b) => a - b)
+    if (samples.length < minSamples) return undefined
+    return {
+      comuna: query.comuna!,
+      typology,
+      from_month: fromMonth,
+      to_month: toMonth,
+      sample_size: samples.length,
+      median_rent_per_m2: Math.round(quantile(samples, 0.5)),
+      p25_rent_per_m2: Math.round(quantile(samples, 0.25)),
+      p75_rent_per_m2: Math.round(quantile(samples, 0.75))
+    }
+  }
+
+  const typology = query.bedrooms !== undefined ? typologyOf(query.bedrooms) : undefined
+  return (typology !== undefined ? benchmark(inWindow.filter(cell => cell.typology === typology), typology) : undefined) ||
+    benchmark(inWindow)
+}
+
+// Referencia de mercado para la propiedad: la comuna geocodificada si se conoce (como en el índice) y si no,
+// la que se detecta en la dirección
+export function marketBenchmarkFor(
+  index: MarketRentIndex | null,
+  address: string | undefined,
+  bedrooms: number | undefined,
+  location?: Pick<GeocodedLocation, 'comuna'>
+): MarketRentBenchmark | undefined {
+  if (!index) return undefined
+  return lookupMarketRent(index, { comuna: location?.comuna || detectComuna(address), bedrooms })
+}
@@ -0,0 +1,139 @@
+/*
+Domain: Neighborhood Score
+Responsibility: Factores del sector (ubicación, transporte y servicios) a partir de las coordenadas de la propiedad
+  y un conjunto de puntos de interés (metro, paraderos, colegios, supermercados, parques) incluido en src/data
+Dependencies: lib/geocoding (distancias), src/data/santiago-pois.json, tipos de rental
+*/
+
+import type { NeighborhoodFactorDetail, NeighborhoodFactors, PoiCategory, PointOfInterest } from '@/types/rental'
+import { distanceKm, type Coordinates } from '@/lib/geocoding'
+import santiagoPois from '@/data/santiago-pois.json'
+
+interface CategoryRule {
+  factor: NeighborhoodFactorDetail['factor']
+  radius_km: number
+  max_points: number
+  nearest?: Array<[number, number]> // [distancia máxima en km, puntos] según el más cercano
+  per_item?: number // Puntos por cada punto de interés dentro del radio
+}
+
+// Transporte: metro hasta 7 puntos y paraderos hasta 3. Servicios: supermercado 4, parque 3 y colegios 3
+const CATEGORY_RULES: Record<PoiCategory, CategoryRule> = {
+  metro_station: { factor: 'transportation_access', radius_km: 1.5, max_points: 7, nearest: [[0.4, 7], [0.8, 5], [1.5, 2]] },
+  bus_stop: { factor: 'transportation_access', radius_km: 0.4, max_points: 3, per_item: 1 },
+  supermarket: { factor: 'amenities_score', radius_km: 1, max_points: 4, nearest: [[0.5, 4], [1, 2]] },
+  park: { factor: 'amenities_score', radius_km: 1, max_points: 3, nearest: [[0.5, 3], [1, 2]] },
+  school: { factor: 'amenities_score', radius_km: 1, max_points: 3, per_item: 1 }
+}
+
+export const POI_CATEGORY_LABELS: Record<PoiCategory, string> = {
+  metro_station: 'Metro',
+  bus_stop: 'Paraderos',
+  school: 'Colegios',
+  supermarket: 'Supermercados',
+  park: 'Parques y plazas'
+}
+
+export const NEIGHBORHOOD_DEFAULTS = {
+  // Sin ningún punto de interés a esta distancia la propiedad está fuera de la cobertura de los datos
+  COVERAGE_RADIUS_KM: 3,
+  // Valores referenciales cuando no hay coordenadas o cobertura
+  FACTORS: { location_score: 8, transportation_access: 7, amenities_score: 8 }
+} as const
+
+// Lee una FeatureCollection GeoJSON de puntos; se descartan los elementos sin categoría conocida o coordenadas
+export function parsePoiCollection(geojson: any): PointOfInterest[] {
+  const features: any[] = Array.isArray(geojson?.features) ? geojson.features : []
+
+  return features.flatMap((feature, index): PointOfInterest[] => {
+    const category = feature?.properties?.category
+    const coordinates = feature?.geometry?.type === 'Point' ? feature.geometry.coordinates : null
+    if (!(category in CATEGORY_RULES) || !Array.isArray(coordinates)) return []
+
+    const [lon, lat] = coordinates.map(Number)
+    if (!isFinite(lat) || !isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return []
+
+    return [{
+      id: String(feature.id ?? `poi_${index}`),
+      category,
+      name: String(feature.properties.name || POI_CATEGORY_LABELS[category as PoiCategory]),
+      lat,
+      lon
+    }]
+  })
+}
+
+export const DEFAULT_POIS: PointOfInterest[] = parsePoiCollection(santiagoPois)
+
+const clampScore = (value: number) => Math.min(10, Math.max(1, Math.round(value)))
+
+function defaultFactors(): NeighborhoodFactors {
+  return { ...NEIGHBORHOOD_DEFAULTS.FACTORS, source: 'default' }
+}
+
+function scoreCategory(category: PoiCategory, distances: Array<{ poi: PointOfInterest; km: number }>): NeighborhoodFactorDetail {
+  const rule = CATEGORY_RULES[category]
+  const inCategory = distances.filter(({ poi }) => poi.category === category)
+  const nearest = inCategory.reduce<(typeof inCategory)[number] | undefined>(
+    (best, item) => !best || item.km < best.km ? item : best,
+    undefined
+  )
+  const countWithinRadius = inCategory.filter(({ km }) => km <= rule.radius_km).length
+
+  const points = rule.nearest
+    ? (nearest && rule.nearest.find(([maxKm]) => nearest.km <= maxKm)?.[1]) || 0
+    : Math.min(rule.max_points, countWithinRadius * (rule.per_item || 0))
+
+  return {
+    category,
+    factor: rule.factor,
+    radius_km: rule.radius_km,
+    count_within_radius: countWithinRadius,
+    nearest_name: nearest?.poi.name,
+    nearest_distance_km: nearest ? Math.round(nearest.km * 100) / 100 : undefined,
+    points,
+    max_points: rule.max_points
+  }
+}
+
+// Puntajes 1-10 con el detalle por categoría. La ubicación es el promedio de transporte y servicios.
+// Sin coordenadas o fuera de la cobertura de los datos se devuelven los valores referenciales.
+export function scoreNeighborhood(
+  coordinates: Partial<Coordinates> | undefined,
+  pois: PointOfInterest[] = DEFAULT_POIS
+): NeighborhoodFactors {
+  if (!coordinates || coordinates.lat === undefined || coordinates.lon === undefined) return defaultFactors()
+
+  const origin = { lat: coordinates.lat, lon: coordinates.lon }
+  const distances = pois.map(poi => ({ poi, km: distanceKm(origin, poi) }))
+  if (!distances.some(({ km }) => km <= NEIGHBORHOOD_DEFAULTS.COVERAGE_RADIUS_KM)) return defaultFactors()
+
+  const breakdown = (Object.keys(CATEGORY_RULES) as PoiCategory[]).map(category => scoreCategory(category, distances))
+  const factorPoints = (factor: NeighborhoodFactorDetail['factor']) => breakdown
+    .filter(detail => detail.factor === factor)
+    .reduce((sum, detail) => sum + detail.points, 0)
+
+  const transportation = clampScore(factorPoints('transportation_access'))
+  const amenities = clampScore(factorPoints('amenities_score'))
+
+  return {
+    location_score: clampScore((transportation + amenities) / 2),
+    transportation_access: transportation,
+    amenities_score: amenities,
+    source: 'poi',
+    breakdown
+  }
+}
+
+// Texto para el propietario: "Metro: Los Leones a 350 m · 2 en 1,5 km"
+export function describeNeighborhoodDetail(detail: NeighborhoodFactorDetail): string {
+  const label = POI_CATEGORY_LABELS[detail.category]
+  if (detail.nearest_distance_km === undefined) return `${label}: sin datos`
+
+  const distance = detail.nearest_distance_km < 1
+    ? `${Math.round(detail.nearest_distance_km * 1000)} m`
+    : `${detail.nearest_distance_km.toLocaleString('es-CL')} km`
+  const radius = detail.radius_km < 1 ? `${Math.round(detail.radius_km * 1000)} m` : `${detail.radius_km.toLocaleString('es-CL')} km`
+
+  return `${label}: ${detail.nearest_name} a ${distance} · ${detail.count_within_radius} en ${radius}`
+}
@@ -0,0 +1,111 @@
+/*
+Domain: Listing Import
+Responsibility: Decidir si una dirección IP (v4 o v6) es pública: descarta loopback, redes privadas, CGNAT,
+  link-local (incluida la de metadatos de la nube), unique-local, multicast y rangos reservados, normalizando las
+  IPv4 incrustadas en IPv6 (::ffff:a.b.c.d, NAT64, 6to4)
+Dependencies: ninguna (sin módulos de Node: también la usa lib/validation en el navegador)
+*/
+
+// [red, largo del prefijo] de los rangos IPv4 que no se pueden alcanzar desde el servidor
+const BLOCKED_IPV4_RANGES: Array<[number[], number]> = [
+  [[0, 0, 0, 0], 8], // "Esta" red
+  [[10, 0, 0, 0], 8], // Privada
+  [[100, 64, 0, 0], 10], // CGNAT
+  [[127, 0, 0, 0], 8], // Loopback
+  [[169, 254, 0, 0], 16], // Link-local (metadatos de la nube en 169.254.169.254)
+  [[172, 16, 0, 0], 12], // Privada
+  [[192, 0, 0, 0], 24], // Asignaciones de protocolo IETF
+  [[192, 0, 2, 0], 24], // Documentación
+  [[192, 168, 0, 0], 16], // Privada
+  [[198, 18, 0, 0], 15], // Pruebas de rendimiento
+  [[198, 51, 100, 0], 24], // Documentación
+  [[203, 0, 113, 0], 24], // Documentación
+  [[224, 0, 0, 0], 4], // Multicast
+  [[240, 0, 0, 0], 4] // Reservada y broadcast
+]
+
+const toUint32 = (octets: number[]) => ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0
+
+export function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.')
+  if (parts.length !== 4) return null
+
+  const octets = parts.map(part => (/^\d{1,3}$/.test(part) ? parseInt(part, 10) : NaN))
+  return octets.every(octet => octet >= 0 && octet <= 255) ? octets : null
+}
+
+// Los 8 grupos de 16 bits; acepta "::" y una IPv4 al final (::ffff:127.0.0.1). Sin zona (%eth0)
+export function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase()
+
+  // La IPv4 final pasa a dos grupos hexadecimales
+  const lastColon = text.lastIndexOf(':')
+  if (text.indexOf('.', lastColon) !== -1) {
+    const octets = parseIPv4(text.slice(lastColon + 1))
+    if (!octets) return null
+    const high = ((octets[0] << 8) | octets[1]).toString(16)
+    const low = ((octets[2] << 8) | octets[3]).toString(16)
+    text = `${text.slice(0, lastColon + 1)}${high}:${low}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+
+  const parseGroups = (part: string) => (part === '' ? [] : part.split(':'))
+  const head = parseGroups(halves[0])
+  const rest = halves.length === 2 ? parseGroups(halves[1]) : []
+  if (![...head, ...rest].every(group => /^[0-9a-f]{1,4}$/.test(group))) return null
+
+  const explicit = head.length + rest.length
+  if (halves.length === 1 ? explicit !== 8 : explicit > 7) return null
+
+  const zeros: number[] = halves.length === 2 ? new Array(8 - explicit).fill(0) : []
+  return [...head, ...zeros.map(String), ...rest].map(group => parseInt(group, 16))
+}
+
+function isPublicIPv4(octets: number[]): boolean {
+  const value = toUint32(octets)
+  return !BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0
+    return ((value & mask) >>> 0) === ((toUint32(network) & mask) >>> 0)
+  })
+}
+
+const embeddedIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff]
+
+function isPublicIPv6(groups: number[]): boolean {
+  const [g0, g1] = groups
+  const zeroPrefix = (count: number) => groups.slice(0, count).every(group => group === 0)
+
+  // ::ffff:a.b.c.d (mapeada) y ::a.b.c.d (compatible, obsoleta; incluye :: y ::1): vale la IPv4
+  if (zeroPrefix(5) && groups[5] === 0xffff) return isPublicIPv4(embeddedIPv4(groups[6], groups[7]))
+  if (zeroPrefix(6)) return false
+  // NAT64 (64:ff9b::/96) y 6to4 (2002::/16) llevan la IPv4 de destino
+  if (g0 === 0x64 && g1 === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPublicIPv4(embeddedIPv4(groups[6], groups[7]))
+  }
+  if (g0 === 0x2002) return isPublicIPv4(embeddedIPv4(g1, groups[2]))
+  // Documentación (2001:db8::/32)
+  if (g0 === 0x2001 && g1 === 0xdb8) return false
+
+  // Solo unicast global (2000::/3): deja fuera unique-local fc00::/7, link-local fe80::/10 y multicast ff00::/8
+  return (g0 & 0xe000) === 0x2000
+}
+
+// Dirección sin corchetes ni zona; lo que no se puede interpretar como IP no es pública
+export function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address)
+  if (ipv4) return isPublicIPv4(ipv4)
+
+  const ipv6 = parseIPv6(address)
+  return ipv6 ? isPublicIPv6(ipv6) : false
+}
+
+// Host de una URL ya interpretada: "[::1]" → "::1"
+export function stripHostBrackets(hostname: string): string {
+  return hostname.startsWith('[') && hostname.endsWith(']') ? hostname.slice(1, -1) : hostname
+}
+
+export function isIpAddress(hostname: string): boolean {
+  return parseIPv4(hostname) !== null || parseIPv6(hostname) !== null
+}
@@ -0,0 +1,136 @@
+/*
+Domain: Shared Office Data
+Responsibility: Acceso desde el navegador a los datos que comparte la oficina en el servidor (catálogo de
+  planes, pesos de similitud y biblioteca de comparables), con subida única de lo que quedó en localStorage antes
+  de guardarse en el servidor
+Dependencies: fetch, lib/localStorage, lib/comparableLibrary, tipos de rental
+*/
+
+import type { ComparableFormEntry, LibraryComparable, PlanCatalog, PlanDefinition, SimilarityWeights } from '@/types/rental'
+import { ComparableLibraryStorage, PlanCatalogStorage, SimilarityWeightsStorage } from '@/lib/localStorage'
+import type { LibraryCaptureInfo } from '@/lib/comparableLibrary'
+import { weightsForOffice } from '@/lib/similarity'
+
+export interface PlanCatalogResponse {
+  current: PlanCatalog
+  history: PlanCatalog[]
+}
+
+async function requestJson<T>(url: string, init: RequestInit | undefined, fallbackError: string): Promise<T> {
+  const response = await fetch(url, init)
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError)
+  }
+  return data
+}
+
+export async function savePlanCatalog(plans: PlanDefinition[]): Promise<PlanCatalog> {
+  const data = await requestJson<{ catalog: PlanCatalog }>('/api/plan-catalog', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ plans })
+  }, 'No se pudo guardar el catálogo de planes')
+  return data.catalog
+}
+
+// Catálogo de la oficina. Si el servidor aún no tiene versiones y este navegador guardó un catálogo propio,
+// ese catálogo se sube una vez como primera versión
+export async function fetchPlanCatalog(): Promise<PlanCatalogResponse> {
+  const data = await requestJson<PlanCatalogResponse>('/api/plan-catalog', undefined, 'No se pudo obtener el catálogo de planes')
+
+  const localHistory = PlanCatalogStorage.getHistory()
+  if (data.history.length === 0 && localHistory.length > 0) {
+    await savePlanCatalog(localHistory[localHistory.length - 1].plans)
+    PlanCatalogStorage.clear()
+    return requestJson<PlanCatalogResponse>('/api/plan-catalog', undefined, 'No se pudo obtener el catálogo de planes')
+  }
+
+  return data
+}
+
+export async function saveSimilarityWeights(officeId: string, weights: SimilarityWeights): Promise<SimilarityWeights> {
+  const data = await requestJson<{ weights: SimilarityWeights }>('/api/similarity-weights', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ office_id: officeId, weights })
+  }, 'No se pudieron guardar los pesos de similitud')
+  return data.weights
+}
+
+// Pesos guardados por oficina. Los que este navegador guardó antes para oficinas que el servidor no tiene se
+// suben una vez
+export async function fetchSimilarityWeights(): Promise<Record<string, SimilarityWeights>> {
+  const { offices } = await requestJson<{ offices: Record<string, SimilarityWeights> }>(
+    '/api/similarity-weights', undefined, 'No se pudieron obtener los pesos de similitud'
+  )
+
+  const local = SimilarityWeightsStorage.getAll()
+  const pending = Object.keys(local).filter(officeId => !offices[officeId])
+  for (const officeId of pending) {
+    offices[officeId] = await saveSimilarityWeights(officeId, local[officeId])
+  }
+  if (Object.keys(local).length > 0) SimilarityWeightsStorage.clear()
+
+  return offices
+}
+
+// Pesos de la oficina elegida en este navegador
+export async function fetchActiveSimilarityWeights(): Promise<SimilarityWeights> {
+  return weightsForOffice(await fetchSimilarityWeights(), SimilarityWeightsStorage.getActiveOffice())
+}
+
+// Comparable a agregar a la biblioteca; el servidor le asigna id, clave y comuna
+interface LibraryComparableInput {
+  entry: ComparableFormEntry
+  captured_at?: string
+  captured_by?: string
+  source_analysis_id?: string
+}
+
+async function postLibraryComparables(items: LibraryComparableInput[]): Promise<{ added: number; updated: number }> {
+  return requestJson<{ added: number; updated: number }>('/api/comparable-library', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items })
+  }, 'No se pudieron guardar los comparables en la biblioteca')
+}
+
+// Guarda las filas completas (dirección, m² y precio) de un análisis
+export async function addComparablesToLibrary(
+  entries: ComparableFormEntry[],
+  info: LibraryCaptureInfo = {}
+): Promise<{ added: number; updated: number }> {
+  const items = entries
+    .filter(entry => entry.address && entry.m2 && entry.price)
+    .map(entry => ({
+      entry,
+      captured_at: info.capturedAt,
+      captured_by: info.capturedBy,
+      source_analysis_id: info.sourceAnalysisId
+    }))
+  return items.length > 0 ? postLibraryComparables(items) : { added: 0, updated: 0 }
+}
+
+// Biblioteca de la oficina. Lo que este navegador guardó antes en su biblioteca local se sube una vez
+export async function fetchComparableLibrary(): Promise<LibraryComparable[]> {
+  const local = ComparableLibraryStorage.getAll()
+  if (local.length > 0) {
+    await postLibraryComparables(local.map(item => ({
+      entry: item.entry,
+      captured_at: item.captured_at,
+      captured_by: item.captured_by,
+      source_analysis_id: item.source_analysis_id
+    })))
+    ComparableLibraryStorage.clear()
+  }
+
+  const data = await requestJson<{ items: LibraryComparable[] }>(
+    '/api/comparable-library', undefined, 'No se pudo obtener la biblioteca de comparables'
+  )
+  return data.items
+}
+
+export async function deleteLibraryComparable(id: string): Promise<void> {
+  await requestJson(`/api/comparable-library/${encodeURIComponent(id)}`, { method: 'DELETE' }, 'No se pudo eliminar el comparable')
+}
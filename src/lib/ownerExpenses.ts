@@ -0,0 +1,71 @@
+/*
+Domain: Owner Expenses
+Responsibility: Gastos del propietario ítem por ítem (gastos comunes, contribuciones, administración, reparaciones, costos únicos)
+Dependencies: Tipos de rental (sin React ni APIs del navegador)
+*/
+
+import type { AnnualExpenses, CommonExpensesPayer, ExpenseBreakdown } from '@/types/rental'
+
+export const EXPENSE_DEFAULTS = {
+  COMMON_EXPENSES_PAID_BY: 'tenant' as CommonExpensesPayer, // Lo habitual en Chile
+  ADMINISTRATION_PERCENTAGE: 2.5, // Igual a DEFAULT_EXPENSES.ADMIN_PERCENTAGE de lib/config
+  REPAIRS_RESERVE_PERCENTAGE: 0,
+  PROPERTY_TAX_INSTALLMENTS: 4 // Contribuciones: abril, junio, septiembre y noviembre
+} as const
+
+function toAmount(value: number | undefined): number {
+  return value !== undefined && isFinite(value) && value > 0 ? value : 0
+}
+
+export function quarterlyPropertyTax(annualPropertyTaxClp: number): number {
+  return toAmount(annualPropertyTaxClp) / EXPENSE_DEFAULTS.PROPERTY_TAX_INSTALLMENTS
+}
+
+// Gastos del primer año. Administración y reparaciones se calculan sobre el arriendo cobrado
+// (descontada la vacancia); los gastos comunes que paga el arrendatario corren por cuenta
+// del propietario durante los meses vacantes.
+export function calculateExpenseBreakdown(
+  expenses: AnnualExpenses,
+  monthlyRentClp: number,
+  vacancyMonths: number
+): ExpenseBreakdown {
+  const monthlyRent = toAmount(monthlyRentClp)
+  const vacantMonths = Math.min(Math.max(vacancyMonths, 0), 12)
+  const collectedRent = monthlyRent * (12 - vacantMonths)
+
+  const paidBy = expenses.common_expenses_paid_by || EXPENSE_DEFAULTS.COMMON_EXPENSES_PAID_BY
+  const commonExpenses = toAmount(expenses.common_expenses_monthly_clp) * (paidBy === 'owner' ? 12 : vacantMonths)
+  const propertyTax = toAmount(expenses.property_tax_clp)
+  const insurance = toAmount(expenses.insurance_clp)
+  const maintenance = toAmount(expenses.maintenance_clp)
+  const administration = collectedRent * (toAmount(expenses.administration_percentage) / 100)
+  const repairsReserve = collectedRent * (toAmount(expenses.repairs_reserve_percentage) / 100)
+  const recurringTotal = commonExpenses + propertyTax + insurance + maintenance + administration + repairsReserve
+
+  const oneOff =
+    monthlyRent * (toAmount(expenses.lease_commission_percentage) / 100) +
+    toAmount(expenses.other_one_off_costs_clp)
+
+  return {
+    common_expenses_clp: Math.round(commonExpenses),
+    property_tax_clp: Math.round(propertyTax),
+    property_tax_quarterly_clp: Math.round(quarterlyPropertyTax(propertyTax)),
+    insurance_clp: Math.round(insurance),
+    maintenance_clp: Math.round(maintenance),
+    administration_clp: Math.round(administration),
+    repairs_reserve_clp: Math.round(repairsReserve),
+    recurring_total_clp: Math.round(recurringTotal),
+    one_off_clp: Math.round(oneOff),
+    total_clp: Math.round(recurringTotal + oneOff)
+  }
+}
+
+export const EXPENSE_LABELS: Record<Exclude<keyof ExpenseBreakdown, 'property_tax_quarterly_clp' | 'recurring_total_clp' | 'total_clp'>, string> = {
+  common_expenses_clp: 'Gastos comunes',
+  property_tax_clp: 'Contribuciones',
+  insurance_clp: 'Seguros',
+  maintenance_clp: 'Mantención',
+  administration_clp: 'Administración',
+  repairs_reserve_clp: 'Reserva para reparaciones',
+  one_off_clp: 'Costos únicos (corretaje y otros)'
+}
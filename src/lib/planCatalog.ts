@@ -0,0 +1,118 @@
+/*
+Domain: Plan Catalog
+Responsibility: Catálogo de planes comerciales configurable por el corredor (N planes, versionado)
+Dependencies: Tipos de rental (sin React ni APIs del navegador)
+*/
+
+import type { PlanCatalog, PlanDefinition } from '@/types/rental'
+
+// Planes por defecto A, B y C. Plan A ajusta el precio más seguido para arrendar más rápido;
+// el tiempo esperado y la vacancia se obtienen por simulación (lib/rentalSimulation).
+export const DEFAULT_PLAN_DEFINITIONS: PlanDefinition[] = [
+  {
+    id: 'A',
+    name: 'Plan Premium',
+    description: 'Ajustes frecuentes cada 7-10 días para máxima velocidad de arriendo',
+    commission_percentage: 12,
+    service_level: 'premium',
+    marketing_duration_days: 30,
+    adjustments: [
+      { day: 0, percentage_reduction: 0 },
+      { day: 7, percentage_reduction: 4 },
+      { day: 15, percentage_reduction: 8 },
+      { day: 22, percentage_reduction: 12 }
+    ]
+  },
+  {
+    id: 'B',
+    name: 'Plan Estándar',
+    description: 'Balance ideal con ajustes moderados cada 10 días',
+    commission_percentage: 10,
+    service_level: 'standard',
+    marketing_duration_days: 30,
+    adjustments: [
+      { day: 0, percentage_reduction: 0 },
+      { day: 10, percentage_reduction: 5 },
+      { day: 20, percentage_reduction: 10 }
+    ]
+  },
+  {
+    id: 'C',
+    name: 'Plan Básico',
+    description: 'Precio estable con un solo ajuste después de 15 días',
+    commission_percentage: 8,
+    service_level: 'basic',
+    marketing_duration_days: 30,
+    adjustments: [
+      { day: 0, percentage_reduction: 0 },
+      { day: 15, percentage_reduction: 3 }
+    ]
+  }
+]
+
+export const DEFAULT_PLAN_CATALOG: PlanCatalog = {
+  version: 0,
+  updated_at: '1970-01-01T00:00:00.000Z',
+  plans: DEFAULT_PLAN_DEFINITIONS
+}
+
+// Medallas y estilos de tarjeta según la posición del plan en el catálogo
+const PLAN_BADGES = ['🥇', '🥈', '🥉']
+const PLAN_CARD_CLASSES = ['plan-a', 'plan-b', 'plan-c']
+
+export function planBadge(index: number): string {
+  return PLAN_BADGES[index] || '🏅'
+}
+
+export function planCardClass(index: number): string {
+  return PLAN_CARD_CLASSES[index % PLAN_CARD_CLASSES.length]
+}
+
+// Siguiente id libre: letras A-Z y luego P27, P28...
+export function nextPlanId(plans: PlanDefinition[]): string {
+  const used = new Set(plans.map(plan => plan.id))
+  for (let code = 65; code <= 90; code++) {
+    const id = String.fromCharCode(code)
+    if (!used.has(id)) return id
+  }
+  let index = 27
+  while (used.has(`P${index}`)) index++
+  return `P${index}`
+}
+
+export function createPlanDefinition(plans: PlanDefinition[]): PlanDefinition {
+  return {
+    id: nextPlanId(plans),
+    name: 'Nuevo Plan',
+    description: '',
+    commission_percentage: 10,
+    service_level: 'standard',
+    marketing_duration_days: 30,
+    adjustments: [{ day: 0, percentage_reduction: 0 }]
+  }
+}
+
+// Ordena el cronograma por día y asegura el precio inicial en el día 0
+export function normalizePlanDefinition(plan: PlanDefinition): PlanDefinition {
+  const adjustments = [...plan.adjustments]
+    .filter(adjustment => adjustment.day > 0)
+    .sort((a, b) => a.day - b.day)
+  const initial = plan.adjustments.find(adjustment => adjustment.day === 0) || { day: 0, percentage_reduction: 0 }
+
+  return {
+    ...plan,
+    id: plan.id.trim(),
+    name: plan.name.trim(),
+    description: plan.description.trim(),
+    adjustments: [initial, ...adjustments]
+  }
+}
+
+// Nueva versión del catálogo a partir de la anterior
+export function createCatalogVersion(previous: PlanCatalog, plans: PlanDefinition[]): PlanCatalog {
+  return {
+    version: previous.version + 1,
+    updated_at: new Date().toISOString(),
+    plans: plans.map(normalizePlanDefinition)
+  }
+}
@@ -0,0 +1,53 @@
+/*
+Domain: Plan Catalog
+Responsibility: Catálogo de planes de la oficina guardado en el servidor: versiones en orden, la vigente y el
+  guardado de una versión nueva. Lo exponen /api/plan-catalog y las APIs de análisis
+Dependencies: lib/documentStore, lib/planCatalog, lib/config, tipos de rental
+*/
+
+import type { PlanCatalog, PlanDefinition } from '@/types/rental'
+import { STORAGE_CONFIG } from '@/lib/config'
+import { createDocumentStore, type DocumentStore } from '@/lib/documentStore'
+import { DEFAULT_PLAN_CATALOG, createCatalogVersion } from '@/lib/planCatalog'
+
+// Versiones del catálogo de planes que se conservan
+const MAX_PLAN_CATALOG_VERSIONS = 20
+
+export interface PlanCatalogDocument {
+  versions: PlanCatalog[] // De la más antigua a la más reciente
+}
+
+let store: DocumentStore<PlanCatalogDocument> | null = null
+
+function getStore(): DocumentStore<PlanCatalogDocument> {
+  if (!store) {
+    store = createDocumentStore<PlanCatalogDocument>(STORAGE_CONFIG.PLAN_CATALOG_FILE, { versions: [] })
+  }
+  return store
+}
+
+// Reemplaza el almacenamiento del proceso (pruebas)
+export function setPlanCatalogStore(replacement: DocumentStore<PlanCatalogDocument> | null): void {
+  store = replacement
+}
+
+export async function getPlanCatalogHistory(): Promise<PlanCatalog[]> {
+  return (await getStore().read()).versions
+}
+
+// Última versión guardada o el catálogo por defecto (A, B, C)
+export async function getCurrentPlanCatalog(): Promise<PlanCatalog> {
+  const versions = await getPlanCatalogHistory()
+  return versions.length > 0 ? versions[versions.length - 1] : DEFAULT_PLAN_CATALOG
+}
+
+// Cada guardado crea una versión nueva a partir de la vigente en ese momento
+export async function savePlanCatalog(plans: PlanDefinition[]): Promise<PlanCatalog> {
+  let saved = DEFAULT_PLAN_CATALOG
+  await getStore().update(document => {
+    const current = document.versions[document.versions.length - 1] || DEFAULT_PLAN_CATALOG
+    saved = createCatalogVersion(current, plans)
+    return { versions: [...document.versions, saved].slice(-MAX_PLAN_CATALOG_VERSIONS) }
+  })
+  return saved
+}
@@ -0,0 +1,476 @@
+/*
+Domain: Profitability Calculations
+Responsibility: Fuente única de los cálculos de rentabilidad (CAP rate, vacancia, planes del catálogo)
+Dependencies: Tipos de rental (sin React ni APIs del navegador)
+*/
+
+import type {
+  RentalAnalysisForm,
+  RentalAnalysisInput,
+  RentalAnalysisResult,
+  RentalAnalysis,
+  RentalCalculations,
+  RentalPlan,
+  CapRateAnalysis,
+  VacancyImpact,
+  MarketStudy,
+  PlanComparison,
+  ComparableProperty,
+  FinancingInput,
+  AnnualExpenses,
+  TaxInput,
+  PlanCatalog,
+  PlanDefinition,
+  SimilarityWeights,
+  MarketRentBenchmark
+} from '@/types/rental'
+import { calculateLeveragedReturns, isFinancingComplete } from '@/lib/financing'
+import { simulateDaysToRent, marketReferenceRent, vacancyRiskScore } from '@/lib/rentalSimulation'
+import { DEFAULT_PLAN_CATALOG } from '@/lib/planCatalog'
+import { calculatePlanVacancyImpact } from '@/lib/vacancyModel'
+import { calculateExpenseBreakdown } from '@/lib/ownerExpenses'
+import { calculateAfterTaxReturns, isTaxInputComplete } from '@/lib/afterTax'
+import { valueComparables } from '@/lib/comparableValuation'
+import { scoreComparables, parseAmenities, parseOrientation } from '@/lib/similarity'
+import { scoreNeighborhood } from '@/lib/neighborhoodScore'
+
+// Constantes compartidas por el motor, los hooks, las APIs y los PDFs
+export const PROFITABILITY_DEFAULTS = {
+  UF_VALUE_CLP: 38000,
+  MIN_UF_VALUE_CLP: 25000,
+  MAX_UF_VALUE_CLP: 50000,
+  // 1 mes de vacancia al año = 8.33% de pérdida anual
+  VACANCY_MONTHS_PER_YEAR: 1,
+  GOOD_CAP_RATE: 6,
+  MIN_CAP_RATE: 4,
+  MARKET_RANGE_PERCENTAGE: 10, // Rango ± sin comparables para estimarlo
+  // Peso de la rapidez para arrendar en la recomendación de planes (el resto es el ingreso neto)
+  RECOMMENDATION_SPEED_WEIGHT: 0.5
+} as const
+
+// Convierte un valor a número finito y no negativo
+function toAmount(value: number | undefined): number {
+  return value !== undefined && isFinite(value) && value > 0 ? value : 0
+}
+
+function parseAmount(value: string | undefined): number {
+  return toAmount(parseFloat(value || '0'))
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Valor UF validado (rango razonable 25.000 - 50.000 CLP)
+export function resolveUfValue(ufValueClp: number | undefined): number {
+  const value = toAmount(ufValueClp)
+  return value >= PROFITABILITY_DEFAULTS.MIN_UF_VALUE_CLP && value <= PROFITABILITY_DEFAULTS.MAX_UF_VALUE_CLP
+    ? value
+    : PROFITABILITY_DEFAULTS.UF_VALUE_CLP
+}
+
+export function annualVacancyRate(): number {
+  return PROFITABILITY_DEFAULTS.VACANCY_MONTHS_PER_YEAR / 12
+}
+
+// Genera los planes del catálogo con precios en CLP a partir del precio base
+export function buildRentalPlans(
+  baseRentClp: number,
+  commissions: Record<string, number> = {},
+  definitions: PlanDefinition[] = DEFAULT_PLAN_CATALOG.plans
+): RentalPlan[] {
+  const baseRent = toAmount(baseRentClp)
+
+  return definitions.map(definition => ({
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    initial_rent_clp: baseRent,
+    commission_percentage: toAmount(commissions[definition.id]) || definition.commission_percentage,
+    marketing_duration_days: definition.marketing_duration_days,
+    service_level: definition.service_level,
+    price_adjustment_schedule: definition.adjustments.map(adjustment => ({
+      day: adjustment.day,
+      new_rent_clp: Math.round(baseRent * (1 - adjustment.percentage_reduction / 100)),
+      percentage_reduction: adjustment.percentage_reduction
+    }))
+  }))
+}
+
+// commissionPercentage: comisión anual del plan principal sobre el arriendo cobrado; el mismo NOI usan la
+// proyección de flujos (lib/cashFlowProjection) y la sensibilidad (lib/sensitivity)
+export function calculateCapRateAnalysis(input: RentalAnalysisInput, commissionPercentage: number = 0): CapRateAnalysis {
+  const propertyValue = toAmount(input.property.value_clp)
+  const annualRentalIncome = toAmount(input.monthly_rent_clp) * 12
+  const expenseBreakdown = calculateExpenseBreakdown(
+    input.annual_expenses,
+    input.monthly_rent_clp,
+    PROFITABILITY_DEFAULTS.VACANCY_MONTHS_PER_YEAR
+  )
+  const annualExpenses = expenseBreakdown.total_clp
+
+  // El NOI (primer año) descuenta la vacancia esperada, la comisión del plan y todos los gastos del propietario
+  const collectedRent = annualRentalIncome * (1 - annualVacancyRate())
+  const commission = collectedRent * (Math.max(toAmount(commissionPercentage), 0) / 100)
+  const netOperatingIncome = collectedRent - commission - annualExpenses
+  const capRate = propertyValue > 0 ? (netOperatingIncome / propertyValue) * 100 : 0
+
+  let comparison: CapRateAnalysis['comparison_to_market'] = 'average'
+  if (capRate >= PROFITABILITY_DEFAULTS.GOOD_CAP_RATE) comparison = 'above'
+  else if (capRate < PROFITABILITY_DEFAULTS.MIN_CAP_RATE) comparison = 'below'
+
+  return {
+    property_value_clp: propertyValue,
+    annual_rental_income: annualRentalIncome,
+    annual_expenses: annualExpenses,
+    expenses: input.annual_expenses,
+    expense_breakdown: expenseBreakdown,
+    commission_clp: Math.round(commission),
+    net_operating_income: Math.round(netOperatingIncome),
+    cap_rate_percentage: round2(capRate),
+    comparison_to_market: comparison
+  }
+}
+
+// Con un plan se modela la vacancia día a día según su cronograma de ajustes (lib/vacancyModel);
+// sin plan se usa el supuesto fijo de meses vacantes al año.
+export function calculateVacancyImpact(
+  monthlyRentClp: number,
+  plan?: RentalPlan,
+  marketRentClp?: number
+): VacancyImpact {
+  if (plan && toAmount(plan.initial_rent_clp) > 0) {
+    return calculatePlanVacancyImpact(plan, toAmount(marketRentClp))
+  }
+
+  const monthlyRent = toAmount(monthlyRentClp)
+  const vacantMonths = PROFITABILITY_DEFAULTS.VACANCY_MONTHS_PER_YEAR
+
+  // Reducción que compensa la vacancia: (12 - m) meses con (100% - X%) = 12 meses con 100%
+  // Con 1 mes vacante: X = 1/11 = 9.09%
+  const breakEvenReduction = (vacantMonths / (12 - vacantMonths)) * 100
+
+  return {
+    days_vacant: Math.round(vacantMonths * 30),
+    percentage_annual_loss: round2(annualVacancyRate() * 100),
+    lost_income_clp: Math.round(monthlyRent * vacantMonths),
+    break_even_reduction_percentage: monthlyRent > 0 ? round2(breakEvenReduction) : 0
+  }
+}
+
+// El rango de mercado es el intervalo de confianza de la valoración de comparables
+// (lib/comparableValuation); sin comparables útiles se usa el rango intercuartil del índice de la comuna
+// (lib/marketRentIndex) o, si no hay índice, un rango fijo sobre el arriendo ingresado.
+export function buildMarketStudy(input: RentalAnalysisInput): MarketStudy {
+  const monthlyRent = toAmount(input.monthly_rent_clp)
+  const sizeM2 = toAmount(input.property.size_m2)
+  const valuation = valueComparables(input.comparables, input.property, {
+    fallbackRentClp: monthlyRent,
+    fallbackRangePercentage: PROFITABILITY_DEFAULTS.MARKET_RANGE_PERCENTAGE
+  })
+  const keptComparables = valuation.contributions
+    .filter(contribution => !contribution.is_outlier && contribution.price_per_m2 > 0)
+
+  // Sin comparables válidos, la referencia es el índice de arriendos de la comuna (si lo hay)
+  const benchmark = valuation.method === 'none' && sizeM2 > 0 ? input.market_benchmark : undefined
+
+  const averageRentPerM2 = benchmark
+    ? benchmark.median_rent_per_m2
+    : keptComparables.length > 0
+      ? keptComparables.reduce((sum, contribution) => sum + contribution.price_per_m2, 0) / keptComparables.length
+      : sizeM2 > 0 ? monthlyRent / sizeM2 : 0
+
+  return {
+    comparable_properties: scoreComparables(input.comparables, input.property, input.similarity_weights),
+    average_rent_per_m2: Math.round(averageRentPerM2),
+    market_range: benchmark
+      ? {
+          min_rent_clp: Math.round(benchmark.p25_rent_per_m2 * sizeM2),
+          max_rent_clp: Math.round(benchmark.p75_rent_per_m2 * sizeM2)
+        }
+      : valuation.confidence_interval,
+    valuation,
+    market_benchmark: benchmark,
+    neighborhood_factors: scoreNeighborhood({ lat: input.property.lat, lon: input.property.lon })
+  }
+}
+
+// Compara los planes simulando los días hasta arrendar con su cronograma de precios.
+// La recomendación (1-10) combina el ingreso neto esperado frente al mejor plan con la rapidez para arrendar
+// (días promedio frente al plan más rápido). Solo con el ingreso ganaría siempre el plan de menor comisión,
+// aunque deje la propiedad más tiempo vacía; con el catálogo por defecto el orden es A, B, C.
+export function comparePlans(
+  plans: RentalPlan[],
+  options: { marketRentClp?: number; iterations?: number } = {}
+): PlanComparison[] {
+  const marketRentFor = (plan: RentalPlan) => toAmount(options.marketRentClp) || toAmount(plan.initial_rent_clp)
+  const simulations = plans.map(plan => simulateDaysToRent(plan, {
+    marketRentClp: marketRentFor(plan),
+    iterations: options.iterations
+  }))
+  const bestNetIncome = Math.max(0, ...simulations.map(simulation => simulation.expected_net_annual_income))
+  const fastestMeanDays = Math.min(...simulations.map(simulation => simulation.mean_days))
+  const speedWeight = PROFITABILITY_DEFAULTS.RECOMMENDATION_SPEED_WEIGHT
+
+  return plans.map((plan, index) => {
+    const simulation = simulations[index]
+    const incomeRatio = simulation.expected_net_annual_income / bestNetIncome
+    const speedRatio = simulation.mean_days > 0 ? fastestMeanDays / simulation.mean_days : 1
+    const recommendation = bestNetIncome > 0
+      ? ((1 - speedWeight) * incomeRatio + speedWeight * speedRatio) * 10
+      : 1
+
+    return {
+      plan_id: plan.id,
+      expected_rental_time: simulation.p50_days,
+      total_commission: simulation.expected_commission_clp,
+      net_annual_income: simulation.expected_net_annual_income,
+      vacancy_risk_score: vacancyRiskScore(simulation),
+      recommendation_score: Math.min(10, Math.max(1, Math.round(recommendation * 10) / 10)),
+      simulation,
+      vacancy_impact: calculatePlanVacancyImpact(plan, marketRentFor(plan))
+    }
+  })
+}
+
+// Deriva los indicadores consolidados desde un análisis ya construido
+export function calculationsFromAnalysis(analysis: RentalAnalysis): RentalCalculations {
+  const capRateAnalysis = analysis.cap_rate_analysis
+  const propertyValue = capRateAnalysis.property_value_clp
+
+  return {
+    cap_rate: capRateAnalysis.cap_rate_percentage,
+    annual_rental_yield: propertyValue > 0
+      ? round2((capRateAnalysis.annual_rental_income / propertyValue) * 100)
+      : 0,
+    monthly_net_income: Math.round(capRateAnalysis.net_operating_income / 12),
+    // lost_income_clp es la pérdida anual por vacancia
+    vacancy_cost_per_month: Math.round(analysis.vacancy_impact.lost_income_clp / 12),
+    break_even_rent_reduction: analysis.vacancy_impact.break_even_reduction_percentage,
+    plan_comparisons: comparePlans(analysis.plans, {
+      marketRentClp: marketReferenceRent(analysis.market_study, analysis.property.size_m2)
+    }),
+    leveraged_returns: analysis.leveraged_returns,
+    after_tax: analysis.after_tax
+  }
+}
+
+export function calculateRentalProfitability(input: RentalAnalysisInput): RentalAnalysisResult {
+  const monthlyRent = toAmount(input.monthly_rent_clp)
+  const capturePrice = toAmount(input.capture_price_clp) || monthlyRent
+  const planCatalog = input.plan_catalog || DEFAULT_PLAN_CATALOG
+  const plans = buildRentalPlans(capturePrice, input.plan_commissions, planCatalog.plans)
+  const marketStudy = buildMarketStudy(input)
+
+  const analysis: RentalAnalysis = {
+    property: {
+      ...input.property,
+      // El id lo asigna quien llama (p. ej. el id del análisis guardado): el cálculo es determinista
+      id: input.property.id || '',
+      market_rent_clp: monthlyRent
+    },
+    plans,
+    market_study: marketStudy,
+    cap_rate_analysis: calculateCapRateAnalysis(input, plans[0]?.commission_percentage),
+    // Vacancia del plan principal del catálogo
+    vacancy_impact: calculateVacancyImpact(
+      monthlyRent,
+      plans[0],
+      marketReferenceRent(marketStudy, input.property.size_m2)
+    ),
+    recommended_initial_rent: capturePrice,
+    plan_catalog_version: planCatalog.version
+  }
+
+  if (isFinancingComplete(input.financing)) {
+    analysis.leveraged_returns = calculateLeveragedReturns({
+      financing: input.financing,
+      netOperatingIncome: analysis.cap_rate_analysis.net_operating_income,
+      monthlyRentClp: monthlyRent,
+      propertyValueClp: analysis.cap_rate_analysis.property_value_clp,
+      ufValueClp: resolveUfValue(input.uf_value_clp)
+    })
+  }
+
+  if (isTaxInputComplete(input.tax)) {
+    analysis.after_tax = calculateAfterTaxReturns({
+      tax: input.tax,
+      netOperatingIncome: analysis.cap_rate_analysis.net_operating_income,
+      propertyTaxClp: toAmount(input.annual_expenses.property_tax_clp),
+      propertyValueClp: analysis.cap_rate_analysis.property_value_clp
+    })
+  }
+
+  return {
+    analysis,
+    calculations: calculationsFromAnalysis(analysis)
+  }
+}
+
+// Construye los comparables desde la lista del formulario; el id es la posición en la lista
+function comparablesFromForm(form: Partial<RentalAnalysisForm>): ComparableProperty[] {
+  const comparables: ComparableProperty[] = []
+  const entries = form.comparables || []
+
+  entries.forEach((entry, index) => {
+    const address = entry.address
+    const rent = parseAmount(entry.price)
+    if (!address || rent <= 0) return
+
+    const sizeM2 = parseAmount(entry.m2)
+    comparables.push({
+      id: index + 1,
+      address,
+      size_m2: sizeM2,
+      bedrooms: parseInt(entry.bedrooms || '0') || 0,
+      bathrooms: parseInt(entry.bathrooms || '0') || 0,
+      parking_spaces: parseInt(entry.parking || '0') || 0,
+      storage_units: parseInt(entry.storage || '0') || 0,
+      rent_clp: rent,
+      price_per_m2: sizeM2 > 0 ? Math.round(rent / sizeM2) : 0,
+      link: entry.link,
+      ...buildingAttributesFromForm({
+        lat: entry.lat,
+        lon: entry.lon,
+        year_built: entry.year_built,
+        floor: entry.floor,
+        orientation: entry.orientation,
+        amenities: entry.amenities
+      })
+    })
+  })
+
+  return comparables
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined
+  const parsed = parseFloat(value)
+  return isFinite(parsed) ? parsed : undefined
+}
+
+// Ubicación y atributos del edificio, comunes a la propiedad y a los comparables
+function buildingAttributesFromForm(fields: {
+  lat?: string
+  lon?: string
+  year_built?: string
+  floor?: string
+  orientation?: string
+  amenities?: string
+}): Pick<ComparableProperty, 'lat' | 'lon' | 'year_built' | 'floor' | 'orientation' | 'amenities'> {
+  return {
+    lat: optionalNumber(fields.lat),
+    lon: optionalNumber(fields.lon),
+    year_built: optionalNumber(fields.year_built),
+    floor: optionalNumber(fields.floor),
+    orientation: parseOrientation(fields.orientation),
+    amenities: fields.amenities ? parseAmenities(fields.amenities) : undefined
+  }
+}
+
+// Sin tramo elegido no se estima el impuesto
+function taxFromForm(form: Partial<RentalAnalysisForm>): TaxInput | undefined {
+  if (form.tax_marginal_bracket === undefined || form.tax_marginal_bracket === '') return undefined
+  const bracketIndex = parseInt(form.tax_marginal_bracket)
+  if (isNaN(bracketIndex) || bracketIndex < 0) return undefined
+
+  const dfl2PropertiesOwned = parseInt(form.tax_dfl2_properties_owned || '')
+  return {
+    marginal_bracket_index: bracketIndex,
+    is_dfl2: form.tax_is_dfl2 === 'true',
+    dfl2_properties_owned: dfl2PropertiesOwned > 0 ? dfl2PropertiesOwned : undefined
+  }
+}
+
+function financingFromForm(form: Partial<RentalAnalysisForm>): FinancingInput | undefined {
+  const loanUf = parseAmount(form.mortgage_loan_uf)
+  if (loanUf <= 0) return undefined
+
+  return {
+    down_payment_uf: parseAmount(form.mortgage_down_payment_uf),
+    loan_uf: loanUf,
+    annual_rate_percentage: parseAmount(form.mortgage_annual_rate),
+    term_years: parseAmount(form.mortgage_term_years)
+  }
+}
+
+function expensesFromForm(form: Partial<RentalAnalysisForm>): AnnualExpenses {
+  return {
+    maintenance_clp: parseAmount(form.annual_maintenance_clp),
+    property_tax_clp: parseAmount(form.annual_property_tax_clp),
+    insurance_clp: parseAmount(form.annual_insurance_clp),
+    common_expenses_monthly_clp: parseAmount(form.common_expenses_monthly_clp),
+    common_expenses_paid_by: form.common_expenses_paid_by === 'owner' ? 'owner' : 'tenant',
+    administration_percentage: parseAmount(form.administration_percentage),
+    repairs_reserve_percentage: parseAmount(form.repairs_reserve_percentage),
+    lease_commission_percentage: parseAmount(form.lease_commission_percentage),
+    other_one_off_costs_clp: parseAmount(form.other_one_off_costs_clp)
+  }
+}
+
+// Comisiones A/B/C ingresadas en el formulario; solo aplican si el catálogo tiene esos planes
+function commissionOverridesFromForm(form: Partial<RentalAnalysisForm>): Record<string, number> {
+  const overrides: Record<string, number> = {}
+  const fields = { A: form.plan_a_commission, B: form.plan_b_commission, C: form.plan_c_commission }
+
+  for (const [planId, value] of Object.entries(fields)) {
+    const commission = parseAmount(value)
+    if (commission > 0) overrides[planId] = commission
+  }
+
+  return overrides
+}
+
+// Adaptador del formulario (valores string) a la entrada tipada del cálculo.
+// Acepta tanto RentalAnalysisForm como SavedAnalysisFormData.
+export function formToAnalysisInput(
+  form: Partial<RentalAnalysisForm>,
+  planCatalog?: PlanCatalog,
+  similarityWeights?: SimilarityWeights,
+  marketBenchmark?: MarketRentBenchmark
+): RentalAnalysisInput {
+  const ufValue = resolveUfValue(parseFloat(form.uf_value_clp || '0'))
+
+  const monthlyRent = form.rent_currency === 'UF'
+    ? parseAmount(form.suggested_rent_uf) * ufValue
+    : parseAmount(form.suggested_rent_clp)
+
+  const capturePrice = form.capture_price_currency === 'UF'
+    ? parseAmount(form.capture_price_uf) * ufValue
+    : parseAmount(form.capture_price_clp)
+
+  const valueUf = parseAmount(form.property_value_uf)
+  const valueClp = parseAmount(form.property_value_clp) || valueUf * ufValue
+
+  return {
+    property: {
+      address: form.property_address || '',
+      value_clp: valueClp,
+      value_uf: valueUf || undefined,
+      size_m2: parseAmount(form.property_size_m2) || undefined,
+      bedrooms: parseInt(form.bedrooms || '0') || undefined,
+      bathrooms: parseInt(form.bathrooms || '0') || undefined,
+      parking_spaces: parseInt(form.parking_spaces || '0') || 0,
+      storage_units: parseInt(form.storage_units || '0') || 0,
+      ...buildingAttributesFromForm({
+        lat: form.property_lat,
+        lon: form.property_lon,
+        year_built: form.property_year_built,
+        floor: form.property_floor,
+        orientation: form.property_orientation,
+        amenities: form.property_amenities
+      })
+    },
+    monthly_rent_clp: monthlyRent,
+    capture_price_clp: capturePrice || undefined,
+    uf_value_clp: ufValue,
+    plan_commissions: commissionOverridesFromForm(form),
+    plan_catalog: planCatalog,
+    annual_expenses: expensesFromForm(form),
+    comparables: comparablesFromForm(form),
+    financing: financingFromForm(form),
+    tax: taxFromForm(form),
+    similarity_weights: similarityWeights,
+    market_benchmark: marketBenchmark
+  }
+}
@@ -4,7 +4,7 @@ Responsibility: Integración con el módulo de arriendo existente de Propital
 Dependencies: API endpoints, tipos de datos de Propital
 */
 
-import type { RentalAnalysis } from '@/types/rental'
+import type { ProposalStatus, RentalAnalysis } from '@/types/rental'
 
 // Tipos para la integración con Propital
 export interface PropitalProperty {
@@ -30,7 +30,7 @@ export interface PropitalRentalAnalysis {
   broker_id: string
   client_id?: string
   analysis_data: RentalAnalysis
-  status: 'draft' | 'sent_to_client' | 'client_responded' | 'published' | 'archived'
+  status: ProposalStatus
   created_at: Date
   updated_at: Date
   expires_at: Date
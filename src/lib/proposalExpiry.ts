@@ -0,0 +1,83 @@
+/*
+Domain: Proposal Lifecycle
+Responsibility: Plazo de respuesta de las propuestas enviadas: días restantes, próximos vencimientos para el
+  dashboard y qué propuestas vencer o recordar en una pasada del programador (lib/proposalScheduler)
+Dependencies: lib/proposalLifecycle, tipos de saved-analysis
+*/
+
+import type { SavedAnalysis } from '@/types/saved-analysis'
+import { proposalExpiresAt } from '@/lib/proposalLifecycle'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface UpcomingExpiration {
+  analysis: SavedAnalysis
+  expiresAt: string
+  daysLeft: number
+}
+
+export interface ExpiryReminder extends UpcomingExpiration {
+  remindAt: number[] // Umbrales que cubre este recordatorio (se marcan como enviados)
+}
+
+export interface ExpiryPlan {
+  expire: SavedAnalysis[]
+  remind: ExpiryReminder[]
+}
+
+// Días completos que le quedan al cliente; 1 significa que vence dentro de las próximas 24 horas
+export function daysUntilExpiry(expiresAt: Date, now: Date = new Date()): number {
+  return Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS)
+}
+
+// Propuestas enviadas que vencen dentro de withinDays, la más urgente primero
+export function listUpcomingExpirations(
+  analyses: SavedAnalysis[],
+  withinDays: number,
+  now: Date = new Date()
+): UpcomingExpiration[] {
+  const upcoming: UpcomingExpiration[] = []
+
+  for (const analysis of analyses) {
+    if (analysis.metadata.status !== 'sent_to_client') continue
+    const expiresAt = proposalExpiresAt(analysis.metadata)
+    if (!expiresAt || expiresAt.getTime() <= now.getTime()) continue
+
+    const daysLeft = daysUntilExpiry(expiresAt, now)
+    if (daysLeft <= withinDays) {
+      upcoming.push({ analysis, expiresAt: expiresAt.toISOString(), daysLeft })
+    }
+  }
+
+  return upcoming.sort((a, b) => a.expiresAt.localeCompare(b.expiresAt))
+}
+
+// Qué hacer en una pasada: vencer las que cumplieron el plazo y recordar las que cruzaron un umbral de
+// reminderDays. Si la pasada anterior no corrió y se cruzaron varios umbrales, sale un solo recordatorio
+export function planProposalExpiry(
+  analyses: SavedAnalysis[],
+  reminderDays: readonly number[],
+  now: Date = new Date()
+): ExpiryPlan {
+  const plan: ExpiryPlan = { expire: [], remind: [] }
+
+  for (const analysis of analyses) {
+    if (analysis.metadata.status !== 'sent_to_client') continue
+    const expiresAt = proposalExpiresAt(analysis.metadata)
+    if (!expiresAt) continue
+
+    if (expiresAt.getTime() <= now.getTime()) {
+      plan.expire.push(analysis)
+      continue
+    }
+
+    const daysLeft = daysUntilExpiry(expiresAt, now)
+    const alreadySent = analysis.metadata.reminders_sent || []
+    const remindAt = reminderDays.filter(days => daysLeft <= days && !alreadySent.includes(days))
+    if (remindAt.length > 0) {
+      plan.remind.push({ analysis, expiresAt: expiresAt.toISOString(), daysLeft, remindAt })
+    }
+  }
+
+  return plan
+}
@@ -0,0 +1,155 @@
+/*
+Domain: Proposal Lifecycle
+Responsibility: Estados de una propuesta de arriendo, transiciones permitidas entre ellos, condiciones para
+  cada transición (correo del cliente antes de enviar, respuesta registrada antes de client_responded) y fecha
+  de entrada a cada estado, incluido el plazo de respuesta que corre desde el envío. Lo usan la API de análisis, el almacenamiento local y la integración con Propital
+Dependencies: tipos de rental y saved-analysis
+*/
+
+import type { ProposalStatus } from '@/types/rental'
+import type { SavedAnalysis } from '@/types/saved-analysis'
+
+type ProposalMetadata = SavedAnalysis['metadata']
+
+export const PROPOSAL_STATUSES: ProposalStatus[] = ['draft', 'sent_to_client', 'client_responded', 'published', 'expired', 'archived']
+
+// Días que tiene el cliente para aceptar una propuesta enviada
+export const PROPOSAL_VALIDITY_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const PROPOSAL_STATUS_LABELS: Record<ProposalStatus, string> = {
+  draft: 'Borrador',
+  sent_to_client: 'Enviado al cliente',
+  client_responded: 'Cliente respondió',
+  published: 'Publicado',
+  expired: 'Vencido',
+  archived: 'Archivado'
+}
+
+// Un envío se puede retirar para corregirlo (vuelve a borrador) y una respuesta se puede reenviar con otra
+// propuesta; un envío sin respuesta vence (lib/proposalExpiry) y se puede reenviar con un plazo nuevo.
+// Archivar es posible desde cualquier estado y un archivado solo se reactiva como borrador
+export const PROPOSAL_TRANSITIONS: Record<ProposalStatus, ProposalStatus[]> = {
+  draft: ['sent_to_client', 'archived'],
+  sent_to_client: ['client_responded', 'draft', 'expired', 'archived'],
+  client_responded: ['published', 'sent_to_client', 'archived'],
+  published: ['archived'],
+  expired: ['sent_to_client', 'draft', 'archived'],
+  archived: ['draft']
+}
+
+export interface TransitionCheck {
+  allowed: boolean
+  reason?: string
+  code?: 'unknown_status' | 'invalid_transition' | 'guard_failed'
+}
+
+export interface TransitionResult extends TransitionCheck {
+  metadata?: ProposalMetadata // Metadatos con el nuevo estado, si la transición es válida
+}
+
+export function isProposalStatus(value: unknown): value is ProposalStatus {
+  return typeof value === 'string' && (PROPOSAL_STATUSES as string[]).includes(value)
+}
+
+// Vencimiento de la propuesta enviada. Las enviadas antes de registrar expires_at vencen a los
+// PROPOSAL_VALIDITY_DAYS desde el envío o, si tampoco se conoce, desde su creación
+export function proposalExpiresAt(metadata: ProposalMetadata): Date | undefined {
+  if (metadata.expires_at) return new Date(metadata.expires_at)
+  if (metadata.status !== 'sent_to_client') return undefined
+  const sentAt = metadata.status_timestamps?.sent_to_client || metadata.created_at
+  return new Date(new Date(sentAt).getTime() + PROPOSAL_VALIDITY_DAYS * DAY_MS)
+}
+
+// Condiciones que dependen de los datos de la propuesta, no solo del estado de origen
+function guardFailure(metadata: ProposalMetadata, to: ProposalStatus, now: Date): string | undefined {
+  switch (to) {
+    case 'sent_to_client':
+      return metadata.client_email ? undefined : 'Falta el correo del cliente para enviar la propuesta'
+    case 'client_responded':
+      return metadata.client_response ? undefined : 'Registre la respuesta del cliente antes de marcarla como respondida'
+    case 'published':
+      return metadata.client_response && metadata.client_response.plan_ids_accepted.length > 0
+        ? undefined
+        : 'El cliente debe aceptar al menos un plan antes de publicar'
+    case 'expired': {
+      const expiresAt = proposalExpiresAt(metadata)
+      return expiresAt && expiresAt.getTime() <= now.getTime() ? undefined : 'La propuesta aún está dentro del plazo de respuesta'
+    }
+    default:
+      return undefined
+  }
+}
+
+export function checkTransition(metadata: ProposalMetadata, to: unknown, now: Date = new Date()): TransitionCheck {
+  if (!isProposalStatus(to)) {
+    return { allowed: false, code: 'unknown_status', reason: `Estado desconocido: ${String(to)}` }
+  }
+
+  const from = metadata.status
+  if (!PROPOSAL_TRANSITIONS[from]?.includes(to)) {
+    const allowed = (PROPOSAL_TRANSITIONS[from] || []).map(status => PROPOSAL_STATUS_LABELS[status]).join(', ') || 'ninguno'
+    return {
+      allowed: false,
+      code: 'invalid_transition',
+      reason: `No se puede pasar de "${PROPOSAL_STATUS_LABELS[from] || from}" a "${PROPOSAL_STATUS_LABELS[to]}" (permitidos: ${allowed})`
+    }
+  }
+
+  const reason = guardFailure(metadata, to, now)
+  return reason ? { allowed: false, code: 'guard_failed', reason } : { allowed: true }
+}
+
+// Aplica la transición: nuevo estado y fecha de entrada. Cada envío descarta la respuesta anterior y abre
+// un plazo nuevo de PROPOSAL_VALIDITY_DAYS, con sus propios recordatorios
+export function transitionProposal(metadata: ProposalMetadata, to: unknown, now: Date = new Date()): TransitionResult {
+  const check = checkTransition(metadata, to, now)
+  if (!check.allowed) return check
+
+  const status = to as ProposalStatus
+  const timestamp = now.toISOString()
+  const sending = status === 'sent_to_client'
+  return {
+    allowed: true,
+    metadata: {
+      ...metadata,
+      status,
+      client_response: sending ? undefined : metadata.client_response,
+      expires_at: sending ? new Date(now.getTime() + PROPOSAL_VALIDITY_DAYS * DAY_MS).toISOString() : metadata.expires_at,
+      reminders_sent: sending ? [] : metadata.reminders_sent,
+      status_timestamps: { ...metadata.status_timestamps, [status]: timestamp },
+      updated_at: timestamp
+    }
+  }
+}
+
+// Transiciones desde el estado actual con su disponibilidad, para mostrar las acciones en la interfaz
+export function availableTransitions(metadata: ProposalMetadata, now: Date = new Date()): Array<{ to: ProposalStatus } & TransitionCheck> {
+  return (PROPOSAL_TRANSITIONS[metadata.status] || []).map(to => ({ to, ...checkTransition(metadata, to, now) }))
+}
+
+// Metadatos de una propuesta nueva
+export function initialProposalStatus(now: Date = new Date()): Pick<ProposalMetadata, 'status' | 'status_timestamps'> {
+  return { status: 'draft', status_timestamps: { draft: now.toISOString() } }
+}
+
+type ProposalLifecycle = Pick<ProposalMetadata, 'status' | 'status_timestamps' | 'client_response' | 'expires_at' | 'reminders_sent'>
+
+// Estado de la propuesta y los campos que dependen de él. Solo cambian por transiciones (y los recordatorios del
+// programador), nunca al copiar el contenido de otro registro
+export function proposalLifecycleOf(metadata: ProposalMetadata): ProposalLifecycle {
+  return {
+    status: metadata.status,
+    status_timestamps: metadata.status_timestamps,
+    client_response: metadata.client_response,
+    expires_at: metadata.expires_at,
+    reminders_sent: metadata.reminders_sent
+  }
+}
+
+// Ciclo de vida de un análisis que entra sin pasar por las transiciones (importado, o restaurado después de
+// eliminarlo): borrador, sin fechas de estado, plazo ni respuesta del cliente
+export function draftProposalLifecycle(): ProposalLifecycle {
+  return { status: 'draft', status_timestamps: undefined, client_response: undefined, expires_at: undefined, reminders_sent: undefined }
+}
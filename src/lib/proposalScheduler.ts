@@ -0,0 +1,185 @@
+/*
+Domain: Proposal Lifecycle
+Responsibility: Pasada del programador de vencimientos: vence las propuestas enviadas que cumplieron el plazo y
+  envía recordatorios antes del vencimiento. La ejecuta /api/cron/proposal-expiry (cron o scripts/proposal-expiry.mjs)
+Dependencies: lib/analysisStore, lib/proposalExpiry, lib/config, fetch (webhook de Slack)
+*/
+
+import type { SavedAnalysis } from '@/types/saved-analysis'
+import { getAllAnalyses, modifyAnalysis, updateAnalysisStatus } from '@/lib/analysisStore'
+import { planProposalExpiry } from '@/lib/proposalExpiry'
+import { NOTIFICATIONS_CONFIG, PROPOSAL_EXPIRY_CONFIG } from '@/lib/config'
+
+// Autor de los cambios que hace el programador en el historial del análisis
+export const SCHEDULER_AUTHOR = 'programador de vencimientos'
+
+export interface ExpiryNotifier {
+  reminder(analysis: SavedAnalysis, daysLeft: number, expiresAt: string): Promise<void>
+  expired(analysis: SavedAnalysis): Promise<void>
+}
+
+export interface ExpiryRunSummary {
+  ran_at: string
+  dry_run: boolean
+  checked: number
+  expired: string[]
+  reminded: Array<{ id: string; days_left: number }>
+  failed: Array<{ id: string; error: string }>
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('es-CL', { day: 'numeric', month: 'long', year: 'numeric' })
+
+function slackMessage(title: string, analysis: SavedAnalysis, detail: string) {
+  return {
+    text: title,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*${title}*\n${detail}` }
+      },
+      {
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: `*Propiedad:*\n${analysis.property.address}` },
+          { type: 'mrkdwn', text: `*Cliente:*\n${analysis.metadata.client_name || analysis.metadata.client_email || 'No especificado'}` },
+          { type: 'mrkdwn', text: `*Corredor:*\n${analysis.metadata.broker_email || 'No especificado'}` },
+          { type: 'mrkdwn', text: `*Análisis:*\n${analysis.title}` }
+        ]
+      }
+    ]
+  }
+}
+
+// Avisos al canal de Slack del equipo (mismo webhook que /api/send-to-client)
+export function createSlackExpiryNotifier(webhookUrl: string): ExpiryNotifier {
+  const post = async (message: object) => {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message)
+    })
+    if (!response.ok) {
+      throw new Error(`Slack respondió ${response.status}: ${await response.text()}`)
+    }
+  }
+
+  return {
+    reminder: (analysis, daysLeft, expiresAt) => post(slackMessage(
+      '⏰ Propuesta por vencer',
+      analysis,
+      `Al cliente le ${daysLeft === 1 ? 'queda 1 día' : `quedan ${daysLeft} días`} para aceptar (vence el ${formatDate(expiresAt)}). Conviene hacer seguimiento.`
+    )),
+    expired: analysis => post(slackMessage(
+      '⌛ Propuesta vencida',
+      analysis,
+      'El cliente no respondió dentro del plazo. Se puede reenviar con un plazo nuevo o archivar.'
+    ))
+  }
+}
+
+// Sin webhook configurado los avisos quedan en el log del servidor
+export function createLogExpiryNotifier(): ExpiryNotifier {
+  return {
+    reminder: async (analysis, daysLeft) => {
+      console.info(`Propuesta ${analysis.id} vence en ${daysLeft} día(s)`)
+    },
+    expired: async analysis => {
+      console.info(`Propuesta ${analysis.id} vencida`)
+    }
+  }
+}
+
+export function getExpiryNotifier(): ExpiryNotifier {
+  return NOTIFICATIONS_CONFIG.SLACK_WEBHOOK_URL
+    ? createSlackExpiryNotifier(NOTIFICATIONS_CONFIG.SLACK_WEBHOOK_URL)
+    : createLogExpiryNotifier()
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+async function runOnce(
+  now: Date,
+  dryRun: boolean,
+  notifier: ExpiryNotifier,
+  reminderDays: readonly number[]
+): Promise<ExpiryRunSummary> {
+  const analyses = await getAllAnalyses()
+  const plan = planProposalExpiry(analyses, reminderDays, now)
+  const summary: ExpiryRunSummary = {
+    ran_at: now.toISOString(),
+    dry_run: dryRun,
+    checked: analyses.length,
+    expired: [],
+    reminded: [],
+    failed: []
+  }
+
+  for (const analysis of plan.expire) {
+    try {
+      if (!dryRun) {
+        const transition = await updateAnalysisStatus(analysis.id, 'expired', SCHEDULER_AUTHOR, now)
+        if (!transition.allowed) {
+          summary.failed.push({ id: analysis.id, error: transition.reason || 'Transición no permitida' })
+          continue
+        }
+        await notifier.expired(analysis)
+      }
+      summary.expired.push(analysis.id)
+    } catch (error) {
+      summary.failed.push({ id: analysis.id, error: errorMessage(error) })
+    }
+  }
+
+  // El recordatorio se marca como enviado solo si el aviso salió; si falla se reintenta en la próxima pasada
+  for (const reminder of plan.remind) {
+    const { analysis } = reminder
+    try {
+      if (!dryRun) {
+        await notifier.reminder(analysis, reminder.daysLeft, reminder.expiresAt)
+        // Se marca sobre la versión guardada y solo en reminders_sent: si mientras tanto la propuesta cambió de
+        // estado o se reenvió con un plazo nuevo, no se toca
+        await modifyAnalysis(analysis.id, current => {
+          if (current.metadata.status !== 'sent_to_client' || current.metadata.expires_at !== analysis.metadata.expires_at) {
+            return undefined
+          }
+          const sent = current.metadata.reminders_sent || []
+          return {
+            ...current,
+            metadata: { ...current.metadata, reminders_sent: [...sent, ...reminder.remindAt.filter(days => !sent.includes(days))] }
+          }
+        }, SCHEDULER_AUTHOR)
+      }
+      summary.reminded.push({ id: analysis.id, days_left: reminder.daysLeft })
+    } catch (error) {
+      summary.failed.push({ id: analysis.id, error: errorMessage(error) })
+    }
+  }
+
+  return summary
+}
+
+// Una pasada a la vez de cada tipo: si el cron se superpone con una pasada en curso recibe el resultado de esa.
+// Las simulaciones y las pasadas reales no se comparten: una pasada real nunca recibe el resumen de una simulación
+const currentRuns = new Map<boolean, Promise<ExpiryRunSummary>>()
+
+export function runProposalExpiry(options: {
+  now?: Date
+  dryRun?: boolean
+  notifier?: ExpiryNotifier
+  reminderDays?: readonly number[]
+} = {}): Promise<ExpiryRunSummary> {
+  const dryRun = options.dryRun || false
+  const inFlight = currentRuns.get(dryRun)
+  if (inFlight) return inFlight
+
+  const run = runOnce(
+    options.now || new Date(),
+    dryRun,
+    options.notifier || getExpiryNotifier(),
+    options.reminderDays || PROPOSAL_EXPIRY_CONFIG.REMINDER_DAYS
+  ).finally(() => {
+    currentRuns.delete(dryRun)
+  })
+  currentRuns.set(dryRun, run)
+  return run
+}
@@ -0,0 +1,140 @@
+/*
+Domain: Rental Simulation
+Responsibility: Simulación Monte Carlo de días hasta arrendar según el cronograma de precios de cada plan
+Dependencies: Tipos de rental (sin React ni APIs del navegador)
+*/
+
+import type { RentalPlan, MarketStudy, DaysToRentSimulation } from '@/types/rental'
+
+export const SIMULATION_DEFAULTS = {
+  ITERATIONS: 2000,
+  SEED: 20240101, // Semilla fija: el mismo análisis produce siempre el mismo resultado
+  MAX_DAYS: 120, // Si no se arrienda antes, se corta la simulación
+  // Probabilidad diaria de arrendar publicando a precio de mercado (mediana ~10 días)
+  BASE_DAILY_PROBABILITY: Math.LN2 / 10,
+  // Cuánto cae la demanda por cada 1% sobre el mercado (exp(-10 × 0.10) ≈ 37% a +10%)
+  PRICE_ELASTICITY: 10,
+  // Dispersión lognormal de la demanda entre publicaciones (temporada, fotos, visitas)
+  DEMAND_VOLATILITY: 0.35,
+  VACANT_DAY_THRESHOLD: 30
+} as const
+
+export interface SimulationOptions {
+  marketRentClp: number
+  iterations?: number
+  seed?: number
+}
+
+// Generador pseudoaleatorio con semilla (mulberry32) para resultados reproducibles
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Normal estándar por Box-Muller
+function sampleNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON)
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+function percentile(sortedValues: number[], fraction: number): number {
+  if (sortedValues.length === 0) return 0
+  const index = Math.min(sortedValues.length - 1, Math.max(0, Math.ceil(fraction * sortedValues.length) - 1))
+  return sortedValues[index]
+}
+
+// Precio vigente en un día según el cronograma de ajustes del plan
+export function rentOnDay(plan: RentalPlan, day: number): number {
+  let rent = plan.initial_rent_clp
+  for (const adjustment of plan.price_adjustment_schedule) {
+    if (adjustment.day <= day) rent = adjustment.new_rent_clp
+  }
+  return rent
+}
+
+// Probabilidad diaria de arrendar a un precio dado respecto del mercado
+export function dailyRentProbability(rentClp: number, marketRentClp: number): number {
+  if (marketRentClp <= 0) return SIMULATION_DEFAULTS.BASE_DAILY_PROBABILITY
+  const premium = (rentClp - marketRentClp) / marketRentClp
+  const probability = SIMULATION_DEFAULTS.BASE_DAILY_PROBABILITY * Math.exp(-SIMULATION_DEFAULTS.PRICE_ELASTICITY * premium)
+  return Math.min(1, Math.max(0, probability))
+}
+
+// Arriendo de referencia: promedio por m² de los comparables o, si no hay, el centro del rango de mercado
+export function marketReferenceRent(marketStudy: MarketStudy, sizeM2?: number): number {
+  if (marketStudy.average_rent_per_m2 > 0 && sizeM2 && sizeM2 > 0 && marketStudy.comparable_properties.length > 0) {
+    return marketStudy.average_rent_per_m2 * sizeM2
+  }
+  return (marketStudy.market_range.min_rent_clp + marketStudy.market_range.max_rent_clp) / 2
+}
+
+export function simulateDaysToRent(plan: RentalPlan, options: SimulationOptions): DaysToRentSimulation {
+  const iterations = Math.max(1, Math.round(options.iterations ?? SIMULATION_DEFAULTS.ITERATIONS))
+  const random = createRandom(options.seed ?? SIMULATION_DEFAULTS.SEED)
+  const marketRent = options.marketRentClp > 0 ? options.marketRentClp : plan.initial_rent_clp
+  const commission = plan.commission_percentage / 100
+
+  // La probabilidad diaria solo depende del precio vigente: se precalcula por día
+  const dailyProbabilities: number[] = []
+  const dailyRents: number[] = []
+  for (let day = 0; day < SIMULATION_DEFAULTS.MAX_DAYS; day++) {
+    dailyRents.push(rentOnDay(plan, day))
+    dailyProbabilities.push(dailyRentProbability(dailyRents[day], marketRent))
+  }
+
+  const days: number[] = []
+  let totalRent = 0
+  let totalCommission = 0
+  let totalNetIncome = 0
+  let vacantAtThreshold = 0
+
+  for (let i = 0; i < iterations; i++) {
+    const demand = Math.exp(SIMULATION_DEFAULTS.DEMAND_VOLATILITY * sampleNormal(random))
+    let rentedDay: number = SIMULATION_DEFAULTS.MAX_DAYS
+    let rent = dailyRents[dailyRents.length - 1]
+
+    for (let day = 0; day < SIMULATION_DEFAULTS.MAX_DAYS; day++) {
+      if (random() < Math.min(1, dailyProbabilities[day] * demand)) {
+        rentedDay = day
+        rent = dailyRents[day]
+        break
+      }
+    }
+
+    // Primer año: meses vacantes sin ingreso y el resto al precio de cierre, menos comisión
+    const annualRent = rent * Math.max(0, 12 - rentedDay / 30)
+
+    days.push(rentedDay)
+    totalRent += rent
+    totalCommission += annualRent * commission
+    totalNetIncome += annualRent * (1 - commission)
+    if (rentedDay >= SIMULATION_DEFAULTS.VACANT_DAY_THRESHOLD) vacantAtThreshold++
+  }
+
+  const sortedDays = [...days].sort((a, b) => a - b)
+
+  return {
+    iterations,
+    market_rent_clp: Math.round(marketRent),
+    p10_days: percentile(sortedDays, 0.1),
+    p50_days: percentile(sortedDays, 0.5),
+    p90_days: percentile(sortedDays, 0.9),
+    mean_days: Math.round((days.reduce((sum, day) => sum + day, 0) / iterations) * 10) / 10,
+    probability_vacant_day_30: Math.round((vacantAtThreshold / iterations) * 1000) / 1000,
+    expected_rent_clp: Math.round(totalRent / iterations),
+    expected_commission_clp: Math.round(totalCommission / iterations),
+    expected_net_annual_income: Math.round(totalNetIncome / iterations)
+  }
+}
+
+// Riesgo de vacancia 1-10 a partir de la probabilidad de seguir vacante al día 30
+export function vacancyRiskScore(simulation: DaysToRentSimulation): number {
+  return Math.min(10, Math.max(1, Math.round(1 + simulation.probability_vacant_day_30 * 9)))
+}
@@ -0,0 +1,155 @@
+/*
+Domain: Sensitivity Analysis
+Responsibility: Efecto de variar arriendo, valor, gastos, vacancia y comisión sobre el CAP rate y el ingreso neto
+Dependencies: lib/profitability, lib/ownerExpenses, tipos de rental
+*/
+
+import type {
+  RentalAnalysis,
+  SensitivityBase,
+  SensitivityGrid,
+  SensitivityMetric,
+  SensitivityOutcome,
+  SensitivityRange,
+  SensitivityVariable,
+  TornadoBar
+} from '@/types/rental'
+import { PROFITABILITY_DEFAULTS } from '@/lib/profitability'
+import { calculateExpenseBreakdown } from '@/lib/ownerExpenses'
+
+// Rangos por defecto: % del valor base, vacancia en meses al año y comisión en puntos porcentuales
+export const SENSITIVITY_DEFAULTS: { RANGES: SensitivityRange[]; RENT_CHANGES: number[]; VACANCY_MONTHS: number[] } = {
+  RANGES: [
+    { variable: 'rent', low: -10, high: 10 },
+    { variable: 'property_value', low: -10, high: 10 },
+    { variable: 'maintenance', low: -20, high: 20 },
+    { variable: 'property_tax', low: -20, high: 20 },
+    { variable: 'insurance', low: -20, high: 20 },
+    { variable: 'vacancy', low: -1, high: 1 },
+    { variable: 'commission', low: -2, high: 2 }
+  ],
+  RENT_CHANGES: [-10, -5, 0, 5, 10],
+  VACANCY_MONTHS: [0, 0.5, 1, 2, 3]
+}
+
+export const SENSITIVITY_LABELS: Record<SensitivityVariable, string> = {
+  rent: 'Arriendo mensual',
+  property_value: 'Valor de la propiedad',
+  maintenance: 'Mantención',
+  property_tax: 'Contribuciones',
+  insurance: 'Seguros',
+  vacancy: 'Vacancia',
+  commission: 'Comisión'
+}
+
+// Unidad en que se expresa la variación de cada variable
+export function sensitivityUnit(variable: SensitivityVariable): string {
+  if (variable === 'vacancy') return 'meses'
+  if (variable === 'commission') return 'pp'
+  return '%'
+}
+
+export function sensitivityBaseFromAnalysis(analysis: RentalAnalysis, commissionPercentage?: number): SensitivityBase {
+  const capRate = analysis.cap_rate_analysis
+
+  return {
+    monthly_rent_clp: analysis.property.market_rent_clp,
+    property_value_clp: capRate.property_value_clp,
+    // Análisis antiguos sin detalle de gastos: el total queda como mantención
+    expenses: capRate.expenses || {
+      maintenance_clp: capRate.annual_expenses,
+      property_tax_clp: 0,
+      insurance_clp: 0
+    },
+    vacancy_months: PROFITABILITY_DEFAULTS.VACANCY_MONTHS_PER_YEAR,
+    commission_percentage: commissionPercentage ?? analysis.plans[0]?.commission_percentage ?? 0
+  }
+}
+
+// Mismo cálculo de NOI que calculateCapRateAnalysis (comisión del plan incluida), con la vacancia y la
+// comisión como parámetros. Administración, reparaciones y gastos comunes en vacancia siguen al arriendo y a
+// la vacancia.
+export function evaluateSensitivity(base: SensitivityBase): SensitivityOutcome {
+  const vacancyMonths = Math.min(Math.max(base.vacancy_months, 0), 12)
+  const collectedRent = base.monthly_rent_clp * (12 - vacancyMonths)
+  const expenses = calculateExpenseBreakdown(base.expenses, base.monthly_rent_clp, vacancyMonths).total_clp
+  const commission = collectedRent * (Math.max(base.commission_percentage, 0) / 100)
+  const netOperatingIncome = collectedRent - commission - expenses
+  const capRate = base.property_value_clp > 0 ? (netOperatingIncome / base.property_value_clp) * 100 : 0
+
+  return {
+    cap_rate_percentage: Math.round(capRate * 100) / 100,
+    net_annual_income_clp: Math.round(netOperatingIncome)
+  }
+}
+
+export function applySensitivityChange(
+  base: SensitivityBase,
+  variable: SensitivityVariable,
+  change: number
+): SensitivityBase {
+  const factor = 1 + change / 100
+
+  switch (variable) {
+    case 'rent':
+      return { ...base, monthly_rent_clp: Math.max(0, base.monthly_rent_clp * factor) }
+    case 'property_value':
+      return { ...base, property_value_clp: Math.max(0, base.property_value_clp * factor) }
+    case 'maintenance':
+      return { ...base, expenses: { ...base.expenses, maintenance_clp: Math.max(0, base.expenses.maintenance_clp * factor) } }
+    case 'property_tax':
+      return { ...base, expenses: { ...base.expenses, property_tax_clp: Math.max(0, base.expenses.property_tax_clp * factor) } }
+    case 'insurance':
+      return { ...base, expenses: { ...base.expenses, insurance_clp: Math.max(0, base.expenses.insurance_clp * factor) } }
+    case 'vacancy':
+      return { ...base, vacancy_months: Math.min(12, Math.max(0, base.vacancy_months + change)) }
+    case 'commission':
+      return { ...base, commission_percentage: Math.max(0, base.commission_percentage + change) }
+  }
+}
+
+function metricValue(outcome: SensitivityOutcome, metric: SensitivityMetric): number {
+  return metric === 'cap_rate' ? outcome.cap_rate_percentage : outcome.net_annual_income_clp
+}
+
+// Barras del tornado ordenadas de mayor a menor impacto en la métrica elegida
+export function calculateTornado(
+  base: SensitivityBase,
+  ranges: SensitivityRange[] = SENSITIVITY_DEFAULTS.RANGES,
+  metric: SensitivityMetric = 'cap_rate'
+): TornadoBar[] {
+  return ranges
+    .map(range => {
+      const low = evaluateSensitivity(applySensitivityChange(base, range.variable, range.low))
+      const high = evaluateSensitivity(applySensitivityChange(base, range.variable, range.high))
+      return {
+        variable: range.variable,
+        low_change: range.low,
+        high_change: range.high,
+        low,
+        high,
+        swing: Math.abs(metricValue(high, metric) - metricValue(low, metric))
+      }
+    })
+    .sort((a, b) => b.swing - a.swing)
+}
+
+// Grilla de dos variables: filas = meses vacantes al año, columnas = % de cambio del arriendo
+export function calculateSensitivityGrid(
+  base: SensitivityBase,
+  rentChanges: number[] = SENSITIVITY_DEFAULTS.RENT_CHANGES,
+  vacancyMonths: number[] = SENSITIVITY_DEFAULTS.VACANCY_MONTHS
+): SensitivityGrid {
+  return {
+    rent_changes: rentChanges,
+    vacancy_months: vacancyMonths,
+    cells: vacancyMonths.map(months =>
+      rentChanges.map(change =>
+        evaluateSensitivity({
+          ...applySensitivityChange(base, 'rent', change),
+          vacancy_months: Math.min(12, Math.max(0, months))
+        })
+      )
+    )
+  }
+}
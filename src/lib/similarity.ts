@@ -0,0 +1,174 @@
+/*
+Domain: Comparable Similarity
+Responsibility: Puntaje de similitud (0-100) de cada comparable respecto de la propiedad evaluada
+Dependencies: lib/geocoding (distancias), tipos de rental
+*/
+
+import type { Amenity, ComparableProperty, Orientation, Property, SimilarityCriterion, SimilarityWeights } from '@/types/rental'
+import { distanceKm } from '@/lib/geocoding'
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  size: 25,
+  distance: 25,
+  bedrooms: 15,
+  bathrooms: 10,
+  parking: 5,
+  age: 8,
+  floor: 4,
+  orientation: 3,
+  amenities: 5
+}
+
+// Oficina usada cuando el corredor no ha elegido una
+export const DEFAULT_OFFICE_ID = 'principal'
+
+// Pesos de una oficina completados con los por defecto (también para las oficinas sin pesos propios)
+export function weightsForOffice(offices: Record<string, SimilarityWeights>, officeId: string = DEFAULT_OFFICE_ID): SimilarityWeights {
+  return { ...DEFAULT_SIMILARITY_WEIGHTS, ...offices[officeId] }
+}
+
+// Diferencias con las que cada criterio llega a 0
+export const SIMILARITY_LIMITS = {
+  SIZE_DIFFERENCE_RATIO: 0.5, // 50% más grande o más chico
+  ROOM_DIFFERENCE: 3, // Dormitorios o baños
+  PARKING_DIFFERENCE: 2,
+  DISTANCE_KM: 3,
+  AGE_DIFFERENCE_YEARS: 30,
+  FLOOR_DIFFERENCE: 15
+} as const
+
+export const SIMILARITY_CRITERIA_LABELS: Record<SimilarityCriterion, string> = {
+  size: 'Superficie (m²)',
+  distance: 'Distancia',
+  bedrooms: 'Dormitorios',
+  bathrooms: 'Baños',
+  parking: 'Estacionamientos',
+  age: 'Antigüedad del edificio',
+  floor: 'Piso',
+  orientation: 'Orientación',
+  amenities: 'Amenidades'
+}
+
+export const ORIENTATIONS: Orientation[] = ['N', 'NE', 'E', 'SE', 'S', 'SO', 'O', 'NO']
+
+export const AMENITY_LABELS: Record<Amenity, string> = {
+  piscina: 'Piscina',
+  gimnasio: 'Gimnasio',
+  quincho: 'Quincho',
+  lavanderia: 'Lavandería',
+  conserjeria: 'Conserjería 24h',
+  ascensor: 'Ascensor',
+  bicicletero: 'Bicicletero',
+  cowork: 'Cowork'
+}
+
+// Atributos de la propiedad evaluada que se comparan
+export type SimilaritySubject = Pick<Property,
+  'size_m2' | 'bedrooms' | 'bathrooms' | 'parking_spaces' | 'lat' | 'lon' | 'year_built' | 'floor' | 'orientation' | 'amenities'>
+
+function isKnown(value: number | undefined): value is number {
+  return value !== undefined && isFinite(value)
+}
+
+function linearScore(difference: number, limit: number): number {
+  return Math.max(0, 1 - Math.abs(difference) / limit)
+}
+
+export function parseOrientation(value: string | undefined): Orientation | undefined {
+  return ORIENTATIONS.find(orientation => orientation === value)
+}
+
+export function parseAmenities(value: string | undefined): Amenity[] {
+  if (!value) return []
+  const known = Object.keys(AMENITY_LABELS) as Amenity[]
+  return value.split(',').map(item => item.trim()).filter((item): item is Amenity => known.includes(item as Amenity))
+}
+
+// Pasos de 45° entre orientaciones: opuestas (N vs S) = 0, iguales = 1
+function orientationScore(a: Orientation, b: Orientation): number {
+  const steps = Math.abs(ORIENTATIONS.indexOf(a) - ORIENTATIONS.indexOf(b))
+  return 1 - Math.min(steps, ORIENTATIONS.length - steps) / (ORIENTATIONS.length / 2)
+}
+
+// Índice de Jaccard; si ninguno tiene amenidades se consideran iguales
+function amenitiesScore(a: Amenity[], b: Amenity[]): number {
+  const union = new Set([...a, ...b])
+  if (union.size === 0) return 1
+  return a.filter(amenity => b.includes(amenity)).length / union.size
+}
+
+// Puntaje 0-1 por criterio; los criterios sin datos en alguno de los dos lados quedan fuera
+export function similarityComponents(
+  subject: SimilaritySubject,
+  comparable: ComparableProperty
+): { scores: Partial<Record<SimilarityCriterion, number>>; distance_km?: number } {
+  const scores: Partial<Record<SimilarityCriterion, number>> = {}
+
+  if (isKnown(subject.size_m2) && subject.size_m2 > 0 && comparable.size_m2 > 0) {
+    scores.size = linearScore((comparable.size_m2 - subject.size_m2) / subject.size_m2, SIMILARITY_LIMITS.SIZE_DIFFERENCE_RATIO)
+  }
+  if (isKnown(subject.bedrooms)) {
+    scores.bedrooms = linearScore(comparable.bedrooms - subject.bedrooms, SIMILARITY_LIMITS.ROOM_DIFFERENCE)
+  }
+  if (isKnown(subject.bathrooms)) {
+    scores.bathrooms = linearScore(comparable.bathrooms - subject.bathrooms, SIMILARITY_LIMITS.ROOM_DIFFERENCE)
+  }
+  if (isKnown(subject.parking_spaces)) {
+    scores.parking = linearScore(comparable.parking_spaces - subject.parking_spaces, SIMILARITY_LIMITS.PARKING_DIFFERENCE)
+  }
+
+  let distance: number | undefined
+  if (isKnown(subject.lat) && isKnown(subject.lon) && isKnown(comparable.lat) && isKnown(comparable.lon)) {
+    distance = distanceKm({ lat: subject.lat, lon: subject.lon }, { lat: comparable.lat, lon: comparable.lon })
+    scores.distance = linearScore(distance, SIMILARITY_LIMITS.DISTANCE_KM)
+  }
+
+  if (isKnown(subject.year_built) && isKnown(comparable.year_built)) {
+    scores.age = linearScore(comparable.year_built - subject.year_built, SIMILARITY_LIMITS.AGE_DIFFERENCE_YEARS)
+  }
+  if (isKnown(subject.floor) && isKnown(comparable.floor)) {
+    scores.floor = linearScore(comparable.floor - subject.floor, SIMILARITY_LIMITS.FLOOR_DIFFERENCE)
+  }
+  if (subject.orientation && comparable.orientation) {
+    scores.orientation = orientationScore(subject.orientation, comparable.orientation)
+  }
+  if (subject.amenities && comparable.amenities) {
+    scores.amenities = amenitiesScore(subject.amenities, comparable.amenities)
+  }
+
+  return { scores, distance_km: distance }
+}
+
+// Promedio ponderado de los criterios con datos, en escala 0-100
+export function calculateSimilarityScore(
+  subject: SimilaritySubject,
+  comparable: ComparableProperty,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): { similarity_score?: number; distance_km?: number } {
+  const { scores, distance_km } = similarityComponents(subject, comparable)
+
+  let weighted = 0
+  let totalWeight = 0
+  for (const [criterion, score] of Object.entries(scores) as Array<[SimilarityCriterion, number]>) {
+    const weight = Math.max(0, weights[criterion] || 0)
+    weighted += score * weight
+    totalWeight += weight
+  }
+
+  return {
+    similarity_score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : undefined,
+    distance_km: distance_km !== undefined ? Math.round(distance_km * 100) / 100 : undefined
+  }
+}
+
+// Devuelve los comparables con similarity_score y distance_km calculados
+export function scoreComparables(
+  comparables: ComparableProperty[],
+  subject: SimilaritySubject,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): ComparableProperty[] {
+  return comparables.map(comparable => ({
+    ...comparable,
+    ...calculateSimilarityScore(subject, comparable, weights)
+  }))
+}
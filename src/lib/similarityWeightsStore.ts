@@ -0,0 +1,44 @@
+/*
+Domain: Comparable Similarity
+Responsibility: Pesos de similitud de cada oficina guardados en el servidor, para que todos los corredores de la
+  oficina puntúen los comparables igual. Los expone /api/similarity-weights
+Dependencies: lib/documentStore, lib/similarity, lib/config, tipos de rental
+*/
+
+import type { SimilarityWeights } from '@/types/rental'
+import { STORAGE_CONFIG } from '@/lib/config'
+import { createDocumentStore, type DocumentStore } from '@/lib/documentStore'
+import { weightsForOffice } from '@/lib/similarity'
+
+export interface SimilarityWeightsDocument {
+  offices: Record<string, SimilarityWeights>
+}
+
+let store: DocumentStore<SimilarityWeightsDocument> | null = null
+
+function getStore(): DocumentStore<SimilarityWeightsDocument> {
+  if (!store) {
+    store = createDocumentStore<SimilarityWeightsDocument>(STORAGE_CONFIG.SIMILARITY_WEIGHTS_FILE, { offices: {} })
+  }
+  return store
+}
+
+// Reemplaza el almacenamiento del proceso (pruebas)
+export function setSimilarityWeightsStore(replacement: DocumentStore<SimilarityWeightsDocument> | null): void {
+  store = replacement
+}
+
+// Pesos guardados por oficina (las oficinas sin pesos propios usan los por defecto)
+export async function getOfficeSimilarityWeights(): Promise<Record<string, SimilarityWeights>> {
+  return (await getStore().read()).offices
+}
+
+// Pesos con los que el servidor calcula un análisis que no trae los suyos (sin oficina, los de la principal)
+export async function getSimilarityWeightsForOffice(officeId?: string): Promise<SimilarityWeights> {
+  return weightsForOffice(await getOfficeSimilarityWeights(), officeId)
+}
+
+export async function saveOfficeSimilarityWeights(officeId: string, weights: SimilarityWeights): Promise<SimilarityWeights> {
+  await getStore().update(document => ({ offices: { ...document.offices, [officeId]: weights } }))
+  return weights
+}
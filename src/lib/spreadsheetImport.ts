@@ -0,0 +1,400 @@
+/*
+Domain: Spreadsheet Import
+Responsibility: Lectura de planillas CSV/XLSX de comparables, mapeo de columnas, conversión UF→CLP,
+  validación por fila y detección de duplicados
+Dependencies: lib/listingImport (números y monedas), lib/comparables, lib/validation,
+  DecompressionStream del navegador para los .xlsx (sin librerías externas)
+*/
+
+import type { ComparableFormEntry, ListingCurrency } from '@/types/rental'
+import { parseListingCurrency, parseListingNumber, decodeHtmlEntities } from '@/lib/listingImport'
+import { comparableEntryKey, createComparableEntry } from '@/lib/comparables'
+import { validateComparableEntries } from '@/lib/validation'
+
+export type ComparableColumnField = 'address' | 'link' | 'm2' | 'bedrooms' | 'bathrooms' | 'parking' | 'storage' | 'price' | 'currency'
+
+// Índice de columna (desde 0) para cada campo; los campos sin columna no se importan
+export type ComparableColumnMapping = Partial<Record<ComparableColumnField, number>>
+
+export interface SpreadsheetRowReport {
+  row: number // Número de fila en la planilla, desde 1
+  status: 'ok' | 'error' | 'duplicate'
+  messages: string[]
+  entry: ComparableFormEntry
+}
+
+export const COMPARABLE_COLUMN_LABELS: Record<ComparableColumnField, string> = {
+  address: 'Dirección',
+  link: 'Link',
+  m2: 'Superficie (m²)',
+  bedrooms: 'Dormitorios',
+  bathrooms: 'Baños',
+  parking: 'Estacionamientos',
+  storage: 'Bodegas',
+  price: 'Precio arriendo',
+  currency: 'Moneda (CLP/UF)'
+}
+
+// Encabezados habituales (sin tildes, en minúsculas); el orden evita que "precio" capture "moneda"
+const COLUMN_PATTERNS: Array<[ComparableColumnField, RegExp]> = [
+  ['link', /\b(link|url|enlace|publicacion)\b/],
+  ['address', /direccion|domicilio|ubicacion|address/],
+  ['m2', /\bm2\b|m²|superficie|metros|\bmts/],
+  ['bedrooms', /dorm|habitacion|bedroom/],
+  ['bathrooms', /bano|bath/],
+  ['parking', /estac|parking/],
+  ['storage', /bodega|storage/],
+  ['currency', /moneda|currency|divisa/],
+  ['price', /precio|arriendo|valor|price|canon|renta/]
+]
+
+const SPREADSHEET_LIMITS = {
+  MAX_FILE_SIZE_MB: 10,
+  MAX_ROWS: 5000,
+  MAX_COLUMNS: 200,
+  // Tope de lo descomprimido por archivo interno y por .xlsx completo (un zip pequeño puede inflarse a GB)
+  MAX_INFLATED_ENTRY_MB: 40,
+  MAX_INFLATED_TOTAL_MB: 60
+} as const
+
+function normalizeHeader(header: string): string {
+  return header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+}
+
+// ---------- CSV ----------
+
+// Excel en español exporta con ";"; se elige el separador más frecuente de la primera línea
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0]
+  const candidates = [';', ',', '\t']
+  return candidates
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }))
+    .sort((a, b) => b.count - a.count)[0].delimiter
+}
+
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(content)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// ---------- XLSX (zip con XML) ----------
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const entries = new Map<string, ZipEntry>()
+
+  // Fin del directorio central: firma 0x06054b50, a lo más 64 KB de comentario antes del final
+  let end = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) throw new Error('El archivo no es un .xlsx válido')
+
+  const total = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const decoder = new TextDecoder()
+
+  for (let i = 0; i < total && view.getUint32(offset, true) === 0x02014b50; i++) {
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+// Bytes que aún se pueden descomprimir del .xlsx completo
+interface InflateBudget {
+  remainingBytes: number
+}
+
+function inflatedLimitError(): Error {
+  return new Error(`El archivo .xlsx descomprimido supera los ${SPREADSHEET_LIMITS.MAX_INFLATED_ENTRY_MB} MB por parte o ${SPREADSHEET_LIMITS.MAX_INFLATED_TOTAL_MB} MB en total`)
+}
+
+// Descuenta del presupuesto lo leído de una parte; falla apenas se pasa alguno de los dos topes
+function consumeInflated(budget: InflateBudget, entryBytes: number, chunkBytes: number): void {
+  budget.remainingBytes -= chunkBytes
+  if (entryBytes > SPREADSHEET_LIMITS.MAX_INFLATED_ENTRY_MB * 1024 * 1024 || budget.remainingBytes < 0) {
+    throw inflatedLimitError()
+  }
+}
+
+async function readZipText(bytes: Uint8Array, entry: ZipEntry, budget: InflateBudget): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const start = entry.localHeaderOffset + 30 +
+    view.getUint16(entry.localHeaderOffset + 26, true) + view.getUint16(entry.localHeaderOffset + 28, true)
+  const data = bytes.slice(start, start + entry.compressedSize)
+
+  if (entry.method === 0) {
+    consumeInflated(budget, data.length, data.length)
+    return new TextDecoder().decode(data)
+  }
+  if (entry.method !== 8) throw new Error('Compresión del .xlsx no soportada')
+
+  // Se descomprime por partes para dejar de leer en cuanto se pasa el tope, sin inflar el resto
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader()
+  const decoder = new TextDecoder()
+  let inflatedBytes = 0
+  let text = ''
+
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      inflatedBytes += chunk.value.byteLength
+      consumeInflated(budget, inflatedBytes, chunk.value.byteLength)
+      text += decoder.decode(chunk.value, { stream: true })
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined)
+    throw error
+  }
+
+  return text + decoder.decode()
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase()
+  let index = 0
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64)
+  return index - 1
+}
+
+function xmlText(xml: string): string {
+  return decodeHtmlEntities(Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)).map(match => match[1]).join(''))
+}
+
+// Primera hoja del libro: celdas de texto compartido, en línea, números y booleanos
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(buffer)
+  const entries = readZipDirectory(bytes)
+  const budget: InflateBudget = { remainingBytes: SPREADSHEET_LIMITS.MAX_INFLATED_TOTAL_MB * 1024 * 1024 }
+
+  const sheetName = Array.from(entries.keys())
+    .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, '')) - parseInt(b.replace(/\D/g, '')))[0]
+  if (!sheetName) throw new Error('El archivo .xlsx no tiene hojas')
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml')
+  const sharedStrings = sharedStringsEntry
+    ? Array.from((await readZipText(bytes, sharedStringsEntry, budget)).matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)).map(match => xmlText(match[1]))
+    : []
+
+  const sheet = await readZipText(bytes, entries.get(sheetName)!, budget)
+  const rows: string[][] = []
+
+  for (const [, rowAttributes, rowXml] of Array.from(sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g))) {
+    const rowNumber = parseInt(rowAttributes.match(/\br="(\d+)"/)?.[1] || String(rows.length + 1))
+    // El número de fila viene del archivo: se revisa antes de usarlo como índice para no crear un arreglo enorme
+    if (rowNumber > SPREADSHEET_LIMITS.MAX_ROWS) {
+      throw new Error(`La planilla tiene más de ${SPREADSHEET_LIMITS.MAX_ROWS} filas`)
+    }
+    if (rowNumber < 1) throw new Error('El archivo .xlsx tiene una fila con número inválido')
+    const cells: string[] = []
+
+    for (const [, attributes, cellXml = ''] of Array.from(rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1]
+      const type = attributes.match(/\bt="(\w+)"/)?.[1]
+      const value = decodeHtmlEntities(cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '')
+      const index = reference ? columnIndex(reference) : cells.length
+      if (index >= SPREADSHEET_LIMITS.MAX_COLUMNS) {
+        throw new Error(`La planilla tiene más de ${SPREADSHEET_LIMITS.MAX_COLUMNS} columnas`)
+      }
+
+      cells[index] = type === 's' ? sharedStrings[parseInt(value)] ?? ''
+        : type === 'inlineStr' ? xmlText(cellXml)
+        : type === 'b' ? (value === '1' ? 'VERDADERO' : 'FALSO')
+        : value
+    }
+
+    rows[rowNumber - 1] = Array.from(cells, cell => cell ?? '')
+  }
+
+  return Array.from(rows, row => row ?? [])
+}
+
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+  if (file.size > SPREADSHEET_LIMITS.MAX_FILE_SIZE_MB * 1024 * 1024) {
+    throw new Error(`El archivo supera los ${SPREADSHEET_LIMITS.MAX_FILE_SIZE_MB} MB`)
+  }
+
+  const name = file.name.toLowerCase()
+  const rows = name.endsWith('.xlsx')
+    ? await readXlsx(await file.arrayBuffer())
+    : name.endsWith('.csv') || name.endsWith('.txt') || file.type.includes('csv')
+      ? parseCsv(await file.text())
+      : null
+
+  if (!rows) throw new Error('Formato no soportado: use .csv o .xlsx (los .xls antiguos deben guardarse como .xlsx)')
+  if (rows.length > SPREADSHEET_LIMITS.MAX_ROWS) {
+    throw new Error(`La planilla tiene más de ${SPREADSHEET_LIMITS.MAX_ROWS} filas`)
+  }
+  return rows
+}
+
+// ---------- Mapeo y validación ----------
+
+// Sugerencia de mapeo por encabezados; si la columna de precio dice "UF", la moneda por defecto es UF
+export function guessColumnMapping(headers: string[]): { mapping: ComparableColumnMapping; defaultCurrency: ListingCurrency } {
+  const mapping: ComparableColumnMapping = {}
+  const used = new Set<number>()
+
+  for (const [field, pattern] of COLUMN_PATTERNS) {
+    const index = headers.findIndex((header, i) => !used.has(i) && pattern.test(normalizeHeader(header)))
+    if (index >= 0) {
+      mapping[field] = index
+      used.add(index)
+    }
+  }
+
+  const priceHeader = mapping.price !== undefined ? normalizeHeader(headers[mapping.price]) : ''
+  return { mapping, defaultCurrency: /\buf\b/.test(priceHeader) ? 'UF' : 'CLP' }
+}
+
+// La primera fila es encabezado si alguna celda coincide con un campo conocido y ninguna es numérica
+export function looksLikeHeaderRow(row: string[]): boolean {
+  const cells = row.map(cell => cell.trim()).filter(Boolean)
+  return cells.length > 0 &&
+    cells.every(cell => parseListingNumber(cell) === undefined || /[a-z]/i.test(cell)) &&
+    cells.some(cell => COLUMN_PATTERNS.some(([, pattern]) => pattern.test(normalizeHeader(cell))))
+}
+
+export interface SpreadsheetMappingOptions {
+  hasHeader: boolean
+  defaultCurrency: ListingCurrency
+  ufValueClp: number
+  existing: ComparableFormEntry[] // Comparables ya ingresados, para marcar duplicados
+}
+
+export function mapSpreadsheetRows(
+  rows: string[][],
+  mapping: ComparableColumnMapping,
+  options: SpreadsheetMappingOptions
+): SpreadsheetRowReport[] {
+  const seen = new Map<string, number | 'existing'>()
+  for (const entry of options.existing) {
+    const key = comparableEntryKey(entry)
+    if (key) seen.set(key, 'existing')
+  }
+
+  const reports: SpreadsheetRowReport[] = []
+
+  rows.forEach((cells, index) => {
+    if (options.hasHeader && index === 0) return
+    if (cells.every(cell => !cell || !cell.trim())) return
+
+    const row = index + 1
+    const cell = (field: ComparableColumnField) => {
+      const column = mapping[field]
+      return column === undefined ? '' : (cells[column] ?? '').trim()
+    }
+    const messages: string[] = []
+    const entry = createComparableEntry()
+    entry.address = cell('address')
+    entry.link = cell('link')
+
+    const m2 = parseListingNumber(cell('m2'))
+    if (m2 !== undefined) {
+      entry.m2 = String(m2)
+    } else {
+      messages.push(cell('m2') ? `Superficie inválida: "${cell('m2')}"` : 'Falta la superficie (m²)')
+    }
+
+    for (const field of ['bedrooms', 'bathrooms', 'parking', 'storage'] as const) {
+      if (!cell(field)) continue
+      const count = parseListingNumber(cell(field))
+      if (count === undefined) {
+        messages.push(`${COMPARABLE_COLUMN_LABELS[field]} inválido: "${cell(field)}"`)
+      } else {
+        entry[field] = String(Math.round(count))
+      }
+    }
+
+    // Moneda: columna de moneda, luego el texto del precio ("UF 18,5" o "$650.000") y por último la elegida
+    const priceText = cell('price')
+    const price = parseListingNumber(priceText)
+    const currency = parseListingCurrency(cell('currency')) ??
+      (/\buf\b/i.test(priceText) ? 'UF' : priceText.includes('$') ? 'CLP' : options.defaultCurrency)
+    if (price !== undefined) {
+      entry.price = String(Math.round(currency === 'UF' ? price * options.ufValueClp : price))
+    } else {
+      messages.push(priceText ? `Precio inválido: "${priceText}"` : 'Falta el precio')
+    }
+
+    const label = entry.address || 'Comparable 1'
+    const validation = validateComparableEntries([entry])
+    messages.push(...validation.errors.map(error => error.replace(`${label}: `, '')))
+
+    let status: SpreadsheetRowReport['status'] = messages.length > 0 ? 'error' : 'ok'
+
+    const key = comparableEntryKey(entry)
+    if (status === 'ok' && key) {
+      const previous = seen.get(key)
+      if (previous !== undefined) {
+        status = 'duplicate'
+        messages.push(previous === 'existing' ? 'Ya está en la lista de comparables' : `Repetido de la fila ${previous}`)
+      } else {
+        seen.set(key, row)
+      }
+    }
+
+    reports.push({ row, status, messages, entry })
+  })
+
+  return reports
+}
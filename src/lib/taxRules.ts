@@ -0,0 +1,56 @@
+/*
+Domain: Tax Rules
+Responsibility: Tabla de reglas del impuesto a la renta por año tributario (actualizar cada año con los valores del SII)
+Dependencies: Tipos de rental (sin React ni APIs del navegador)
+*/
+
+import type { IncomeTaxBracket, TaxRuleSet } from '@/types/rental'
+
+// Impuesto Global Complementario: tramos en UTA, iguales desde la reforma de 2020
+const GLOBAL_COMPLEMENTARIO_BRACKETS: IncomeTaxBracket[] = [
+  { from_uta: 0, to_uta: 13.5, rate_percentage: 0 },
+  { from_uta: 13.5, to_uta: 30, rate_percentage: 4 },
+  { from_uta: 30, to_uta: 50, rate_percentage: 8 },
+  { from_uta: 50, to_uta: 70, rate_percentage: 13.5 },
+  { from_uta: 70, to_uta: 90, rate_percentage: 23 },
+  { from_uta: 90, to_uta: 120, rate_percentage: 30.4 },
+  { from_uta: 120, to_uta: 310, rate_percentage: 35 },
+  { from_uta: 310, to_uta: null, rate_percentage: 40 }
+]
+
+// Un registro por año tributario, ordenados de menor a mayor. Para un año nuevo basta con
+// agregar la UTA de diciembre y, si cambian, los tramos.
+export const TAX_RULES: TaxRuleSet[] = [
+  {
+    tax_year: 2024,
+    uta_value_clp: 770592,
+    brackets: GLOBAL_COMPLEMENTARIO_BRACKETS,
+    dfl2_max_properties: 2,
+    contribuciones_credit: true
+  },
+  {
+    tax_year: 2025,
+    uta_value_clp: 807528,
+    brackets: GLOBAL_COMPLEMENTARIO_BRACKETS,
+    dfl2_max_properties: 2,
+    contribuciones_credit: true
+  }
+]
+
+// Reglas del año pedido o, si no está en la tabla, las del año más cercano anterior (o la más reciente)
+export function resolveTaxRules(taxYear?: number): TaxRuleSet {
+  const latest = TAX_RULES[TAX_RULES.length - 1]
+  if (!taxYear) return latest
+
+  const candidates = TAX_RULES.filter(rules => rules.tax_year <= taxYear)
+  return candidates.length > 0 ? candidates[candidates.length - 1] : TAX_RULES[0]
+}
+
+// Texto del tramo para los selectores: "8% (30 a 50 UTA, $23.1M a $38.5M al año)"
+export function bracketLabel(bracket: IncomeTaxBracket, rules: TaxRuleSet): string {
+  const toMillions = (uta: number) => `$${((uta * rules.uta_value_clp) / 1000000).toFixed(1)}M`
+  const range = bracket.to_uta === null
+    ? `sobre ${bracket.from_uta} UTA, más de ${toMillions(bracket.from_uta)} al año`
+    : `${bracket.from_uta} a ${bracket.to_uta} UTA, ${toMillions(bracket.from_uta)} a ${toMillions(bracket.to_uta)} al año`
+  return `${bracket.rate_percentage}% (${range})`
+}
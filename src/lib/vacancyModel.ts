@@ -0,0 +1,88 @@
+/*
+Domain: Vacancy Model
+Responsibility: Costo de vacancia día a día según el cronograma de ajustes de precio de cada plan
+Dependencies: lib/rentalSimulation, tipos de rental
+*/
+
+import type { RentalPlan, VacancyImpact, VacancyWindow } from '@/types/rental'
+import { SIMULATION_DEFAULTS, dailyRentProbability, rentOnDay } from '@/lib/rentalSimulation'
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Tramos del cronograma: cada ajuste rige hasta el siguiente; el último hasta el fin del horizonte
+function scheduleWindows(plan: RentalPlan): Array<{ from_day: number; to_day: number }> {
+  const days = Array.from(new Set([0, ...plan.price_adjustment_schedule.map(adjustment => adjustment.day)]))
+    .filter(day => day >= 0 && day < SIMULATION_DEFAULTS.MAX_DAYS)
+    .sort((a, b) => a - b)
+
+  return days.map((day, index) => ({
+    from_day: day,
+    to_day: days[index + 1] ?? SIMULATION_DEFAULTS.MAX_DAYS
+  }))
+}
+
+// Modelo determinista: integra día a día la probabilidad de arrendar al precio vigente.
+// Si no se arrienda dentro del horizonte se asume cierre al último precio en el día límite.
+export function calculatePlanVacancyImpact(plan: RentalPlan, marketRentClp: number): VacancyImpact {
+  const initialRent = plan.initial_rent_clp
+  const potentialAnnualIncome = initialRent * 12
+
+  if (initialRent <= 0) {
+    return {
+      days_vacant: 0,
+      percentage_annual_loss: 0,
+      lost_income_clp: 0,
+      break_even_reduction_percentage: 0,
+      plan_id: plan.id,
+      windows: []
+    }
+  }
+
+  const marketRent = marketRentClp > 0 ? marketRentClp : initialRent
+  const windows: VacancyWindow[] = scheduleWindows(plan).map(window => ({
+    ...window,
+    rent_clp: rentOnDay(plan, window.from_day),
+    closing_probability: 0
+  }))
+
+  let survival = 1 // Probabilidad de seguir vacante al inicio del día
+  let expectedDays = 0
+  let expectedIncome = 0
+
+  for (let day = 0; day < SIMULATION_DEFAULTS.MAX_DAYS; day++) {
+    const rent = rentOnDay(plan, day)
+    const closing = survival * dailyRentProbability(rent, marketRent)
+
+    expectedDays += closing * day
+    expectedIncome += closing * rent * (12 - day / 30)
+    const window = windows.find(w => day >= w.from_day && day < w.to_day)
+    if (window) window.closing_probability += closing
+
+    survival -= closing
+  }
+
+  // Cola: sigue vacante al final del horizonte
+  const lastRent = rentOnDay(plan, SIMULATION_DEFAULTS.MAX_DAYS)
+  expectedDays += survival * SIMULATION_DEFAULTS.MAX_DAYS
+  expectedIncome += survival * lastRent * Math.max(0, 12 - SIMULATION_DEFAULTS.MAX_DAYS / 30)
+  if (windows.length > 0) windows[windows.length - 1].closing_probability += survival
+
+  const lostIncome = Math.max(0, potentialAnnualIncome - expectedIncome)
+  // Rebaja que compensa los meses vacantes esperados: (12 - m) meses a 100% = 12 meses a (100% - X%)
+  const vacantMonths = Math.min(expectedDays / 30, 11)
+  const breakEvenReduction = (vacantMonths / (12 - vacantMonths)) * 100
+
+  return {
+    days_vacant: Math.round(expectedDays),
+    percentage_annual_loss: round2((lostIncome / potentialAnnualIncome) * 100),
+    lost_income_clp: Math.round(lostIncome),
+    break_even_reduction_percentage: round2(breakEvenReduction),
+    plan_id: plan.id,
+    windows: windows.map(window => ({
+      ...window,
+      closing_probability: Math.round(window.closing_probability * 1000) / 1000
+    }))
+  }
+}
@@ -4,6 +4,14 @@ Responsibility: Validación de entrada para APIs y formularios
 Dependencies: Zod para validación de esquemas
 */
 
+import type { PlanDefinition, ComparableFormEntry, LibraryComparable, SimilarityCriterion, SimilarityWeights } from '@/types/rental'
+import { SAVED_ANALYSIS_SCHEMA_VERSION, type ProposalClientResponse, type SavedAnalysis } from '@/types/saved-analysis'
+import { comparableEntriesFromLegacyFields, isComparableEntryEmpty, MAX_COMPARABLES } from '@/lib/comparables'
+import { isProposalStatus } from '@/lib/proposalLifecycle'
+import { COMPARABLE_LIBRARY_DEFAULTS, createLibraryComparable } from '@/lib/comparableLibrary'
+import { DEFAULT_SIMILARITY_WEIGHTS, SIMILARITY_CRITERIA_LABELS, ORIENTATIONS, parseAmenities } from '@/lib/similarity'
+import { isIpAddress, isPublicAddress, stripHostBrackets } from '@/lib/networkAddress'
+
 // Esquemas de validación para diferentes tipos de datos
 
 export interface ValidationResult<T = any> {
@@ -112,9 +120,18 @@ export interface RentalAnalysisValidationSchema {
   annual_maintenance_clp: number
   annual_property_tax_clp: number
   annual_insurance_clp: number
-  plan_a_commission: number
-  plan_b_commission: number
-  plan_c_commission: number
+  common_expenses_monthly_clp?: number
+  common_expenses_paid_by?: 'owner' | 'tenant'
+  administration_percentage?: number
+  repairs_reserve_percentage?: number
+  lease_commission_percentage?: number
+  other_one_off_costs_clp?: number
+  plan_a_commission?: number
+  plan_b_commission?: number
+  plan_c_commission?: number
+  plan_definitions?: PlanDefinition[]
+  comparables: ComparableFormEntry[]
+  similarity_weights?: SimilarityWeights
 }
 
 export function validateRentalAnalysis(data: any): ValidationResult<RentalAnalysisValidationSchema> {
@@ -166,20 +183,88 @@ export function validateRentalAnalysis(data: any): ValidationResult<RentalAnalys
     errors.push('El seguro anual debe estar entre $0 y $2.000.000')
   }
 
-  // Validar comisiones
-  const plan_a_commission = parseFloat(data.plan_a_commission)
-  if (!plan_a_commission || plan_a_commission < 5 || plan_a_commission > 25) {
-    errors.push('La comisión del Plan A debe estar entre 5% y 25%')
+  // Validar gastos del propietario (opcionales)
+  const optionalNumber = (value: any): number | undefined =>
+    value === undefined || value === null || value === '' ? undefined : parseFloat(value)
+
+  const common_expenses_monthly_clp = optionalNumber(data.common_expenses_monthly_clp)
+  if (common_expenses_monthly_clp !== undefined && (isNaN(common_expenses_monthly_clp) || common_expenses_monthly_clp < 0 || common_expenses_monthly_clp > 5000000)) {
+    errors.push('Los gastos comunes mensuales deben estar entre $0 y $5.000.000')
+  }
+
+  const common_expenses_paid_by = data.common_expenses_paid_by || undefined
+  if (common_expenses_paid_by !== undefined && !['owner', 'tenant'].includes(common_expenses_paid_by)) {
+    errors.push('Los gastos comunes deben pagarlos el propietario o el arrendatario')
+  }
+
+  const administration_percentage = optionalNumber(data.administration_percentage)
+  if (administration_percentage !== undefined && (isNaN(administration_percentage) || administration_percentage < 0 || administration_percentage > 20)) {
+    errors.push('La administración debe estar entre 0% y 20% del arriendo')
+  }
+
+  const repairs_reserve_percentage = optionalNumber(data.repairs_reserve_percentage)
+  if (repairs_reserve_percentage !== undefined && (isNaN(repairs_reserve_percentage) || repairs_reserve_percentage < 0 || repairs_reserve_percentage > 20)) {
+    errors.push('La reserva para reparaciones debe estar entre 0% y 20% del arriendo')
+  }
+
+  const lease_commission_percentage = optionalNumber(data.lease_commission_percentage)
+  if (lease_commission_percentage !== undefined && (isNaN(lease_commission_percentage) || lease_commission_percentage < 0 || lease_commission_percentage > 100)) {
+    errors.push('El corretaje del nuevo contrato debe estar entre 0% y 100% de un mes de arriendo')
+  }
+
+  const other_one_off_costs_clp = optionalNumber(data.other_one_off_costs_clp)
+  if (other_one_off_costs_clp !== undefined && (isNaN(other_one_off_costs_clp) || other_one_off_costs_clp < 0 || other_one_off_costs_clp > 50000000)) {
+    errors.push('Los otros costos únicos deben estar entre $0 y $50.000.000')
   }
 
-  const plan_b_commission = parseFloat(data.plan_b_commission)
-  if (!plan_b_commission || plan_b_commission < 5 || plan_b_commission > 25) {
-    errors.push('La comisión del Plan B debe estar entre 5% y 25%')
+  // Validar comisiones A/B/C (opcionales: si faltan se usan las del catálogo de planes)
+  const commissions: Record<'A' | 'B' | 'C', number | undefined> = { A: undefined, B: undefined, C: undefined }
+  for (const planId of ['A', 'B', 'C'] as const) {
+    const value = data[`plan_${planId.toLowerCase()}_commission`]
+    if (value === undefined || value === null || value === '') continue
+
+    const commission = parseFloat(value)
+    if (!commission || commission < 5 || commission > 25) {
+      errors.push(`La comisión del Plan ${planId} debe estar entre 5% y 25%`)
+    }
+    commissions[planId] = commission
   }
 
-  const plan_c_commission = parseFloat(data.plan_c_commission)
-  if (!plan_c_commission || plan_c_commission < 5 || plan_c_commission > 25) {
-    errors.push('La comisión del Plan C debe estar entre 5% y 25%')
+  // Validar catálogo de planes (opcional)
+  let plan_definitions: PlanDefinition[] | undefined
+  if (data.plan_catalog !== undefined) {
+    const catalogValidation = validatePlanDefinitions(data.plan_catalog?.plans)
+    if (!catalogValidation.isValid) {
+      errors.push(...catalogValidation.errors)
+    }
+    plan_definitions = catalogValidation.data
+  }
+
+  // Validar ubicación y atributos del edificio de la propiedad (opcionales)
+  errors.push(...buildingAttributeErrors('Propiedad', {
+    lat: data.property_lat,
+    lon: data.property_lon,
+    year_built: data.property_year_built,
+    floor: data.property_floor,
+    orientation: data.property_orientation
+  }))
+
+  // Validar pesos de similitud de la oficina (opcionales)
+  let similarity_weights: SimilarityWeights | undefined
+  if (data.similarity_weights !== undefined) {
+    const weightsValidation = validateSimilarityWeights(data.similarity_weights)
+    if (!weightsValidation.isValid) {
+      errors.push(...weightsValidation.errors)
+    }
+    similarity_weights = weightsValidation.data
+  }
+
+  // Validar comparables: lista nueva o, en clientes antiguos, campos comparable_N_*
+  const comparablesValidation = validateComparableEntries(
+    data.comparables ?? comparableEntriesFromLegacyFields(data)
+  )
+  if (!comparablesValidation.isValid) {
+    errors.push(...comparablesValidation.errors)
   }
 
   if (errors.length > 0) {
@@ -196,14 +281,391 @@ export function validateRentalAnalysis(data: any): ValidationResult<RentalAnalys
       annual_maintenance_clp,
       annual_property_tax_clp,
       annual_insurance_clp,
-      plan_a_commission,
-      plan_b_commission,
-      plan_c_commission
+      common_expenses_monthly_clp,
+      common_expenses_paid_by,
+      administration_percentage,
+      repairs_reserve_percentage,
+      lease_commission_percentage,
+      other_one_off_costs_clp,
+      plan_a_commission: commissions.A,
+      plan_b_commission: commissions.B,
+      plan_c_commission: commissions.C,
+      plan_definitions,
+      comparables: comparablesValidation.data!,
+      similarity_weights
     },
     errors: []
   }
 }
 
+// Validación del catálogo de planes
+export function validatePlanDefinitions(plans: any): ValidationResult<PlanDefinition[]> {
+  const errors: string[] = []
+
+  if (!Array.isArray(plans) || plans.length === 0) {
+    return { isValid: false, errors: ['El catálogo debe tener al menos un plan'] }
+  }
+
+  if (plans.length > 10) {
+    errors.push('El catálogo puede tener como máximo 10 planes')
+  }
+
+  const ids = new Set<string>()
+  plans.forEach((plan: any, index: number) => {
+    const label = plan?.name || `Plan ${index + 1}`
+
+    const id = typeof plan?.id === 'string' ? plan.id.trim() : ''
+    if (!id || id.length > 10) {
+      errors.push(`${label}: el identificador debe tener entre 1 y 10 caracteres`)
+    } else if (ids.has(id)) {
+      errors.push(`${label}: el identificador "${id}" está repetido`)
+    }
+    ids.add(id)
+
+    if (!plan?.name || typeof plan.name !== 'string' || plan.name.trim().length < 3) {
+      errors.push(`${label}: el nombre debe tener al menos 3 caracteres`)
+    }
+
+    const commission = parseFloat(plan?.commission_percentage)
+    if (!commission || commission < 5 || commission > 25) {
+      errors.push(`${label}: la comisión debe estar entre 5% y 25%`)
+    }
+
+    if (!['basic', 'standard', 'premium'].includes(plan?.service_level)) {
+      errors.push(`${label}: el nivel de servicio no es válido`)
+    }
+
+    const duration = parseInt(plan?.marketing_duration_days)
+    if (!duration || duration < 1 || duration > 180) {
+      errors.push(`${label}: la duración del marketing debe estar entre 1 y 180 días`)
+    }
+
+    if (!Array.isArray(plan?.adjustments) || plan.adjustments.length === 0) {
+      errors.push(`${label}: el cronograma de precios debe tener al menos un ajuste`)
+      return
+    }
+
+    const days = new Set<number>()
+    plan.adjustments.forEach((adjustment: any) => {
+      const day = parseInt(adjustment?.day)
+      const reduction = parseFloat(adjustment?.percentage_reduction)
+      if (isNaN(day) || day < 0 || day > 180) {
+        errors.push(`${label}: los días del cronograma deben estar entre 0 y 180`)
+      } else if (days.has(day)) {
+        errors.push(`${label}: el día ${day} está repetido en el cronograma`)
+      }
+      days.add(day)
+      if (isNaN(reduction) || reduction < 0 || reduction > 50) {
+        errors.push(`${label}: las reducciones de precio deben estar entre 0% y 50%`)
+      }
+    })
+  })
+
+  if (errors.length > 0) {
+    return { isValid: false, errors }
+  }
+
+  return {
+    isValid: true,
+    data: plans.map((plan: any) => ({
+      id: plan.id.trim(),
+      name: sanitizeString(plan.name, 100),
+      description: sanitizeString(plan.description || '', 500),
+      commission_percentage: parseFloat(plan.commission_percentage),
+      service_level: plan.service_level,
+      marketing_duration_days: parseInt(plan.marketing_duration_days),
+      adjustments: plan.adjustments.map((adjustment: any) => ({
+        day: parseInt(adjustment.day),
+        percentage_reduction: parseFloat(adjustment.percentage_reduction)
+      }))
+    })),
+    errors: []
+  }
+}
+
+// Ubicación y atributos del edificio (opcionales) de la propiedad o de un comparable
+function buildingAttributeErrors(
+  label: string,
+  fields: { lat?: string; lon?: string; year_built?: string; floor?: string; orientation?: string }
+): string[] {
+  const errors: string[] = []
+  const outOfRange = (value: string | undefined, min: number, max: number) => {
+    if (value === undefined || value === '') return false
+    const parsed = parseFloat(value)
+    return isNaN(parsed) || parsed < min || parsed > max
+  }
+
+  if (outOfRange(fields.lat, -90, 90) || outOfRange(fields.lon, -180, 180)) {
+    errors.push(`${label}: las coordenadas no son válidas`)
+  }
+  if (outOfRange(fields.year_built, 1850, new Date().getFullYear() + 5)) {
+    errors.push(`${label}: el año de construcción no es válido`)
+  }
+  if (outOfRange(fields.floor, 0, 100)) {
+    errors.push(`${label}: el piso debe estar entre 0 y 100`)
+  }
+  if (fields.orientation && !ORIENTATIONS.includes(fields.orientation as any)) {
+    errors.push(`${label}: la orientación no es válida`)
+  }
+
+  return errors
+}
+
+// Validación de la lista de comparables; las entradas vacías se descartan
+export function validateComparableEntries(entries: any): ValidationResult<ComparableFormEntry[]> {
+  const errors: string[] = []
+
+  if (!Array.isArray(entries)) {
+    return { isValid: false, errors: ['Los comparables deben enviarse como una lista'] }
+  }
+
+  if (entries.length > MAX_COMPARABLES) {
+    errors.push(`Se pueden ingresar como máximo ${MAX_COMPARABLES} comparables`)
+  }
+
+  const toText = (value: any): string => value === undefined || value === null ? '' : String(value).trim()
+  const filled = entries
+    .filter((entry: any) => entry && typeof entry === 'object')
+    .map((entry: any): ComparableFormEntry => ({
+      link: toText(entry.link),
+      address: sanitizeString(toText(entry.address), 200),
+      m2: toText(entry.m2),
+      bedrooms: toText(entry.bedrooms),
+      bathrooms: toText(entry.bathrooms),
+      parking: toText(entry.parking),
+      storage: toText(entry.storage),
+      price: toText(entry.price),
+      lat: toText(entry.lat),
+      lon: toText(entry.lon),
+      year_built: toText(entry.year_built),
+      floor: toText(entry.floor),
+      orientation: toText(entry.orientation),
+      amenities: parseAmenities(toText(entry.amenities)).join(','),
+      captured_at: toText(entry.captured_at)
+    }))
+    .filter((entry: ComparableFormEntry) => !isComparableEntryEmpty(entry))
+
+  filled.forEach((entry: ComparableFormEntry, index: number) => {
+    const label = entry.address || `Comparable ${index + 1}`
+
+    if (entry.link && !/^https?:\/\//.test(entry.link)) {
+      errors.push(`${label}: el link debe comenzar con http:// o https://`)
+    }
+
+    errors.push(...buildingAttributeErrors(label, entry))
+
+    if (entry.captured_at && isNaN(Date.parse(entry.captured_at))) {
+      errors.push(`${label}: la fecha de captura no es válida`)
+    }
+
+    const price = parseFloat(entry.price || '')
+    if (entry.price && (isNaN(price) || price < 50000 || price > 20000000)) {
+      errors.push(`${label}: el arriendo debe estar entre $50.000 y $20.000.000`)
+    }
+
+    const m2 = parseFloat(entry.m2 || '')
+    if (entry.m2 && (isNaN(m2) || m2 < 10 || m2 > 2000)) {
+      errors.push(`${label}: la superficie debe estar entre 10 y 2.000 m²`)
+    }
+
+    for (const field of ['bedrooms', 'bathrooms', 'parking', 'storage'] as const) {
+      const count = parseInt(entry[field] || '')
+      if (entry[field] && (isNaN(count) || count < 0 || count > 20)) {
+        errors.push(`${label}: dormitorios, baños, estacionamientos y bodegas deben estar entre 0 y 20`)
+        break
+      }
+    }
+  })
+
+  if (errors.length > 0) {
+    return { isValid: false, errors }
+  }
+
+  return { isValid: true, data: filled, errors: [] }
+}
+
+// Validación de los pesos de similitud de una oficina
+export function validateSimilarityWeights(weights: any): ValidationResult<SimilarityWeights> {
+  if (!weights || typeof weights !== 'object') {
+    return { isValid: false, errors: ['Los pesos de similitud deben enviarse como un objeto'] }
+  }
+
+  const errors: string[] = []
+  const data = {} as SimilarityWeights
+  for (const criterion of Object.keys(DEFAULT_SIMILARITY_WEIGHTS) as SimilarityCriterion[]) {
+    const value = weights[criterion] === undefined ? DEFAULT_SIMILARITY_WEIGHTS[criterion] : parseFloat(weights[criterion])
+    if (isNaN(value) || value < 0 || value > 100) {
+      errors.push(`El peso de "${SIMILARITY_CRITERIA_LABELS[criterion]}" debe estar entre 0 y 100`)
+    }
+    data[criterion] = value
+  }
+
+  if (errors.length === 0 && Object.values(data).every(value => value === 0)) {
+    errors.push('Al menos un criterio de similitud debe tener peso mayor que 0')
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors }
+  }
+
+  return { isValid: true, data, errors: [] }
+}
+
+// Nombre de oficina para los pesos de similitud (texto libre corto)
+export function validateOfficeId(officeId: any): ValidationResult<string> {
+  if (typeof officeId !== 'string' || !officeId.trim()) {
+    return { isValid: false, errors: ['Debe indicar la oficina'] }
+  }
+
+  const trimmed = sanitizeString(officeId.trim())
+  if (trimmed.length > 60) {
+    return { isValid: false, errors: ['El nombre de la oficina puede tener como máximo 60 caracteres'] }
+  }
+
+  return { isValid: true, data: trimmed, errors: [] }
+}
+
+// Comparables a agregar a la biblioteca de la oficina ({ entry, captured_at?, captured_by?, source_analysis_id? });
+// el servidor arma cada registro (id, clave y comuna) con createLibraryComparable
+export function validateLibraryComparables(items: any): ValidationResult<LibraryComparable[]> {
+  if (!Array.isArray(items)) {
+    return { isValid: false, errors: ['Los comparables de la biblioteca deben enviarse como una lista'] }
+  }
+
+  if (items.length > COMPARABLE_LIBRARY_DEFAULTS.MAX_ITEMS) {
+    return { isValid: false, errors: [`Se pueden agregar como máximo ${COMPARABLE_LIBRARY_DEFAULTS.MAX_ITEMS} comparables`] }
+  }
+
+  const errors: string[] = []
+  const data: LibraryComparable[] = []
+  const optionalText = (value: any, maxLength: number) =>
+    typeof value === 'string' && value.trim() ? sanitizeString(value.trim(), maxLength) : undefined
+
+  items.forEach((item: any, index: number) => {
+    const entryValidation = validateComparableEntries([item?.entry])
+    if (!entryValidation.isValid) {
+      errors.push(...entryValidation.errors)
+      return
+    }
+
+    const capturedAt = optionalText(item.captured_at, 40)
+    if (capturedAt && isNaN(Date.parse(capturedAt))) {
+      errors.push(`Comparable ${index + 1}: la fecha de captura no es válida`)
+      return
+    }
+
+    const comparable = entryValidation.data!.length > 0 ? createLibraryComparable(entryValidation.data![0], {
+      capturedAt,
+      capturedBy: optionalText(item.captured_by, 60),
+      sourceAnalysisId: optionalText(item.source_analysis_id, 50)
+    }) : null
+    if (!comparable) {
+      errors.push(`Comparable ${index + 1}: debe tener dirección, m² y arriendo para guardarse en la biblioteca`)
+      return
+    }
+    data.push(comparable)
+  })
+
+  if (errors.length > 0) {
+    return { isValid: false, errors }
+  }
+
+  return { isValid: true, data, errors: [] }
+}
+
+export const MAX_IMPORTED_ANALYSES = 500
+
+// Análisis ya calculado que llega completo (copias del navegador y análisis rápido): se revisa la forma, no se recalcula.
+// Los registros de versiones anteriores pasan antes por lib/analysisMigrations
+export function validateSavedAnalysisRecord(record: any): ValidationResult<SavedAnalysis> {
+  if (!record || typeof record !== 'object') {
+    return { isValid: false, errors: ['El análisis debe enviarse como un objeto'] }
+  }
+
+  const errors: string[] = []
+  if (record.schemaVersion !== SAVED_ANALYSIS_SCHEMA_VERSION) {
+    errors.push(`El análisis debe tener la versión de esquema ${SAVED_ANALYSIS_SCHEMA_VERSION}`)
+  }
+  const idValidation = validateId(String(record.id ?? ''))
+  if (!idValidation.isValid) {
+    errors.push(...idValidation.errors)
+  }
+  if (typeof record.title !== 'string' || !record.title.trim()) {
+    errors.push('El análisis debe tener título')
+  }
+  if (!record.property || typeof record.property.address !== 'string' || typeof record.property.value_clp !== 'number') {
+    errors.push('El análisis debe incluir la propiedad con dirección y valor')
+  }
+  if (!record.analysis || typeof record.analysis.suggested_rent_clp !== 'number' || !Array.isArray(record.analysis.comparable_properties)) {
+    errors.push('El análisis debe incluir el arriendo sugerido y los comparables')
+  }
+  if (!record.calculations || typeof record.calculations !== 'object') {
+    errors.push('El análisis debe incluir los cálculos')
+  }
+
+  const metadata = record.metadata
+  if (!metadata || isNaN(Date.parse(metadata.created_at)) || isNaN(Date.parse(metadata.updated_at))) {
+    errors.push('El análisis debe incluir las fechas de creación y actualización')
+  } else if (!isProposalStatus(metadata.status)) {
+    errors.push(`Estado de análisis desconocido: ${metadata.status}`)
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors }
+  }
+
+  return { isValid: true, data: { ...record, id: idValidation.data!, title: record.title.trim() } as SavedAnalysis, errors: [] }
+}
+
+// Datos del cliente de una propuesta (PATCH /api/analyses/[id]); solo se devuelven los campos enviados
+export function validateProposalClientFields(
+  data: any,
+  now: Date = new Date()
+): ValidationResult<Pick<SavedAnalysis['metadata'], 'client_email' | 'client_name' | 'client_response'>> {
+  const errors: string[] = []
+  const result: Pick<SavedAnalysis['metadata'], 'client_email' | 'client_name' | 'client_response'> = {}
+
+  if (data.client_email !== undefined) {
+    const email = typeof data.client_email === 'string' ? data.client_email.trim() : ''
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      errors.push('El email del cliente no es válido')
+    } else {
+      result.client_email = email
+    }
+  }
+
+  if (data.client_name !== undefined) {
+    result.client_name = sanitizeString(String(data.client_name), 100) || undefined
+  }
+
+  if (data.client_response !== undefined) {
+    const response = data.client_response
+    const planIds = Array.isArray(response?.plan_ids_accepted)
+      ? response.plan_ids_accepted.filter((id: unknown) => typeof id === 'string' && id.trim()).map((id: string) => id.trim())
+      : null
+    const responseDate = response?.response_date ? new Date(response.response_date) : now
+
+    if (!planIds) {
+      errors.push('La respuesta del cliente debe indicar los planes aceptados (puede ser una lista vacía)')
+    } else if (isNaN(responseDate.getTime()) || responseDate > now) {
+      errors.push('La fecha de respuesta del cliente no es válida')
+    } else {
+      const clientResponse: ProposalClientResponse = {
+        plan_ids_accepted: planIds,
+        response_date: responseDate.toISOString(),
+        notes: response.notes ? sanitizeString(String(response.notes), 1000) : undefined
+      }
+      result.client_response = clientResponse
+    }
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors }
+  }
+
+  return { isValid: true, data: result, errors: [] }
+}
+
 // Validación de cliente
 export interface ClientValidationSchema {
   name: string
@@ -283,6 +745,50 @@ export function validateId(id: string): ValidationResult<string> {
   return { isValid: true, data: id.trim(), errors: [] }
 }
 
+// Validación del link de una publicación a importar: solo http(s) y sin hosts internos. Un nombre de dominio
+// puede resolver a una IP interna: el servidor revisa además cada dirección resuelta (lib/listingFetcher)
+const INTERNAL_HOSTNAME_PATTERN = /^localhost$|\.(localhost|local|internal|lan|home\.arpa)$/i
+
+export function validateListingUrl(url: any): ValidationResult<string> {
+  if (!url || typeof url !== 'string' || url.trim().length === 0) {
+    return { isValid: false, errors: ['El link de la publicación es requerido'] }
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return { isValid: false, errors: ['El link de la publicación no es una URL válida'] }
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { isValid: false, errors: ['El link debe comenzar con http:// o https://'] }
+  }
+
+  const host = stripHostBrackets(parsed.hostname)
+  const isInternalHost = isIpAddress(host)
+    ? !isPublicAddress(host)
+    : INTERNAL_HOSTNAME_PATTERN.test(host) || !host.includes('.')
+  if (isInternalHost) {
+    return { isValid: false, errors: ['El link debe apuntar a un portal público'] }
+  }
+
+  return { isValid: true, data: parsed.toString(), errors: [] }
+}
+
+// Validación de la dirección a geocodificar
+export function validateGeocodeAddress(address: any): ValidationResult<string> {
+  if (!address || typeof address !== 'string' || address.trim().length < 4) {
+    return { isValid: false, errors: ['La dirección debe tener al menos 4 caracteres'] }
+  }
+
+  if (address.trim().length > 200) {
+    return { isValid: false, errors: ['La dirección no puede exceder 200 caracteres'] }
+  }
+
+  return { isValid: true, data: address.trim(), errors: [] }
+}
+
 // Validación de paginación
 export interface PaginationValidationSchema {
   page: number
@@ -420,8 +926,17 @@ export function validateFile(file: any, allowedTypes: string[], maxSizeMB: numbe
 export default {
   validateProperty,
   validateRentalAnalysis,
+  validatePlanDefinitions,
+  validateComparableEntries,
+  validateSimilarityWeights,
+  validateOfficeId,
+  validateLibraryComparables,
+  validateSavedAnalysisRecord,
   validateClient,
+  validateProposalClientFields,
   validateId,
+  validateListingUrl,
+  validateGeocodeAddress,
   validatePagination,
   validateFile,
   createValidationMiddleware,
@@ -11,18 +11,30 @@ export interface Property {
   bathrooms?: number;
   parking_spaces?: number; // Estacionamientos
   storage_units?: number; // Bodegas
+  lat?: number; // Coordenadas geocodificadas (lib/geocoding)
+  lon?: number;
+  year_built?: number; // Año de construcción del edificio
+  floor?: number; // Piso (0 = casa o primer piso)
+  orientation?: Orientation;
+  amenities?: Amenity[];
 }
 
-// Planes de arriendo A, B, C
+// Atributos del edificio usados en la similitud de comparables
+export type Orientation = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SO' | 'O' | 'NO';
+export type Amenity = 'piscina' | 'gimnasio' | 'quincho' | 'lavanderia' | 'conserjeria' | 'ascensor' | 'bicicletero' | 'cowork';
+
+// Planes de arriendo (definidos en el catálogo de planes; por defecto A, B, C)
+export type PlanServiceLevel = 'basic' | 'standard' | 'premium';
+
 export interface RentalPlan {
-  id: 'A' | 'B' | 'C';
+  id: string;
   name: string;
   description: string;
   initial_rent_clp: number;
   commission_percentage: number;
   marketing_duration_days: number;
   price_adjustment_schedule: PriceAdjustment[];
-  service_level: 'basic' | 'standard' | 'premium';
+  service_level: PlanServiceLevel;
 }
 
 export interface PriceAdjustment {
@@ -31,6 +43,24 @@ export interface PriceAdjustment {
   percentage_reduction: number;
 }
 
+// Definición de un plan en el catálogo del corredor (sin precios asignados)
+export interface PlanDefinition {
+  id: string;
+  name: string;
+  description: string;
+  commission_percentage: number;
+  service_level: PlanServiceLevel;
+  marketing_duration_days: number;
+  adjustments: Array<{ day: number; percentage_reduction: number }>;
+}
+
+// Catálogo versionado: cada cambio guardado genera una nueva versión
+export interface PlanCatalog {
+  version: number; // 0 = catálogo por defecto
+  updated_at: string; // ISO date string
+  plans: PlanDefinition[];
+}
+
 // Análisis de rentabilidad
 export interface RentalAnalysis {
   property: Property;
@@ -39,11 +69,14 @@ export interface RentalAnalysis {
   cap_rate_analysis: CapRateAnalysis;
   vacancy_impact: VacancyImpact;
   recommended_initial_rent: number;
+  plan_catalog_version?: number; // Versión del catálogo con que se generaron los planes
+  leveraged_returns?: LeveragedReturns; // Solo si la propiedad tiene crédito hipotecario
+  after_tax?: AfterTaxReturns; // Solo si se indicó el tramo de impuesto del propietario
 }
 
 // Propiedades comparables para análisis
 export interface ComparableProperty {
-  id: number; // 1, 2, 3
+  id: number; // Posición en la lista, desde 1
   address: string;
   size_m2: number;
   bedrooms: number;
@@ -53,6 +86,58 @@ export interface ComparableProperty {
   rent_clp: number;
   price_per_m2: number;
   link?: string; // Link de la publicación
+  lat?: number;
+  lon?: number;
+  year_built?: number;
+  floor?: number;
+  orientation?: Orientation;
+  amenities?: Amenity[];
+  similarity_score?: number; // 0-100 respecto de la propiedad evaluada (lib/similarity)
+  distance_km?: number; // Distancia a la propiedad evaluada, si ambas están geocodificadas
+}
+
+// Pesos de cada criterio de similitud; se normalizan sobre los criterios con datos
+export interface SimilarityWeights {
+  size: number;
+  bedrooms: number;
+  bathrooms: number;
+  parking: number;
+  distance: number;
+  age: number;
+  floor: number;
+  orientation: number;
+  amenities: number;
+}
+
+export type SimilarityCriterion = keyof SimilarityWeights;
+
+// Valoración estadística de los comparables (lib/comparableValuation)
+export type ValuationMethod = 'hedonic' | 'price_per_m2' | 'none';
+export type OutlierMethod = 'iqr' | 'mad';
+
+export interface ComparableContribution {
+  comparable_id: number;
+  price_per_m2: number;
+  is_outlier: boolean; // Excluido del cálculo
+  weight: number; // Peso en la estimación (suman 1 entre los no descartados)
+  contribution_clp: number; // Aporte a la estimación: peso × arriendo del comparable
+}
+
+export interface ComparableValuation {
+  method: ValuationMethod;
+  outlier_method: OutlierMethod;
+  estimate_clp: number; // Arriendo mensual estimado para la propiedad
+  estimate_per_m2: number;
+  confidence_level_percentage: number;
+  confidence_interval: {
+    min_rent_clp: number;
+    max_rent_clp: number;
+  };
+  comparables_used: number;
+  outliers_rejected: number;
+  r_squared?: number; // Solo regresión hedónica
+  coefficients?: Record<string, number>; // CLP por unidad de cada variable (regresión hedónica)
+  contributions: ComparableContribution[];
 }
 
 export interface MarketStudy {
@@ -62,44 +147,186 @@ export interface MarketStudy {
     min_rent_clp: number;
     max_rent_clp: number;
   };
-  neighborhood_factors: {
-    location_score: number; // 1-10
-    transportation_access: number; // 1-10
-    amenities_score: number; // 1-10
-  };
+  valuation?: ComparableValuation; // Análisis recientes: estimación e intervalo de confianza
+  market_benchmark?: MarketRentBenchmark; // Índice de la comuna usado cuando faltan comparables
+  neighborhood_factors: NeighborhoodFactors;
+}
+
+// Resultado del servicio de geocodificación (lib/geocodingService), guardado con el análisis
+export type GeocodeAccuracy = 'building' | 'address' | 'street' | 'neighbourhood' | 'comuna';
+
+export interface GeocodedLocation {
+  lat: number;
+  lon: number;
+  comuna?: string;
+  region?: string;
+  accuracy: GeocodeAccuracy;
+  display_name: string;
+  provider: string; // Proveedor que resolvió la dirección: 'nominatim', 'gazetteer'...
+  geocoded_at: string; // ISO date string
+}
+
+// Puntos de interés del entorno (lib/neighborhoodScore, datos en src/data)
+export type PoiCategory = 'metro_station' | 'bus_stop' | 'school' | 'supermarket' | 'park';
+
+export interface PointOfInterest {
+  id: string;
+  category: PoiCategory;
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+// Aporte de una categoría de puntos de interés a un factor del sector
+export interface NeighborhoodFactorDetail {
+  category: PoiCategory;
+  factor: 'transportation_access' | 'amenities_score';
+  radius_km: number;
+  count_within_radius: number;
+  nearest_name?: string;
+  nearest_distance_km?: number;
+  points: number;
+  max_points: number;
+}
+
+export interface NeighborhoodFactors {
+  location_score: number; // 1-10
+  transportation_access: number; // 1-10
+  amenities_score: number; // 1-10
+  source?: 'poi' | 'default'; // 'default': propiedad sin coordenadas, valores referenciales
+  breakdown?: NeighborhoodFactorDetail[];
+}
+
+// Índice de arriendo por m² construido con los análisis guardados (lib/marketRentIndex)
+export interface MarketRentIndexCell {
+  comuna: string;
+  typology: number; // Dormitorios; 4 agrupa 4 o más
+  month: string; // YYYY-MM de captura
+  rent_per_m2_samples: number[];
+  median_rent_per_m2: number;
+}
+
+export interface MarketRentIndex {
+  generated_at: string; // ISO date string
+  cells: MarketRentIndexCell[];
+}
+
+// Resultado de consultar el índice para una comuna y tipología
+export interface MarketRentBenchmark {
+  comuna: string;
+  typology?: number; // Sin valor: se usó toda la comuna por falta de muestras de la tipología
+  from_month: string;
+  to_month: string;
+  sample_size: number;
+  median_rent_per_m2: number;
+  p25_rent_per_m2: number;
+  p75_rent_per_m2: number;
 }
 
 export interface CapRateAnalysis {
   property_value_clp: number;
   annual_rental_income: number;
   annual_expenses: number; // mantención, contribuciones, etc.
+  expenses?: AnnualExpenses; // Gastos ingresados (análisis recientes)
+  expense_breakdown?: ExpenseBreakdown; // Gastos del propietario ítem por ítem
+  commission_clp?: number; // Comisión anual del plan principal (el NOI ya la descuenta)
   net_operating_income: number;
   cap_rate_percentage: number;
   comparison_to_market: 'above' | 'average' | 'below';
 }
 
 export interface VacancyImpact {
-  days_vacant: number;
-  percentage_annual_loss: number; // 1 mes vacante = 8.33% pérdida anual
-  lost_income_clp: number;
-  break_even_reduction_percentage: number; // % que se puede reducir el precio para evitar vacancia
+  days_vacant: number; // Días vacantes esperados según el cronograma del plan
+  percentage_annual_loss: number; // Pérdida esperada sobre el ingreso anual a precio inicial
+  lost_income_clp: number; // Arriendo perdido por días vacantes y rebajas de precio
+  break_even_reduction_percentage: number; // Rebaja que compensa los días vacantes esperados
+  plan_id?: string; // Plan usado para el cálculo
+  windows?: VacancyWindow[];
+}
+
+// Probabilidad de cerrar el arriendo en cada tramo del cronograma de precios
+export interface VacancyWindow {
+  from_day: number;
+  to_day: number;
+  rent_clp: number;
+  closing_probability: number; // 0-1
+}
+
+// Financiamiento hipotecario en UF
+export interface FinancingInput {
+  down_payment_uf: number; // Pie
+  loan_uf: number;
+  annual_rate_percentage: number;
+  term_years: number;
+}
+
+export interface LeveragedReturns {
+  financing: FinancingInput;
+  monthly_dividend_uf: number;
+  monthly_dividend_clp: number;
+  annual_debt_service_clp: number;
+  equity_invested_clp: number;
+  monthly_cash_flow_clp: number; // Arriendo neto menos dividendo
+  cash_on_cash_percentage: number;
+  debt_service_coverage_ratio: number;
+  rent_covers_dividend: boolean;
+}
+
+// Impuesto a la renta del propietario (estimación, persona natural)
+export interface IncomeTaxBracket {
+  from_uta: number;
+  to_uta: number | null; // null = sin tope
+  rate_percentage: number;
+}
+
+// Reglas de un año tributario; se actualizan cada año en lib/taxRules
+export interface TaxRuleSet {
+  tax_year: number; // Año tributario (renta del año comercial anterior)
+  uta_value_clp: number; // UTA de diciembre del año comercial
+  brackets: IncomeTaxBracket[]; // Impuesto Global Complementario
+  dfl2_max_properties: number; // Viviendas DFL-2 cuyo arriendo queda exento
+  contribuciones_credit: boolean; // Las contribuciones pagadas se descuentan del impuesto
+}
+
+export interface TaxInput {
+  marginal_bracket_index: number; // Tramo marginal del propietario en la tabla del año
+  is_dfl2: boolean; // Vivienda DFL-2
+  dfl2_properties_owned?: number; // Viviendas DFL-2 del propietario contando esta; si falta, solo esta
+  tax_year?: number; // Si falta, el año más reciente de la tabla
+}
+
+export interface AfterTaxReturns {
+  tax: TaxInput;
+  tax_year: number;
+  marginal_rate_percentage: number;
+  taxable_income_clp: number;
+  gross_tax_clp: number;
+  contribuciones_credit_clp: number;
+  annual_tax_clp: number;
+  after_tax_income_clp: number;
+  after_tax_yield_percentage: number;
+  effective_tax_rate_percentage: number; // Impuesto sobre el ingreso neto
+  dfl2_exempt: boolean; // DFL-2 dentro del límite de viviendas exentas
 }
 
 // Estados del proceso
 export interface ClientResponse {
-  plan_ids_accepted: Array<'A' | 'B' | 'C'>;
+  plan_ids_accepted: string[];
   response_date: Date;
   client_email: string;
   broker_email: string;
   notes?: string;
 }
 
+// Ciclo de vida de una propuesta (transiciones y condiciones en lib/proposalLifecycle)
+export type ProposalStatus = 'draft' | 'sent_to_client' | 'client_responded' | 'published' | 'expired' | 'archived';
+
 export interface RentalProposal {
   id: string;
   property: Property;
   analysis: RentalAnalysis;
   client_response?: ClientResponse;
-  status: 'pending_review' | 'sent_to_client' | 'client_responded' | 'published' | 'cancelled';
+  status: ProposalStatus;
   created_at: Date;
   expires_at: Date; // Para el proceso de 30 días
 }
@@ -141,46 +368,97 @@ export interface RentalAnalysisForm {
   
   market_study_notes: string;
   
-  // Configuración de planes
-  plan_a_commission: string;
-  plan_b_commission: string;
-  plan_c_commission: string;
+  // Comisiones por plan A, B y C (opcional: sobrescriben las del catálogo)
+  plan_a_commission?: string;
+  plan_b_commission?: string;
+  plan_c_commission?: string;
   
   // Gastos anuales estimados
   annual_maintenance_clp: string;
-  annual_property_tax_clp: string;
+  annual_property_tax_clp: string; // Contribuciones: 4 cuotas trimestrales
   annual_insurance_clp: string;
   
+  // Gastos del propietario (opcionales)
+  common_expenses_monthly_clp?: string; // Gastos comunes mensuales
+  common_expenses_paid_by?: CommonExpensesPayer;
+  administration_percentage?: string; // % del arriendo cobrado
+  repairs_reserve_percentage?: string; // % del arriendo cobrado
+  lease_commission_percentage?: string; // Corretaje del nuevo contrato, % de un mes de arriendo
+  other_one_off_costs_clp?: string;
+  
   // UF actual
   uf_value_clp: string;
   
-  // Propiedades comparables
-  comparable_1_link?: string;
-  comparable_1_address?: string;
-  comparable_1_m2?: string;
-  comparable_1_bedrooms?: string;
-  comparable_1_bathrooms?: string;
-  comparable_1_parking?: string;
-  comparable_1_storage?: string;
-  comparable_1_price?: string;
+  // Financiamiento hipotecario (opcional)
+  mortgage_down_payment_uf?: string; // Pie
+  mortgage_loan_uf?: string; // Monto del crédito
+  mortgage_annual_rate?: string; // Tasa anual (%)
+  mortgage_term_years?: string; // Plazo en años
+  
+  // Impuesto a la renta del propietario (opcional)
+  tax_marginal_bracket?: string; // Índice del tramo en la tabla del año; vacío = no estimar
+  tax_is_dfl2?: string; // 'true' si la vivienda es DFL-2
+  tax_dfl2_properties_owned?: string; // Viviendas DFL-2 del propietario contando esta
   
-  comparable_2_link?: string;
-  comparable_2_address?: string;
-  comparable_2_m2?: string;
-  comparable_2_bedrooms?: string;
-  comparable_2_bathrooms?: string;
-  comparable_2_parking?: string;
-  comparable_2_storage?: string;
-  comparable_2_price?: string;
+  // Atributos del edificio y ubicación (opcionales, para la similitud de comparables)
+  property_lat?: string;
+  property_lon?: string;
+  property_year_built?: string;
+  property_floor?: string;
+  property_orientation?: string; // Orientation o vacío
+  property_amenities?: string; // Amenity separadas por coma
   
-  comparable_3_link?: string;
-  comparable_3_address?: string;
-  comparable_3_m2?: string;
-  comparable_3_bedrooms?: string;
-  comparable_3_bathrooms?: string;
-  comparable_3_parking?: string;
-  comparable_3_storage?: string;
-  comparable_3_price?: string;
+  // Propiedades comparables (cantidad variable)
+  comparables?: ComparableFormEntry[];
+}
+
+// Comparable tal como se ingresa en el formulario (valores string)
+export interface ComparableFormEntry {
+  link?: string;
+  address?: string;
+  m2?: string;
+  bedrooms?: string;
+  bathrooms?: string;
+  parking?: string;
+  storage?: string;
+  price?: string;
+  lat?: string;
+  lon?: string;
+  year_built?: string;
+  floor?: string;
+  orientation?: string; // Orientation o vacío
+  amenities?: string; // Amenity separadas por coma
+  captured_at?: string; // ISO; fecha de captura si viene de la biblioteca de comparables
+}
+
+// Datos de una publicación de portal importada como comparable (lib/listingImport)
+export type ListingCurrency = 'CLP' | 'UF';
+
+export interface ExtractedListing {
+  url?: string;
+  address?: string;
+  size_m2?: number;
+  bedrooms?: number;
+  bathrooms?: number;
+  parking_spaces?: number;
+  storage_units?: number;
+  price?: number; // En la moneda de price_currency
+  price_currency?: ListingCurrency;
+  lat?: number;
+  lon?: number;
+  extractors: string[]; // Extractores que aportaron algún dato, en orden de prioridad
+}
+
+// Comparable de la biblioteca compartida entre análisis (lib/comparableLibrary)
+export interface LibraryComparable {
+  id: string;
+  key: string; // comparableEntryKey: evita guardar dos veces la misma publicación
+  normalized_address: string;
+  comuna?: string;
+  captured_at: string; // ISO; fecha en que se capturó la publicación
+  captured_by?: string; // Oficina que lo capturó
+  source_analysis_id?: string; // Análisis en que se ingresó
+  entry: ComparableFormEntry;
 }
 
 // Cálculos derivados
@@ -191,13 +469,182 @@ export interface RentalCalculations {
   vacancy_cost_per_month: number;
   break_even_rent_reduction: number;
   plan_comparisons: PlanComparison[];
+  leveraged_returns?: LeveragedReturns;
+  after_tax?: AfterTaxReturns;
 }
 
 export interface PlanComparison {
-  plan_id: 'A' | 'B' | 'C';
+  plan_id: string;
   expected_rental_time: number; // días
   total_commission: number;
   net_annual_income: number;
   vacancy_risk_score: number; // 1-10
   recommendation_score: number; // 1-10
+  simulation?: DaysToRentSimulation;
+  vacancy_impact?: VacancyImpact;
+}
+
+// Distribución simulada (Monte Carlo) de días hasta arrendar
+export interface DaysToRentSimulation {
+  iterations: number;
+  market_rent_clp: number; // Referencia de mercado usada para la sensibilidad al precio
+  p10_days: number;
+  p50_days: number;
+  p90_days: number;
+  mean_days: number;
+  probability_vacant_day_30: number; // 0-1
+  expected_rent_clp: number; // Arriendo promedio al que se cierra el contrato
+  expected_commission_clp: number;
+  expected_net_annual_income: number;
+}
+
+// Gastos del propietario. Los campos opcionales no existen en análisis antiguos (se toman como 0)
+export type CommonExpensesPayer = 'owner' | 'tenant';
+
+export interface AnnualExpenses {
+  maintenance_clp: number;
+  property_tax_clp: number; // Contribuciones anuales (4 cuotas trimestrales)
+  insurance_clp: number;
+  common_expenses_monthly_clp?: number; // Gastos comunes mensuales
+  common_expenses_paid_by?: CommonExpensesPayer; // Si paga el arrendatario, el propietario los cubre mientras está vacante
+  administration_percentage?: number; // Administración, % del arriendo cobrado
+  repairs_reserve_percentage?: number; // Fondo para reparaciones, % del arriendo cobrado
+  lease_commission_percentage?: number; // Corretaje del nuevo contrato, % de un mes de arriendo (costo único)
+  other_one_off_costs_clp?: number; // Otros costos únicos del primer año
+}
+
+export interface ExpenseBreakdown {
+  common_expenses_clp: number;
+  property_tax_clp: number;
+  property_tax_quarterly_clp: number;
+  insurance_clp: number;
+  maintenance_clp: number;
+  administration_clp: number;
+  repairs_reserve_clp: number;
+  recurring_total_clp: number; // Gastos que se repiten todos los años
+  one_off_clp: number; // Solo el primer año
+  total_clp: number;
+}
+
+// Entrada tipada para el cálculo de rentabilidad (ya convertida a números y CLP)
+export interface RentalAnalysisInput {
+  property: Omit<Property, 'id' | 'market_rent_clp'> & { id?: string }; // Sin id el resultado queda con id vacío
+  monthly_rent_clp: number; // Arriendo mensual esperado en CLP
+  capture_price_clp?: number; // Precio de publicación; si falta se usa monthly_rent_clp
+  uf_value_clp: number;
+  plan_commissions?: Record<string, number>; // Comisión por id de plan; si falta se usa la del catálogo
+  plan_catalog?: PlanCatalog;
+  annual_expenses: AnnualExpenses;
+  comparables: ComparableProperty[];
+  financing?: FinancingInput;
+  tax?: TaxInput;
+  similarity_weights?: SimilarityWeights; // Pesos de la oficina; si faltan se usan los por defecto
+  market_benchmark?: MarketRentBenchmark; // Índice de la comuna (lib/marketRentIndex), para cuando faltan comparables
+}
+
+// Proyección de flujo de caja a varios años
+export type RentIndexation = 'UF' | 'IPC' | 'none';
+
+export interface CashFlowProjectionSettings {
+  years: number;
+  indexation: RentIndexation;
+  annual_inflation_percentage: number; // Variación anual esperada de UF/IPC
+  ipc_readjustment_months: number; // Cada cuántos meses se reajusta por IPC
+  commission_percentage: number; // Comisión anual del plan sobre el arriendo cobrado
+}
+
+export interface CashFlowProjectionYear {
+  year: number;
+  monthly_rent_clp: number; // Arriendo vigente al cierre del año
+  gross_rent_clp: number;
+  vacancy_loss_clp: number;
+  commission_clp: number;
+  expenses_clp: number;
+  net_operating_income: number;
+  cumulative_income_clp: number;
+}
+
+export interface CashFlowProjection {
+  settings: CashFlowProjectionSettings;
+  years: CashFlowProjectionYear[];
+  total_net_income_clp: number;
+}
+
+// Escenario de mantener y vender (retorno total con plusvalía)
+export interface HoldAndSellSettings {
+  exit_year: number; // Año de venta
+  annual_appreciation_uf_percentage: number; // Plusvalía anual real, medida en UF
+  sale_costs_percentage: number; // Corretaje, notaría y otros gastos de venta
+  discount_rate_percentage: number; // Tasa de descuento para el VAN
+}
+
+export interface HoldAndSellScenario {
+  settings: HoldAndSellSettings;
+  projection: CashFlowProjection;
+  purchase_value_clp: number;
+  sale_value_clp: number;
+  sale_costs_clp: number;
+  net_sale_proceeds_clp: number;
+  cash_flows: number[]; // Año 0 (compra o pie) a año de venta, del capital del propietario
+  levered: boolean; // Con crédito: flujos después del dividendo y venta neta del saldo del crédito
+  equity_invested_clp: number; // Capital propio en la compra (el valor completo sin crédito)
+  debt_service_clp: number; // Dividendos pagados hasta la venta
+  loan_balance_at_exit_clp: number; // Saldo del crédito que se paga con la venta
+  irr_percentage: number | null; // null si los flujos no cambian de signo
+  npv_clp: number;
+  equity_multiple: number; // Sobre el capital propio
+  total_profit_clp: number;
+}
+
+// Análisis de sensibilidad (tornado y grilla arriendo × vacancia)
+export type SensitivityVariable =
+  | 'rent'
+  | 'property_value'
+  | 'maintenance'
+  | 'property_tax'
+  | 'insurance'
+  | 'vacancy'
+  | 'commission';
+
+export type SensitivityMetric = 'cap_rate' | 'net_income';
+
+// Variación baja y alta de una variable: % del valor base, salvo vacancia (meses al año)
+// y comisión (puntos porcentuales)
+export interface SensitivityRange {
+  variable: SensitivityVariable;
+  low: number;
+  high: number;
+}
+
+export interface SensitivityBase {
+  monthly_rent_clp: number;
+  property_value_clp: number;
+  expenses: AnnualExpenses;
+  vacancy_months: number; // Meses vacantes al año
+  commission_percentage: number; // Comisión anual sobre el arriendo cobrado
+}
+
+export interface SensitivityOutcome {
+  cap_rate_percentage: number;
+  net_annual_income_clp: number; // NOI (ya descuenta la comisión)
+}
+
+export interface TornadoBar {
+  variable: SensitivityVariable;
+  low_change: number;
+  high_change: number;
+  low: SensitivityOutcome;
+  high: SensitivityOutcome;
+  swing: number; // Amplitud en la métrica elegida, para ordenar el tornado
+}
+
+export interface SensitivityGrid {
+  rent_changes: number[]; // % sobre el arriendo base (columnas)
+  vacancy_months: number[]; // Meses vacantes al año (filas)
+  cells: SensitivityOutcome[][]; // [fila de vacancia][columna de arriendo]
+}
+
+export interface RentalAnalysisResult {
+  analysis: RentalAnalysis;
+  calculations: RentalCalculations;
 }
\ No newline at end of file
@@ -1,7 +1,13 @@
 // Tipos para análisis guardados de rentabilidad
 
+import type { AfterTaxReturns, Amenity, AnnualExpenses, CommonExpensesPayer, ComparableFormEntry, ComparableProperty, FinancingInput, GeocodedLocation, LeveragedReturns, MarketRentBenchmark, Orientation, PlanCatalog, ProposalStatus, SimilarityWeights, TaxInput } from '@/types/rental';
+
+// Versión de la forma de SavedAnalysis. Al cambiarla se agrega el paso correspondiente en lib/analysisMigrations
+export const SAVED_ANALYSIS_SCHEMA_VERSION = 2;
+
 export interface SavedAnalysis {
   id: string;
+  schemaVersion: number; // Los registros sin versión son anteriores al versionado (versión 0)
   title: string; // Nombre personalizado del análisis
   property: {
     address: string;
@@ -12,6 +18,13 @@ export interface SavedAnalysis {
     bathrooms: number;
     parking_spaces: number;
     storage_units: number;
+    lat?: number;
+    lon?: number;
+    year_built?: number;
+    floor?: number;
+    orientation?: Orientation;
+    amenities?: Amenity[];
+    location?: GeocodedLocation; // Geocodificación del servidor al guardar (comuna, región, precisión)
   };
   analysis: {
     suggested_rent_clp?: number;
@@ -28,13 +41,24 @@ export interface SavedAnalysis {
       parking_spaces?: number;
       storage_units?: number;
       rent_clp?: number;
+      link?: string;
+      lat?: number;
+      lon?: number;
+      year_built?: number;
+      floor?: number;
+      orientation?: Orientation;
+      amenities?: Amenity[];
+      similarity_score?: number; // Calculado al guardar con los pesos de la oficina
+      distance_km?: number;
+      captured_at?: string; // Fecha de captura de la publicación (biblioteca de comparables)
     }>;
-    annual_expenses: {
-      maintenance_clp: number;
-      property_tax_clp: number;
-      insurance_clp: number;
-    };
+    annual_expenses: AnnualExpenses; // Gastos del propietario ítem por ítem
     uf_value_clp: number;
+    financing?: FinancingInput; // Crédito hipotecario del propietario (opcional)
+    tax?: TaxInput; // Tramo de impuesto del propietario (opcional)
+    plan_catalog?: PlanCatalog; // Copia del catálogo usado, para reproducir los planes
+    similarity_weights?: SimilarityWeights; // Pesos de similitud de la oficina al guardar
+    market_benchmark?: MarketRentBenchmark; // Índice de la comuna al guardar (si faltaban comparables)
   };
   calculations: {
     cap_rate: number;
@@ -43,24 +67,38 @@ export interface SavedAnalysis {
     vacancy_cost_per_month: number;
     break_even_rent_reduction: number;
     plan_comparisons: Array<{
-      plan_id: 'A' | 'B' | 'C';
+      plan_id: string;
       expected_rental_time: number;
       total_commission: number;
       net_annual_income: number;
       vacancy_risk_score: number;
       recommendation_score: number;
     }>;
+    leveraged_returns?: LeveragedReturns;
+    after_tax?: AfterTaxReturns;
   };
   metadata: {
     created_at: string; // ISO date string
     updated_at: string; // ISO date string
     broker_email: string;
-    status: 'draft' | 'sent_to_client' | 'client_responded' | 'published' | 'archived';
+    status: ProposalStatus;
+    status_timestamps?: Partial<Record<ProposalStatus, string>>; // Última vez que entró a cada estado (ISO)
+    client_email?: string; // Requerido para enviar la propuesta
+    client_name?: string;
+    client_response?: ProposalClientResponse; // Requerida para pasar a client_responded
+    expires_at?: string; // Plazo del cliente para responder, se fija al enviar (ISO)
+    reminders_sent?: number[]; // Recordatorios ya enviados, en días antes del vencimiento
     tags?: string[]; // Para categorización
     notes?: string; // Notas adicionales del broker
   };
 }
 
+export interface ProposalClientResponse {
+  plan_ids_accepted: string[];
+  response_date: string; // ISO date string
+  notes?: string;
+}
+
 export interface SavedAnalysisFormData {
   title: string;
   property_address: string;
@@ -71,42 +109,80 @@ export interface SavedAnalysisFormData {
   bathrooms: string;
   parking_spaces: string;
   storage_units: string;
+  property_lat?: string;
+  property_lon?: string;
+  property_year_built?: string;
+  property_floor?: string;
+  property_orientation?: string;
+  property_amenities?: string;
+  property_location?: GeocodedLocation; // Lo completa el servidor al guardar
   suggested_rent_clp?: string;
   suggested_rent_uf?: string;
   rent_currency: 'CLP' | 'UF';
   capture_price_clp?: string;
   capture_price_uf?: string;
   capture_price_currency?: 'CLP' | 'UF';
-  comparable_1_address?: string;
-  comparable_1_m2?: string;
-  comparable_1_bedrooms?: string;
-  comparable_1_bathrooms?: string;
-  comparable_1_parking?: string;
-  comparable_1_storage?: string;
-  comparable_1_price?: string;
-  comparable_2_address?: string;
-  comparable_2_m2?: string;
-  comparable_2_bedrooms?: string;
-  comparable_2_bathrooms?: string;
-  comparable_2_parking?: string;
-  comparable_2_storage?: string;
-  comparable_2_price?: string;
-  comparable_3_address?: string;
-  comparable_3_m2?: string;
-  comparable_3_bedrooms?: string;
-  comparable_3_bathrooms?: string;
-  comparable_3_parking?: string;
-  comparable_3_storage?: string;
-  comparable_3_price?: string;
+  comparables?: ComparableFormEntry[];
   annual_maintenance_clp: string;
   annual_property_tax_clp: string;
   annual_insurance_clp: string;
+  common_expenses_monthly_clp?: string;
+  common_expenses_paid_by?: CommonExpensesPayer;
+  administration_percentage?: string;
+  repairs_reserve_percentage?: string;
+  lease_commission_percentage?: string;
+  other_one_off_costs_clp?: string;
   uf_value_clp: string;
+  mortgage_down_payment_uf?: string;
+  mortgage_loan_uf?: string;
+  mortgage_annual_rate?: string;
+  mortgage_term_years?: string;
+  tax_marginal_bracket?: string;
+  tax_is_dfl2?: string;
+  tax_dfl2_properties_owned?: string;
+  plan_catalog?: PlanCatalog;
+  similarity_weights?: SimilarityWeights;
+  market_benchmark?: MarketRentBenchmark;
   broker_email: string;
   notes?: string;
   tags?: string[];
 }
 
+// Registro guardado que no se pudo migrar ni validar: se aparta sin borrarlo para revisarlo a mano
+export interface QuarantinedAnalysis {
+  id?: string;
+  schemaVersion?: number;
+  reasons: string[];
+  quarantined_at: string; // ISO date string
+  record: unknown; // El registro tal como estaba guardado
+}
+
+// Historial de cambios: una revisión por cada guardado, nunca se modifica ni se borra
+export interface AnalysisFieldChange {
+  path: string; // Ruta del campo, p. ej. "analysis.comparable_properties[1].rent_clp"
+  before?: unknown;
+  after?: unknown;
+}
+
+export type AnalysisRevisionAction = 'created' | 'updated' | 'restored' | 'deleted';
+
+export interface AnalysisRevision {
+  analysis_id: string;
+  revision: number; // Correlativo por análisis, desde 1
+  action: AnalysisRevisionAction;
+  author: string;
+  created_at: string; // ISO date string
+  changes: AnalysisFieldChange[]; // Vacío al crear y al eliminar
+  snapshot?: SavedAnalysis; // Análisis completo después del cambio (no existe en 'deleted')
+  restored_from?: number; // Revisión restaurada
+}
+
+// Respuesta de GET /api/analyses/[id]/history (sin las copias completas)
+export interface AnalysisHistoryResponse {
+  analysis_id: string;
+  revisions: Array<Omit<AnalysisRevision, 'snapshot'> & { restorable: boolean }>;
+}
+
 // Filtros para la búsqueda de análisis
 export interface AnalysisFilters {
   search?: string; // Búsqueda en dirección o título
@@ -132,11 +208,25 @@ export interface AnalysisListResponse {
 }
 
 // Utilidades para conversión de tipos
+// Texto del formulario a número; vacío o inválido = undefined
+function optionalNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return isFinite(parsed) ? parsed : undefined;
+}
+
+function optionalText(value: number | undefined): string | undefined {
+  return value !== undefined ? value.toString() : undefined;
+}
+
+// scoredComparables: comparables del estudio de mercado (id = posición en la lista), para guardar su similitud
 export function formDataToSavedAnalysis(
   formData: SavedAnalysisFormData,
-  calculations?: SavedAnalysis['calculations']
+  calculations?: SavedAnalysis['calculations'],
+  scoredComparables: ComparableProperty[] = []
 ): Omit<SavedAnalysis, 'id' | 'metadata'> {
   return {
+    schemaVersion: SAVED_ANALYSIS_SCHEMA_VERSION,
     title: formData.title,
     property: {
       address: formData.property_address,
@@ -147,6 +237,13 @@ export function formDataToSavedAnalysis(
       bathrooms: parseInt(formData.bathrooms),
       parking_spaces: parseInt(formData.parking_spaces || '0'),
       storage_units: parseInt(formData.storage_units || '0'),
+      lat: optionalNumber(formData.property_lat),
+      lon: optionalNumber(formData.property_lon),
+      year_built: optionalNumber(formData.property_year_built),
+      floor: optionalNumber(formData.property_floor),
+      orientation: (formData.property_orientation || undefined) as Orientation | undefined,
+      amenities: formData.property_amenities ? formData.property_amenities.split(',') as Amenity[] : undefined,
+      location: formData.property_location,
     },
     analysis: {
       suggested_rent_clp: formData.suggested_rent_clp ? parseFloat(formData.suggested_rent_clp) : undefined,
@@ -155,41 +252,57 @@ export function formDataToSavedAnalysis(
       capture_price_clp: formData.capture_price_clp ? parseFloat(formData.capture_price_clp) : undefined,
       capture_price_uf: formData.capture_price_uf ? parseFloat(formData.capture_price_uf) : undefined,
       capture_price_currency: formData.capture_price_currency,
-      comparable_properties: [
-        {
-          address: formData.comparable_1_address,
-          size_m2: formData.comparable_1_m2 ? parseFloat(formData.comparable_1_m2) : undefined,
-          bedrooms: formData.comparable_1_bedrooms ? parseInt(formData.comparable_1_bedrooms) : undefined,
-          bathrooms: formData.comparable_1_bathrooms ? parseInt(formData.comparable_1_bathrooms) : undefined,
-          parking_spaces: formData.comparable_1_parking ? parseInt(formData.comparable_1_parking) : undefined,
-          storage_units: formData.comparable_1_storage ? parseInt(formData.comparable_1_storage) : undefined,
-          rent_clp: formData.comparable_1_price ? parseFloat(formData.comparable_1_price) : undefined,
-        },
-        {
-          address: formData.comparable_2_address,
-          size_m2: formData.comparable_2_m2 ? parseFloat(formData.comparable_2_m2) : undefined,
-          bedrooms: formData.comparable_2_bedrooms ? parseInt(formData.comparable_2_bedrooms) : undefined,
-          bathrooms: formData.comparable_2_bathrooms ? parseInt(formData.comparable_2_bathrooms) : undefined,
-          parking_spaces: formData.comparable_2_parking ? parseInt(formData.comparable_2_parking) : undefined,
-          storage_units: formData.comparable_2_storage ? parseInt(formData.comparable_2_storage) : undefined,
-          rent_clp: formData.comparable_2_price ? parseFloat(formData.comparable_2_price) : undefined,
-        },
-        {
-          address: formData.comparable_3_address,
-          size_m2: formData.comparable_3_m2 ? parseFloat(formData.comparable_3_m2) : undefined,
-          bedrooms: formData.comparable_3_bedrooms ? parseInt(formData.comparable_3_bedrooms) : undefined,
-          bathrooms: formData.comparable_3_bathrooms ? parseInt(formData.comparable_3_bathrooms) : undefined,
-          parking_spaces: formData.comparable_3_parking ? parseInt(formData.comparable_3_parking) : undefined,
-          storage_units: formData.comparable_3_storage ? parseInt(formData.comparable_3_storage) : undefined,
-          rent_clp: formData.comparable_3_price ? parseFloat(formData.comparable_3_price) : undefined,
-        },
-      ].filter(comp => comp.address), // Solo incluir comparables con dirección
+      comparable_properties: (formData.comparables || [])
+        .map((comp, index) => ({
+          address: comp.address,
+          size_m2: comp.m2 ? parseFloat(comp.m2) : undefined,
+          bedrooms: comp.bedrooms ? parseInt(comp.bedrooms) : undefined,
+          bathrooms: comp.bathrooms ? parseInt(comp.bathrooms) : undefined,
+          parking_spaces: comp.parking ? parseInt(comp.parking) : undefined,
+          storage_units: comp.storage ? parseInt(comp.storage) : undefined,
+          rent_clp: comp.price ? parseFloat(comp.price) : undefined,
+          link: comp.link || undefined,
+          lat: optionalNumber(comp.lat),
+          lon: optionalNumber(comp.lon),
+          year_built: optionalNumber(comp.year_built),
+          floor: optionalNumber(comp.floor),
+          orientation: (comp.orientation || undefined) as Orientation | undefined,
+          amenities: comp.amenities ? comp.amenities.split(',') as Amenity[] : undefined,
+          similarity_score: scoredComparables.find(scored => scored.id === index + 1)?.similarity_score,
+          distance_km: scoredComparables.find(scored => scored.id === index + 1)?.distance_km,
+          captured_at: comp.captured_at || undefined,
+        }))
+        .filter(comp => comp.address), // Solo incluir comparables con dirección
       annual_expenses: {
         maintenance_clp: parseFloat(formData.annual_maintenance_clp || '0'),
         property_tax_clp: parseFloat(formData.annual_property_tax_clp || '0'),
         insurance_clp: parseFloat(formData.annual_insurance_clp || '0'),
+        common_expenses_monthly_clp: parseFloat(formData.common_expenses_monthly_clp || '0'),
+        common_expenses_paid_by: formData.common_expenses_paid_by === 'owner' ? 'owner' : 'tenant',
+        administration_percentage: parseFloat(formData.administration_percentage || '0'),
+        repairs_reserve_percentage: parseFloat(formData.repairs_reserve_percentage || '0'),
+        lease_commission_percentage: parseFloat(formData.lease_commission_percentage || '0'),
+        other_one_off_costs_clp: parseFloat(formData.other_one_off_costs_clp || '0'),
       },
       uf_value_clp: parseFloat(formData.uf_value_clp),
+      financing: formData.mortgage_loan_uf && parseFloat(formData.mortgage_loan_uf) > 0
+        ? {
+            down_payment_uf: parseFloat(formData.mortgage_down_payment_uf || '0'),
+            loan_uf: parseFloat(formData.mortgage_loan_uf),
+            annual_rate_percentage: parseFloat(formData.mortgage_annual_rate || '0'),
+            term_years: parseFloat(formData.mortgage_term_years || '0'),
+          }
+        : undefined,
+      tax: formData.tax_marginal_bracket
+        ? {
+            marginal_bracket_index: parseInt(formData.tax_marginal_bracket),
+            is_dfl2: formData.tax_is_dfl2 === 'true',
+            dfl2_properties_owned: formData.tax_dfl2_properties_owned ? parseInt(formData.tax_dfl2_properties_owned) : undefined,
+          }
+        : undefined,
+      plan_catalog: formData.plan_catalog,
+      similarity_weights: formData.similarity_weights,
+      market_benchmark: formData.market_benchmark,
     },
     calculations: calculations || {
       cap_rate: 0,
@@ -213,37 +326,56 @@ export function savedAnalysisToFormData(analysis: SavedAnalysis): SavedAnalysisF
     bathrooms: analysis.property.bathrooms.toString(),
     parking_spaces: analysis.property.parking_spaces.toString(),
     storage_units: analysis.property.storage_units.toString(),
+    property_lat: optionalText(analysis.property.lat),
+    property_lon: optionalText(analysis.property.lon),
+    property_year_built: optionalText(analysis.property.year_built),
+    property_floor: optionalText(analysis.property.floor),
+    property_orientation: analysis.property.orientation,
+    property_amenities: analysis.property.amenities?.join(','),
+    property_location: analysis.property.location,
     suggested_rent_clp: analysis.analysis.suggested_rent_clp?.toString(),
     suggested_rent_uf: analysis.analysis.suggested_rent_uf?.toString(),
     rent_currency: analysis.analysis.rent_currency,
     capture_price_clp: analysis.analysis.capture_price_clp?.toString(),
     capture_price_uf: analysis.analysis.capture_price_uf?.toString(),
     capture_price_currency: analysis.analysis.capture_price_currency,
-    comparable_1_address: analysis.analysis.comparable_properties[0]?.address,
-    comparable_1_m2: analysis.analysis.comparable_properties[0]?.size_m2?.toString(),
-    comparable_1_bedrooms: analysis.analysis.comparable_properties[0]?.bedrooms?.toString(),
-    comparable_1_bathrooms: analysis.analysis.comparable_properties[0]?.bathrooms?.toString(),
-    comparable_1_parking: analysis.analysis.comparable_properties[0]?.parking_spaces?.toString(),
-    comparable_1_storage: analysis.analysis.comparable_properties[0]?.storage_units?.toString(),
-    comparable_1_price: analysis.analysis.comparable_properties[0]?.rent_clp?.toString(),
-    comparable_2_address: analysis.analysis.comparable_properties[1]?.address,
-    comparable_2_m2: analysis.analysis.comparable_properties[1]?.size_m2?.toString(),
-    comparable_2_bedrooms: analysis.analysis.comparable_properties[1]?.bedrooms?.toString(),
-    comparable_2_bathrooms: analysis.analysis.comparable_properties[1]?.bathrooms?.toString(),
-    comparable_2_parking: analysis.analysis.comparable_properties[1]?.parking_spaces?.toString(),
-    comparable_2_storage: analysis.analysis.comparable_properties[1]?.storage_units?.toString(),
-    comparable_2_price: analysis.analysis.comparable_properties[1]?.rent_clp?.toString(),
-    comparable_3_address: analysis.analysis.comparable_properties[2]?.address,
-    comparable_3_m2: analysis.analysis.comparable_properties[2]?.size_m2?.toString(),
-    comparable_3_bedrooms: analysis.analysis.comparable_properties[2]?.bedrooms?.toString(),
-    comparable_3_bathrooms: analysis.analysis.comparable_properties[2]?.bathrooms?.toString(),
-    comparable_3_parking: analysis.analysis.comparable_properties[2]?.parking_spaces?.toString(),
-    comparable_3_storage: analysis.analysis.comparable_properties[2]?.storage_units?.toString(),
-    comparable_3_price: analysis.analysis.comparable_properties[2]?.rent_clp?.toString(),
+    comparables: analysis.analysis.comparable_properties.map(comp => ({
+      address: comp.address,
+      m2: comp.size_m2?.toString(),
+      bedrooms: comp.bedrooms?.toString(),
+      bathrooms: comp.bathrooms?.toString(),
+      parking: comp.parking_spaces?.toString(),
+      storage: comp.storage_units?.toString(),
+      price: comp.rent_clp?.toString(),
+      link: comp.link,
+      lat: optionalText(comp.lat),
+      lon: optionalText(comp.lon),
+      year_built: optionalText(comp.year_built),
+      floor: optionalText(comp.floor),
+      orientation: comp.orientation,
+      amenities: comp.amenities?.join(','),
+      captured_at: comp.captured_at,
+    })),
     annual_maintenance_clp: analysis.analysis.annual_expenses.maintenance_clp.toString(),
     annual_property_tax_clp: analysis.analysis.annual_expenses.property_tax_clp.toString(),
     annual_insurance_clp: analysis.analysis.annual_expenses.insurance_clp.toString(),
+    common_expenses_monthly_clp: analysis.analysis.annual_expenses.common_expenses_monthly_clp?.toString(),
+    common_expenses_paid_by: analysis.analysis.annual_expenses.common_expenses_paid_by,
+    administration_percentage: analysis.analysis.annual_expenses.administration_percentage?.toString(),
+    repairs_reserve_percentage: analysis.analysis.annual_expenses.repairs_reserve_percentage?.toString(),
+    lease_commission_percentage: analysis.analysis.annual_expenses.lease_commission_percentage?.toString(),
+    other_one_off_costs_clp: analysis.analysis.annual_expenses.other_one_off_costs_clp?.toString(),
     uf_value_clp: analysis.analysis.uf_value_clp.toString(),
+    mortgage_down_payment_uf: analysis.analysis.financing?.down_payment_uf.toString(),
+    mortgage_loan_uf: analysis.analysis.financing?.loan_uf.toString(),
+    mortgage_annual_rate: analysis.analysis.financing?.annual_rate_percentage.toString(),
+    mortgage_term_years: analysis.analysis.financing?.term_years.toString(),
+    tax_marginal_bracket: analysis.analysis.tax?.marginal_bracket_index.toString(),
+    tax_is_dfl2: analysis.analysis.tax?.is_dfl2.toString(),
+    tax_dfl2_properties_owned: analysis.analysis.tax?.dfl2_properties_owned?.toString(),
+    plan_catalog: analysis.analysis.plan_catalog,
+    similarity_weights: analysis.analysis.similarity_weights,
+    market_benchmark: analysis.analysis.market_benchmark,
     broker_email: analysis.metadata.broker_email,
     notes: analysis.metadata.notes,
     tags: analysis.metadata.tags,
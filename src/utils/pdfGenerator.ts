@@ -1,10 +1,17 @@
 import jsPDF from 'jspdf'
-import type { RentalAnalysis, PlanComparison } from '@/types/rental'
+import type { RentalAnalysis, PlanComparison, CashFlowProjection } from '@/types/rental'
+import { calculationsFromAnalysis } from '@/lib/profitability'
+import { projectCashFlow } from '@/lib/cashFlowProjection'
+import { EXPENSE_LABELS } from '@/lib/ownerExpenses'
+import { VALUATION_METHOD_LABELS } from '@/lib/comparableValuation'
+import { describeNeighborhoodDetail } from '@/lib/neighborhoodScore'
+import { buildComparablesMapLayout, MAP_VIEW, SIMILARITY_COLORS } from '@/lib/comparablesMap'
 
 interface PDFOptions {
   analysis: RentalAnalysis
   selectedPlanIds: string[]
-  planComparisons: PlanComparison[]
+  planComparisons?: PlanComparison[] // Si no se entregan, se calculan desde el análisis
+  projection?: CashFlowProjection // Si no se entrega, se proyecta con los valores por defecto
   brokerInfo?: {
     name: string
     email: string
@@ -141,12 +148,23 @@ export class RentalPDFGenerator {
     this.addKeyValue('Valor de la Propiedad', this.formatCurrency(analysis.cap_rate_analysis.property_value_clp))
     this.addKeyValue('Ingreso Anual Bruto', this.formatCurrency(analysis.cap_rate_analysis.annual_rental_income))
     this.addKeyValue('Gastos Anuales', this.formatCurrency(analysis.cap_rate_analysis.annual_expenses))
+    const breakdown = analysis.cap_rate_analysis.expense_breakdown
+    if (breakdown) {
+      (Object.keys(EXPENSE_LABELS) as Array<keyof typeof EXPENSE_LABELS>)
+        .filter(key => breakdown[key] > 0)
+        .forEach(key => this.addKeyValue(`  ${EXPENSE_LABELS[key]}`, this.formatCurrency(breakdown[key])))
+    }
     this.addKeyValue('NOI (Ingreso Neto)', this.formatCurrency(analysis.cap_rate_analysis.net_operating_income))
+    if (analysis.after_tax) {
+      this.addKeyValue(`Impuesto Anual Estimado (AT ${analysis.after_tax.tax_year})`, this.formatCurrency(analysis.after_tax.annual_tax_clp))
+      this.addKeyValue('Rentabilidad Después de Impuestos', `${analysis.after_tax.after_tax_yield_percentage.toFixed(2)}%`)
+    }
     
     this.currentY += 5
     this.addSubtitle('Impacto de Vacancia:')
-    this.addKeyValue('Pérdida por mes vacante', `${analysis.vacancy_impact.percentage_annual_loss.toFixed(1)}%`)
-    this.addKeyValue('Costo mensual de vacancia', this.formatCurrency(analysis.vacancy_impact.lost_income_clp))
+    this.addKeyValue('Días vacantes esperados', `${analysis.vacancy_impact.days_vacant} días`)
+    this.addKeyValue('Pérdida anual esperada', `${analysis.vacancy_impact.percentage_annual_loss.toFixed(1)}%`)
+    this.addKeyValue('Costo anual de vacancia', this.formatCurrency(analysis.vacancy_impact.lost_income_clp))
     this.addKeyValue('Reducción máxima viable', `${analysis.vacancy_impact.break_even_reduction_percentage.toFixed(1)}%`)
     
     this.addSeparator()
@@ -158,16 +176,126 @@ export class RentalPDFGenerator {
     this.addKeyValue('Precio promedio por m²', `$${analysis.market_study.average_rent_per_m2.toLocaleString('es-CL')}`)
     this.addKeyValue('Rango mínimo de mercado', this.formatCurrency(analysis.market_study.market_range.min_rent_clp))
     this.addKeyValue('Rango máximo de mercado', this.formatCurrency(analysis.market_study.market_range.max_rent_clp))
+    const benchmark = analysis.market_study.market_benchmark
+    if (benchmark) {
+      this.addKeyValue('Índice de arriendos', `${benchmark.comuna} (${benchmark.sample_size} muestras, ${benchmark.from_month} a ${benchmark.to_month})`)
+    }
+    const valuation = analysis.market_study.valuation
+    if (valuation) {
+      this.addKeyValue('Arriendo estimado por comparables', this.formatCurrency(valuation.estimate_clp))
+      this.addKeyValue('Método de valoración', VALUATION_METHOD_LABELS[valuation.method])
+      this.addKeyValue('Intervalo de confianza', `${valuation.confidence_level_percentage}% (${valuation.comparables_used} comparables, ${valuation.outliers_rejected} atípicos descartados)`)
+    }
     
     this.currentY += 5
     this.addSubtitle('Factores del Sector:')
     this.addKeyValue('Score de Ubicación', `${analysis.market_study.neighborhood_factors.location_score}/10`)
     this.addKeyValue('Acceso a Transporte', `${analysis.market_study.neighborhood_factors.transportation_access}/10`)
     this.addKeyValue('Servicios y Amenidades', `${analysis.market_study.neighborhood_factors.amenities_score}/10`)
+    for (const detail of analysis.market_study.neighborhood_factors.breakdown || []) {
+      this.addText(`${describeNeighborhoodDetail(detail)} (+${detail.points}/${detail.max_points})`, 9, 5)
+    }
     
     this.addSeparator()
   }
 
+  // Mapa esquemático (sin teselas de fondo): propiedad, comparables con su precio por m² y anillos de distancia
+  private addComparablesMap(analysis: RentalAnalysis): void {
+    const layout = buildComparablesMapLayout(analysis.property, analysis.market_study.comparable_properties)
+    if (!layout || layout.markers.length === 0) return
+
+    const boxWidth = this.pageWidth - 2 * this.margin
+    const scale = boxWidth / MAP_VIEW.WIDTH
+    const boxHeight = MAP_VIEW.HEIGHT * scale
+    const toPage = (x: number, y: number) => ({ x: this.margin + x * scale, y: this.currentY + y * scale })
+    const setColor = (hex: string, target: 'fill' | 'draw' | 'text') => {
+      const [r, g, b] = [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16))
+      if (target === 'fill') this.pdf.setFillColor(r, g, b)
+      else if (target === 'draw') this.pdf.setDrawColor(r, g, b)
+      else this.pdf.setTextColor(r, g, b)
+    }
+
+    this.checkPageBreak(boxHeight + 25)
+    this.addSubtitle('Mapa de comparables:')
+
+    this.pdf.setDrawColor(200, 200, 200)
+    this.pdf.setFillColor(248, 250, 252)
+    this.pdf.rect(this.margin, this.currentY, boxWidth, boxHeight, 'FD')
+
+    if (layout.subject) {
+      const center = toPage(layout.subject.x, layout.subject.y)
+      setColor(SIMILARITY_COLORS.SUBJECT, 'draw')
+      this.pdf.setLineDashPattern([2, 1.5], 0)
+      this.pdf.setFontSize(7)
+      setColor(SIMILARITY_COLORS.SUBJECT, 'text')
+      for (const ring of layout.rings) {
+        this.pdf.circle(center.x, center.y, ring.radius_px * scale, 'S')
+        this.pdf.text(ring.radius_km < 1 ? `${ring.radius_km * 1000} m` : `${ring.radius_km} km`, center.x + 1, center.y - ring.radius_px * scale - 1)
+      }
+      this.pdf.setLineDashPattern([], 0)
+    }
+
+    this.pdf.setFontSize(7)
+    for (const marker of layout.markers) {
+      const point = toPage(marker.x, marker.y)
+      setColor(marker.color, 'fill')
+      this.pdf.circle(point.x, point.y, 1.8, 'F')
+      this.pdf.setTextColor(17, 24, 39)
+      this.pdf.text(`${marker.id}. ${marker.label}`, point.x + 2.5, point.y + 1)
+    }
+
+    if (layout.subject) {
+      const center = toPage(layout.subject.x, layout.subject.y)
+      setColor(SIMILARITY_COLORS.SUBJECT, 'fill')
+      this.pdf.circle(center.x, center.y, 2.5, 'F')
+    }
+
+    this.pdf.setTextColor(0, 0, 0)
+    this.pdf.setDrawColor(0, 0, 0)
+    this.currentY += boxHeight + 5
+    this.addText('Azul: propiedad. Comparables: verde similitud de 75 o más, ámbar 50-74, rojo menos de 50, gris sin puntaje.', 8)
+    if (layout.missing_coordinates > 0) {
+      this.addText(`${layout.missing_coordinates} comparable(s) sin ubicación no aparecen en el mapa.`, 8)
+    }
+  }
+
+  private addCashFlowProjection(projection: CashFlowProjection): void {
+    const { settings } = projection
+    const indexationLabel = settings.indexation === 'UF'
+      ? 'arriendo en UF'
+      : settings.indexation === 'IPC' ? `reajuste IPC cada ${settings.ipc_readjustment_months} meses` : 'sin reajuste'
+
+    this.addTitle(`PROYECCIÓN A ${settings.years} AÑOS`, 14)
+    this.addText(`Supuestos: ${indexationLabel}, inflación ${settings.annual_inflation_percentage}% anual, comisión ${settings.commission_percentage}%`, 9)
+    this.currentY += 3
+
+    const columns = [this.margin, this.margin + 15, this.margin + 55, this.margin + 95, this.margin + 135]
+    this.checkPageBreak(12)
+    this.pdf.setFontSize(9)
+    this.pdf.setFont('helvetica', 'bold')
+    const headers = ['Año', 'Arriendo bruto', 'Gastos + comisión', 'NOI', 'Acumulado']
+    headers.forEach((header, i) => this.pdf.text(header, columns[i], this.currentY))
+    this.currentY += 6
+
+    this.pdf.setFont('helvetica', 'normal')
+    projection.years.forEach(row => {
+      this.checkPageBreak(8)
+      const values = [
+        row.year.toString(),
+        this.formatCurrency(row.gross_rent_clp),
+        this.formatCurrency(row.expenses_clp + row.commission_clp + row.vacancy_loss_clp),
+        this.formatCurrency(row.net_operating_income),
+        this.formatCurrency(row.cumulative_income_clp)
+      ]
+      values.forEach((value, i) => this.pdf.text(value, columns[i], this.currentY))
+      this.currentY += 6
+    })
+
+    this.currentY += 3
+    this.addKeyValue('Ingreso neto acumulado', this.formatCurrency(projection.total_net_income_clp))
+    this.addSeparator()
+  }
+
   private addRentalPlans(analysis: RentalAnalysis, selectedPlanIds: string[], planComparisons: PlanComparison[]): void {
     this.addTitle('PLANES COMERCIALES PROPUESTOS', 14)
     
@@ -203,6 +331,10 @@ export class RentalPDFGenerator {
         this.currentY += 3
         this.addText('Proyecciones:', 10, 10)
         this.addKeyValue('Tiempo esperado de arriendo', `${comparison.expected_rental_time} días`)
+        if (comparison.simulation) {
+          this.addKeyValue('Rango probable (P10-P90)', `${comparison.simulation.p10_days}-${comparison.simulation.p90_days} días`)
+          this.addKeyValue('Probabilidad vacante al día 30', `${(comparison.simulation.probability_vacant_day_30 * 100).toFixed(0)}%`)
+        }
         this.addKeyValue('Comisión total anual', this.formatCurrency(comparison.total_commission))
         this.addKeyValue('Ingreso neto anual', this.formatCurrency(comparison.net_annual_income))
         this.addKeyValue('Score de riesgo vacancia', `${comparison.vacancy_risk_score}/10`)
@@ -215,7 +347,7 @@ export class RentalPDFGenerator {
     })
   }
 
-  private addFooter(): void {
+  private addFooter(analysis: RentalAnalysis): void {
     this.currentY += 20
     
     this.addTitle('INFORMACIÓN IMPORTANTE', 12)
@@ -224,7 +356,7 @@ export class RentalPDFGenerator {
       '• El cliente debe aceptar al menos 1 plan comercial para publicar la propiedad',
       '• Los ajustes de precio se realizan automáticamente según el cronograma establecido',
       '• Si no se arrienda en 30 días, se puede mantener 30 días más ajustando la propuesta comercial',
-      '• Cada mes de vacancia representa una pérdida del 8.33% de la rentabilidad anual',
+      `• Cada mes de vacancia representa una pérdida del ${analysis.vacancy_impact.percentage_annual_loss.toFixed(2)}% de la rentabilidad anual`,
       '• En caso de no aceptar ningún plan, se debe comunicar inmediatamente a gerencia'
     ]
     
@@ -249,15 +381,18 @@ export class RentalPDFGenerator {
   }
 
   public generatePDF(options: PDFOptions): Uint8Array {
-    const { analysis, selectedPlanIds, planComparisons, brokerInfo } = options
+    const { analysis, selectedPlanIds, brokerInfo } = options
+    const planComparisons = options.planComparisons || calculationsFromAnalysis(analysis).plan_comparisons
     
     // Generar contenido del PDF
     this.addHeader(analysis, brokerInfo)
     this.addPropertySummary(analysis)
     this.addAnalysisSummary(analysis)
     this.addMarketStudy(analysis)
+    this.addComparablesMap(analysis)
+    this.addCashFlowProjection(options.projection || projectCashFlow(analysis))
     this.addRentalPlans(analysis, selectedPlanIds, planComparisons)
-    this.addFooter()
+    this.addFooter(analysis)
     
     // Retornar el PDF como array de bytes
     const arrayBuffer = this.pdf.output('arraybuffer')
@@ -1,10 +1,14 @@
 import jsPDF from 'jspdf'
-import type { RentalAnalysis, PlanComparison } from '@/types/rental'
+import type { RentalAnalysis, PlanComparison, CashFlowProjection } from '@/types/rental'
+import { calculationsFromAnalysis } from '@/lib/profitability'
+import { projectCashFlow } from '@/lib/cashFlowProjection'
+import { planBadge } from '@/lib/planCatalog'
 
 interface SimplePDFOptions {
   analysis: RentalAnalysis
   selectedPlanIds: string[]
-  planComparisons: PlanComparison[]
+  planComparisons?: PlanComparison[] // Si no se entregan, se calculan desde el análisis
+  projection?: CashFlowProjection // Si no se entrega, se proyecta con los valores por defecto
   brokerInfo?: {
     name: string
     email: string
@@ -13,7 +17,9 @@ interface SimplePDFOptions {
 }
 
 export const generateSimpleRentalPDF = (options: SimplePDFOptions & { rentCurrency?: 'CLP' | 'UF'; rentValueUF?: number }) => {
-  const { analysis, selectedPlanIds, planComparisons, brokerInfo, rentCurrency = 'CLP', rentValueUF } = options
+  const { analysis, selectedPlanIds, brokerInfo, rentCurrency = 'CLP', rentValueUF } = options
+  const planComparisons = options.planComparisons || calculationsFromAnalysis(analysis).plan_comparisons
+  const projection = options.projection || projectCashFlow(analysis)
   
   try {
     const doc = new jsPDF()
@@ -100,9 +106,20 @@ export const generateSimpleRentalPDF = (options: SimplePDFOptions & { rentCurren
     addText('📊 INDICADORES CLAVE', 16, true, [79, 70, 229])
     addText(`🎯 CAP Rate: ${analysis.cap_rate_analysis.cap_rate_percentage.toFixed(2)}%`, 12, true, [34, 197, 94])
     addText(`📈 Ingreso Neto Anual: ${formatCurrency(analysis.cap_rate_analysis.net_operating_income)}`, 12)
-    addText(`⚠️ Pérdida por mes vacante: ${analysis.vacancy_impact.percentage_annual_loss.toFixed(1)}%`, 12, false, [234, 88, 12])
+    if (analysis.after_tax) {
+      addText(`🧮 Después de impuestos: ${analysis.after_tax.after_tax_yield_percentage.toFixed(2)}% (${formatCurrency(analysis.after_tax.after_tax_income_clp)} al año)`, 12)
+    }
+    addText(`⚠️ Vacancia esperada: ${analysis.vacancy_impact.days_vacant} días (${analysis.vacancy_impact.percentage_annual_loss.toFixed(1)}% de pérdida anual)`, 12, false, [234, 88, 12])
     yPosition += 15
     
+    // Proyección de flujo de caja
+    addText(`📅 PROYECCIÓN A ${projection.settings.years} AÑOS`, 16, true, [79, 70, 229])
+    projection.years.forEach(row => {
+      addText(`   • Año ${row.year}: NOI ${formatCurrency(row.net_operating_income)} | Acumulado ${formatCurrency(row.cumulative_income_clp)}`, 10)
+    })
+    addText(`💵 Ingreso neto acumulado: ${formatCurrency(projection.total_net_income_clp)}`, 12, true, [34, 197, 94])
+    yPosition += 10
+    
     // Planes seleccionados con estilo destacado
     addText('⚙️ PLANES COMERCIALES SELECCIONADOS', 16, true, [79, 70, 229])
     yPosition += 5
@@ -112,20 +129,21 @@ export const generateSimpleRentalPDF = (options: SimplePDFOptions & { rentCurren
     selectedPlans.forEach((plan, index) => {
       if (index > 0) yPosition += 8
       
-      // Background para cada plan
-      const planColors = {
-        'A': [240, 253, 244], // Verde claro
-        'B': [255, 247, 237], // Naranja claro  
-        'C': [239, 246, 255]  // Azul claro
-      }
+      // Background para cada plan según su posición en el catálogo
+      const planColors = [
+        [240, 253, 244], // Verde claro
+        [255, 247, 237], // Naranja claro
+        [239, 246, 255]  // Azul claro
+      ]
+      const planPosition = analysis.plans.indexOf(plan)
       
-      const planColor = planColors[plan.id as keyof typeof planColors] || [250, 250, 250]
+      const planColor = planColors[planPosition % planColors.length]
       doc.setFillColor(planColor[0], planColor[1], planColor[2])
       
       const planHeight = 45 + plan.price_adjustment_schedule.length * 6
       doc.rect(margin - 5, yPosition - 5, pageWidth - 2*margin + 10, planHeight, 'F')
       
-      const planIcon = plan.id === 'A' ? '🥇' : plan.id === 'B' ? '🥈' : '🥉'
+      const planIcon = planBadge(planPosition)
       addText(`${planIcon} Plan ${plan.id} - ${plan.name}`, 14, true, [79, 70, 229])
       addText(plan.description, 10)
       addText(`💰 Precio inicial: ${formatCurrency(plan.initial_rent_clp)}`, 12, true, [34, 197, 94])
@@ -161,7 +179,7 @@ export const generateSimpleRentalPDF = (options: SimplePDFOptions & { rentCurren
     addText('• El análisis es válido por 30 días desde la fecha de generación.', 10)
     addText('• Se requiere aceptación de al menos 1 plan para proceder con publicación.', 10)
     addText('• Los ajustes de precio se realizan automáticamente según cronograma.', 10)
-    addText('• Cada mes de vacancia representa una pérdida del 1.83% de rentabilidad anual.', 10, false, [234, 88, 12])
+    addText(`• Con el cronograma del plan principal se esperan ${analysis.vacancy_impact.days_vacant} días vacantes, una pérdida del ${analysis.vacancy_impact.percentage_annual_loss.toFixed(2)}% de rentabilidad anual.`, 10, false, [234, 88, 12])
     
     // Sección de aceptación y firma
     yPosition += 20
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') }
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    env: { ANALYSES_STORAGE_DRIVER: 'memory' }
+  }
+})